@@ -0,0 +1,34 @@
+/**
+ * File: tasks.ts
+ * Description: Task factory shared by the tests. Tasks have every field a
+ * stored task has after validation, so round-trips through import, export
+ * and persistence compare equal.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "../features/todo/todoSlice";
+
+/**
+ * A valid, open task due 2025-08-01 in Math.
+ *
+ * @param id - Task ID, also used in the default text
+ * @param overrides - Fields to change
+ */
+export const makeTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  subjectId: "subject:Math",
+  priority: "Medium",
+  dueDate: "2025-08-01",
+  dueTime: null,
+  createdAt: "2025-07-01T09:00:00.000Z",
+  completedAt: null,
+  deletedAt: null,
+  recurrence: null,
+  subtasks: [],
+  estimateMinutes: null,
+  timeEntries: [],
+  ...overrides
+});
@@ -0,0 +1,225 @@
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import {
+  Attachment,
+  AttachmentStore,
+  attachmentPath,
+  bundleAttachments,
+  findOrphans,
+  formatFileSize,
+  isAttachmentPath,
+  ORPHAN_GRACE_MS,
+  restoreAttachments
+} from "../features/attachments/attachments";
+import { startAttachmentCleanupListener } from "../features/attachments/attachmentCleanupListener";
+import { parseBackup } from "../features/backup/backup";
+import { SnapshotStore, takeSnapshot } from "../features/backup/snapshots";
+import settingsReducer from "../features/settings/settingsSlice";
+import todoReducer, {
+  addTask,
+  deleteTask,
+  purgeExpiredTrash,
+  purgeTask,
+  Task
+} from "../features/todo/todoSlice";
+import { undoable } from "../features/todo/undoHistory";
+
+const NOW = Date.parse("2025-08-01T12:00:00.000Z");
+const OLD = NOW - ORPHAN_GRACE_MS;
+
+const memoryStore = (initial: Record<string, string> = {}, modifiedAt = OLD) => {
+  const files = new Map(Object.entries(initial));
+  const store: AttachmentStore = {
+    copyIn: async (sourceUri, path) => {
+      files.set(path, sourceUri);
+    },
+    list: async () => [...files.keys()].map(path => ({ path, modifiedAt })),
+    read: async path => files.get(path) ?? null,
+    write: async (path, base64) => {
+      files.set(path, base64);
+    },
+    remove: async path => {
+      files.delete(path);
+    }
+  };
+  return { files, store };
+};
+
+const snapshotStore = () => {
+  const files = new Map<string, string>();
+  const store: SnapshotStore = {
+    list: async () => [...files.keys()],
+    read: async name => files.get(name)!,
+    write: async (name, contents) => {
+      files.set(name, contents);
+    },
+    remove: async name => {
+      files.delete(name);
+    },
+    size: async name => files.get(name)?.length ?? 0
+  };
+  return store;
+};
+
+const attachment = (id: string): Attachment => ({
+  id,
+  name: `${id}.pdf`,
+  mimeType: "application/pdf",
+  size: 2048,
+  path: `attachments/${id}-${id}.pdf`,
+  addedAt: "2025-07-31T10:00:00.000Z"
+});
+
+const withAttachments = (...attachments: Attachment[]) =>
+  ({ id: "t1", attachments }) as Task;
+
+describe("attachment paths", () => {
+  it("keep a readable, safe file name", () => {
+    expect(attachmentPath("a1", "Worksheet 3.pdf")).toBe("attachments/a1-Worksheet 3.pdf");
+    expect(attachmentPath("a1", "../../évals?.png")).toBe("attachments/a1-.._.._vals_.png");
+  });
+
+  it("reject anything outside the attachments folder", () => {
+    expect(isAttachmentPath("attachments/a1-sheet.pdf")).toBe(true);
+    expect(isAttachmentPath("attachments/../settings.json")).toBe(false);
+    expect(isAttachmentPath("attachments/sub/sheet.pdf")).toBe(false);
+    expect(isAttachmentPath("attachments/..\\sheet.pdf")).toBe(false);
+    expect(isAttachmentPath("/attachments/sheet.pdf")).toBe(false);
+    expect(isAttachmentPath("snapshot_1.json")).toBe(false);
+  });
+
+  it("format sizes for display", () => {
+    expect(formatFileSize(820)).toBe("820 B");
+    expect(formatFileSize(14 * 1024)).toBe("14 KB");
+    expect(formatFileSize(2.4 * 1024 * 1024)).toBe("2.4 MB");
+  });
+});
+
+describe("findOrphans", () => {
+  it("skips referenced files and ones still in their grace period", () => {
+    const files = [
+      { path: "attachments/a", modifiedAt: OLD },
+      { path: "attachments/b", modifiedAt: OLD },
+      { path: "attachments/c", modifiedAt: NOW - 1000 }
+    ];
+
+    expect(findOrphans(files, new Set(["attachments/a"]), NOW)).toEqual(["attachments/b"]);
+  });
+});
+
+describe("backup bundles", () => {
+  it("round-trip attachment files, leaving out missing ones", async () => {
+    const source = memoryStore({ [attachment("a").path]: "QUJD" });
+    const bundle = await bundleAttachments(
+      [withAttachments(attachment("a"), attachment("b"))],
+      source.store
+    );
+
+    expect(bundle).toEqual({
+      files: { [attachment("a").path]: "QUJD" },
+      missing: [attachment("b").path]
+    });
+
+    const target = memoryStore();
+    await restoreAttachments(bundle.files, target.store);
+    expect(Object.fromEntries(target.files)).toEqual(bundle.files);
+  });
+
+  it("are checked by parseBackup before anything is written", () => {
+    const parsed = parseBackup(
+      JSON.stringify({
+        tasks: [],
+        settings: {},
+        attachments: {
+          [attachment("a").path]: "QUJD",
+          "attachments/../settings.json": "QUJD",
+          [attachment("b").path]: 42
+        }
+      })
+    );
+
+    expect(parsed.attachments).toEqual({ [attachment("a").path]: "QUJD" });
+    expect(parsed.issues.map(issue => issue.path)).toEqual(
+      expect.arrayContaining([
+        "attachments.attachments/../settings.json",
+        `attachments.${attachment("b").path}`
+      ])
+    );
+  });
+});
+
+describe("attachment cleanup", () => {
+  const setup = () => {
+    const files = memoryStore({
+      [attachment("a").path]: "QUJD",
+      [attachment("b").path]: "QUJD"
+    });
+    const snapshots = snapshotStore();
+    const listener = createListenerMiddleware();
+    startAttachmentCleanupListener(listener.startListening, files.store, snapshots, () => NOW);
+
+    const store = configureStore({
+      reducer: { todo: undoable(todoReducer) },
+      middleware: getDefault => getDefault().prepend(listener.middleware)
+    });
+    store.dispatch(
+      addTask({
+        text: "Lab report",
+        subjectId: "subject:Math",
+        priority: "Medium",
+        dueDate: "2025-08-01",
+        attachments: [attachment("a")]
+      })
+    );
+    store.dispatch(
+      addTask({
+        text: "Essay",
+        subjectId: "subject:Math",
+        priority: "Medium",
+        dueDate: "2025-08-01",
+        attachments: [attachment("b")]
+      })
+    );
+    const trash = (text: string) => {
+      const task = store.getState().todo.tasks.find(t => t.text === text)!;
+      store.dispatch(deleteTask(task.id));
+      return task.id;
+    };
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+    return { store, files: files.files, snapshots, trash, settle };
+  };
+
+  it("keeps files the undo history can still bring back", async () => {
+    const { store, files, trash, settle } = setup();
+    store.dispatch(purgeTask(trash("Lab report")));
+    await settle();
+
+    expect(files.size).toBe(2);
+  });
+
+  it("deletes the files of tasks purged for good", async () => {
+    const { store, files, trash, settle } = setup();
+    trash("Lab report");
+    // Retention purges reset the undo history
+    store.dispatch(purgeExpiredTrash(new Date(Date.now() + 1000).toISOString()));
+    await settle();
+
+    expect(store.getState().todo.history.past).toEqual([]);
+    expect([...files.keys()]).toEqual([attachment("b").path]);
+  });
+
+  it("keeps files a kept snapshot can still bring back", async () => {
+    const { store, files, snapshots, trash, settle } = setup();
+    const data = {
+      tasks: store.getState().todo.tasks,
+      settings: settingsReducer(undefined, { type: "init" }),
+      sessions: []
+    };
+    await takeSnapshot(snapshots, data, "daily", 3, "1.0.0", "2025-08-01T08:00:00.000Z");
+
+    trash("Lab report");
+    store.dispatch(purgeExpiredTrash(new Date(Date.now() + 1000).toISOString()));
+    await settle();
+
+    expect(files.size).toBe(2);
+  });
+});
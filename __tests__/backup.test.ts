@@ -0,0 +1,239 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  BACKUP_FORMAT,
+  BackupError,
+  createBackup,
+  formatIssues,
+  parseBackup
+} from "../features/backup/backup";
+import {
+  migrateDocument,
+  SCHEMA_VERSION
+} from "../features/backup/migrations";
+import { validateSettings, validateTask } from "../features/backup/schema";
+import { loadSettingsFromStorage, SettingsState } from "../features/settings/settingsSlice";
+import { STORAGE_KEYS } from "../constants/storageKeys";
+import type { Task } from "../features/todo/todoSlice";
+import { subjectsFromNames } from "../features/settings/subjects";
+import { DEFAULT_PRIORITIES } from "../features/settings/priorities";
+
+const settings: SettingsState = {
+  themeMode: "dark",
+  subjects: subjectsFromNames(["Math"]),
+  priorities: DEFAULT_PRIORITIES,
+  notificationTime: "08:00",
+  autoCompleteTasks: false,
+  trashRetentionDays: 30,
+  dailyGoal: { type: "tasks", target: 3 },
+  focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+  snapshotsToKeep: 7
+};
+
+const task: Task = {
+  id: "t1",
+  text: "Revise optics",
+  completed: false,
+  subjectId: "subject:Math",
+  priority: "High",
+  dueDate: "2025-08-01",
+  dueTime: "16:30",
+  createdAt: "2025-07-10T09:00:00.000Z",
+  updatedAt: "2025-07-31T10:00:00.000Z",
+  completedAt: null,
+  deletedAt: null,
+  recurrence: null,
+  excludedDates: [],
+  occurrenceCompletions: {},
+  subtasks: [{ id: "s1", text: "Read chapter", completed: true }],
+  tags: ["exam"],
+  notes: "Pages 12-40, **formulas** on p. 31",
+  attachments: [
+    {
+      id: "a1",
+      name: "Worksheet.pdf",
+      mimeType: "application/pdf",
+      size: 14336,
+      path: "attachments/a1-Worksheet.pdf",
+      addedAt: "2025-07-31T10:00:00.000Z"
+    }
+  ],
+  estimateMinutes: 45,
+  timeEntries: [{ id: "e1", minutes: 20, loggedAt: "2025-07-31T10:00:00.000Z" }]
+};
+
+describe("backup round trip", () => {
+  it("wraps data in a versioned envelope and reads it back unchanged", () => {
+    const backup = createBackup(
+      { tasks: [task], settings, sessions: [] },
+      "1.2.0",
+      "2025-08-01T12:00:00.000Z"
+    );
+
+    expect(backup).toMatchObject({
+      format: BACKUP_FORMAT,
+      schemaVersion: SCHEMA_VERSION,
+      appVersion: "1.2.0",
+      exportedAt: "2025-08-01T12:00:00.000Z"
+    });
+
+    const parsed = parseBackup(JSON.stringify(backup));
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(parsed.data).toEqual({ tasks: [task], settings, sessions: [] });
+  });
+});
+
+describe("parseBackup", () => {
+  it("migrates unversioned files written before the envelope existed", () => {
+    const legacy = {
+      tasks: [{ id: "old", text: "Old task", completed: true, subject: "Math", priority: "Low", createdAt: "2025-07-10" }],
+      settings: { themeMode: "light", subjects: ["Math", "Math", "Art"] }
+    };
+
+    const parsed = parseBackup(JSON.stringify(legacy));
+
+    expect(parsed.schemaVersion).toBe(0);
+    expect(parsed.appVersion).toBeNull();
+    expect(parsed.data.tasks[0]).toMatchObject({
+      id: "old",
+      completed: true,
+      subjectId: "subject:Math",
+      dueDate: "2025-07-10",
+      dueTime: null,
+      subtasks: [],
+      timeEntries: []
+    });
+    expect(parsed.data.settings).toEqual({ themeMode: "light", subjects: subjectsFromNames(["Math", "Art"]) });
+    expect(parsed.data.sessions).toEqual([]);
+  });
+
+  it("fills updatedAt on tasks from version 1 files with their latest change", () => {
+    const { updatedAt: _updatedAt, ...v1Task } = { ...task, completedAt: "2025-08-02T08:00:00.000Z" };
+    const v1 = { format: BACKUP_FORMAT, schemaVersion: 1, data: { tasks: [v1Task], settings, sessions: [] } };
+
+    const parsed = parseBackup(JSON.stringify(v1));
+
+    expect(parsed.data.tasks[0].updatedAt).toBe("2025-08-02T08:00:00.000Z");
+  });
+
+  it("reports field-level issues and drops only what is invalid", () => {
+    const backup = createBackup({ tasks: [task], settings, sessions: [] }, "1.2.0");
+    const raw = JSON.parse(JSON.stringify(backup));
+    raw.data.tasks.push({ ...task, id: "t2", dueDate: "tomorrow" });
+    raw.data.tasks.push({ ...task, id: "t3", dueTime: "25:00", subtasks: [{ id: "x" }], tags: ["Lab Work", 7] });
+    raw.data.settings.themeMode = "neon";
+
+    const parsed = parseBackup(JSON.stringify(raw));
+
+    expect(parsed.data.tasks.map(t => t.id)).toEqual(["t1", "t3"]);
+    expect(parsed.data.tasks[1].dueTime).toBeNull();
+    expect(parsed.data.tasks[1].subtasks).toEqual([]);
+    expect(parsed.data.tasks[1].tags).toEqual(["lab-work"]);
+    expect(parsed.data.settings.themeMode).toBeUndefined();
+    expect(parsed.issues.map(i => i.path)).toEqual([
+      "data.tasks[1].dueDate",
+      "data.tasks[2].dueTime",
+      "data.tasks[2].subtasks[0]",
+      "data.tasks[2].tags[1]",
+      "data.settings.themeMode"
+    ]);
+  });
+
+  it("rejects files it can't read", () => {
+    expect(() => parseBackup("not json")).toThrow(BackupError);
+    expect(() => parseBackup(JSON.stringify({ format: "other", schemaVersion: 1 }))).toThrow(
+      "not a BrainDesk backup"
+    );
+    expect(() =>
+      parseBackup(JSON.stringify({ format: BACKUP_FORMAT, schemaVersion: SCHEMA_VERSION + 1, data: {} }))
+    ).toThrow("newer version");
+
+    try {
+      parseBackup(JSON.stringify({ settings: {} }));
+      throw new Error("expected a BackupError");
+    } catch (error) {
+      expect((error as BackupError).issues).toEqual([{ path: "tasks", message: "expected a list" }]);
+    }
+  });
+});
+
+describe("schema", () => {
+  it("rejects tasks missing required fields with one issue per field", () => {
+    const { value, issues } = validateTask({ id: "", text: 1 }, "tasks[0]");
+
+    expect(value).toBeNull();
+    expect(issues.map(i => i.path)).toEqual([
+      "tasks[0].id",
+      "tasks[0].text",
+      "tasks[0].subjectId",
+      "tasks[0].priority",
+      "tasks[0].createdAt",
+      "tasks[0].dueDate"
+    ]);
+  });
+
+  it("keeps valid settings fields and ignores missing ones", () => {
+    const { value, issues } = validateSettings({ notificationTime: null, trashRetentionDays: -1 });
+
+    expect(value).toEqual({ notificationTime: null });
+    expect(issues).toEqual([
+      { path: "settings.trashRetentionDays", message: "expected a whole number of days" }
+    ]);
+  });
+
+  it("keeps valid priority levels and rejects an empty list", () => {
+    const { value, issues } = validateSettings({
+      priorities: [{ id: "High", name: "High", rank: 0, color: "red" }, { id: "Low", name: "" }]
+    });
+
+    expect(value.priorities).toEqual([{ id: "High", name: "High", rank: 0, color: "#EF4444" }]);
+    expect(issues).toEqual([
+      { path: "settings.priorities[1]", message: "expected a priority level with an ID, a name and a rank" }
+    ]);
+    expect(validateSettings({ priorities: [] }).issues).toEqual([
+      { path: "settings.priorities", message: "expected at least one level" }
+    ]);
+  });
+
+  it("migrations leave current data unchanged", () => {
+    const doc = { tasks: [task], settings, sessions: [] };
+
+    expect(migrateDocument(doc, 0)).toEqual(doc);
+    expect(migrateDocument(doc, SCHEMA_VERSION)).toBe(doc);
+  });
+
+  it("turns subject names into subject records referenced by ID", () => {
+    const doc = migrateDocument({
+      tasks: [{ ...task, subjectId: undefined, subject: "Art" }],
+      settings: { subjects: ["Math", "Art"] },
+      sessions: [{ id: "s", taskId: null, subject: " ", startedAt: "2025-07-10T09:00:00.000Z", endedAt: null, duration: 60 }]
+    }, 2) as { tasks: Task[]; settings: SettingsState; sessions: unknown[] };
+
+    expect(doc.tasks[0]).toMatchObject({ subjectId: "subject:Art" });
+    expect(doc.tasks[0]).not.toHaveProperty("subject");
+    expect(doc.settings.subjects).toEqual(subjectsFromNames(["Math", "Art"]));
+    expect(doc.sessions[0]).toMatchObject({ subjectId: "subject:General" });
+  });
+
+  it("formats a short issue list", () => {
+    const issues = ["a", "b", "c", "d"].map(path => ({ path, message: "bad" }));
+
+    expect(formatIssues(issues, 2)).toBe("• a: bad\n• b: bad\n…and 2 more");
+  });
+});
+
+describe("storage migration", () => {
+  it("writes settings from an older schema back in the current shape", async () => {
+    const stored: Record<string, string> = {
+      [STORAGE_KEYS.SETTINGS]: JSON.stringify({ themeMode: "dark", notificationTime: "7am" })
+    };
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => stored[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockClear();
+
+    const loaded = await loadSettingsFromStorage();
+
+    expect(loaded.themeMode).toBe("dark");
+    expect(loaded.notificationTime).toBeNull();
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith(STORAGE_KEYS.SETTINGS, JSON.stringify(loaded));
+  });
+});
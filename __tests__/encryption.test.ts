@@ -0,0 +1,101 @@
+import { BackupError } from "../features/backup/backup";
+import {
+  decryptBackup,
+  DecryptionError,
+  ENCRYPTED_FORMAT,
+  encryptBackup,
+  isEncryptedBackup
+} from "../features/backup/encryption";
+
+// Few rounds keep the tests fast; the cost travels in the header either way
+const ITERATIONS = 1000;
+
+const plain = JSON.stringify({ format: "braindesk-backup", data: { tasks: [{ text: "Ünïcode ✓" }] } });
+
+const expectFailure = async (contents: string, passphrase: string, reason: DecryptionError["reason"]) => {
+  const error = await decryptBackup(contents, passphrase).catch(e => e);
+  expect(error).toBeInstanceOf(DecryptionError);
+  expect(error).toBeInstanceOf(BackupError);
+  expect(error.reason).toBe(reason);
+};
+
+describe("encrypted backups", () => {
+  it("round-trips with the right passphrase", async () => {
+    const sealed = await encryptBackup(plain, "correct horse", ITERATIONS);
+
+    expect(isEncryptedBackup(sealed)).toBe(true);
+    expect(isEncryptedBackup(plain)).toBe(false);
+    expect(isEncryptedBackup("not json")).toBe(false);
+    expect(sealed).not.toContain("Ünïcode");
+    expect(await decryptBackup(sealed, "correct horse")).toBe(plain);
+  });
+
+  it("writes the KDF parameters and a random salt in the header", async () => {
+    const a = JSON.parse(await encryptBackup(plain, "correct horse", ITERATIONS));
+    const b = JSON.parse(await encryptBackup(plain, "correct horse", ITERATIONS));
+
+    expect(a).toMatchObject({
+      format: ENCRYPTED_FORMAT,
+      version: 1,
+      kdf: { name: "PBKDF2-SHA256", iterations: ITERATIONS, salt: expect.any(String) },
+      cipher: { name: "AES-256-GCM", nonce: expect.any(String) }
+    });
+    expect(a.kdf.salt).not.toBe(b.kdf.salt);
+    expect(a.data).not.toBe(b.data);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const sealed = await encryptBackup(plain, "correct horse", ITERATIONS);
+
+    await expectFailure(sealed, "correct h0rse", "passphrase");
+  });
+
+  it("doesn't blame the passphrase alone when the check can't prove it", async () => {
+    const file = JSON.parse(await encryptBackup(plain, "correct horse", ITERATIONS));
+    const salt = { ...file, kdf: { ...file.kdf, salt: (file.kdf.salt[0] === "A" ? "B" : "A") + file.kdf.salt.slice(1) } };
+
+    await expectFailure(JSON.stringify(salt), "correct horse", "passphrase");
+    await expect(decryptBackup(JSON.stringify(salt), "correct horse")).rejects.toThrow(
+      "Wrong passphrase, or the file is damaged."
+    );
+  });
+
+  it("detects changes to the data or the header", async () => {
+    const file = JSON.parse(await encryptBackup(plain, "correct horse", ITERATIONS));
+    const flip = (text: string) => (text[0] === "A" ? "B" : "A") + text.slice(1);
+
+    const data = { ...file, data: flip(file.data) };
+    const nonce = { ...file, cipher: { ...file.cipher, nonce: flip(file.cipher.nonce) } };
+    const truncated = { ...file, data: file.data.slice(0, 8) };
+    const garbled = { ...file, data: "not base64!" };
+
+    for (const changed of [data, nonce, truncated, garbled]) {
+      await expectFailure(JSON.stringify(changed), "correct horse", "tampered");
+    }
+  });
+
+  it("treats header fields of the wrong type as damage", async () => {
+    const file = JSON.parse(await encryptBackup(plain, "correct horse", ITERATIONS));
+
+    const wrongTypes = [
+      { ...file, kdf: "PBKDF2-SHA256" },
+      { ...file, kdf: [file.kdf] },
+      { ...file, kdf: { ...file.kdf, iterations: String(ITERATIONS) } },
+      { ...file, kdf: { ...file.kdf, salt: 42 } },
+      { ...file, cipher: null },
+      { ...file, cipher: { ...file.cipher, nonce: [file.cipher.nonce] } },
+      { ...file, check: { value: file.check } }
+    ];
+    for (const changed of wrongTypes) {
+      await expectFailure(JSON.stringify(changed), "correct horse", "tampered");
+    }
+  });
+
+  it("refuses files from a newer version", async () => {
+    const file = JSON.parse(await encryptBackup(plain, "correct horse", ITERATIONS));
+
+    await expect(decryptBackup(JSON.stringify({ ...file, version: 2 }), "correct horse")).rejects.toThrow(
+      "newer version"
+    );
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  csvToDrafts,
+  guessColumnMapping,
+  parseCsv,
+  tasksToCsv,
+  toCsv
+} from "../features/exchange/csv";
+import { markdownToDrafts, tasksToMarkdown } from "../features/exchange/markdown";
+import {
+  draftsToTasks,
+  draftToTask,
+  planTaskImport,
+  selectTasksForExport
+} from "../features/exchange/taskRows";
+import settingsReducer from "../features/settings/settingsSlice";
+import { subjectsFromNames } from "../features/settings/subjects";
+import { DEFAULT_PRIORITIES } from "../features/settings/priorities";
+import type { Task } from "../features/todo/todoSlice";
+import { makeTask } from "../__fixtures__/tasks";
+
+const subjects = subjectsFromNames(["Math", "Physics"]);
+const priorityNames = DEFAULT_PRIORITIES.map(p => p.name);
+
+const defaults = { subject: "General", priority: "Medium", dueDate: "2025-09-01" };
+
+describe("selectTasksForExport", () => {
+  const tasks = [
+    makeTask("a", { dueDate: "2025-08-02", dueTime: "09:00" }),
+    makeTask("b", { subjectId: "subject:Art", completed: true }),
+    makeTask("c", { deletedAt: "2025-08-01T00:00:00.000Z" }),
+    makeTask("s", { dueDate: "2025-07-31", recurrence: { frequency: "daily" }, occurrenceCompletions: { "2025-08-01": "2025-08-01T10:00:00.000Z" } })
+  ];
+
+  it("expands series within a range and sorts by day, untimed first", () => {
+    const selected = selectTasksForExport(tasks, {
+      range: { from: "2025-08-01", to: "2025-08-02" },
+      subjectId: null,
+      status: "all"
+    });
+
+    expect(selected.map(t => [t.id, t.dueDate])).toEqual([
+      ["b", "2025-08-01"],
+      ["s", "2025-08-01"],
+      ["s", "2025-08-02"],
+      ["a", "2025-08-02"]
+    ]);
+  });
+
+  it("filters by subject and status, skipping trash", () => {
+    const filter = { range: null, subjectId: "subject:Math", status: "open" as const };
+
+    expect(selectTasksForExport(tasks, filter).map(t => t.id)).toEqual(["s", "a"]);
+  });
+});
+
+describe("CSV", () => {
+  it("quotes commas, quotes and line breaks and parses them back", () => {
+    const rows = [["plain", "a,b", 'say "hi"', "two\nlines", ""]];
+    const csv = toCsv(rows);
+
+    expect(csv).toBe('plain,"a,b","say ""hi""","two\nlines",\r\n');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+
+  it("keeps formula-like cells from running in a spreadsheet", () => {
+    const source = makeTask("x", { text: "=HYPERLINK(\"http://evil.example\")", tags: ["-1"], subtasks: [{ id: "s1", text: "@home", completed: false }] });
+    const csv = tasksToCsv([source], subjects, DEFAULT_PRIORITIES);
+    const [header, ...rows] = parseCsv(csv);
+
+    expect(rows[0][2]).toBe("'=HYPERLINK(\"http://evil.example\")");
+    expect(rows[0][10]).toBe("'-1");
+
+    const { drafts } = csvToDrafts(rows, guessColumnMapping(header), defaults, ["Math"], priorityNames);
+    expect(drafts[0]).toMatchObject({
+      text: "=HYPERLINK(\"http://evil.example\")",
+      tags: ["-1"],
+      subtasks: [{ text: "@home", completed: false }]
+    });
+  });
+
+  it("accepts LF endings, a byte order mark and skips blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n1,2\n")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("round-trips an export through the guessed mapping", () => {
+    const source = makeTask("x", {
+      text: "Essay, draft 2",
+      dueTime: "16:30",
+      completed: true,
+      completedAt: "2025-08-01T17:00:00.000Z",
+      estimateMinutes: 45,
+      subtasks: [{ id: "s1", text: "Outline", completed: true }, { id: "s2", text: "Write", completed: false }],
+      tags: ["exam", "group-project"]
+    });
+    const [header, ...rows] = parseCsv(tasksToCsv([source], subjects, DEFAULT_PRIORITIES));
+
+    expect(header[0]).toBe("Date");
+    expect(rows[0][6]).toBe("2025-08-01T17:00:00.000Z");
+
+    const { drafts, issues } = csvToDrafts(rows, guessColumnMapping(header), defaults, ["Math"], priorityNames);
+
+    expect(issues).toEqual([]);
+    expect(drafts).toEqual([{
+      id: "x",
+      text: "Essay, draft 2",
+      subject: "Math",
+      priority: "Medium",
+      dueDate: "2025-08-01",
+      dueTime: "16:30",
+      completed: true,
+      estimateMinutes: 45,
+      subtasks: [{ text: "Outline", completed: true }, { text: "Write", completed: false }],
+      tags: ["exam", "group-project"]
+    }]);
+  });
+
+  it("maps foreign columns and reports unreadable cells", () => {
+    const [header, ...rows] = parseCsv("Title,Due,Course,Done,Time\nRead,2025/08/03,math,x,9:05\n,2025-08-03,,,\nQuiz,soon,,,\nLab,,,,25:00\n");
+    const mapping = guessColumnMapping(header);
+
+    expect(mapping).toEqual({ text: 0, dueDate: 1, subject: 2, completed: 3, dueTime: 4 });
+
+    const { drafts, issues } = csvToDrafts(rows, mapping, defaults, ["Math"], priorityNames);
+
+    expect(drafts.map(d => [d.text, d.dueDate, d.subject, d.completed, d.dueTime])).toEqual([
+      ["Read", "2025-08-03", "Math", true, "09:05"],
+      ["Lab", "2025-09-01", "General", false, null]
+    ]);
+    expect(issues.map(i => i.path)).toEqual(["row 3.text", "row 4.date", "row 5.time"]);
+  });
+});
+
+describe("Markdown", () => {
+  it("groups an export by day and subject", () => {
+    const markdown = tasksToMarkdown([
+      makeTask("a", { text: "Revise optics", subjectId: "subject:Physics", priority: "High", dueTime: "16:30" }),
+      makeTask("b", { text: "Worksheet", completed: true, subtasks: [{ id: "s", text: "Q1", completed: true }] }),
+      makeTask("c", { text: "Essay", dueDate: "2025-08-02" })
+    ], subjects, DEFAULT_PRIORITIES);
+
+    expect(markdown).toBe([
+      "# BrainDesk Tasks",
+      "",
+      "## 2025-08-01 (Fri)",
+      "",
+      "### Physics",
+      "",
+      "- [ ] Revise optics !High @16:30",
+      "",
+      "### Math",
+      "",
+      "- [x] Worksheet !Medium",
+      "  - [x] Q1",
+      "",
+      "## 2025-08-02 (Sat)",
+      "",
+      "### Math",
+      "",
+      "- [ ] Essay !Medium",
+      ""
+    ].join("\n"));
+  });
+
+  it("reads checkboxes with inline tokens, headings and subtasks", () => {
+    const { drafts, issues } = markdownToDrafts([
+      "# Week 32",
+      "- [ ] Read chapter 4 #physics !high",
+      "## 2025-08-04",
+      "### Computer Science",
+      "- [x] Lab report @14:00",
+      "    - [ ] Graphs",
+      "- [ ] Talk #Art_History @2025-08-05 +Seminar +talks",
+      "- [ ] !Low",
+      "Some notes"
+    ].join("\n"), defaults, ["Physics", "Computer Science"], priorityNames);
+
+    expect(drafts.map(d => [d.text, d.subject, d.priority, d.dueDate, d.dueTime, d.completed])).toEqual([
+      ["Read chapter 4", "Physics", "High", "2025-09-01", null, false],
+      ["Lab report", "Computer Science", "Medium", "2025-08-04", "14:00", true],
+      ["Talk", "Art History", "Medium", "2025-08-05", null, false]
+    ]);
+    expect(drafts[1].subtasks).toEqual([{ text: "Graphs", completed: false }]);
+    expect(drafts.map(d => d.tags)).toEqual([[], [], ["Seminar", "talks"]]);
+    expect(issues).toEqual([{ path: "line 8", message: "checkbox without text" }]);
+  });
+
+  it("writes spaces in priority names as underscores", () => {
+    const priorities = DEFAULT_PRIORITIES.map(p => (p.id === "High" ? { ...p, name: "Very high" } : p));
+    const markdown = tasksToMarkdown([makeTask("a", { text: "Essay", priority: "High" })], subjects, priorities);
+
+    expect(markdown).toContain("- [ ] Essay !Very_high\n");
+    const { drafts } = markdownToDrafts(markdown, defaults, ["Math"], priorities.map(p => p.name));
+    expect(drafts[0].priority).toBe("Very high");
+  });
+
+  it("reads its own export back", () => {
+    const source = [makeTask("a", { text: "Essay", priority: "High", dueTime: "08:15", tags: ["exam"] })];
+    const { drafts } = markdownToDrafts(tasksToMarkdown(source, subjects, DEFAULT_PRIORITIES), defaults, ["Math"], priorityNames);
+
+    expect(drafts).toEqual([expect.objectContaining({
+      text: "Essay",
+      subject: "Math",
+      priority: "High",
+      dueDate: "2025-08-01",
+      dueTime: "08:15",
+      tags: ["exam"]
+    })]);
+  });
+});
+
+describe("draftsToTasks", () => {
+  it("resolves priority names to level IDs, unknown ones to the default", () => {
+    const priorities = DEFAULT_PRIORITIES.map(p => (p.id === "High" ? { ...p, name: "Urgent" } : p));
+    const draft = { text: "Read", subject: "Math", dueDate: "2025-08-01", dueTime: null, completed: false, estimateMinutes: null, subtasks: [], tags: [] };
+
+    const { tasks } = draftsToTasks(
+      ["urgent", "Low", "Someday"].map(priority => ({ ...draft, priority })),
+      subjects,
+      priorities
+    );
+
+    expect(tasks.map(t => t.priority)).toEqual(["High", "Low", "Medium"]);
+  });
+});
+
+describe("draftToTask", () => {
+  it("builds a complete task", () => {
+    const built = draftToTask({
+      text: "Read",
+      subject: "Math",
+      priority: "Low",
+      dueDate: "2025-08-01",
+      dueTime: null,
+      completed: true,
+      estimateMinutes: 30,
+      subtasks: [{ text: "Notes", completed: false }],
+      tags: [" Exam", "#exam", "Group Project"]
+    }, "subject:Math", "2025-08-01T08:00:00.000Z");
+
+    expect(built).toMatchObject({
+      text: "Read",
+      subjectId: "subject:Math",
+      completed: true,
+      completedAt: "2025-08-01T08:00:00.000Z",
+      createdAt: "2025-08-01T08:00:00.000Z",
+      estimateMinutes: 30,
+      subtasks: [{ text: "Notes", completed: false }],
+      tags: ["exam", "group-project"]
+    });
+    expect(built.id).toEqual(expect.any(String));
+  });
+});
+
+describe("planTaskImport", () => {
+  const settings = { ...settingsReducer(undefined, { type: "init" }), subjects };
+  const local = [
+    makeTask("a", {
+      completed: true,
+      completedAt: "2025-08-01T17:00:00.000Z",
+      subtasks: [{ id: "s1", text: "Outline", completed: true }],
+      tags: ["exam"]
+    }),
+    makeTask("s", { dueDate: "2025-07-31", recurrence: { frequency: "daily" } })
+  ];
+  const range = { from: "2025-08-01", to: "2025-08-03" };
+
+  /** Exports the tasks with a date range and reads the file back as drafts */
+  const exported = (tasks: Task[], edit = (row: string[]) => row) => {
+    const csv = tasksToCsv(selectTasksForExport(tasks, { range, subjectId: null, status: "all" }), subjects, DEFAULT_PRIORITIES);
+    const [header, ...rows] = parseCsv(csv);
+    return csvToDrafts(rows.map(edit), guessColumnMapping(header), defaults, ["Math", "Physics"], priorityNames).drafts;
+  };
+
+  it("finds nothing new when an export is imported again", () => {
+    const { plan, occurrenceRows } = planTaskImport(exported(local), { tasks: local, settings, sessions: [] });
+
+    expect(plan.added).toEqual([]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.identical.map(t => t.id)).toEqual(["a"]);
+    // The series already holds its three occurrences
+    expect(occurrenceRows).toBe(3);
+  });
+
+  it("sends edited rows to the conflict preview", () => {
+    const drafts = exported(local, row => (row[11] === "a" ? row.map(c => (c === "Task a" ? "Task a, revised" : c)) : row));
+    const { plan } = planTaskImport(drafts, { tasks: local, settings, sessions: [] });
+
+    expect(plan.conflicts.map(c => [c.id, c.theirs.text])).toEqual([["a", "Task a, revised"]]);
+    // Fields the file doesn't carry stay as they are
+    expect(plan.conflicts[0].theirs.subtasks).toEqual(local[0].subtasks);
+  });
+
+  it("gives occurrence rows of an unknown series their own IDs", () => {
+    const { plan, occurrenceRows } = planTaskImport(exported(local), { tasks: [], settings, sessions: [] });
+    const rows = plan.added.filter(t => t.text === "Task s");
+
+    expect(occurrenceRows).toBe(0);
+    expect(rows.map(t => t.dueDate)).toEqual(["2025-08-01", "2025-08-02", "2025-08-03"]);
+    expect(new Set(rows.map(t => t.id)).size).toBe(3);
+    expect(rows.map(t => t.id)).not.toContain("s");
+  });
+});
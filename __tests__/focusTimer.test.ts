@@ -0,0 +1,177 @@
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import {
+  createTimer,
+  formatRemaining,
+  getFocusMinutesByDay,
+  getNextPhase,
+  getRemainingMs,
+  FocusSession
+} from "../features/focus/focusTimer";
+import sessionsReducer, {
+  clearSessions,
+  finishPhase,
+  mergeSessions,
+  startFocus,
+  stopFocus
+} from "../features/focus/sessionsSlice";
+import {
+  FOCUS_PHASE_ID,
+  startFocusListener
+} from "../features/focus/focusListener";
+import type { NotificationScheduler } from "../features/notifications/notificationService";
+import type { FocusDurations } from "../features/settings/settingsSlice";
+
+const durations: FocusDurations = {
+  work: 25,
+  shortBreak: 5,
+  longBreak: 15,
+  longBreakEvery: 4
+};
+
+const START = "2026-10-19T09:00:00.000Z";
+const at = (minutes: number) =>
+  new Date(Date.parse(START) + minutes * 60_000).toISOString();
+
+const makeStore = () => configureStore({ reducer: { sessions: sessionsReducer } });
+
+describe("focus timer", () => {
+  it("derives the remaining time from the wall clock", () => {
+    const timer = createTimer("work", durations, { taskId: "t1", subjectId: "subject:Math" }, START);
+
+    expect(timer.endsAt).toBe(at(25));
+    expect(getRemainingMs(timer, at(10))).toBe(15 * 60_000);
+    // Time passes while backgrounded; nothing depends on ticks
+    expect(getRemainingMs(timer, at(90))).toBe(0);
+    expect(formatRemaining(getRemainingMs(timer, at(10)) - 500)).toBe("15:00");
+  });
+
+  it("suggests a long break after every Nth work phase", () => {
+    expect(getNextPhase(null, 0, durations)).toBe("work");
+    expect(getNextPhase("work", 1, durations)).toBe("shortBreak");
+    expect(getNextPhase("work", 4, durations)).toBe("longBreak");
+    expect(getNextPhase("shortBreak", 1, durations)).toBe("work");
+  });
+
+  it("sums focused minutes per day", () => {
+    const sessions: FocusSession[] = [
+      { id: "a", taskId: null, subjectId: null, startedAt: START, endedAt: at(25), duration: 1500 },
+      { id: "b", taskId: null, subjectId: null, startedAt: at(30), endedAt: at(40), duration: 600 }
+    ];
+
+    expect(getFocusMinutesByDay(sessions, ts => ts.slice(0, 10))).toEqual({
+      "2026-10-19": 35
+    });
+  });
+});
+
+describe("sessionsSlice", () => {
+  it("logs a finished work phase with its scheduled end", () => {
+    const store = makeStore();
+    store.dispatch(startFocus({ phase: "work", durations, taskId: "t1", subjectId: "subject:Math", now: START }));
+
+    // Not over yet
+    store.dispatch(finishPhase(at(10)));
+    expect(store.getState().sessions.timer).not.toBeNull();
+
+    // App comes back an hour later
+    store.dispatch(finishPhase(at(60)));
+    const state = store.getState().sessions;
+    expect(state.timer).toBeNull();
+    expect(state.lastPhase).toBe("work");
+    expect(state.completedWorkPhases).toBe(1);
+    expect(state.sessions).toHaveLength(1);
+    expect(state.sessions[0]).toMatchObject({
+      taskId: "t1",
+      subjectId: "subject:Math",
+      startedAt: START,
+      endedAt: at(25),
+      duration: 1500
+    });
+  });
+
+  it("does not log breaks and resets the cycle after a long break", () => {
+    const store = makeStore();
+    store.dispatch(startFocus({ phase: "longBreak", durations, now: START }));
+    store.dispatch(finishPhase(at(15)));
+
+    const state = store.getState().sessions;
+    expect(state.sessions).toHaveLength(0);
+    expect(state.lastPhase).toBe("longBreak");
+    expect(state.completedWorkPhases).toBe(0);
+  });
+
+  it("logs partial work when stopped, unless shorter than a minute", () => {
+    const store = makeStore();
+    store.dispatch(startFocus({ phase: "work", durations, now: START }));
+    store.dispatch(stopFocus(at(10)));
+    expect(store.getState().sessions.sessions[0].duration).toBe(600);
+
+    store.dispatch(startFocus({ phase: "work", durations, now: at(20) }));
+    store.dispatch(stopFocus(at(20.5)));
+    expect(store.getState().sessions.sessions).toHaveLength(1);
+    expect(store.getState().sessions.timer).toBeNull();
+  });
+
+  it("merges imported sessions, skipping malformed entries and known IDs", () => {
+    const store = makeStore();
+    const session = { id: "s1", taskId: "t1", subjectId: "subject:Math", startedAt: START, endedAt: at(25), duration: 1500 };
+
+    store.dispatch(mergeSessions([session, { id: "bad" }, null, { ...session, id: "s2", taskId: 42 }]));
+    store.dispatch(mergeSessions([session]));
+
+    const sessions = store.getState().sessions.sessions;
+    expect(sessions.map(s => s.id)).toEqual(["s1", "s2"]);
+    expect(sessions[1].taskId).toBeNull();
+  });
+});
+
+describe("startFocusListener", () => {
+  function setup(granted = true) {
+    const scheduler: NotificationScheduler = {
+      requestPermission: jest.fn(async () => granted),
+      scheduleAt: jest.fn(async () => {}),
+      cancel: jest.fn(async () => {}),
+      onDelivered: jest.fn(() => () => {})
+    };
+    const listener = createListenerMiddleware();
+    startFocusListener(listener.startListening, scheduler);
+    const store = configureStore({
+      reducer: { sessions: sessionsReducer },
+      middleware: getDefault => getDefault().prepend(listener.middleware)
+    });
+    return { store, scheduler };
+  }
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it("schedules the phase-end notification at the end time", async () => {
+    const { store, scheduler } = setup();
+    store.dispatch(startFocus({ phase: "work", durations, now: START }));
+    await flush();
+
+    expect(scheduler.scheduleAt).toHaveBeenCalledWith(
+      FOCUS_PHASE_ID,
+      new Date(at(25)),
+      expect.objectContaining({ title: "Focus session complete 🎉" })
+    );
+  });
+
+  it("cancels the notification when the timer is stopped or cleared", async () => {
+    const { store, scheduler } = setup();
+    store.dispatch(startFocus({ phase: "work", durations, now: START }));
+    store.dispatch(stopFocus(at(5)));
+    store.dispatch(clearSessions());
+    await flush();
+
+    expect(scheduler.cancel).toHaveBeenCalledTimes(2);
+    expect(scheduler.cancel).toHaveBeenCalledWith(FOCUS_PHASE_ID);
+  });
+
+  it("skips scheduling without notification permission", async () => {
+    const { store, scheduler } = setup(false);
+    store.dispatch(startFocus({ phase: "shortBreak", durations, now: START }));
+    await flush();
+
+    expect(scheduler.scheduleAt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  escapeText,
+  foldLine,
+  fromRRule,
+  iCalendarToDrafts,
+  tasksToICalendar,
+  toRRule,
+  unescapeText,
+  unfoldLines
+} from "../features/exchange/ical";
+import { draftToTask } from "../features/exchange/taskRows";
+import { subjectsFromNames } from "../features/settings/subjects";
+import { createPriority, DEFAULT_PRIORITIES } from "../features/settings/priorities";
+import type { RecurrenceRule } from "../features/todo/recurrence";
+import type { Task } from "../features/todo/todoSlice";
+import { makeTask } from "../__fixtures__/tasks";
+
+const subjects = subjectsFromNames(["Math", "Physics"]);
+
+const options = {
+  defaults: { subject: "General", priority: "Medium", dueDate: "2025-09-01" },
+  subjects: ["Math", "Physics"],
+  priorities: DEFAULT_PRIORITIES,
+  timeZone: "UTC"
+};
+
+const roundTrip = (tasks: Task[], timeZone = "UTC") =>
+  iCalendarToDrafts(tasksToICalendar(tasks, subjects, DEFAULT_PRIORITIES, "2025-08-01T12:00:00.000Z"), { ...options, timeZone });
+
+describe("text", () => {
+  it("escapes and unescapes special characters", () => {
+    const text = "Read ch. 1, 2; then\\notes\nline two";
+
+    expect(escapeText(text)).toBe("Read ch. 1\\, 2\\; then\\\\notes\\nline two");
+    expect(unescapeText(escapeText(text))).toBe(text);
+  });
+
+  it("folds lines at 75 octets without splitting characters", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const folded = foldLine(line);
+    const parts = folded.split("\r\n");
+
+    expect(parts.length).toBe(2);
+    expect(Buffer.byteLength(parts[0])).toBeLessThanOrEqual(75);
+    expect(Buffer.byteLength(parts[1])).toBeLessThanOrEqual(75);
+    expect(parts[1].startsWith(" ")).toBe(true);
+    expect(unfoldLines(folded)).toEqual([line]);
+  });
+});
+
+describe("round trip", () => {
+  it("keeps text, subject, tags, priority, day, time, completion and subtasks", () => {
+    const source = makeTask("a", {
+      text: "Lab report, part 2; with a long title that needs folding because it is really quite long",
+      subjectId: "subject:Physics",
+      priority: "High",
+      dueTime: "16:30",
+      completed: true,
+      completedAt: "2025-08-01T17:00:00.000Z",
+      subtasks: [{ id: "s1", text: "Graphs", completed: true }, { id: "s2", text: "Discussion", completed: false }],
+      tags: ["lab", "group-project"]
+    });
+
+    const ics = tasksToICalendar([source], subjects, DEFAULT_PRIORITIES, "2025-08-01T12:00:00.000Z");
+    expect(ics).toContain("BEGIN:VTODO\r\nUID:a@braindesk\r\n");
+    expect(ics).toContain("DUE:20250801T163000\r\n");
+    expect(ics).toContain("PRIORITY:1\r\n");
+    expect(ics).toContain("STATUS:COMPLETED\r\n");
+    expect(ics).toContain("CATEGORIES:Physics,lab,group-project\r\n");
+    expect(ics.split("\r\n").every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+    const { drafts, issues } = iCalendarToDrafts(ics, options);
+    expect(issues).toEqual([]);
+
+    const { timeEntries: _t, occurrenceCompletions: _o, estimateMinutes: _e, ...expected } = source;
+    expect(draftToTask(drafts[0], "subject:Physics")).toMatchObject({
+      ...expected,
+      subtasks: [
+        expect.objectContaining({ text: "Graphs", completed: true }),
+        expect.objectContaining({ text: "Discussion", completed: false })
+      ]
+    });
+  });
+
+  it("keeps all-day tasks as days in any time zone", () => {
+    const { drafts } = roundTrip([makeTask("a")], "Pacific/Auckland");
+
+    expect(drafts[0]).toMatchObject({ dueDate: "2025-08-01", dueTime: null, priority: "Medium" });
+  });
+
+  it("keeps floating times as written in any time zone", () => {
+    const { drafts } = roundTrip([makeTask("a", { dueTime: "23:30" })], "America/New_York");
+
+    expect(drafts[0]).toMatchObject({ dueDate: "2025-08-01", dueTime: "23:30" });
+  });
+
+  it("spreads custom priority levels over PRIORITY 1–9 and reads them back", () => {
+    const priorities = [...DEFAULT_PRIORITIES, createPriority("Someday", DEFAULT_PRIORITIES)];
+    const tasks = priorities.map(p => makeTask(p.id, { priority: p.id }));
+    const ics = tasksToICalendar(tasks, subjects, priorities);
+
+    expect(ics.match(/PRIORITY:\d/g)).toEqual(["PRIORITY:1", "PRIORITY:5", "PRIORITY:7", "PRIORITY:9"]);
+
+    const { drafts } = iCalendarToDrafts(ics, { ...options, priorities });
+    expect(drafts.map(d => d.priority)).toEqual(["High", "Medium", "Low", "Someday"]);
+  });
+
+  const rules: [string, RecurrenceRule, string][] = [
+    ["daily", { frequency: "daily" }, "FREQ=DAILY"],
+    ["every 3 days", { frequency: "interval", interval: 3 }, "FREQ=DAILY;INTERVAL=3"],
+    ["weekdays", { frequency: "weekdays" }, "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+    ["weekly", { frequency: "weekly", weekdays: [1, 3] }, "FREQ=WEEKLY;BYDAY=MO,WE"],
+    ["monthly", { frequency: "monthly", dayOfMonth: 15 }, "FREQ=MONTHLY;BYMONTHDAY=15"],
+    ["with an end", { frequency: "daily", endDate: "2025-09-30" }, "FREQ=DAILY;UNTIL=20250930"],
+    ["with a count", { frequency: "weekly", weekdays: [5], count: 10 }, "FREQ=WEEKLY;BYDAY=FR;COUNT=10"]
+  ];
+
+  it.each(rules)("round-trips a %s rule", (_, rule, rrule) => {
+    const source = makeTask("s", { recurrence: rule, excludedDates: ["2025-08-04"] });
+    const ics = tasksToICalendar([source], subjects, DEFAULT_PRIORITIES);
+
+    expect(ics).toContain(`RRULE:${rrule}\r\n`);
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250801\r\n");
+    expect(ics).not.toContain("DUE");
+
+    const { drafts } = iCalendarToDrafts(ics, options);
+    expect(drafts[0]).toMatchObject({ recurrence: rule, excludedDates: ["2025-08-04"] });
+  });
+
+  it("writes UNTIL as a date-time for timed series", () => {
+    expect(toRRule({ frequency: "daily", endDate: "2025-09-30" }, true)).toBe("FREQ=DAILY;UNTIL=20250930T235959");
+  });
+});
+
+describe("fromRRule", () => {
+  it("maps weekly rules without BYDAY to the start day", () => {
+    expect(fromRRule("FREQ=WEEKLY", "2025-08-06")).toEqual({ frequency: "weekly", weekdays: [3] });
+    expect(fromRRule("FREQ=WEEKLY;INTERVAL=2", "2025-08-06")).toEqual({ frequency: "interval", interval: 14 });
+  });
+
+  it("rejects rules BrainDesk can't represent", () => {
+    expect(fromRRule("FREQ=YEARLY", "2025-08-01")).toBeNull();
+    expect(fromRRule("FREQ=MONTHLY;BYDAY=2MO", "2025-08-01")).toBeNull();
+    expect(fromRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO", "2025-08-01")).toBeNull();
+  });
+});
+
+describe("iCalendarToDrafts", () => {
+  const foreign = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Example//Calendar//EN",
+    "BEGIN:VTIMEZONE",
+    "TZID:Europe/Berlin",
+    "END:VTIMEZONE",
+    "BEGIN:VEVENT",
+    "UID:event-1@example.com",
+    "DTSTART;TZID=\"Europe/Berlin\":20250801T090000",
+    "DTEND;TZID=Europe/Berlin:20250801T100000",
+    "SUMMARY:Physics lecture\\, room 4",
+    "CATEGORIES:physics,Lectures",
+    "RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20251031T235959Z",
+    "EXDATE;TZID=Europe/Berlin:20250815T090000,20250822T090000",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "SUMMARY:Alarm text",
+    "TRIGGER:-PT15M",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VTODO",
+    "UID:todo-1@example.com",
+    "DUE:20250802T220000Z",
+    "SUMMARY:Submit essay",
+    "PRIORITY:7",
+    "STATUS:COMPLETED",
+    "COMPLETED:20250802T210000Z",
+    "END:VTODO",
+    "BEGIN:VTODO",
+    "UID:todo-2@example.com",
+    "DUE;TZID=W. Europe Standard Time:20250803T080000",
+    "SUMMARY:Outlook task",
+    "END:VTODO",
+    "BEGIN:VTODO",
+    "UID:todo-3@example.com",
+    "RRULE:FREQ=YEARLY",
+    "DTSTART;VALUE=DATE:20250804",
+    "SUMMARY:Birthday",
+    "END:VTODO",
+    "BEGIN:VTODO",
+    "DUE;VALUE=DATE:20250805",
+    "END:VTODO",
+    "END:VCALENDAR"
+  ].join("\n");
+
+  it("converts zoned and UTC times to the local zone", () => {
+    const { drafts } = iCalendarToDrafts(foreign, { ...options, timeZone: "Asia/Tokyo" });
+
+    // 09:00 in Berlin (UTC+2) is 16:00 in Tokyo; 22:00 UTC is 07:00 the next day
+    expect(drafts[0]).toMatchObject({ dueDate: "2025-08-01", dueTime: "16:00" });
+    expect(drafts[1]).toMatchObject({ dueDate: "2025-08-03", dueTime: "07:00" });
+  });
+
+  it("reads events and tasks from other apps", () => {
+    const { drafts, issues } = iCalendarToDrafts(foreign, { ...options, timeZone: "Europe/Berlin" });
+
+    expect(drafts.map(d => d.text)).toEqual(["Physics lecture, room 4", "Submit essay", "Outlook task", "Birthday"]);
+    expect(drafts[0]).toMatchObject({
+      id: "event-1@example.com",
+      subject: "Physics",
+      tags: ["Lectures"],
+      priority: "Medium",
+      dueDate: "2025-08-01",
+      dueTime: "09:00",
+      recurrence: { frequency: "weekly", weekdays: [5], endDate: "2025-10-31" },
+      excludedDates: ["2025-08-15", "2025-08-22"]
+    });
+    expect(drafts[1]).toMatchObject({
+      subject: "General",
+      priority: "Low",
+      completed: true,
+      completedAt: "2025-08-02T21:00:00.000Z"
+    });
+    expect(drafts[2]).toMatchObject({ dueDate: "2025-08-03", dueTime: "08:00" });
+    expect(drafts[3]).toMatchObject({ dueDate: "2025-08-04", recurrence: null });
+    expect(issues).toEqual([
+      { path: "VTODO[2].DUE.TZID", message: 'unknown time zone "W. Europe Standard Time", read as local time' },
+      { path: "VTODO[3].RRULE", message: "repeat rule not supported, imported once" },
+      { path: "VTODO[4].SUMMARY", message: "missing, item skipped" }
+    ]);
+  });
+
+  it("reports files that aren't calendars", () => {
+    expect(iCalendarToDrafts("Date,Task\n", options).issues).toEqual([
+      { path: "file", message: "not an iCalendar file" }
+    ]);
+  });
+});
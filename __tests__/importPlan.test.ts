@@ -0,0 +1,129 @@
+import {
+  buildImportPlan,
+  isEmptyPlan,
+  pickSettings,
+  resolveTasks
+} from "../features/backup/importPlan";
+import type { SettingsState } from "../features/settings/settingsSlice";
+import { subjectsFromNames } from "../features/settings/subjects";
+import { DEFAULT_PRIORITIES } from "../features/settings/priorities";
+import { makeTask } from "../__fixtures__/tasks";
+
+const settings: SettingsState = {
+  themeMode: "dark",
+  subjects: subjectsFromNames(["Math"]),
+  priorities: DEFAULT_PRIORITIES,
+  notificationTime: "08:00",
+  autoCompleteTasks: false,
+  trashRetentionDays: 30,
+  dailyGoal: { type: "tasks", target: 3 },
+  focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+  snapshotsToKeep: 7
+};
+
+const current = {
+  tasks: [makeTask("same"), makeTask("older"), makeTask("newer")],
+  settings,
+  sessions: []
+};
+
+const incoming = {
+  tasks: [
+    // Same content, only the timestamp differs
+    makeTask("same", { updatedAt: "2025-07-05T09:00:00.000Z" }),
+    // Completed in the backup after the local copy was last changed
+    makeTask("older", {
+      completed: true,
+      completedAt: "2025-07-03T09:00:00.000Z",
+      updatedAt: "2025-07-03T09:00:00.000Z"
+    }),
+    // Changed in the backup before the local copy was
+    makeTask("newer", { text: "Stale edit", updatedAt: "2025-06-30T09:00:00.000Z" }),
+    makeTask("new")
+  ],
+  settings: { ...settings, themeMode: "light" as const, subjects: subjectsFromNames(["Math", "Art"]) },
+  sessions: [{
+    id: "s1",
+    taskId: null,
+    subjectId: "subject:Math",
+    startedAt: "2025-07-01T09:00:00.000Z",
+    endedAt: "2025-07-01T09:25:00.000Z",
+    duration: 1500
+  }]
+};
+
+describe("buildImportPlan", () => {
+  const plan = buildImportPlan(current, incoming);
+
+  it("sorts tasks into added, identical and conflicting", () => {
+    expect(plan.added.map(t => t.id)).toEqual(["new"]);
+    expect(plan.identical.map(t => t.id)).toEqual(["same"]);
+    expect(plan.conflicts.map(c => [c.id, c.newer])).toEqual([
+      ["older", "theirs"],
+      ["newer", "mine"]
+    ]);
+    expect(plan.addedSessions.map(s => s.id)).toEqual(["s1"]);
+  });
+
+  it("lists changed settings and merges subjects separately", () => {
+    expect(plan.settingsChanges).toEqual([
+      { key: "themeMode", mine: "dark", theirs: "light" }
+    ]);
+    expect(plan.newSubjects.map(s => s.name)).toEqual(["Art"]);
+  });
+
+  it("points tasks and sessions of a same-name subject at the local one", () => {
+    const renamed = subjectsFromNames(["Math"]).map(s => ({ ...s, id: "subject:other-math" }));
+    const moved = buildImportPlan(current, {
+      tasks: [makeTask("new", { subjectId: "subject:other-math" })],
+      settings: { subjects: renamed },
+      sessions: incoming.sessions.map(s => ({ ...s, subjectId: "subject:other-math" }))
+    });
+
+    expect(moved.newSubjects).toEqual([]);
+    expect(moved.added.map(t => t.subjectId)).toEqual(["subject:Math"]);
+    expect(moved.addedSessions.map(s => s.subjectId)).toEqual(["subject:Math"]);
+  });
+
+  it("is empty when the backup matches the current data", () => {
+    const same = buildImportPlan(current, { ...current, settings });
+
+    expect(isEmptyPlan(same)).toBe(true);
+    expect(isEmptyPlan(plan)).toBe(false);
+  });
+});
+
+describe("resolveTasks", () => {
+  const plan = buildImportPlan(current, incoming);
+
+  it("takes the newer copy by default", () => {
+    expect(resolveTasks(plan, {}).map(t => t.id)).toEqual(["new", "older"]);
+  });
+
+  it("honours per-task choices over the fallback", () => {
+    const resolved = resolveTasks(plan, { newer: "theirs", older: "mine" }, "mine");
+
+    expect(resolved.map(t => t.id)).toEqual(["new", "newer"]);
+    expect(resolved[1].text).toBe("Stale edit");
+  });
+
+  it("keeps the local copy on a timestamp tie", () => {
+    const tied = buildImportPlan(
+      { ...current, tasks: [makeTask("x", { text: "Mine" })] },
+      { ...incoming, tasks: [makeTask("x", { text: "Theirs" })] }
+    );
+
+    expect(tied.conflicts[0].newer).toBe("same");
+    expect(resolveTasks(tied, {})).toEqual([]);
+  });
+});
+
+describe("pickSettings", () => {
+  it("keeps only accepted settings, plus subjects", () => {
+    expect(pickSettings(incoming.settings, [])).toEqual({ subjects: subjectsFromNames(["Math", "Art"]) });
+    expect(pickSettings(incoming.settings, ["themeMode"])).toEqual({
+      subjects: subjectsFromNames(["Math", "Art"]),
+      themeMode: "light"
+    });
+  });
+});
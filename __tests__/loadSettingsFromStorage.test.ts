@@ -1,5 +1,7 @@
 import { loadSettingsFromStorage } from "../features/settings/settingsSlice";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { subjectsFromNames } from "../features/settings/subjects";
+import { DEFAULT_PRIORITIES } from "../features/settings/priorities";
 
 describe("loadSettingsFromStorage", () => {
   it("returns default values if nothing is stored", async () => {
@@ -9,8 +11,14 @@ describe("loadSettingsFromStorage", () => {
 
     expect(result).toEqual({
       themeMode: "system",
-      subjects: ["Physics", "Chemistry", "Math"],
+      subjects: subjectsFromNames(["Physics", "Chemistry", "Math"]),
+      priorities: DEFAULT_PRIORITIES,
       notificationTime: null,
+      autoCompleteTasks: false,
+      trashRetentionDays: 30,
+      dailyGoal: { type: "tasks", target: 3 },
+      focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+      snapshotsToKeep: 7,
     });
   });
 
@@ -19,13 +27,23 @@ describe("loadSettingsFromStorage", () => {
       themeMode: "dark",
       subjects: ["Biology", "History"],
       notificationTime: "08:30",
+      autoCompleteTasks: true,
+      trashRetentionDays: 7,
+      dailyGoal: { type: "minutes", target: 90 },
+      focusDurations: { work: 45, shortBreak: 5, longBreak: 20, longBreakEvery: 3 },
+      snapshotsToKeep: 14,
     };
 
     (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(stored));
 
     const result = await loadSettingsFromStorage();
 
-    expect(result).toEqual(stored);
+    // Subjects saved as names come back as records
+    expect(result).toEqual({
+      ...stored,
+      subjects: subjectsFromNames(["Biology", "History"]),
+      priorities: DEFAULT_PRIORITIES
+    });
   });
 
   it("handles corrupted JSON and falls back to defaults", async () => {
@@ -35,8 +53,14 @@ describe("loadSettingsFromStorage", () => {
 
     expect(result).toEqual({
       themeMode: "system",
-      subjects: ["Physics", "Chemistry", "Math"],
+      subjects: subjectsFromNames(["Physics", "Chemistry", "Math"]),
+      priorities: DEFAULT_PRIORITIES,
       notificationTime: null,
+      autoCompleteTasks: false,
+      trashRetentionDays: 30,
+      dailyGoal: { type: "tasks", target: 3 },
+      focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+      snapshotsToKeep: 7,
     });
   });
 });
\ No newline at end of file
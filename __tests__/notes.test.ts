@@ -0,0 +1,133 @@
+import { layoutNotes, notesToPlainText, parseInline, parseNotes, safeHref, TextRun } from "../features/todo/notes";
+
+describe("parseInline", () => {
+  it("reads bold, italic, code and links", () => {
+    expect(parseInline("Read **pp. 12–40**, *skim* `ch. 3` [slides](https://uni.example/s)")).toEqual([
+      { type: "text", text: "Read " },
+      { type: "bold", children: [{ type: "text", text: "pp. 12–40" }] },
+      { type: "text", text: ", " },
+      { type: "italic", children: [{ type: "text", text: "skim" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "ch. 3" },
+      { type: "text", text: " " },
+      { type: "link", href: "https://uni.example/s", children: [{ type: "text", text: "slides" }] }
+    ]);
+  });
+
+  it("keeps unmatched markers, escapes and snake_case as text", () => {
+    expect(parseInline("2 * 3 = 6, \\*not italic\\*, my_var_name, **open")).toEqual([
+      { type: "text", text: "2 * 3 = 6, *not italic*, my_var_name, **open" }
+    ]);
+  });
+
+  it("links bare URLs without trailing punctuation", () => {
+    expect(parseInline("See https://a.example/x?y=1.")).toEqual([
+      { type: "text", text: "See " },
+      { type: "link", href: "https://a.example/x?y=1", children: [{ type: "text", text: "https://a.example/x?y=1" }] },
+      { type: "text", text: "." }
+    ]);
+  });
+
+  it("drops unsafe link targets but keeps the label", () => {
+    expect(parseInline("[click](javascript:void) [app](braindesk://reset)")).toEqual([
+      { type: "text", text: "click app" }
+    ]);
+    expect(safeHref(" mailto:prof@uni.example ")).toBe("mailto:prof@uni.example");
+    expect(safeHref("file:///etc/passwd")).toBeNull();
+  });
+});
+
+describe("parseNotes", () => {
+  const notes = [
+    "# Exam prep",
+    "Formulas on **p. 212**",
+    "and the appendix.",
+    "",
+    "- [x] Read chapter 4",
+    "- [ ] Exercises",
+    "  1. Q1",
+    "  2. Q2",
+    "- Ask about _grading_",
+    "",
+    "3) Third",
+    "4) Fourth",
+    "<b>not html</b>"
+  ].join("\n");
+
+  it("splits headings, paragraphs and lists", () => {
+    const blocks = parseNotes(notes);
+
+    expect(blocks.map(b => b.type)).toEqual(["heading", "paragraph", "list", "list", "paragraph"]);
+    expect(blocks[0]).toEqual({ type: "heading", level: 1, content: [{ type: "text", text: "Exam prep" }] });
+    expect(blocks[1]).toMatchObject({ content: [{ text: "Formulas on " }, { type: "bold" }, { text: "\nand the appendix." }] });
+    expect(blocks[4]).toEqual({ type: "paragraph", content: [{ type: "text", text: "<b>not html</b>" }] });
+  });
+
+  it("reads checkboxes, nesting and numbering", () => {
+    const [, , checklist, numbered] = parseNotes(notes);
+
+    expect(checklist.type === "list" && checklist.items.map(i => [i.checked, i.number, i.depth])).toEqual([
+      [true, null, 0],
+      [false, null, 0],
+      [null, 1, 1],
+      [null, 2, 1],
+      [null, null, 0]
+    ]);
+    expect(numbered.type === "list" && numbered.items.map(i => i.number)).toEqual([3, 4]);
+  });
+});
+
+describe("notesToPlainText", () => {
+  it("renders blocks without Markdown markers", () => {
+    expect(notesToPlainText(parseNotes("## Links\n- [x] **Done**\n  1. [doc](https://d.example)\n\nSee `x`"))).toBe(
+      ["Links", "☑ Done", "  1. doc", "See x"].join("\n")
+    );
+  });
+});
+
+describe("layoutNotes", () => {
+  const run = (text: string, style: Partial<TextRun> = {}): TextRun => ({
+    text,
+    bold: false,
+    italic: false,
+    code: false,
+    href: null,
+    ...style
+  });
+
+  it("makes only the runs inside a link tappable, keeping their formatting", () => {
+    const [paragraph] = layoutNotes("See [the **slides**](https://uni.example/s) or `notes`");
+
+    expect(paragraph).toEqual({
+      type: "paragraph",
+      runs: [
+        run("See "),
+        run("the ", { href: "https://uni.example/s" }),
+        run("slides", { bold: true, href: "https://uni.example/s" }),
+        run(" or "),
+        run("notes", { code: true })
+      ]
+    });
+  });
+
+  it("shows unsafe links as plain text with nothing to tap", () => {
+    const [paragraph] = layoutNotes("[reset](braindesk://reset) *now*");
+
+    expect(paragraph).toEqual({ type: "paragraph", runs: [run("reset "), run("now", { italic: true })] });
+  });
+
+  it("keeps heading levels and gives list items their markers", () => {
+    const blocks = layoutNotes("### Week 3\n- [x] Quiz\n- [ ] Lab\n  2. Graphs\n- Misc");
+
+    expect(blocks[0]).toEqual({ type: "heading", level: 3, runs: [run("Week 3")] });
+    expect(blocks[1]).toEqual({
+      type: "list",
+      items: [
+        { marker: { type: "checkbox", checked: true }, depth: 0, done: true, runs: [run("Quiz")] },
+        { marker: { type: "checkbox", checked: false }, depth: 0, done: false, runs: [run("Lab")] },
+        { marker: { type: "text", text: "2." }, depth: 1, done: false, runs: [run("Graphs")] },
+        { marker: { type: "text", text: "•" }, depth: 0, done: false, runs: [run("Misc")] }
+      ]
+    });
+  });
+});
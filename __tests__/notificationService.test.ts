@@ -0,0 +1,221 @@
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import dayjs from "dayjs";
+import {
+  buildReminderContent,
+  DAILY_REMINDER_ID,
+  NotificationScheduler,
+  nextReminderDate,
+  parseNotificationTime,
+  REMINDER_DAYS,
+  reminderId,
+  syncDailyReminder
+} from "../features/notifications/notificationService";
+import {
+  refreshReminder,
+  startReminderListener
+} from "../features/notifications/reminderListener";
+import todoReducer, { addTask, Task, upsertTasks } from "../features/todo/todoSlice";
+import settingsReducer, {
+  setNotificationTime
+} from "../features/settings/settingsSlice";
+import { makeTask } from "../__fixtures__/tasks";
+
+/** In-memory scheduler that records what would have been scheduled */
+function createFakeScheduler(granted = true) {
+  const scheduled = new Map<string, { date: Date; body: string }>();
+
+  const scheduler: NotificationScheduler = {
+    requestPermission: jest.fn(async () => granted),
+    scheduleAt: jest.fn(async (id, date, content) => {
+      scheduled.set(id, { date, body: content.body });
+    }),
+    cancel: jest.fn(async id => {
+      scheduled.delete(id);
+    }),
+    onDelivered: jest.fn(() => () => {})
+  };
+
+  return { scheduler, scheduled };
+}
+
+const today = dayjs().format("YYYY-MM-DD");
+const tomorrow = dayjs().add(1, "day").format("YYYY-MM-DD");
+
+/** Today at a local time */
+const at = (hour: number, minute = 0) =>
+  dayjs().hour(hour).minute(minute).second(0).millisecond(0).toDate();
+
+const task = (text: string, overrides: Partial<Task> = {}) =>
+  makeTask(text, { text, dueDate: today, ...overrides });
+
+describe("parseNotificationTime", () => {
+  it("parses valid HH:MM strings", () => {
+    expect(parseNotificationTime("08:30")).toEqual({ hour: 8, minute: 30 });
+    expect(parseNotificationTime("23:59")).toEqual({ hour: 23, minute: 59 });
+  });
+
+  it("rejects null and malformed values", () => {
+    expect(parseNotificationTime(null)).toBeNull();
+    expect(parseNotificationTime("24:00")).toBeNull();
+    expect(parseNotificationTime("8.30")).toBeNull();
+  });
+});
+
+describe("nextReminderDate", () => {
+  it("fires today while the time is still ahead, otherwise tomorrow", () => {
+    expect(nextReminderDate({ hour: 7, minute: 15 }, at(6))).toEqual(at(7, 15));
+    expect(nextReminderDate({ hour: 7, minute: 15 }, at(7, 15))).toEqual(
+      dayjs(at(7, 15)).add(1, "day").toDate()
+    );
+  });
+});
+
+describe("buildReminderContent", () => {
+  it("summarizes only today's pending tasks", () => {
+    const tasks = [
+      task("Read chapter 4"),
+      task("Done already", { completed: true }),
+      task("Trashed", { deletedAt: new Date().toISOString() }),
+      task("Tomorrow", { dueDate: dayjs().add(1, "day").format("YYYY-MM-DD") })
+    ];
+
+    const content = buildReminderContent(tasks);
+
+    expect(content.title).toBe("1 pending task today");
+    expect(content.body).toBe("Read chapter 4");
+  });
+
+  it("collapses long lists into a count", () => {
+    const tasks = ["A", "B", "C", "D", "E"].map(text => task(text));
+
+    expect(buildReminderContent(tasks).body).toBe("A, B, C +2 more");
+  });
+
+  it("uses a friendly message when nothing is pending", () => {
+    expect(buildReminderContent([]).body).toMatch(/No pending tasks/);
+  });
+});
+
+describe("syncDailyReminder", () => {
+  it("schedules the next reminder at the stored time", async () => {
+    const { scheduler, scheduled } = createFakeScheduler();
+
+    const result = await syncDailyReminder(scheduler, "07:15", [], at(6));
+
+    expect(result).toBe(true);
+    expect(scheduled.get(reminderId(0))?.date).toEqual(at(7, 15));
+  });
+
+  it("schedules the days ahead too, each listing its own tasks", async () => {
+    const { scheduler, scheduled } = createFakeScheduler();
+    const inAWeek = dayjs().add(7, "day").format("YYYY-MM-DD");
+    const tasks = [task("Due today"), task("Due in a week", { dueDate: inAWeek })];
+
+    await syncDailyReminder(scheduler, "07:15", tasks, at(6));
+
+    expect(scheduled.size).toBe(REMINDER_DAYS);
+    expect(scheduled.get(reminderId(7))).toEqual({
+      date: dayjs(at(7, 15)).add(7, "day").toDate(),
+      body: "Due in a week"
+    });
+    expect(scheduled.get(reminderId(REMINDER_DAYS - 1))?.date).toEqual(
+      dayjs(at(7, 15)).add(REMINDER_DAYS - 1, "day").toDate()
+    );
+    // Replaces the repeating reminder of earlier versions
+    expect(scheduler.cancel).toHaveBeenCalledWith(DAILY_REMINDER_ID);
+  });
+
+  it("lists tomorrow's tasks once today's reminder time has passed", async () => {
+    const { scheduler, scheduled } = createFakeScheduler();
+    const tasks = [
+      task("Due today"),
+      task("Due tomorrow", { dueDate: tomorrow })
+    ];
+
+    await syncDailyReminder(scheduler, "07:15", tasks, at(20));
+
+    expect(scheduled.get(reminderId(0))).toEqual({
+      date: dayjs(at(7, 15)).add(1, "day").toDate(),
+      body: "Due tomorrow"
+    });
+  });
+
+  it("cancels the reminder when the time is cleared", async () => {
+    const { scheduler, scheduled } = createFakeScheduler();
+    await syncDailyReminder(scheduler, "07:15", []);
+
+    const result = await syncDailyReminder(scheduler, null, []);
+
+    expect(result).toBe(false);
+    expect(scheduled.size).toBe(0);
+  });
+
+  it("does not schedule when permission is denied", async () => {
+    const { scheduler, scheduled } = createFakeScheduler(false);
+
+    const result = await syncDailyReminder(scheduler, "07:15", []);
+
+    expect(result).toBe(false);
+    expect(scheduler.scheduleAt).not.toHaveBeenCalled();
+    expect(scheduled.size).toBe(0);
+  });
+});
+
+describe("startReminderListener", () => {
+  beforeEach(() => jest.useFakeTimers({ now: at(9) }));
+  afterEach(() => jest.useRealTimers());
+
+  const setup = () => {
+    const { scheduler, scheduled } = createFakeScheduler();
+    const listener = createListenerMiddleware();
+    startReminderListener(listener.startListening, scheduler);
+
+    const store = configureStore({
+      reducer: { todo: todoReducer, settings: settingsReducer },
+      middleware: getDefault => getDefault().prepend(listener.middleware)
+    });
+    return { store, scheduler, scheduled };
+  };
+
+  it("reschedules once after a burst of changes", async () => {
+    const { store, scheduler, scheduled } = setup();
+
+    store.dispatch(setNotificationTime("18:00"));
+    store.dispatch(addTask({ text: "Physics revision", subjectId: "subject:Physics", priority: "High", dueDate: today }));
+
+    await jest.runAllTimersAsync();
+
+    expect(scheduler.scheduleAt).toHaveBeenCalledTimes(REMINDER_DAYS);
+    expect(scheduled.get(reminderId(0))).toEqual({
+      date: at(18),
+      body: "Physics revision"
+    });
+  });
+
+  it("schedules the next day's reminder once the current one has fired", async () => {
+    const { store, scheduled } = setup();
+    store.dispatch(setNotificationTime("18:00"));
+    store.dispatch(addTask({ text: "Lab report", subjectId: "subject:Physics", priority: "High", dueDate: tomorrow }));
+    await jest.runAllTimersAsync();
+
+    jest.setSystemTime(at(18));
+    store.dispatch(refreshReminder());
+    await jest.runAllTimersAsync();
+
+    expect(scheduled.get(reminderId(0))).toEqual({
+      date: dayjs(at(18)).add(1, "day").toDate(),
+      body: "Lab report"
+    });
+  });
+
+  it("reschedules after any action that changes the tasks, such as an import", async () => {
+    const { store, scheduled } = setup();
+    store.dispatch(setNotificationTime("18:00"));
+    await jest.runAllTimersAsync();
+
+    store.dispatch(upsertTasks([task("Imported")]));
+    await jest.runAllTimersAsync();
+
+    expect(scheduled.get(reminderId(0))?.body).toBe("Imported");
+  });
+});
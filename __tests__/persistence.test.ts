@@ -0,0 +1,214 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import { createStorageWriter, KeyValueStorage } from "../features/persistence/storageWriter";
+import { startPersistenceListener } from "../features/persistence/persistenceListener";
+import { taskListStorage } from "../features/persistence/taskStore";
+import { createAsyncStorageTaskStore } from "../features/persistence/asyncStorageTaskStore";
+import todoReducer, { addTask, loadTasksFromStorage } from "../features/todo/todoSlice";
+import { undoable, undo } from "../features/todo/undoHistory";
+import settingsReducer, { loadSettings, setThemeMode } from "../features/settings/settingsSlice";
+import sessionsReducer, { startFocus } from "../features/focus/sessionsSlice";
+import { SCHEMA_VERSION } from "../features/backup/migrations";
+import { STORAGE_KEYS } from "../constants/storageKeys";
+
+const setItem = AsyncStorage.setItem as jest.Mock;
+const removeItem = AsyncStorage.removeItem as jest.Mock;
+
+// Resolves a write only when the test says so
+const manualStorage = () => {
+  const writes: { key: string; value: string | null; done: () => void }[] = [];
+  const storage: KeyValueStorage = {
+    setItem: (key, value) => new Promise(done => writes.push({ key, value, done })),
+    removeItem: key => new Promise(done => writes.push({ key, value: null, done }))
+  };
+  return { writes, storage };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  setItem.mockReset().mockResolvedValue(undefined);
+  removeItem.mockReset().mockResolvedValue(undefined);
+});
+
+afterEach(() => jest.useRealTimers());
+
+describe("createStorageWriter", () => {
+  it("collapses a burst into one write per key", async () => {
+    const writer = createStorageWriter(AsyncStorage, { debounceMs: 300 });
+
+    writer.write("a", "1");
+    writer.write("a", "2");
+    writer.write("b", null);
+    await jest.advanceTimersByTimeAsync(299);
+    expect(setItem).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(setItem.mock.calls).toEqual([["a", "2"]]);
+    expect(removeItem.mock.calls).toEqual([["b"]]);
+    expect(writer.pending()).toEqual([]);
+  });
+
+  it("writes within the max wait while changes keep coming", async () => {
+    const writer = createStorageWriter(AsyncStorage, { debounceMs: 300, maxWaitMs: 1000 });
+
+    for (let i = 0; i < 10; i++) {
+      writer.write("a", String(i));
+      await jest.advanceTimersByTimeAsync(200);
+    }
+
+    expect(setItem.mock.calls[0]).toEqual(["a", "4"]);
+  });
+
+  it("never lets a newer write overtake an older one", async () => {
+    const { writes, storage } = manualStorage();
+    const writer = createStorageWriter(storage, { debounceMs: 0 });
+
+    writer.write("a", "old");
+    await jest.advanceTimersByTimeAsync(0);
+    writer.write("a", "new");
+    await jest.advanceTimersByTimeAsync(0);
+
+    // The second write waits for the first to finish
+    expect(writes.map(w => w.value)).toEqual(["old"]);
+    expect(writer.pending()).toEqual(["a"]);
+
+    writes[0].done();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(writes.map(w => w.value)).toEqual(["old", "new"]);
+
+    writes[1].done();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(writer.pending()).toEqual([]);
+  });
+
+  it("retries with backoff, then reports and keeps the value", async () => {
+    const onError = jest.fn();
+    const writer = createStorageWriter(AsyncStorage, {
+      debounceMs: 0,
+      retries: 2,
+      retryDelayMs: 100,
+      onError
+    });
+    setItem.mockRejectedValue(new Error("disk full"));
+
+    writer.write("a", "1");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(setItem).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+    expect(setItem).toHaveBeenCalledTimes(3);
+
+    expect(onError).toHaveBeenCalledWith("a", expect.any(Error));
+    expect(writer.pending()).toEqual(["a"]);
+
+    // The next flush tries again
+    setItem.mockResolvedValue(undefined);
+    await writer.flush();
+    expect(setItem).toHaveBeenLastCalledWith("a", "1");
+    expect(writer.pending()).toEqual([]);
+  });
+
+  it("does not resurrect a failed value once a newer one is queued", async () => {
+    const writer = createStorageWriter(AsyncStorage, { debounceMs: 0, retries: 0, onError: jest.fn() });
+    setItem.mockRejectedValueOnce(new Error("busy"));
+
+    writer.write("a", "old");
+    await jest.advanceTimersByTimeAsync(0);
+    writer.write("a", "new");
+    await writer.flush();
+
+    expect(setItem.mock.calls.map(([, value]) => value)).toEqual(["old", "new"]);
+  });
+
+  it("flushes without waiting for the debounce", async () => {
+    const writer = createStorageWriter(AsyncStorage, { debounceMs: 10000 });
+
+    writer.write("a", "1");
+    await writer.flush();
+
+    expect(setItem).toHaveBeenCalledWith("a", "1");
+  });
+});
+
+describe("startPersistenceListener", () => {
+  const setup = () => {
+    const writer = createStorageWriter(AsyncStorage, { debounceMs: 0 });
+    const taskWriter = createStorageWriter(
+      taskListStorage(createAsyncStorageTaskStore(AsyncStorage)),
+      { debounceMs: 0 }
+    );
+    const listener = createListenerMiddleware();
+    startPersistenceListener(listener.startListening, writer, taskWriter);
+
+    const store = configureStore({
+      reducer: {
+        todo: undoable(todoReducer),
+        settings: settingsReducer,
+        sessions: sessionsReducer
+      },
+      middleware: getDefault => getDefault().prepend(listener.middleware)
+    });
+    const flush = () => Promise.all([writer.flush(), taskWriter.flush()]);
+    return { store, flush };
+  };
+
+  const add = (text: string) =>
+    addTask({ text, subjectId: "subject:Math", priority: "Medium", dueDate: "2025-08-01" });
+
+  const written = (key: string) => {
+    const calls = setItem.mock.calls.filter(([k]) => k === key);
+    return calls.length > 0 ? JSON.parse(calls[calls.length - 1][1]) : undefined;
+  };
+
+  it("persists only the task list, never the history", async () => {
+    const { store, flush } = setup();
+    store.dispatch(add("A"));
+    store.dispatch(add("B"));
+    store.dispatch(undo());
+    await flush();
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(written(STORAGE_KEYS.TASKS).map((t: { text: string }) => t.text)).toEqual(["A"]);
+    expect(setItem.mock.calls[0][1]).not.toContain("history");
+  });
+
+  it("writes only what changed", async () => {
+    const { store, flush } = setup();
+    store.dispatch(setThemeMode("dark"));
+    await flush();
+
+    expect(setItem.mock.calls.map(([key]) => key)).toEqual([STORAGE_KEYS.SETTINGS]);
+    expect(written(STORAGE_KEYS.SETTINGS).themeMode).toBe("dark");
+  });
+
+  it("stores the running timer apart from the session log", async () => {
+    const { store, flush } = setup();
+    store.dispatch(startFocus({
+      phase: "work",
+      durations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+      now: "2025-08-01T09:00:00.000Z"
+    }));
+    await flush();
+
+    expect(setItem.mock.calls.map(([key]) => key)).toEqual([STORAGE_KEYS.FOCUS_TIMER]);
+    expect(written(STORAGE_KEYS.FOCUS_TIMER)).toMatchObject({
+      timer: { phase: "work" },
+      lastPhase: null,
+      completedWorkPhases: 0
+    });
+  });
+
+  it("does not write back data it just loaded", async () => {
+    const { store, flush } = setup();
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) =>
+      key === STORAGE_KEYS.TASKS ? JSON.stringify([]) : String(SCHEMA_VERSION)
+    );
+
+    store.dispatch(loadSettings({ themeMode: "light" }));
+    await store.dispatch(loadTasksFromStorage(createAsyncStorageTaskStore(AsyncStorage)));
+    await flush();
+
+    expect(setItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,36 @@
+import {
+  comparePriorities,
+  createPriority,
+  DEFAULT_PRIORITIES,
+  defaultPriority,
+  resolvePriority
+} from "../features/settings/priorities";
+
+describe("priorities", () => {
+  it("resolves by ID, then by name, then to the middle level", () => {
+    const renamed = DEFAULT_PRIORITIES.map(p => (p.id === "High" ? { ...p, name: "Urgent" } : p));
+
+    expect(resolvePriority(renamed, "High").name).toBe("Urgent");
+    expect(resolvePriority(renamed, "urgent").id).toBe("High");
+    expect(resolvePriority(renamed, "low").id).toBe("Low");
+    expect(resolvePriority(renamed, "Critical").id).toBe("Medium");
+  });
+
+  it("picks the middle level as the default", () => {
+    const four = [...DEFAULT_PRIORITIES, createPriority("Someday", DEFAULT_PRIORITIES)];
+
+    expect(defaultPriority(DEFAULT_PRIORITIES).id).toBe("Medium");
+    expect(defaultPriority(four).id).toBe("Medium");
+    expect(defaultPriority([]).id).toBe("Medium");
+  });
+
+  it("ranks new levels last and keeps IDs unique", () => {
+    const renamed = DEFAULT_PRIORITIES.map(p => (p.id === "Low" ? { ...p, name: "Later" } : p));
+
+    expect(createPriority(" Low ", renamed)).toMatchObject({ id: "Low#2", name: "Low", rank: 3 });
+  });
+
+  it("compares priorities by rank, most urgent first", () => {
+    expect(["Low", "nope", "High"].sort(comparePriorities(DEFAULT_PRIORITIES))).toEqual(["High", "nope", "Low"]);
+  });
+});
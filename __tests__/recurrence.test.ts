@@ -0,0 +1,166 @@
+import {
+  describeRecurrence,
+  expandTasksForDay,
+  getOccurrenceDates,
+  occursOn,
+  RecurrenceRule,
+  sanitizeRecurrence
+} from "../features/todo/recurrence";
+import { Task } from "../features/todo/todoSlice";
+
+const series = (recurrence: RecurrenceRule | null, overrides: Partial<Task> = {}): Task => ({
+  id: "series-1",
+  text: "Physics revision",
+  completed: false,
+  subjectId: "subject:Physics",
+  priority: "High",
+  // 2025-09-01 is a Monday
+  dueDate: "2025-09-01",
+  dueTime: null,
+  createdAt: "2025-08-30T10:00:00.000Z",
+  completedAt: null,
+  deletedAt: null,
+  recurrence,
+  ...overrides
+});
+
+describe("occursOn", () => {
+  it("repeats daily from the start date", () => {
+    const task = series({ frequency: "daily" });
+
+    expect(occursOn(task, "2025-08-31")).toBe(false);
+    expect(occursOn(task, "2025-09-01")).toBe(true);
+    expect(occursOn(task, "2025-12-25")).toBe(true);
+  });
+
+  it("repeats on weekdays only", () => {
+    const task = series({ frequency: "weekdays" });
+
+    expect(getOccurrenceDates(task, "2025-09-01", "2025-09-07")).toEqual([
+      "2025-09-01",
+      "2025-09-02",
+      "2025-09-03",
+      "2025-09-04",
+      "2025-09-05"
+    ]);
+  });
+
+  it("repeats on specific weekdays", () => {
+    const task = series({ frequency: "weekly", weekdays: [1, 3, 5] });
+
+    expect(getOccurrenceDates(task, "2025-09-01", "2025-09-10")).toEqual([
+      "2025-09-01",
+      "2025-09-03",
+      "2025-09-05",
+      "2025-09-08",
+      "2025-09-10"
+    ]);
+  });
+
+  it("repeats every N days", () => {
+    const task = series({ frequency: "interval", interval: 3 });
+
+    expect(getOccurrenceDates(task, "2025-09-01", "2025-09-10")).toEqual([
+      "2025-09-01",
+      "2025-09-04",
+      "2025-09-07",
+      "2025-09-10"
+    ]);
+  });
+
+  it("clamps monthly day to short months", () => {
+    const task = series({ frequency: "monthly", dayOfMonth: 31 }, { dueDate: "2025-01-31" });
+
+    expect(occursOn(task, "2025-02-28")).toBe(true);
+    expect(occursOn(task, "2025-03-31")).toBe(true);
+    expect(occursOn(task, "2025-04-30")).toBe(true);
+    expect(occursOn(task, "2025-04-29")).toBe(false);
+  });
+
+  it("stops after the end date", () => {
+    const task = series({ frequency: "daily", endDate: "2025-09-03" });
+
+    expect(getOccurrenceDates(task, "2025-09-01", "2025-09-10")).toHaveLength(3);
+  });
+
+  it("stops after the occurrence count, counting skipped days", () => {
+    const task = series(
+      { frequency: "weekly", weekdays: [1, 3, 5], count: 4 },
+      { excludedDates: ["2025-09-03"] }
+    );
+
+    expect(getOccurrenceDates(task, "2025-09-01", "2025-09-30")).toEqual([
+      "2025-09-01",
+      "2025-09-05",
+      "2025-09-08"
+    ]);
+  });
+
+  it("ends a counted series on the same day for every frequency", () => {
+    const rules: RecurrenceRule[] = [
+      { frequency: "daily" },
+      { frequency: "weekdays" },
+      { frequency: "weekly", weekdays: [0, 3] },
+      { frequency: "interval", interval: 4 },
+      { frequency: "monthly", dayOfMonth: 31 },
+      // Day 1 is already past in the start month
+      { frequency: "monthly", dayOfMonth: 1 }
+    ];
+
+    for (const rule of rules) {
+      // Starts on a Wednesday mid-month
+      const unlimited = getOccurrenceDates(series(rule, { dueDate: "2025-09-10" }), "2025-09-01", "2028-12-31");
+      const counted = series({ ...rule, count: 25 }, { dueDate: "2025-09-10" });
+
+      expect(getOccurrenceDates(counted, "2025-09-01", "2028-12-31")).toEqual(unlimited.slice(0, 25));
+    }
+  });
+});
+
+describe("expandTasksForDay", () => {
+  it("marks only the completed occurrence as done", () => {
+    const task = series(
+      { frequency: "daily" },
+      { occurrenceCompletions: { "2025-09-02": "2025-09-02T18:00:00.000Z" } }
+    );
+
+    const [done] = expandTasksForDay([task], "2025-09-02");
+    const [open] = expandTasksForDay([task], "2025-09-03");
+
+    expect(done).toMatchObject({ dueDate: "2025-09-02", completed: true });
+    expect(open).toMatchObject({ dueDate: "2025-09-03", completed: false });
+  });
+
+  it("includes one-off tasks due that day and skips deleted ones", () => {
+    const oneOff = series(null, { id: "one", dueDate: "2025-09-02" });
+    const trashed = series({ frequency: "daily" }, { id: "gone", deletedAt: "2025-09-01T00:00:00.000Z" });
+
+    const ids = expandTasksForDay([oneOff, trashed], "2025-09-02").map(t => t.id);
+
+    expect(ids).toEqual(["one"]);
+  });
+});
+
+describe("sanitizeRecurrence", () => {
+  it("rejects malformed rules", () => {
+    expect(sanitizeRecurrence(null)).toBeNull();
+    expect(sanitizeRecurrence({ frequency: "hourly" })).toBeNull();
+    expect(sanitizeRecurrence({ frequency: "interval", interval: 0 })).toBeNull();
+    expect(sanitizeRecurrence({ frequency: "weekly", weekdays: [9] })).toBeNull();
+  });
+
+  it("keeps valid fields and drops unknown ones", () => {
+    expect(sanitizeRecurrence({ frequency: "weekly", weekdays: [5, 1, 1], count: 6, foo: 1 })).toEqual({
+      frequency: "weekly",
+      weekdays: [1, 5],
+      count: 6
+    });
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("builds short labels", () => {
+    expect(describeRecurrence({ frequency: "weekly", weekdays: [1, 3, 5] })).toBe("Every Mon, Wed, Fri");
+    expect(describeRecurrence({ frequency: "interval", interval: 3, count: 5 })).toBe("Every 3 days, 5 times");
+  });
+});
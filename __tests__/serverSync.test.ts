@@ -0,0 +1,351 @@
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { AddressInfo } from "node:net";
+import todoReducer, { addTask, editTask, toggleTask, deleteTask, purgeTask } from "../features/todo/todoSlice";
+import { undo, undoable } from "../features/todo/undoHistory";
+import settingsReducer, { addSubject, setThemeMode } from "../features/settings/settingsSlice";
+import serverSyncReducer, {
+  connectServer,
+  loadServerSync,
+  loadServerSyncFromStorage,
+  recordsToChanges,
+  syncWithServer
+} from "../features/sync/serverSyncSlice";
+import { startServerSyncListener } from "../features/sync/serverSyncListener";
+import { createFakeSyncServer, FakeSyncServer } from "../features/sync/fakeSyncServer";
+import { createHttpTransport, SyncTransportError } from "../features/sync/syncTransport";
+import { createSyncService } from "../features/sync/syncService";
+import { MAX_BATCH, Mutation, MUTATIONS_PATH } from "../features/sync/protocol";
+import { createSyncHttpServer } from "../server/httpServer";
+
+const SERVER_URL = "https://sync.school.example";
+
+const client = (server: FakeSyncServer, clientId: string, token = "class-7b") => {
+  const listener = createListenerMiddleware();
+  startServerSyncListener(listener.startListening);
+  const store = configureStore({
+    reducer: {
+      todo: undoable(todoReducer),
+      settings: settingsReducer,
+      serverSync: serverSyncReducer
+    },
+    middleware: getDefault => getDefault().prepend(listener.middleware)
+  });
+  store.dispatch(
+    loadServerSync({
+      serverUrl: "",
+      token: "",
+      clientId,
+      cursor: 0,
+      revisions: {},
+      queue: [],
+      lastSyncedAt: null
+    })
+  );
+  store.dispatch(connectServer({ serverUrl: SERVER_URL, token }));
+
+  const sync = () =>
+    store.dispatch(syncWithServer(createHttpTransport({ serverUrl: SERVER_URL, token }, server.fetch)));
+  return { store, sync };
+};
+
+type Client = ReturnType<typeof client>;
+
+const tasks = ({ store }: Client) => store.getState().todo.tasks;
+const byText = (c: Client, text: string) => tasks(c).find(t => t.text === text)!;
+const queue = ({ store }: Client) => store.getState().serverSync.queue;
+
+const add = (text: string) =>
+  addTask({ text, subjectId: "subject:Math", priority: "Medium", dueDate: "2025-08-01" });
+
+const edit = (c: Client, text: string, changes: { text?: string; priority?: string }) => {
+  const task = byText(c, text);
+  c.store.dispatch(
+    editTask({ id: task.id, text: task.text, priority: task.priority, subjectId: task.subjectId, ...changes })
+  );
+};
+
+describe("sync through the server", () => {
+  let server: FakeSyncServer;
+  let phone: Client;
+  let laptop: Client;
+
+  const transport = (token: string) =>
+    createHttpTransport({ serverUrl: SERVER_URL, token }, server.fetch);
+
+  beforeEach(async () => {
+    server = createFakeSyncServer({ tokens: ["class-7b", "class-8a"] });
+    phone = client(server, "phone");
+    laptop = client(server, "laptop");
+    phone.store.dispatch(add("Essay"));
+    await phone.sync();
+    await laptop.sync();
+  });
+
+  it("brings tasks and shared settings to the other client", async () => {
+    phone.store.dispatch(addSubject("History"));
+    phone.store.dispatch(add("Lab report"));
+    await phone.sync();
+    await laptop.sync();
+
+    expect(tasks(laptop)).toEqual(tasks(phone));
+    expect(laptop.store.getState().settings.subjects.map(s => s.name)).toContain("History");
+    expect(queue(phone)).toEqual([]);
+  });
+
+  it("keeps the undo history when a pull brings back this client's own changes", async () => {
+    edit(phone, "Essay", { text: "Essay draft" });
+    await phone.sync();
+    await phone.sync();
+
+    expect(phone.store.getState().todo.history.past).not.toEqual([]);
+    phone.store.dispatch(undo());
+    expect(byText(phone, "Essay")).toBeDefined();
+  });
+
+  it("keeps device settings to the device", async () => {
+    phone.store.dispatch(setThemeMode("dark"));
+    await phone.sync();
+    await laptop.sync();
+
+    expect(laptop.store.getState().settings.themeMode).toBe("system");
+  });
+
+  it("merges edits to different fields", async () => {
+    edit(phone, "Essay", { text: "Essay draft" });
+    laptop.store.dispatch(toggleTask(byText(laptop, "Essay").id));
+    await phone.sync();
+    await laptop.sync();
+    await phone.sync();
+
+    expect(tasks(laptop)).toEqual(tasks(phone));
+    expect(byText(phone, "Essay draft").completed).toBe(true);
+    expect(laptop.store.getState().serverSync.conflicts).toBe(0);
+  });
+
+  it("answers a conflicting edit with the server's copy", async () => {
+    edit(phone, "Essay", { priority: "High" });
+    edit(laptop, "Essay", { priority: "Low" });
+    await phone.sync();
+    await laptop.sync();
+
+    expect(laptop.store.getState().serverSync.conflicts).toBe(1);
+    expect(byText(laptop, "Essay").priority).toBe("High");
+    expect(tasks(laptop)).toEqual(tasks(phone));
+  });
+
+  it("queues changes while offline and sends them once back", async () => {
+    server.setOnline(false);
+    edit(phone, "Essay", { text: "Essay v2" });
+    edit(phone, "Essay v2", { text: "Essay v3" });
+    await phone.sync();
+
+    expect(phone.store.getState().serverSync.status).toBe("offline");
+    // Both edits of the task wait as one mutation
+    expect(queue(phone)).toHaveLength(1);
+
+    server.setOnline(true);
+    await phone.sync();
+    await laptop.sync();
+
+    expect(phone.store.getState().serverSync.status).toBe("idle");
+    expect(queue(phone)).toEqual([]);
+    expect(byText(laptop, "Essay v3")).toBeDefined();
+  });
+
+  it("keeps an unsent edit when a pull brings other changes", async () => {
+    edit(laptop, "Essay", { priority: "Low" });
+    await laptop.sync();
+    edit(phone, "Essay", { text: "Essay, phone" });
+
+    // What the pull half of a sync does with the laptop's change
+    const { changes } = await transport("class-7b").pull(phone.store.getState().serverSync.cursor);
+    const { tasks: pulled } = recordsToChanges(changes, queue(phone));
+
+    expect(pulled).toMatchObject([{ text: "Essay, phone", priority: "Low" }]);
+  });
+
+  it("deletes purged tasks on the other client", async () => {
+    const id = byText(phone, "Essay").id;
+    phone.store.dispatch(deleteTask(id));
+    await phone.sync();
+    await laptop.sync();
+    expect(byText(laptop, "Essay").deletedAt).not.toBeNull();
+
+    laptop.store.dispatch(purgeTask(id));
+    await laptop.sync();
+    await phone.sync();
+    expect(tasks(phone)).toEqual([]);
+  });
+
+  it("keeps each token's data apart", async () => {
+    const other = client(server, "tablet", "class-8a");
+    await other.sync();
+
+    expect(tasks(other)).toEqual([]);
+  });
+
+  it("reports a token the server doesn't know", async () => {
+    const stranger = client(server, "tablet", "guess");
+    stranger.store.dispatch(add("Homework"));
+    await stranger.sync();
+
+    expect(stranger.store.getState().serverSync).toMatchObject({
+      status: "error",
+      lastError: "The sync server didn't accept the token."
+    });
+    // Kept for later: the settings sent on connecting, and the new task
+    expect(queue(stranger)).toHaveLength(2);
+  });
+
+  it("pushes large queues in batches", async () => {
+    for (let i = 0; i < MAX_BATCH + 5; i++) phone.store.dispatch(add(`Task ${i}`));
+    await phone.sync();
+    await laptop.sync();
+
+    const pushes = server.requests.filter(r => r.url === MUTATIONS_PATH);
+    expect(pushes.length).toBeGreaterThanOrEqual(3);
+    expect(tasks(laptop)).toHaveLength(MAX_BATCH + 6);
+  });
+
+  it("refuses a server answer it can't read", async () => {
+    const transport = createHttpTransport({ serverUrl: SERVER_URL, token: "class-7b" }, async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ changes: [{ key: "task:a", value: "Essay", revision: -1 }], cursor: 1, hasMore: false })
+    }));
+
+    await expect(transport.pull(0)).rejects.toEqual(
+      new SyncTransportError("server", "The sync server sent an answer BrainDesk can't read.")
+    );
+  });
+});
+
+describe("loadServerSyncFromStorage", () => {
+  it("drops malformed revisions and queued mutations", async () => {
+    const mutation: Mutation = { id: "m1", key: "task:a", fields: { text: "Essay" }, baseRevision: 0 };
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+      JSON.stringify({
+        serverUrl: SERVER_URL,
+        token: "class-7b",
+        clientId: "phone",
+        cursor: "7",
+        revisions: { "task:a": 3, "task:b": "4", "task:c": -1 },
+        queue: [mutation, { id: "m2", key: "task:b" }, null],
+        lastSyncedAt: null
+      })
+    );
+
+    expect(await loadServerSyncFromStorage()).toMatchObject({
+      clientId: "phone",
+      cursor: 0,
+      revisions: { "task:a": 3 },
+      queue: [mutation]
+    });
+  });
+});
+
+describe("sync service", () => {
+  const token = "class-7b";
+  const push = (service: ReturnType<typeof createSyncService>, clientId: string, mutations: Mutation[]) =>
+    service.handle({
+      method: "POST",
+      url: MUTATIONS_PATH,
+      authorization: `Bearer ${token}`,
+      body: JSON.stringify({ clientId, mutations })
+    });
+  const mutation = (id: string, fields: Mutation["fields"], baseRevision = 0): Mutation => ({
+    id,
+    key: "task:a",
+    fields,
+    baseRevision
+  });
+
+  it("applies a retried mutation only once", () => {
+    const service = createSyncService({ tokens: [token] });
+    const first = push(service, "phone", [mutation("m1", { text: "Essay" })]);
+    const retry = push(service, "phone", [mutation("m1", { text: "Essay" })]);
+
+    expect(retry).toEqual(first);
+    expect(service.snapshot()[token].cursor).toBe(1);
+  });
+
+  it("never lets a client conflict with itself", () => {
+    const service = createSyncService({ tokens: [token] });
+    push(service, "phone", [mutation("m1", { text: "Essay" })]);
+    const { body } = push(service, "phone", [mutation("m2", { text: "Essay draft" })]);
+
+    expect(body).toEqual({ results: [{ id: "m2", status: "applied", revision: 2 }] });
+  });
+
+  it("pages pulls", () => {
+    const service = createSyncService({ tokens: [token], pageSize: 2 });
+    push(service, "phone", ["a", "b", "c"].map(key => ({ ...mutation(key, {}), key: `task:${key}` })));
+    const pull = (since: number) =>
+      service.handle({ method: "GET", url: `/v1/changes?since=${since}`, authorization: `Bearer ${token}` }).body;
+
+    expect(pull(0)).toMatchObject({ cursor: 2, hasMore: true });
+    expect(pull(2)).toMatchObject({ cursor: 3, hasMore: false, changes: [{ key: "task:c" }] });
+  });
+
+  it("refuses malformed requests and oversized batches", () => {
+    const service = createSyncService({ tokens: [token] });
+
+    expect(service.handle({ method: "POST", url: MUTATIONS_PATH, authorization: `Bearer ${token}`, body: "{" }).status).toBe(400);
+    expect(push(service, "phone", Array.from({ length: MAX_BATCH + 1 }, (_, i) => mutation(`m${i}`, {}))).status).toBe(413);
+    expect(push(service, "phone", [{ id: "m1" } as Mutation]).body).toEqual({
+      results: [{ id: "m1", status: "rejected", reason: "Malformed mutation." }]
+    });
+  });
+
+  it("restores a snapshot", () => {
+    const service = createSyncService({ tokens: [token] });
+    push(service, "phone", [mutation("m1", { text: "Essay" })]);
+
+    const restored = createSyncService({ tokens: [token] });
+    restored.restore(JSON.parse(JSON.stringify(service.snapshot())));
+
+    expect(restored.snapshot()).toEqual(service.snapshot());
+  });
+});
+
+describe("Node reference server", () => {
+  it("serves the protocol over HTTP", async () => {
+    const httpServer = createSyncHttpServer(createSyncService({ tokens: ["class-7b"] }));
+    await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    try {
+      const transport = createHttpTransport({ serverUrl: `http://127.0.0.1:${port}/`, token: "class-7b" });
+      await transport.push({ clientId: "phone", mutations: [{ id: "m1", key: "task:a", fields: { text: "Essay" }, baseRevision: 0 }] });
+
+      expect(await transport.pull(0)).toEqual({
+        changes: [{ key: "task:a", value: { text: "Essay" }, revision: 1 }],
+        cursor: 1,
+        hasMore: false
+      });
+    } finally {
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  });
+
+  it("answers an oversized body with 413", async () => {
+    const httpServer = createSyncHttpServer(createSyncService({ tokens: ["class-7b"] }));
+    await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/push`, {
+        method: "POST",
+        headers: { Authorization: "Bearer class-7b", "Content-Type": "application/json" },
+        body: "x".repeat(6 * 1024 * 1024)
+      });
+
+      expect(response.status).toBe(413);
+      expect(await response.json()).toEqual({ error: "Request body too large." });
+    } finally {
+      httpServer.closeAllConnections();
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  });
+});
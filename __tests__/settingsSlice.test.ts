@@ -1,19 +1,44 @@
+import { configureStore } from "@reduxjs/toolkit";
 import settingsReducer, {
   setThemeMode,
   addSubject,
+  renameSubject,
+  styleSubject,
+  setSubjectArchived,
+  moveSubject,
   deleteSubject,
+  addPriority,
+  renamePriority,
+  movePriority,
+  deletePriority,
+  removePriority,
+  removeSubject,
   clearSettings,
   setNotificationTime,
+  setAutoCompleteTasks,
+  setTrashRetentionDays,
+  setDailyGoal,
+  setFocusDurations,
+  setSnapshotsToKeep,
   loadSettings,
   mergeSettings,
   SettingsState
 } from "../features/settings/settingsSlice";
+import { sortSubjects, subjectsFromNames } from "../features/settings/subjects";
+import { DEFAULT_PRIORITIES, sortPriorities } from "../features/settings/priorities";
+import todoReducer, { addTask } from "../features/todo/todoSlice";
 
 describe("settingsSlice", () => {
   const initialState: SettingsState = {
     themeMode: "system",
-    subjects: ["Physics", "Chemistry", "Math"],
-    notificationTime: null
+    subjects: subjectsFromNames(["Physics", "Chemistry", "Math"]),
+    priorities: DEFAULT_PRIORITIES,
+    notificationTime: null,
+    autoCompleteTasks: false,
+    trashRetentionDays: 30,
+    dailyGoal: { type: "tasks", target: 3 },
+    focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+    snapshotsToKeep: 7
   };
 
   it("should return the initial state", () => {
@@ -27,26 +52,116 @@ describe("settingsSlice", () => {
   });
 
   it("should add a subject", () => {
-    const result = settingsReducer(initialState, addSubject("Biology"));
-    expect(result.subjects).toContain("Biology");
+    const result = settingsReducer(initialState, addSubject(" Biology "));
+    expect(result.subjects[3]).toMatchObject({ id: "subject:Biology", name: "Biology", archived: false, order: 3 });
   });
 
   it("should not add duplicate subject", () => {
-    const result = settingsReducer(initialState, addSubject("Physics"));
-    const count = result.subjects.filter(s => s === "Physics").length;
-    expect(count).toBe(1);
+    const result = settingsReducer(initialState, addSubject("physics"));
+    expect(result.subjects).toHaveLength(3);
+  });
+
+  it("should rename a subject without changing its ID", () => {
+    const result = settingsReducer(initialState, renameSubject({ id: "subject:Math", name: "Maths" }));
+    expect(result.subjects[2]).toMatchObject({ id: "subject:Math", name: "Maths" });
+
+    const taken = settingsReducer(result, renameSubject({ id: "subject:Maths", name: "physics" }));
+    expect(taken.subjects.map(s => s.name)).toEqual(["Physics", "Chemistry", "Maths"]);
+  });
+
+  it("should give a new subject a fresh ID when its name's ID is taken", () => {
+    const renamed = settingsReducer(initialState, renameSubject({ id: "subject:Math", name: "Maths" }));
+    const result = settingsReducer(renamed, addSubject("Math"));
+    expect(result.subjects[3].id).toBe("subject:Math#2");
+  });
+
+  it("should style and archive a subject", () => {
+    let result = settingsReducer(initialState, styleSubject({ id: "subject:Physics", color: "#EF4444", icon: "planet-outline" }));
+    result = settingsReducer(result, setSubjectArchived({ id: "subject:Physics", archived: true }));
+    expect(result.subjects[0]).toMatchObject({ color: "#EF4444", icon: "planet-outline", archived: true });
+  });
+
+  it("should move a subject", () => {
+    const result = settingsReducer(initialState, moveSubject({ id: "subject:Math", offset: -1 }));
+    expect(sortSubjects(result.subjects).map(s => s.name)).toEqual(["Physics", "Math", "Chemistry"]);
+
+    const unchanged = settingsReducer(initialState, moveSubject({ id: "subject:Physics", offset: -1 }));
+    expect(unchanged.subjects).toEqual(initialState.subjects);
   });
 
   it("should delete a subject", () => {
-    const result = settingsReducer(initialState, deleteSubject("Chemistry"));
-    expect(result.subjects).not.toContain("Chemistry");
+    const result = settingsReducer(initialState, deleteSubject({ id: "subject:Chemistry", reassignTo: "subject:Math" }));
+    expect(result.subjects.map(s => s.name)).toEqual(["Physics", "Math"]);
+  });
+
+  it("should not delete a subject that would leave tasks without one", () => {
+    const store = configureStore({ reducer: { todo: todoReducer, settings: settingsReducer } });
+    ["Math", "Art", "Music"].forEach(name => store.dispatch(addSubject(name)));
+    store.dispatch(
+      addTask({ text: "Essay", subjectId: "subject:Math", priority: "Medium", dueDate: "2025-08-01" })
+    );
+    const ids = () => store.getState().settings.subjects.map(s => s.id);
+
+    store.dispatch(removeSubject("subject:Math", null));
+    store.dispatch(removeSubject("subject:Math", "subject:Unknown"));
+    expect(ids()).toContain("subject:Math");
+    expect(store.getState().todo.tasks[0].subjectId).toBe("subject:Math");
+
+    store.dispatch(removeSubject("subject:Music", null));
+    expect(ids()).not.toContain("subject:Music");
+
+    store.dispatch(removeSubject("subject:Math", "subject:Art"));
+    expect(ids()).not.toContain("subject:Math");
+    expect(store.getState().todo.tasks[0].subjectId).toBe("subject:Art");
+  });
+
+  it("should add, rename and reorder priority levels", () => {
+    let result = settingsReducer(initialState, addPriority("Someday"));
+    result = settingsReducer(result, addPriority("someday"));
+    result = settingsReducer(result, renamePriority({ id: "High", name: "Urgent" }));
+    result = settingsReducer(result, movePriority({ id: "Someday", offset: -1 }));
+
+    expect(sortPriorities(result.priorities).map(p => [p.id, p.name])).toEqual([
+      ["High", "Urgent"],
+      ["Medium", "Medium"],
+      ["Someday", "Someday"],
+      ["Low", "Low"]
+    ]);
+  });
+
+  it("should delete a priority level only with a valid target", () => {
+    const result = settingsReducer(initialState, deletePriority({ id: "Low", reassignTo: "Medium" }));
+    expect(result.priorities.map(p => p.id)).toEqual(["High", "Medium"]);
+
+    expect(settingsReducer(result, deletePriority({ id: "High", reassignTo: "Low" })).priorities).toHaveLength(2);
+  });
+
+  it("should leave tasks alone when a priority delete is rejected", () => {
+    const store = configureStore({ reducer: { todo: todoReducer, settings: settingsReducer } });
+    store.dispatch(
+      addTask({ text: "Essay", subjectId: "subject:Math", priority: "High", dueDate: "2025-08-01" })
+    );
+
+    store.dispatch(removePriority("High", "Someday"));
+    expect(store.getState().settings.priorities.map(p => p.id)).toEqual(["High", "Medium", "Low"]);
+    expect(store.getState().todo.tasks[0].priority).toBe("High");
+
+    store.dispatch(removePriority("High", "Low"));
+    expect(store.getState().settings.priorities.map(p => p.id)).toEqual(["Medium", "Low"]);
+    expect(store.getState().todo.tasks[0].priority).toBe("Low");
   });
 
   it("should clear all settings", () => {
     const modifiedState: SettingsState = {
       themeMode: "dark",
-      subjects: ["Art", "Music"],
-      notificationTime: "08:00"
+      subjects: subjectsFromNames(["Art", "Music"]),
+      priorities: DEFAULT_PRIORITIES,
+      notificationTime: "08:00",
+      autoCompleteTasks: true,
+      trashRetentionDays: 0,
+      dailyGoal: { type: "minutes", target: 45 },
+      focusDurations: { work: 50, shortBreak: 10, longBreak: 30, longBreakEvery: 2 },
+      snapshotsToKeep: 0
     };
     const result = settingsReducer(modifiedState, clearSettings());
     expect(result).toEqual(initialState);
@@ -57,31 +172,72 @@ describe("settingsSlice", () => {
     expect(result.notificationTime).toBe("09:30");
   });
 
+  it("should toggle task auto-completion", () => {
+    const result = settingsReducer(initialState, setAutoCompleteTasks(true));
+    expect(result.autoCompleteTasks).toBe(true);
+  });
+
+  it("should set the trash retention period", () => {
+    const result = settingsReducer(initialState, setTrashRetentionDays(7));
+    expect(result.trashRetentionDays).toBe(7);
+  });
+
+  it("should set how many snapshots are kept", () => {
+    expect(settingsReducer(initialState, setSnapshotsToKeep(14)).snapshotsToKeep).toBe(14);
+    expect(settingsReducer(initialState, setSnapshotsToKeep(-1)).snapshotsToKeep).toBe(7);
+  });
+
+  it("should set the daily goal", () => {
+    const result = settingsReducer(initialState, setDailyGoal({ type: "minutes", target: 60 }));
+    expect(result.dailyGoal).toEqual({ type: "minutes", target: 60 });
+  });
+
+  it("should ignore an invalid daily goal", () => {
+    const result = settingsReducer(initialState, setDailyGoal({ type: "tasks", target: 0 }));
+    expect(result.dailyGoal).toEqual(initialState.dailyGoal);
+  });
+
+  it("should set focus durations and reject non-positive lengths", () => {
+    const durations = { work: 50, shortBreak: 10, longBreak: 20, longBreakEvery: 3 };
+    const result = settingsReducer(initialState, setFocusDurations(durations));
+    expect(result.focusDurations).toEqual(durations);
+
+    const rejected = settingsReducer(result, setFocusDurations({ ...durations, work: 0 }));
+    expect(rejected.focusDurations).toEqual(durations);
+  });
+
   it("should load partial settings", () => {
     const result = settingsReducer(initialState, loadSettings({
       themeMode: "light",
-      subjects: ["History"]
+      subjects: subjectsFromNames(["History"])
     }));
     expect(result.themeMode).toBe("light");
-    expect(result.subjects).toEqual(["History"]);
+    expect(result.subjects).toEqual(subjectsFromNames(["History"]));
     expect(result.notificationTime).toBe(null);
   });
 
   it("should merge settings and deduplicate subjects", () => {
     const currentState: SettingsState = {
       themeMode: "system",
-      subjects: ["Physics", "Chemistry"],
-      notificationTime: null
+      subjects: subjectsFromNames(["Physics", "Chemistry"]),
+      priorities: DEFAULT_PRIORITIES,
+      notificationTime: null,
+      autoCompleteTasks: false,
+      trashRetentionDays: 30,
+      dailyGoal: { type: "tasks", target: 3 },
+      focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+      snapshotsToKeep: 7
     };
 
     const result = settingsReducer(currentState, mergeSettings({
       themeMode: "dark",
-      subjects: ["Physics", "Biology"],
+      subjects: subjectsFromNames(["physics", "Biology"]),
       notificationTime: "07:00"
     }));
 
     expect(result.themeMode).toBe("dark");
-    expect([...result.subjects].sort()).toEqual(["Physics", "Chemistry", "Biology"].sort());
+    expect(result.subjects.map(s => s.name)).toEqual(["Physics", "Chemistry", "Biology"]);
+    expect(result.subjects[2]).toMatchObject({ id: "subject:Biology", order: 2 });
     expect(result.notificationTime).toBe("07:00");
   });
 });
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import { BackupError } from "../features/backup/backup";
+import {
+  isDailySnapshotDue,
+  listSnapshots,
+  parseSnapshotName,
+  readSnapshot,
+  SnapshotStore,
+  snapshotName,
+  takeSnapshot
+} from "../features/backup/snapshots";
+import { startSnapshotListener } from "../features/backup/snapshotListener";
+import todoReducer, { addTask, clearTasks, replaceTasks } from "../features/todo/todoSlice";
+import settingsReducer, { clearSettings, SettingsState } from "../features/settings/settingsSlice";
+import sessionsReducer from "../features/focus/sessionsSlice";
+import { subjectsFromNames } from "../features/settings/subjects";
+import { DEFAULT_PRIORITIES } from "../features/settings/priorities";
+import { makeTask } from "../__fixtures__/tasks";
+
+const memoryStore = () => {
+  const files = new Map<string, string>();
+  const store: SnapshotStore = {
+    list: async () => [...files.keys()],
+    read: async name => {
+      const contents = files.get(name);
+      if (contents === undefined) throw new Error(`missing ${name}`);
+      return contents;
+    },
+    write: async (name, contents) => {
+      files.set(name, contents);
+    },
+    remove: async name => {
+      files.delete(name);
+    },
+    size: async name => files.get(name)?.length ?? 0
+  };
+  return { files, store };
+};
+
+const settings: SettingsState = {
+  themeMode: "dark",
+  subjects: subjectsFromNames(["Math"]),
+  priorities: DEFAULT_PRIORITIES,
+  notificationTime: null,
+  autoCompleteTasks: false,
+  trashRetentionDays: 30,
+  dailyGoal: { type: "tasks", target: 3 },
+  focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+  snapshotsToKeep: 3
+};
+
+const data = { tasks: [makeTask("a"), makeTask("b")], settings, sessions: [] };
+
+describe("snapshot names", () => {
+  it("round-trip time, reason and task count", () => {
+    const name = snapshotName("2025-08-01T09:30:05.120Z", "daily", 42);
+
+    expect(name).toBe("snapshot_20250801T093005120Z_daily_42.json");
+    expect(parseSnapshotName(name)).toEqual({
+      name,
+      takenAt: "2025-08-01T09:30:05.120Z",
+      reason: "daily",
+      taskCount: 42
+    });
+  });
+
+  it("ignore other files", () => {
+    expect(parseSnapshotName("braindesk_backup.json")).toBeNull();
+    expect(parseSnapshotName("snapshot_20250801T093005120Z_weekly_1.json")).toBeNull();
+  });
+});
+
+describe("takeSnapshot", () => {
+  it("keeps only the newest snapshots", async () => {
+    const { store } = memoryStore();
+
+    for (const day of ["01", "02", "03", "04"]) {
+      await takeSnapshot(store, data, "daily", 3, "1.0.0", `2025-08-${day}T08:00:00.000Z`);
+    }
+    const listed = await listSnapshots(store);
+
+    expect(listed.map(s => s.takenAt)).toEqual([
+      "2025-08-04T08:00:00.000Z",
+      "2025-08-03T08:00:00.000Z",
+      "2025-08-02T08:00:00.000Z"
+    ]);
+    expect(listed[0]).toMatchObject({ reason: "daily", taskCount: 2, size: expect.any(Number) });
+    expect(listed[0].size).toBeGreaterThan(0);
+  });
+
+  it("writes nothing automatically when snapshots are off", async () => {
+    const { files, store } = memoryStore();
+
+    expect(await takeSnapshot(store, data, "daily", 0, "1.0.0")).toBeNull();
+    expect(await takeSnapshot(store, data, "manual", 0, "1.0.0")).not.toBeNull();
+    expect(files.size).toBe(1);
+  });
+
+  it("is due once per day", async () => {
+    const { store } = memoryStore();
+    await takeSnapshot(store, data, "import", 3, "1.0.0", "2025-08-01T08:00:00.000Z");
+
+    expect(await isDailySnapshotDue(store, "2025-08-01T12:00:00.000Z")).toBe(true);
+
+    await takeSnapshot(store, data, "daily", 3, "1.0.0", "2025-08-01T08:00:00.000Z");
+
+    expect(await isDailySnapshotDue(store, "2025-08-01T12:00:00.000Z")).toBe(false);
+    expect(await isDailySnapshotDue(store, "2025-08-02T12:00:00.000Z")).toBe(true);
+  });
+});
+
+describe("readSnapshot", () => {
+  it("validates like an import", async () => {
+    const { files, store } = memoryStore();
+    const name = await takeSnapshot(store, data, "manual", 3, "1.0.0", "2025-08-01T08:00:00.000Z");
+
+    const parsed = await readSnapshot(store, name!);
+    expect(parsed.data.tasks.map(t => t.id)).toEqual(["a", "b"]);
+    expect(parsed.data.settings.snapshotsToKeep).toBe(3);
+
+    files.set(name!, "{broken");
+    await expect(readSnapshot(store, name!)).rejects.toBeInstanceOf(BackupError);
+  });
+});
+
+describe("snapshot listener", () => {
+  const setup = () => {
+    const { files, store } = memoryStore();
+    let clock = 0;
+    const listener = createListenerMiddleware();
+    startSnapshotListener(listener.startListening, store, "1.0.0", () => clock);
+
+    const app = configureStore({
+      reducer: { todo: todoReducer, settings: settingsReducer, sessions: sessionsReducer },
+      middleware: getDefaultMiddleware => getDefaultMiddleware().prepend(listener.middleware)
+    });
+    return { files, store, app, tick: (ms: number) => (clock += ms) };
+  };
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it("keeps the data from before a reset, once per burst", async () => {
+    const { store, app } = setup();
+    app.dispatch(addTask({ text: "Essay", subjectId: "subject:Math", priority: "High", dueDate: "2025-08-01" }));
+
+    app.dispatch(clearTasks());
+    app.dispatch(clearSettings());
+    await flush();
+
+    const listed = await listSnapshots(store);
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({ reason: "reset", taskCount: 1 });
+
+    const parsed = await readSnapshot(store, listed[0].name);
+    expect(parsed.data.tasks[0].text).toBe("Essay");
+  });
+
+  it("snapshots again after the burst window and ignores other actions", async () => {
+    const { store, app, tick } = setup();
+
+    app.dispatch(replaceTasks([makeTask("a")]));
+    await flush();
+    tick(10000);
+    app.dispatch(addTask({ text: "Essay", subjectId: "subject:Math", priority: "High", dueDate: "2025-08-01" }));
+    app.dispatch(replaceTasks([]));
+    await flush();
+
+    const listed = await listSnapshots(store);
+    expect(listed.map(s => [s.reason, s.taskCount])).toEqual(
+      expect.arrayContaining([["import", 0], ["import", 2]])
+    );
+    expect(listed).toHaveLength(2);
+  });
+});
@@ -0,0 +1,169 @@
+import { Task } from "../features/todo/todoSlice";
+import {
+  collectStatItems,
+  getPeriodRange,
+  isCompletedOnTime,
+  selectCompletionByPeriod,
+  selectPriorityBreakdown,
+  selectPunctuality,
+  selectSubjectBreakdown
+} from "../features/stats/statsSelectors";
+import { DEFAULT_PRIORITIES } from "../features/settings/priorities";
+import { makeTask } from "../__fixtures__/tasks";
+
+let nextId = 0;
+const task = (overrides: Partial<Task> = {}) =>
+  makeTask(`t${nextId++}`, { dueDate: "2025-08-06", ...overrides });
+
+const done = (dueDate: string, completedAt: string, overrides: Partial<Task> = {}) =>
+  task({ dueDate, completed: true, completedAt, ...overrides });
+
+// Wednesday
+const today = "2025-08-06";
+
+describe("getPeriodRange", () => {
+  it("starts at the first day of the oldest period and ends today", () => {
+    expect(getPeriodRange("day", today, 7)).toEqual({ from: "2025-07-31", to: today });
+    expect(getPeriodRange("week", today, 2)).toEqual({ from: "2025-07-28", to: today });
+    expect(getPeriodRange("month", today, 3)).toEqual({ from: "2025-06-01", to: today });
+  });
+});
+
+describe("collectStatItems", () => {
+  it("skips trashed tasks and tasks outside the range", () => {
+    const tasks = [
+      task({ dueDate: "2025-08-05" }),
+      task({ dueDate: "2025-08-05", deletedAt: "2025-08-05T10:00:00.000Z" }),
+      task({ dueDate: "2025-08-10" })
+    ];
+
+    expect(collectStatItems(tasks, { from: "2025-08-01", to: today })).toHaveLength(1);
+  });
+
+  it("counts each occurrence of a series separately", () => {
+    const series = task({
+      dueDate: "2025-08-04",
+      recurrence: { frequency: "daily" },
+      occurrenceCompletions: { "2025-08-05": "2025-08-05T09:00:00" }
+    });
+
+    const items = collectStatItems([series], { from: "2025-08-01", to: today });
+
+    expect(items.map(i => [i.dueDate, i.completed])).toEqual([
+      ["2025-08-04", false],
+      ["2025-08-05", true],
+      ["2025-08-06", false]
+    ]);
+  });
+});
+
+describe("selectCompletionByPeriod", () => {
+  it("computes a daily completion rate, oldest day first", () => {
+    const tasks = [
+      done("2025-08-05", "2025-08-05T10:00:00"),
+      task({ dueDate: "2025-08-05" }),
+      done("2025-08-06", "2025-08-06T10:00:00")
+    ];
+
+    const buckets = selectCompletionByPeriod(tasks, "day", today, 3);
+
+    expect(buckets.map(b => [b.key, b.total, b.rate])).toEqual([
+      ["2025-08-04", 0, 0],
+      ["2025-08-05", 2, 0.5],
+      ["2025-08-06", 1, 1]
+    ]);
+    expect(buckets[2].label).toBe("Wed");
+  });
+
+  it("groups by ISO week and by month", () => {
+    const tasks = [
+      done("2025-07-29", "2025-07-29T10:00:00"),
+      task({ dueDate: "2025-08-04" }),
+      done("2025-08-05", "2025-08-05T10:00:00")
+    ];
+
+    const weeks = selectCompletionByPeriod(tasks, "week", today, 2);
+    expect(weeks.map(b => [b.key, b.completed, b.total])).toEqual([
+      ["2025-07-28", 1, 1],
+      ["2025-08-04", 1, 2]
+    ]);
+
+    const months = selectCompletionByPeriod(tasks, "month", today, 2);
+    expect(months.map(b => [b.label, b.total])).toEqual([
+      ["Jul", 1],
+      ["Aug", 2]
+    ]);
+  });
+
+  it("does not count tasks due later in the current period", () => {
+    const tasks = [task({ dueDate: "2025-08-08" })];
+
+    const [week] = selectCompletionByPeriod(tasks, "week", today, 1);
+
+    expect(week.total).toBe(0);
+  });
+});
+
+describe("breakdowns", () => {
+  const range = { from: "2025-08-01", to: today };
+
+  it("groups by subject, largest first", () => {
+    const tasks = [
+      task({ subjectId: "subject:Physics" }),
+      done(today, "2025-08-06T10:00:00", { subjectId: "subject:Math" }),
+      task({ subjectId: "subject:Math" })
+    ];
+
+    expect(selectSubjectBreakdown(tasks, range)).toEqual([
+      { key: "subject:Math", total: 2, completed: 1, rate: 0.5 },
+      { key: "subject:Physics", total: 1, completed: 0, rate: 0 }
+    ]);
+  });
+
+  it("orders priorities by rank, counting unknown ones as the default level", () => {
+    const tasks = ["Low", "Urgent", "High", "Medium"].map(priority =>
+      task({ priority })
+    );
+
+    expect(selectPriorityBreakdown(tasks, range, DEFAULT_PRIORITIES)).toEqual([
+      { key: "High", total: 1, completed: 0, rate: 0 },
+      { key: "Medium", total: 2, completed: 0, rate: 0 },
+      { key: "Low", total: 1, completed: 0, rate: 0 }
+    ]);
+
+    const reordered = DEFAULT_PRIORITIES.map(p => ({ ...p, rank: -p.rank }));
+    expect(selectPriorityBreakdown(tasks, range, reordered).map(g => g.key)).toEqual([
+      "Low",
+      "Medium",
+      "High"
+    ]);
+  });
+});
+
+describe("punctuality", () => {
+  const range = { from: "2025-08-01", to: today };
+
+  it("treats the end of the due day as the deadline for untimed tasks", () => {
+    const tasks = [
+      done("2025-08-05", "2025-08-05T23:30:00"),
+      done("2025-08-05", "2025-08-06T00:10:00"),
+      task({ dueDate: "2025-08-05" })
+    ];
+
+    expect(selectPunctuality(tasks, range)).toEqual({ onTime: 1, late: 1 });
+  });
+
+  it("uses the due time when one is set", () => {
+    const item = {
+      subjectId: "subject:Math",
+      priority: "High",
+      dueDate: "2025-08-05",
+      dueTime: "09:00",
+      completed: true,
+      completedAt: "2025-08-05T09:00:30"
+    };
+
+    expect(isCompletedOnTime(item)).toBe(true);
+    expect(isCompletedOnTime({ ...item, completedAt: "2025-08-05T09:01:00" })).toBe(false);
+  });
+});
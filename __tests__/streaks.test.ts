@@ -0,0 +1,151 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import { Task } from "../features/todo/todoSlice";
+import { DailyGoal } from "../features/settings/settingsSlice";
+import {
+  ActivityByDay,
+  buildDailyActivity,
+  computeStreaks,
+  getGoalProgress,
+  isGoalMet
+} from "../features/stats/streaks";
+import { makeTask } from "../__fixtures__/tasks";
+
+dayjs.extend(utc);
+
+let nextId = 0;
+const task = (overrides: Partial<Task> = {}) =>
+  makeTask(`t${nextId++}`, overrides);
+
+const done = (dueDate: string, completedAt: string) =>
+  task({ dueDate, completed: true, completedAt });
+
+const oneTask: DailyGoal = { type: "tasks", target: 1 };
+
+/** Builds activity where each listed day met (or missed) a one-task goal */
+const days = (entries: Record<string, "met" | "missed">): ActivityByDay =>
+  Object.fromEntries(
+    Object.entries(entries).map(([day, status]) => [
+      day,
+      { due: 1, completed: status === "met" ? 1 : 0, minutes: 0 }
+    ])
+  );
+
+describe("buildDailyActivity", () => {
+  it("counts completions on the day they happened, not the due day", () => {
+    const activity = buildDailyActivity(
+      [done("2025-08-01", "2025-08-03T10:00:00")],
+      "2025-08-05"
+    );
+
+    expect(activity["2025-08-01"]).toEqual({ due: 1, completed: 0, minutes: 0 });
+    expect(activity["2025-08-03"]).toEqual({ due: 0, completed: 1, minutes: 0 });
+  });
+
+  it("buckets UTC timestamps into the user's local day", () => {
+    // 23:30 UTC on Aug 1 is already Aug 2 in UTC+5:30
+    const tasks = [done("2025-08-02", "2025-08-01T23:30:00.000Z")];
+    const inIndia = (iso: string) => dayjs.utc(iso).utcOffset(330).format("YYYY-MM-DD");
+    const inNewYork = (iso: string) => dayjs.utc(iso).utcOffset(-240).format("YYYY-MM-DD");
+
+    expect(buildDailyActivity(tasks, "2025-08-05", {}, inIndia)["2025-08-02"].completed).toBe(1);
+    expect(buildDailyActivity(tasks, "2025-08-05", {}, inNewYork)["2025-08-01"].completed).toBe(1);
+  });
+
+  it("expands series occurrences and their completions", () => {
+    const series = task({
+      dueDate: "2025-08-01",
+      recurrence: { frequency: "daily" },
+      occurrenceCompletions: { "2025-08-02": "2025-08-02T09:00:00" }
+    });
+
+    const activity = buildDailyActivity([series], "2025-08-03");
+
+    expect(Object.keys(activity).sort()).toEqual(["2025-08-01", "2025-08-02", "2025-08-03"]);
+    expect(activity["2025-08-02"]).toEqual({ due: 1, completed: 1, minutes: 0 });
+  });
+
+  it("ignores trashed tasks and adds logged minutes", () => {
+    const activity = buildDailyActivity(
+      [task({ deletedAt: "2025-08-02T00:00:00.000Z" })],
+      "2025-08-05",
+      { "2025-08-04": 25 }
+    );
+
+    expect(activity).toEqual({ "2025-08-04": { due: 0, completed: 0, minutes: 25 } });
+  });
+});
+
+describe("isGoalMet", () => {
+  it("compares completed tasks or minutes with the target", () => {
+    const day = { due: 3, completed: 2, minutes: 50 };
+
+    expect(isGoalMet(day, { type: "tasks", target: 2 })).toBe(true);
+    expect(isGoalMet(day, { type: "tasks", target: 3 })).toBe(false);
+    expect(isGoalMet(day, { type: "minutes", target: 45 })).toBe(true);
+    expect(isGoalMet(undefined, oneTask)).toBe(false);
+    expect(getGoalProgress(day, { type: "minutes", target: 60 })).toEqual({ value: 50, target: 60 });
+  });
+});
+
+describe("computeStreaks", () => {
+  it("returns zeros without any history", () => {
+    expect(computeStreaks({}, oneTask, "2025-08-05")).toEqual({
+      current: 0,
+      longest: 0,
+      todayMet: false
+    });
+  });
+
+  it("counts consecutive goal-met days ending today", () => {
+    const activity = days({ "2025-08-03": "met", "2025-08-04": "met", "2025-08-05": "met" });
+
+    expect(computeStreaks(activity, oneTask, "2025-08-05")).toEqual({
+      current: 3,
+      longest: 3,
+      todayMet: true
+    });
+  });
+
+  it("keeps yesterday's streak while today is still in progress", () => {
+    const activity = days({ "2025-08-03": "met", "2025-08-04": "met", "2025-08-05": "missed" });
+
+    expect(computeStreaks(activity, oneTask, "2025-08-05").current).toBe(2);
+  });
+
+  it("breaks on a day that had work but missed the goal", () => {
+    const activity = days({
+      "2025-08-01": "met",
+      "2025-08-02": "met",
+      "2025-08-03": "met",
+      "2025-08-04": "missed",
+      "2025-08-05": "met"
+    });
+
+    expect(computeStreaks(activity, oneTask, "2025-08-05")).toEqual({
+      current: 1,
+      longest: 3,
+      todayMet: true
+    });
+  });
+
+  it("skips days with no tasks at all", () => {
+    // Aug 2–3 (a weekend) had nothing due and nothing done
+    const activity = days({ "2025-08-01": "met", "2025-08-04": "met" });
+
+    expect(computeStreaks(activity, oneTask, "2025-08-05").current).toBe(2);
+  });
+
+  it("ignores activity after today", () => {
+    const activity = days({ "2025-08-05": "met", "2025-08-06": "met" });
+
+    expect(computeStreaks(activity, oneTask, "2025-08-05").longest).toBe(1);
+  });
+
+  it("crosses a daylight-saving change without losing a day", () => {
+    // Europe switches clocks on the last Sunday of March
+    const activity = days({ "2025-03-29": "met", "2025-03-30": "met", "2025-03-31": "met" });
+
+    expect(computeStreaks(activity, oneTask, "2025-03-31").current).toBe(3);
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  activeSubjects,
+  resolveSubject,
+  resolveSubjectNames,
+  subjectIdFromName,
+  subjectsFromNames
+} from "../features/settings/subjects";
+
+describe("subjects", () => {
+  const subjects = subjectsFromNames(["Physics", "Math", "physics"]);
+
+  it("derives IDs from names and skips repeated names", () => {
+    expect(subjects.map(s => [s.id, s.order])).toEqual([["subject:Physics", 0], ["subject:Math", 1]]);
+    expect(subjectIdFromName("Math", subjects)).toBe("subject:Math#2");
+  });
+
+  it("resolves unknown IDs to a stand-in", () => {
+    expect(resolveSubject(subjects, "subject:Math").name).toBe("Math");
+    expect(resolveSubject(subjects, "subject:Art#2")).toMatchObject({ name: "Art", color: "#9CA3AF" });
+    expect(resolveSubject(subjects, "4f1c").name).toBe("Unknown subject");
+  });
+
+  it("resolves names, creating subjects only for new ones", () => {
+    const { ids, created } = resolveSubjectNames(subjects, ["math", "Art", "Art"]);
+
+    expect([...ids]).toEqual([["math", "subject:Math"], ["Art", "subject:Art"]]);
+    expect(created).toEqual([expect.objectContaining({ name: "Art", order: 2 })]);
+  });
+
+  it("hides archived subjects from pickers", () => {
+    const archived = subjects.map(s => ({ ...s, archived: s.name === "Physics" }));
+
+    expect(activeSubjects(archived).map(s => s.name)).toEqual(["Math"]);
+  });
+});
@@ -0,0 +1,289 @@
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import todoReducer, {
+  addTask,
+  editTask,
+  toggleTask,
+  addSubtask,
+  toggleSubtask,
+  reorderSubtasks,
+  deleteTask,
+  restoreTask,
+  purgeTask
+} from "../features/todo/todoSlice";
+import { undoable } from "../features/todo/undoHistory";
+import syncReducer, { applySyncMerge, loadSync, loadSyncFromStorage } from "../features/sync/syncSlice";
+import { startSyncListener } from "../features/sync/syncListener";
+import { applyServerChanges } from "../features/sync/serverSyncSlice";
+import {
+  createSyncBundle,
+  mergeSyncBundle,
+  parseSyncBundle,
+  SyncBundleError
+} from "../features/sync/syncBundle";
+
+// One clock for both devices, so "later" is well defined
+let time = 0;
+const now = () => new Date(Date.UTC(2025, 7, 1) + ++time * 1000).toISOString();
+
+const device = (deviceId: string) => {
+  const listener = createListenerMiddleware();
+  startSyncListener(listener.startListening, now);
+  const store = configureStore({
+    reducer: { todo: undoable(todoReducer), sync: syncReducer },
+    middleware: getDefault => getDefault().prepend(listener.middleware)
+  });
+  store.dispatch(loadSync({ deviceId, seq: 0, stamps: {}, tombstones: {}, clock: {}, peers: {} }));
+  return store;
+};
+
+type Device = ReturnType<typeof device>;
+
+const tasks = (store: Device) => store.getState().todo.tasks;
+const byText = (store: Device, text: string) => tasks(store).find(t => t.text === text)!;
+
+/** Exports a bundle on one device and imports it on the other, through JSON */
+const send = (from: Device, to: Device) => {
+  const { todo, sync } = from.getState();
+  const contents = JSON.stringify(createSyncBundle(todo.tasks, sync, now()));
+  const { bundle, issues } = parseSyncBundle(contents, to.getState().sync.deviceId);
+  expect(issues).toEqual([]);
+
+  const result = mergeSyncBundle(
+    { tasks: tasks(to), sync: to.getState().sync },
+    bundle,
+    now()
+  );
+  to.dispatch(applySyncMerge(result));
+  return { bundle, result };
+};
+
+const sync = (a: Device, b: Device) => {
+  send(a, b);
+  send(b, a);
+};
+
+const add = (text: string) =>
+  addTask({ text, subjectId: "subject:Math", priority: "Medium", dueDate: "2025-08-01" });
+
+const edit = (store: Device, text: string, changes: { text?: string; priority?: string }) => {
+  const task = byText(store, text);
+  store.dispatch(editTask({ id: task.id, text: task.text, priority: task.priority, subjectId: task.subjectId, ...changes }));
+};
+
+describe("sync between two devices", () => {
+  let phone: Device;
+  let tablet: Device;
+
+  beforeEach(() => {
+    phone = device("phone");
+    tablet = device("tablet");
+    phone.dispatch(add("Essay"));
+    phone.dispatch(add("Lab report"));
+    sync(phone, tablet);
+  });
+
+  it("copies everything on the first sync", () => {
+    expect(tasks(tablet)).toEqual(tasks(phone));
+    expect(tasks(tablet)).toHaveLength(2);
+  });
+
+  it("keeps edits to different fields from both sides", () => {
+    edit(phone, "Essay", { text: "Essay draft" });
+    tablet.dispatch(toggleTask(byText(tablet, "Essay").id));
+    sync(phone, tablet);
+
+    expect(tasks(tablet)).toEqual(tasks(phone));
+    expect(byText(phone, "Essay draft").completed).toBe(true);
+  });
+
+  it("doesn't stamp changes pulled from a sync server as local edits", () => {
+    const before = phone.getState().sync;
+    const pulled = { ...byText(phone, "Essay"), text: "Essay (server)" };
+    phone.dispatch(applyServerChanges({ tasks: [pulled], removed: [], settings: null }));
+
+    expect(byText(phone, "Essay (server)")).toBeDefined();
+    expect(phone.getState().sync).toEqual(before);
+  });
+
+  it("settles the same field by the later change, in either order", () => {
+    edit(tablet, "Essay", { priority: "Low" });
+    edit(phone, "Essay", { priority: "High" });
+
+    send(tablet, phone);
+    send(phone, tablet);
+
+    expect(tasks(tablet)).toEqual(tasks(phone));
+    expect(byText(tablet, "Essay").priority).toBe("High");
+  });
+
+  it("keeps occurrences completed on both sides of a series", () => {
+    phone.dispatch(addTask({
+      text: "Flashcards",
+      subjectId: "subject:Math",
+      priority: "Low",
+      dueDate: "2025-08-01",
+      recurrence: { frequency: "daily" }
+    }));
+    sync(phone, tablet);
+
+    const id = byText(phone, "Flashcards").id;
+    phone.dispatch(toggleTask({ id, date: "2025-08-01" }));
+    tablet.dispatch(toggleTask({ id, date: "2025-08-02" }));
+    sync(phone, tablet);
+
+    expect(tasks(tablet)).toEqual(tasks(phone));
+    expect(Object.keys(byText(phone, "Flashcards").occurrenceCompletions ?? {}).sort())
+      .toEqual(["2025-08-01", "2025-08-02"]);
+  });
+
+  it("keeps steps checked off and added on both sides", () => {
+    const taskId = byText(phone, "Essay").id;
+    phone.dispatch(addSubtask({ taskId, text: "Outline" }));
+    phone.dispatch(addSubtask({ taskId, text: "Draft" }));
+    sync(phone, tablet);
+
+    const [outline, draft] = byText(phone, "Essay").subtasks!;
+    phone.dispatch(toggleSubtask({ taskId, subtaskId: outline.id }));
+    tablet.dispatch(toggleSubtask({ taskId, subtaskId: draft.id }));
+    tablet.dispatch(addSubtask({ taskId, text: "Proofread" }));
+    phone.dispatch(reorderSubtasks({ taskId, from: 1, to: 0 }));
+    sync(phone, tablet);
+
+    expect(tasks(tablet)).toEqual(tasks(phone));
+    expect(byText(phone, "Essay").subtasks!.map(s => [s.text, s.completed])).toEqual([
+      ["Draft", true],
+      ["Outline", true],
+      ["Proofread", false]
+    ]);
+  });
+
+  it("converges trashing and restoring through deletedAt", () => {
+    const id = byText(phone, "Essay").id;
+    phone.dispatch(deleteTask(id));
+    sync(phone, tablet);
+    expect(byText(tablet, "Essay").deletedAt).not.toBeNull();
+
+    tablet.dispatch(restoreTask(id));
+    sync(tablet, phone);
+    expect(byText(phone, "Essay").deletedAt).toBeNull();
+    expect(tasks(tablet)).toEqual(tasks(phone));
+  });
+
+  it("purges on the other device through a tombstone", () => {
+    const id = byText(phone, "Essay").id;
+    phone.dispatch(deleteTask(id));
+    phone.dispatch(purgeTask(id));
+    sync(phone, tablet);
+
+    expect(tasks(tablet).map(t => t.text)).toEqual(["Lab report"]);
+    expect(tablet.getState().sync.tombstones[id]).toBeDefined();
+  });
+
+  it("brings a purged task back when the other side edited it later", () => {
+    const id = byText(phone, "Essay").id;
+    phone.dispatch(deleteTask(id));
+    phone.dispatch(purgeTask(id));
+    edit(tablet, "Essay", { text: "Essay, final" });
+    sync(phone, tablet);
+
+    // Same tasks; the phone appends the one it gets back
+    const sorted = (store: Device) => [...tasks(store)].sort((a, b) => a.id.localeCompare(b.id));
+    expect(sorted(phone)).toEqual(sorted(tablet));
+    expect(byText(phone, "Essay, final")).toBeDefined();
+  });
+
+  it("sends only what the other device hasn't seen", () => {
+    edit(phone, "Essay", { text: "Essay draft" });
+    tablet.dispatch(add("Flashcards"));
+
+    const { bundle } = send(phone, tablet);
+    expect(bundle.entries.map(e => e.task?.text)).toEqual(["Essay draft"]);
+
+    const { bundle: reply } = send(tablet, phone);
+    expect(reply.entries.map(e => e.task?.text)).toEqual(["Flashcards"]);
+  });
+
+  it("changes nothing when the same bundle is merged twice", () => {
+    tablet.dispatch(add("Flashcards"));
+    const { sync: state, todo } = tablet.getState();
+    const bundle = createSyncBundle(todo.tasks, state, now());
+
+    const first = mergeSyncBundle({ tasks: tasks(phone), sync: phone.getState().sync }, bundle);
+    phone.dispatch(applySyncMerge(first));
+    const second = mergeSyncBundle({ tasks: tasks(phone), sync: phone.getState().sync }, bundle);
+
+    expect(first.added).toBe(1);
+    expect(second).toMatchObject({ added: 0, updated: 0, removed: 0 });
+    expect(second.tasks).toEqual(first.tasks);
+  });
+
+  it("does not stamp merged data as a local change", () => {
+    tablet.dispatch(add("Flashcards"));
+    const seq = phone.getState().sync.seq;
+    send(tablet, phone);
+
+    expect(phone.getState().sync.seq).toBe(seq);
+  });
+});
+
+describe("parseSyncBundle", () => {
+  const phone = () => device("phone");
+
+  it("refuses a bundle made on the same device", () => {
+    const store = phone();
+    const { todo, sync } = store.getState();
+    const contents = JSON.stringify(createSyncBundle(todo.tasks, sync));
+
+    expect(() => parseSyncBundle(contents, "phone")).toThrow(/this device/);
+  });
+
+  it("refuses other files", () => {
+    expect(() => parseSyncBundle("{broken", "phone")).toThrow(SyncBundleError);
+    expect(() => parseSyncBundle(JSON.stringify({ tasks: [] }), "phone")).toThrow(
+      "This file is not a BrainDesk sync bundle."
+    );
+  });
+
+  it("drops invalid entries and reports them", () => {
+    const contents = JSON.stringify({
+      format: "braindesk-sync",
+      version: 1,
+      device: "tablet",
+      clock: { tablet: 1 },
+      entries: [
+        { id: "a", task: { id: "a", text: "No due day" }, stamps: {} },
+        { id: "b", task: null, stamps: {}, purged: { at: "2025-08-01T00:00:00.000Z", device: "tablet", seq: 1 } }
+      ]
+    });
+
+    const { bundle, issues } = parseSyncBundle(contents, "phone");
+    expect(bundle.entries.map(e => e.id)).toEqual(["b"]);
+    expect(issues.length).toBeGreaterThan(0);
+  });
+});
+
+describe("loadSyncFromStorage", () => {
+  it("drops malformed stamps, tombstones and peers", async () => {
+    const stamp = { at: "2025-08-01T00:00:00.000Z", device: "tablet", seq: 1 };
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+      JSON.stringify({
+        deviceId: "phone",
+        seq: 2.5,
+        stamps: { a: { text: stamp, done: { at: "soon", device: "tablet", seq: 1 } } },
+        tombstones: { b: stamp, c: "yesterday" },
+        clock: { tablet: "1" },
+        peers: { tablet: { clock: { tablet: 1 }, syncedAt: stamp.at }, laptop: { syncedAt: stamp.at } }
+      })
+    );
+
+    expect(await loadSyncFromStorage()).toEqual({
+      deviceId: "phone",
+      seq: 0,
+      stamps: { a: { text: stamp } },
+      tombstones: { b: stamp },
+      clock: {},
+      peers: { tablet: { clock: { tablet: 1 }, syncedAt: stamp.at } }
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { collectTags, matchesTags, normalizeTag, sanitizeTags } from "../features/todo/tags";
+import type { Task } from "../features/todo/todoSlice";
+
+const task = (id: string, tags: string[]) => ({ id, tags } as Task);
+
+describe("tags", () => {
+  it("normalizes case, markers and spaces", () => {
+    expect(normalizeTag("  #Group Project ")).toBe("group-project");
+    expect(normalizeTag("+")).toBe("");
+    expect(sanitizeTags(["Exam", "", "exam", "Lab  work"])).toEqual(["exam", "lab-work"]);
+  });
+
+  it("counts tags in use, alphabetically", () => {
+    const tasks = [task("a", ["lab", "exam"]), task("b", ["exam"]), { id: "c" } as Task];
+
+    expect(collectTags(tasks)).toEqual([{ tag: "exam", count: 2 }, { tag: "lab", count: 1 }]);
+  });
+
+  it("matches any or all selected tags", () => {
+    const tagged = task("a", ["exam", "lab"]);
+
+    expect(matchesTags(tagged, [], "all")).toBe(true);
+    expect(matchesTags(tagged, ["exam", "essay"], "any")).toBe(true);
+    expect(matchesTags(tagged, ["exam", "essay"], "all")).toBe(false);
+    expect(matchesTags(tagged, ["exam", "lab"], "all")).toBe(true);
+  });
+});
@@ -0,0 +1,277 @@
+import initSqlJs, { SqlJsStatic } from "sql.js";
+import { createAsyncStorageTaskStore } from "../features/persistence/asyncStorageTaskStore";
+import { createSqliteTaskStore, SqlDatabase } from "../features/persistence/sqliteTaskStore";
+import { moveTasks, taskListStorage, TaskStore } from "../features/persistence/taskStore";
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import { restoreTasks } from "../features/persistence/restoreTasks";
+import { createStorageWriter } from "../features/persistence/storageWriter";
+import { startPersistenceListener } from "../features/persistence/persistenceListener";
+import todoReducer, { addTask, editTask, loadTasksFromStorage } from "../features/todo/todoSlice";
+import type { Task } from "../features/todo/todoSlice";
+import { undoable } from "../features/todo/undoHistory";
+import settingsReducer from "../features/settings/settingsSlice";
+import sessionsReducer from "../features/focus/sessionsSlice";
+import { makeTask } from "../__fixtures__/tasks";
+
+let SQL: SqlJsStatic;
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+// In-memory AsyncStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      items.delete(key);
+    }
+  };
+};
+
+// In-memory SQLite (sql.js) behind the expo-sqlite methods the store uses
+const memoryDatabase = (): SqlDatabase => {
+  const db = new SQL.Database();
+  return {
+    execAsync: async source => {
+      db.exec(source);
+    },
+    runAsync: async (source, params) => {
+      db.run(source, params);
+    },
+    getAllAsync: async <T,>(source: string, params: (string | number | null)[]) => {
+      const statement = db.prepare(source, params);
+      const rows: T[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+      statement.free();
+      return rows;
+    },
+    withTransactionAsync: async task => {
+      db.exec("BEGIN");
+      try {
+        await task();
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    }
+  };
+};
+
+const ids = (tasks: unknown[]) => tasks.map(t => (t as Task).id);
+
+// ─── Contract: every backend must pass these ───
+
+describe.each([
+  ["AsyncStorage", () => createAsyncStorageTaskStore(memoryStorage())],
+  ["SQLite", () => createSqliteTaskStore(memoryDatabase())]
+])("%s task store", (_name, create: () => TaskStore) => {
+  it("starts empty", async () => {
+    expect(await create().load()).toEqual([]);
+  });
+
+  it("round-trips tasks in insertion order", async () => {
+    const store = create();
+    const full = makeTask("a", {
+      dueTime: "09:30",
+      recurrence: { frequency: "weekly", weekdays: [1, 3] },
+      subtasks: [{ id: "s1", text: "Outline", completed: true }],
+      timeEntries: [{ id: "e1", minutes: 25, loggedAt: "2025-08-01T10:00:00.000Z" }]
+    });
+
+    await store.upsert([full, makeTask("b")]);
+    await store.upsert([makeTask("c")]);
+
+    expect(await store.load()).toEqual([full, makeTask("b"), makeTask("c")]);
+  });
+
+  it("replaces a task with the same ID in place", async () => {
+    const store = create();
+    await store.upsert([makeTask("a"), makeTask("b"), makeTask("c")]);
+
+    await store.upsert([makeTask("b", { dueDate: "2025-09-01", completed: true })]);
+
+    const loaded = (await store.load()) as Task[];
+    expect(ids(loaded)).toEqual(["a", "b", "c"]);
+    expect(loaded[1]).toMatchObject({ completed: true, dueDate: "2025-09-01" });
+  });
+
+  it("deletes by ID and ignores unknown IDs", async () => {
+    const store = create();
+    await store.upsert([makeTask("a"), makeTask("b"), makeTask("c")]);
+
+    await store.remove(["b", "missing"]);
+    await store.remove([]);
+
+    expect(ids(await store.load())).toEqual(["a", "c"]);
+  });
+
+  it("queries by due day, inclusive", async () => {
+    const store = create();
+    await store.upsert([
+      makeTask("july", { dueDate: "2025-07-31" }),
+      makeTask("first", { dueDate: "2025-08-01" }),
+      makeTask("mid", { dueDate: "2025-08-15" }),
+      makeTask("last", { dueDate: "2025-08-31" }),
+      makeTask("september", { dueDate: "2025-09-01" })
+    ]);
+
+    expect(ids(await store.queryByDueDate("2025-08-01", "2025-08-31"))).toEqual([
+      "first",
+      "mid",
+      "last"
+    ]);
+    expect(await store.queryByDueDate("2026-01-01", "2026-12-31")).toEqual([]);
+  });
+
+  it("handles a school year of tasks", async () => {
+    const store = create();
+    const many = Array.from({ length: 3000 }, (_, i) => makeTask(`t${i}`));
+
+    await store.upsert(many);
+    await store.remove(many.slice(0, 1500).map(t => t.id));
+
+    const loaded = await store.load();
+    expect(loaded).toHaveLength(1500);
+    expect(ids(loaded)[0]).toBe("t1500");
+  });
+});
+
+// ─── Moving between backends ───
+
+describe("moveTasks", () => {
+  it("moves stored tasks once and empties the source", async () => {
+    const from = createAsyncStorageTaskStore(memoryStorage());
+    const to = createSqliteTaskStore(memoryDatabase());
+    await from.upsert([makeTask("a"), makeTask("b")]);
+
+    expect(await moveTasks(from, to)).toBe(2);
+    expect(await moveTasks(from, to)).toBe(0);
+
+    expect(ids(await to.load())).toEqual(["a", "b"]);
+    expect(await from.load()).toEqual([]);
+  });
+
+  it("moves legacy tasks as stored, without validating them", async () => {
+    const storage = memoryStorage();
+    storage.items.set("braindesk:tasks", JSON.stringify([{ id: "old", text: "Legacy" }, { text: "No ID" }]));
+    const to = createSqliteTaskStore(memoryDatabase());
+
+    await moveTasks(createAsyncStorageTaskStore(storage), to);
+
+    expect(await to.load()).toEqual([{ id: "old", text: "Legacy" }]);
+  });
+
+  it("never empties a store into itself", async () => {
+    const store = createAsyncStorageTaskStore(memoryStorage());
+    await store.upsert([makeTask("a")]);
+
+    expect(await moveTasks(store, store)).toBe(0);
+    expect(ids(await store.load())).toEqual(["a"]);
+  });
+});
+
+// ─── Writer adapter ───
+
+describe("taskListStorage", () => {
+  const spied = () => {
+    const store = createSqliteTaskStore(memoryDatabase());
+    const upsert = jest.spyOn(store, "upsert");
+    const remove = jest.spyOn(store, "remove");
+    return { store, upsert, remove, storage: taskListStorage(store) };
+  };
+
+  it("writes only the tasks that changed since the last write", async () => {
+    const { store, upsert, remove, storage } = spied();
+    const a = makeTask("a");
+    const b = makeTask("b");
+    storage.seed([a, b]);
+    await store.upsert([a, b]);
+    upsert.mockClear();
+
+    const edited = { ...b, completed: true };
+    await storage.setItem("braindesk:tasks", [a, edited, makeTask("c")]);
+    expect(upsert).toHaveBeenLastCalledWith([edited, makeTask("c")]);
+
+    await storage.setItem("braindesk:tasks", [edited]);
+    expect(upsert).toHaveBeenLastCalledWith([]);
+    expect(remove).toHaveBeenLastCalledWith(["a", "c"]);
+    expect(ids(await store.load())).toEqual(["b"]);
+  });
+
+  it("reconciles with the stored IDs when it was never seeded", async () => {
+    const { store, storage } = spied();
+    await store.upsert([makeTask("stale"), makeTask("a")]);
+
+    await storage.setItem("braindesk:tasks", [makeTask("a", { dueDate: "2025-09-01" })]);
+
+    expect(await store.load()).toEqual([makeTask("a", { dueDate: "2025-09-01" })]);
+  });
+
+  it("clears the store when the list is removed", async () => {
+    const { store, storage } = spied();
+    await store.upsert([makeTask("a")]);
+
+    await storage.removeItem("braindesk:tasks");
+
+    expect(await store.load()).toEqual([]);
+  });
+});
+
+// ─── Startup ───
+
+describe("restoreTasks", () => {
+  const launch = async () => {
+    const legacy = createAsyncStorageTaskStore(memoryStorage());
+    await legacy.upsert([makeTask("a"), makeTask("b")]);
+    const sqlite = createSqliteTaskStore(memoryDatabase());
+    const storage = taskListStorage(sqlite);
+    const taskWriter = createStorageWriter(storage, { debounceMs: 0 });
+
+    const listener = createListenerMiddleware();
+    startPersistenceListener(
+      listener.startListening,
+      createStorageWriter(memoryStorage(), { debounceMs: 0 }),
+      taskWriter
+    );
+    const store = configureStore({
+      reducer: {
+        todo: undoable(todoReducer),
+        settings: settingsReducer,
+        sessions: sessionsReducer
+      },
+      middleware: getDefault => getDefault().prepend(listener.middleware)
+    });
+
+    await restoreTasks(store, legacy, sqlite, storage);
+    return { store, legacy, sqlite, flush: () => taskWriter.flush() };
+  };
+
+  it("moves legacy tasks to SQLite and loads them", async () => {
+    const { store, legacy, sqlite } = await launch();
+
+    expect(ids(store.getState().todo.tasks)).toEqual(["a", "b"]);
+    expect(ids(await sqlite.load())).toEqual(["a", "b"]);
+    expect(await legacy.load()).toEqual([]);
+  });
+
+  it("keeps every task through later loads and edits", async () => {
+    const { store, sqlite, flush } = await launch();
+
+    // What a screen mounting after startup may do
+    await store.dispatch(loadTasksFromStorage(sqlite));
+    store.dispatch(editTask({ id: "a", text: "Edited", priority: "Medium", subjectId: "subject:Math" }));
+    store.dispatch(
+      addTask({ text: "New", subjectId: "subject:Math", priority: "Medium", dueDate: "2025-08-01" })
+    );
+    await flush();
+
+    const stored = (await sqlite.load()) as Task[];
+    expect(stored.map(t => t.text)).toEqual(["Edited", "Task b", "New"]);
+  });
+});
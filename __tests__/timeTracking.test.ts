@@ -0,0 +1,115 @@
+import {
+  formatMinutes,
+  getActualMinutes,
+  getDayLoad,
+  isOverScheduled,
+  selectSubjectTime
+} from "../features/todo/timeTracking";
+import { expandTasksForDay } from "../features/todo/recurrence";
+import type { FocusSession } from "../features/focus/focusTimer";
+import type { Task } from "../features/todo/todoSlice";
+import { makeTask } from "../__fixtures__/tasks";
+
+// Tasks are due on the day the tests look at
+const dueTask = (id: string, overrides: Partial<Task> = {}) =>
+  makeTask(id, { dueDate: "2025-07-10", ...overrides });
+
+const makeSession = (overrides: Partial<FocusSession>): FocusSession => ({
+  id: "session",
+  taskId: null,
+  subjectId: null,
+  startedAt: "2025-07-10T09:00:00.000Z",
+  endedAt: "2025-07-10T09:25:00.000Z",
+  duration: 25 * 60,
+  ...overrides
+});
+
+// Treat UTC days as local days so results don't depend on the machine's zone
+const toDay = (ts: string) => ts.slice(0, 10);
+
+describe("getActualMinutes", () => {
+  it("adds manual entries and linked focus sessions", () => {
+    const task = dueTask("task", {
+      timeEntries: [{ id: "e1", minutes: 15, loggedAt: "2025-07-09T10:00:00.000Z" }]
+    });
+    const sessions = [
+      makeSession({ id: "s1", taskId: "task" }),
+      makeSession({ id: "s2", taskId: "other" })
+    ];
+
+    expect(getActualMinutes(task, sessions, undefined, toDay)).toBe(40);
+  });
+
+  it("counts only the occurrence day for a series", () => {
+    const series = dueTask("task", {
+      recurrence: { frequency: "daily" },
+      timeEntries: [
+        { id: "e1", minutes: 20, loggedAt: "2025-07-10T10:00:00.000Z" },
+        { id: "e2", minutes: 30, loggedAt: "2025-07-11T10:00:00.000Z" }
+      ]
+    });
+    const sessions = [makeSession({ taskId: "task", startedAt: "2025-07-11T08:00:00.000Z" })];
+
+    expect(getActualMinutes(series, sessions, "2025-07-10", toDay)).toBe(20);
+    expect(getActualMinutes(series, sessions, "2025-07-11", toDay)).toBe(55);
+  });
+});
+
+describe("getDayLoad", () => {
+  it("sums estimates of the day's tasks and flags over-scheduled days", () => {
+    const tasks = [
+      dueTask("a", { estimateMinutes: 120 }),
+      dueTask("b", { estimateMinutes: 60, completed: true }),
+      dueTask("c"),
+      dueTask("d", { estimateMinutes: 300, dueDate: "2025-07-11" })
+    ];
+    const sessions = [makeSession({ taskId: "a" })];
+
+    const load = getDayLoad(expandTasksForDay(tasks, "2025-07-10"), sessions, toDay);
+
+    expect(load).toEqual({ planned: 180, remaining: 120, tracked: 25, unestimated: 1 });
+    expect(isOverScheduled(load)).toBe(false);
+    expect(isOverScheduled(load, 150)).toBe(true);
+  });
+});
+
+describe("selectSubjectTime", () => {
+  const range = { from: "2025-07-07", to: "2025-07-13" };
+
+  it("aggregates estimates and tracked time per subject within the range", () => {
+    const tasks = [
+      dueTask("math", {
+        estimateMinutes: 60,
+        timeEntries: [{ id: "e1", minutes: 30, loggedAt: "2025-07-10T10:00:00.000Z" }]
+      }),
+      dueTask("series", {
+        subjectId: "subject:Physics",
+        estimateMinutes: 30,
+        dueDate: "2025-07-12",
+        recurrence: { frequency: "daily" }
+      }),
+      dueTask("late", { estimateMinutes: 45, dueDate: "2025-07-20" }),
+      dueTask("trashed", { estimateMinutes: 90, deletedAt: "2025-07-11T00:00:00.000Z" })
+    ];
+    const sessions = [
+      makeSession({ id: "s1", taskId: "series" }),
+      makeSession({ id: "s2", subjectId: "subject:Chemistry" }),
+      makeSession({ id: "s3", taskId: "trashed" }),
+      makeSession({ id: "s4", taskId: "math", startedAt: "2025-07-01T09:00:00.000Z" })
+    ];
+
+    expect(selectSubjectTime(tasks, sessions, range, toDay)).toEqual([
+      { subjectId: "subject:Math", estimated: 60, actual: 30 },
+      { subjectId: "subject:Physics", estimated: 60, actual: 25 },
+      { subjectId: "subject:Chemistry", estimated: 0, actual: 25 }
+    ]);
+  });
+});
+
+describe("formatMinutes", () => {
+  it("formats minutes and hours", () => {
+    expect(formatMinutes(45)).toBe("45m");
+    expect(formatMinutes(120)).toBe("2h");
+    expect(formatMinutes(95.4)).toBe("1h 35m");
+  });
+});
@@ -0,0 +1,449 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { configureStore } from "@reduxjs/toolkit";
+import todoReducer, {
+  addTask,
+  editTask,
+  editOccurrence,
+  toggleTask,
+  addSubtask,
+  editSubtask,
+  toggleSubtask,
+  reorderSubtasks,
+  deleteSubtask,
+  logTime,
+  deleteTimeEntry,
+  deleteTask,
+  restoreTask,
+  purgeTask,
+  emptyTrash,
+  purgeExpiredTrash,
+  loadTasksFromStorage,
+  mergeTasks,
+  upsertTasks,
+  replaceTasks,
+  renameTag,
+  deleteTag,
+  Task
+} from "../features/todo/todoSlice";
+import { migrateLegacyTask } from "../features/backup/migrations";
+import { deletePriority, deleteSubject } from "../features/settings/settingsSlice";
+import { createAsyncStorageTaskStore } from "../features/persistence/asyncStorageTaskStore";
+
+const legacyTask = {
+  id: "legacy-1",
+  text: "Old task",
+  completed: false,
+  subjectId: "subject:Math",
+  priority: "High",
+  createdAt: "2025-07-10",
+  completedAt: null,
+  deletedAt: null
+} as Task;
+
+describe("todoSlice", () => {
+  it("adds a task with a due date and an immutable creation timestamp", () => {
+    const state = todoReducer(undefined, addTask({
+      text: "Revise optics",
+      subjectId: "subject:Physics",
+      priority: "Medium",
+      dueDate: "2025-08-01",
+      dueTime: "16:30"
+    }));
+
+    const [task] = state.tasks;
+    expect(task.dueDate).toBe("2025-08-01");
+    expect(task.dueTime).toBe("16:30");
+    expect(task.createdAt).not.toBe("2025-08-01");
+    expect(Number.isNaN(Date.parse(task.createdAt))).toBe(false);
+  });
+
+  it("moves a task to another day without touching createdAt", () => {
+    const added = todoReducer(undefined, addTask({
+      text: "Lab report",
+      subjectId: "subject:Chemistry",
+      priority: "High",
+      dueDate: "2025-08-01"
+    }));
+    const { id, createdAt } = added.tasks[0];
+
+    const edited = todoReducer(added, editTask({
+      id,
+      text: "Lab report",
+      subjectId: "subject:Chemistry",
+      priority: "High",
+      dueDate: "2025-08-03",
+      dueTime: null
+    }));
+
+    expect(edited.tasks[0].dueDate).toBe("2025-08-03");
+    expect(edited.tasks[0].createdAt).toBe(createdAt);
+  });
+
+  it("stamps updatedAt on every change", () => {
+    const added = todoReducer(undefined, addTask({
+      text: "Lab report",
+      subjectId: "subject:Chemistry",
+      priority: "High",
+      dueDate: "2025-08-01"
+    }));
+    const stale = { ...added, tasks: [{ ...added.tasks[0], updatedAt: "2025-01-01T00:00:00.000Z" }] };
+
+    const toggled = todoReducer(stale, toggleTask(added.tasks[0].id));
+
+    expect(toggled.tasks[0].updatedAt).toBe(toggled.tasks[0].completedAt);
+    expect(added.tasks[0].updatedAt).toBe(added.tasks[0].createdAt);
+  });
+
+  it("migrates imported tasks that have no due date", () => {
+    const state = todoReducer(undefined, mergeTasks([legacyTask]));
+
+    expect(state.tasks[0].dueDate).toBe("2025-07-10");
+    expect(state.tasks[0].dueTime).toBeNull();
+  });
+});
+
+describe("repeating tasks", () => {
+  const withSeries = () =>
+    todoReducer(undefined, addTask({
+      text: "Math drills",
+      subjectId: "subject:Math",
+      priority: "Medium",
+      dueDate: "2025-09-01",
+      recurrence: { frequency: "daily" }
+    }));
+
+  it("completes a single occurrence without completing the series", () => {
+    const state = withSeries();
+    const { id } = state.tasks[0];
+
+    const result = todoReducer(state, toggleTask({ id, date: "2025-09-02" }));
+
+    const [task] = result.tasks;
+    expect(task.completed).toBe(false);
+    expect(Object.keys(task.occurrenceCompletions ?? {})).toEqual(["2025-09-02"]);
+  });
+
+  it("detaches an edited occurrence from the series", () => {
+    const state = withSeries();
+    const { id } = state.tasks[0];
+
+    const result = todoReducer(state, editOccurrence({
+      id,
+      date: "2025-09-03",
+      changes: { text: "Math drills (short)", subjectId: "subject:Math", priority: "Low" }
+    }));
+
+    expect(result.tasks).toHaveLength(2);
+    expect(result.tasks[0].excludedDates).toEqual(["2025-09-03"]);
+    expect(result.tasks[1]).toMatchObject({
+      text: "Math drills (short)",
+      dueDate: "2025-09-03",
+      recurrence: null
+    });
+  });
+
+  it("keeps a valid recurrence through export and import", () => {
+    const exported = JSON.parse(JSON.stringify(withSeries().tasks));
+
+    const imported = todoReducer(undefined, mergeTasks(exported));
+
+    expect(imported.tasks[0].recurrence).toEqual({ frequency: "daily" });
+  });
+});
+
+describe("subtasks", () => {
+  const withChecklist = () => {
+    let state = todoReducer(undefined, addTask({
+      text: "Finish Chemistry chapter 4",
+      subjectId: "subject:Chemistry",
+      priority: "High",
+      dueDate: "2025-09-01"
+    }));
+    const taskId = state.tasks[0].id;
+    state = todoReducer(state, addSubtask({ taskId, text: "Read 4.1" }));
+    state = todoReducer(state, addSubtask({ taskId, text: "Read 4.2" }));
+    state = todoReducer(state, addSubtask({ taskId, text: "Exercises" }));
+    return { state, taskId, ids: state.tasks[0].subtasks!.map(s => s.id) };
+  };
+
+  it("adds, edits, reorders and deletes steps in order", () => {
+    let { state, taskId, ids } = withChecklist();
+
+    state = todoReducer(state, editSubtask({ taskId, subtaskId: ids[2], text: "Exercises 1-10" }));
+    state = todoReducer(state, reorderSubtasks({ taskId, from: 2, to: 0 }));
+    state = todoReducer(state, deleteSubtask({ taskId, subtaskId: ids[1] }));
+
+    expect(state.tasks[0].subtasks!.map(s => s.text)).toEqual(["Exercises 1-10", "Read 4.1"]);
+  });
+
+  it("ignores out-of-range reorders", () => {
+    const { state, taskId } = withChecklist();
+
+    const result = todoReducer(state, reorderSubtasks({ taskId, from: 0, to: 5 }));
+
+    expect(result.tasks[0].subtasks).toEqual(state.tasks[0].subtasks);
+  });
+
+  it("auto-completes the parent only when enabled", () => {
+    let { state, taskId, ids } = withChecklist();
+    let manual = state;
+
+    for (const subtaskId of ids) {
+      state = todoReducer(state, toggleSubtask({ taskId, subtaskId, autoComplete: true }));
+      manual = todoReducer(manual, toggleSubtask({ taskId, subtaskId }));
+    }
+
+    expect(state.tasks[0].completed).toBe(true);
+    expect(state.tasks[0].completedAt).not.toBeNull();
+    expect(manual.tasks[0].completed).toBe(false);
+
+    state = todoReducer(state, toggleSubtask({ taskId, subtaskId: ids[0], autoComplete: true }));
+    expect(state.tasks[0].completed).toBe(false);
+  });
+
+  it("drops malformed subtasks on import", () => {
+    const incoming = {
+      ...legacyTask,
+      id: "with-steps",
+      subtasks: [
+        { id: "a", text: "Valid", completed: false },
+        { id: "b", text: 42, completed: false },
+        "junk"
+      ]
+    } as unknown as Task;
+
+    const state = todoReducer(undefined, mergeTasks([incoming]));
+
+    expect(state.tasks[0].subtasks).toEqual([{ id: "a", text: "Valid", completed: false }]);
+  });
+});
+
+describe("time tracking", () => {
+  const withTasks = (...tasks: Task[]) =>
+    todoReducer(undefined, mergeTasks(tasks));
+
+  it("stores, edits and clears an estimate", () => {
+    const added = todoReducer(undefined, addTask({
+      text: "Essay draft",
+      subjectId: "subject:English",
+      priority: "High",
+      dueDate: "2025-08-01",
+      estimateMinutes: 90
+    }));
+    const { id } = added.tasks[0];
+    expect(added.tasks[0].estimateMinutes).toBe(90);
+
+    const edited = todoReducer(added, editTask({
+      id,
+      text: "Essay draft",
+      subjectId: "subject:English",
+      priority: "High",
+      estimateMinutes: null
+    }));
+    expect(edited.tasks[0].estimateMinutes).toBeNull();
+  });
+
+  it("logs and removes manual time entries", () => {
+    const logged = todoReducer(
+      withTasks(legacyTask),
+      logTime({ taskId: "legacy-1", minutes: 25, loggedAt: "2025-07-10T10:00:00.000Z" })
+    );
+    const [entry] = logged.tasks[0].timeEntries!;
+    expect(entry).toMatchObject({ minutes: 25, loggedAt: "2025-07-10T10:00:00.000Z" });
+
+    const ignored = todoReducer(logged, logTime({ taskId: "legacy-1", minutes: -5 }));
+    expect(ignored.tasks[0].timeEntries).toHaveLength(1);
+
+    const removed = todoReducer(
+      logged,
+      deleteTimeEntry({ taskId: "legacy-1", entryId: entry.id })
+    );
+    expect(removed.tasks[0].timeEntries).toEqual([]);
+  });
+
+  it("drops invalid estimates and time entries on import", () => {
+    const incoming = {
+      ...legacyTask,
+      estimateMinutes: "an hour",
+      timeEntries: [
+        { id: "a", minutes: 30, loggedAt: "2025-07-10T10:00:00.000Z" },
+        { id: "b", minutes: 0, loggedAt: "2025-07-10T10:00:00.000Z" },
+        { id: "c", minutes: 10, loggedAt: "yesterday" },
+        { id: "d", minutes: Infinity, loggedAt: "2025-07-10T10:00:00.000Z" }
+      ]
+    } as unknown as Task;
+    const valid = { ...legacyTask, id: "legacy-2", estimateMinutes: 44.6 };
+
+    const state = withTasks(incoming, valid);
+
+    expect(state.tasks[0].estimateMinutes).toBeNull();
+    expect(state.tasks[0].timeEntries!.map(e => e.id)).toEqual(["a"]);
+    expect(state.tasks[1].estimateMinutes).toBe(45);
+    expect(state.tasks[1].timeEntries).toEqual([]);
+  });
+});
+
+describe("trash", () => {
+  const withTasks = (...tasks: Task[]) =>
+    todoReducer(undefined, mergeTasks(tasks));
+
+  it("soft deletes a task and restores it", () => {
+    const deleted = todoReducer(withTasks(legacyTask), deleteTask("legacy-1"));
+
+    expect(deleted.tasks).toHaveLength(1);
+    expect(deleted.tasks[0].deletedAt).toEqual(expect.any(String));
+
+    const restored = todoReducer(deleted, restoreTask("legacy-1"));
+    expect(restored.tasks[0].deletedAt).toBeNull();
+  });
+
+  it("purges only tasks that are in the trash", () => {
+    const state = withTasks(legacyTask);
+
+    expect(todoReducer(state, purgeTask("legacy-1")).tasks).toHaveLength(1);
+
+    const deleted = todoReducer(state, deleteTask("legacy-1"));
+    expect(todoReducer(deleted, purgeTask("legacy-1")).tasks).toHaveLength(0);
+  });
+
+  it("empties the trash and keeps active tasks", () => {
+    const other = { ...legacyTask, id: "legacy-2" };
+    const deleted = todoReducer(withTasks(legacyTask, other), deleteTask("legacy-1"));
+
+    const state = todoReducer(deleted, emptyTrash());
+
+    expect(state.tasks.map(t => t.id)).toEqual(["legacy-2"]);
+  });
+
+  it("purges tasks trashed before the retention cutoff", () => {
+    const old = { ...legacyTask, id: "old", deletedAt: "2025-07-01T00:00:00.000Z" };
+    const recent = { ...legacyTask, id: "recent", deletedAt: "2025-07-20T00:00:00.000Z" };
+    const active = { ...legacyTask, id: "active" };
+
+    const state = todoReducer(
+      withTasks(old, recent, active),
+      purgeExpiredTrash("2025-07-10T00:00:00.000Z")
+    );
+
+    expect(state.tasks.map(t => t.id)).toEqual(["recent", "active"]);
+  });
+});
+
+describe("subjects", () => {
+  it("moves tasks of a deleted subject, trash included, to another subject", () => {
+    const trashed = { ...legacyTask, id: "trashed", deletedAt: "2025-07-20T00:00:00.000Z" };
+    const other = { ...legacyTask, id: "other", subjectId: "subject:Art" };
+    const state = todoReducer(
+      todoReducer(undefined, mergeTasks([legacyTask, trashed, other])),
+      deleteSubject({ id: "subject:Math", reassignTo: "subject:Physics" })
+    );
+
+    expect(state.tasks.map(t => t.subjectId)).toEqual(["subject:Physics", "subject:Physics", "subject:Art"]);
+  });
+});
+
+describe("priorities", () => {
+  it("moves tasks of a deleted priority level to another level", () => {
+    const low = { ...legacyTask, id: "low", priority: "Low" };
+    const state = todoReducer(
+      todoReducer(undefined, mergeTasks([legacyTask, low])),
+      deletePriority({ id: "High", reassignTo: "Medium" })
+    );
+
+    expect(state.tasks.map(t => t.priority)).toEqual(["Medium", "Low"]);
+  });
+});
+
+describe("tags", () => {
+  const tagged = [
+    { ...legacyTask, id: "a", tags: ["exam", "essay"] },
+    { ...legacyTask, id: "b", tags: ["essay"], deletedAt: "2025-07-20T00:00:00.000Z" },
+    { ...legacyTask, id: "c", tags: ["lab"] }
+  ];
+
+  it("adds normalized tags without repeats", () => {
+    const state = todoReducer(undefined, addTask({
+      text: "Group work",
+      subjectId: "subject:Math",
+      priority: "Medium",
+      dueDate: "2025-08-01",
+      tags: ["Group Project", "#exam", "group-project"]
+    }));
+
+    expect(state.tasks[0].tags).toEqual(["group-project", "exam"]);
+  });
+
+  it("renames a tag everywhere and merges into an existing one", () => {
+    const loaded = todoReducer(undefined, mergeTasks(tagged));
+    const renamed = todoReducer(loaded, renameTag({ from: "essay", to: "Writing" }));
+    const merged = todoReducer(renamed, renameTag({ from: "writing", to: "exam" }));
+
+    expect(renamed.tasks.map(t => t.tags)).toEqual([["exam", "writing"], ["writing"], ["lab"]]);
+    expect(merged.tasks.map(t => t.tags)).toEqual([["exam"], ["exam"], ["lab"]]);
+  });
+
+  it("deletes a tag from every task, trash included", () => {
+    const loaded = todoReducer(undefined, mergeTasks(tagged));
+    const state = todoReducer(loaded, deleteTag("essay"));
+
+    expect(state.tasks.map(t => t.tags)).toEqual([["exam"], [], ["lab"]]);
+    expect(state.tasks[2]).toBe(loaded.tasks[2]);
+  });
+});
+
+describe("import", () => {
+  const tasks = [
+    { ...legacyTask, id: "a", dueDate: "2025-07-10", text: "Mine" },
+    { ...legacyTask, id: "b", dueDate: "2025-07-10" }
+  ];
+
+  it("upserts tasks, replacing those with a known id", () => {
+    const state = todoReducer(
+      todoReducer(undefined, mergeTasks(tasks)),
+      upsertTasks([{ ...tasks[0], text: "Theirs" }, { ...tasks[1], id: "c" }, { id: "broken" }])
+    );
+
+    expect(state.tasks.map(t => [t.id, t.text])).toEqual([
+      ["a", "Theirs"],
+      ["b", "Old task"],
+      ["c", "Old task"]
+    ]);
+  });
+
+  it("replaces the whole list", () => {
+    const state = todoReducer(
+      todoReducer(undefined, mergeTasks(tasks)),
+      replaceTasks([{ ...tasks[1], id: "c" }])
+    );
+
+    expect(state.tasks.map(t => t.id)).toEqual(["c"]);
+    expect(state.tasks[0].updatedAt).toBe(legacyTask.createdAt);
+  });
+});
+
+describe("migrateLegacyTask", () => {
+  it("keeps an existing due date", () => {
+    const task = { ...legacyTask, dueDate: "2025-07-12" };
+
+    expect(migrateLegacyTask(task).dueDate).toBe("2025-07-12");
+  });
+
+  it("derives the due day from a full ISO createdAt", () => {
+    const task = { ...legacyTask, createdAt: "2025-07-10T09:15:00" };
+
+    expect(migrateLegacyTask(task).dueDate).toBe("2025-07-10");
+  });
+});
+
+describe("loadTasksFromStorage", () => {
+  it("migrates stored legacy tasks on load", async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([legacyTask]));
+    const store = configureStore({ reducer: { todo: todoReducer } });
+
+    await store.dispatch(loadTasksFromStorage(createAsyncStorageTaskStore(AsyncStorage)));
+
+    const [task] = store.getState().todo.tasks;
+    expect(task.dueDate).toBe("2025-07-10");
+    expect(task.createdAt).toBe("2025-07-10");
+  });
+});
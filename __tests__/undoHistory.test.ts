@@ -0,0 +1,152 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import todoReducer, {
+  addTask,
+  deleteTask,
+  toggleTask,
+  purgeExpiredTrash,
+  loadTasksFromStorage
+} from "../features/todo/todoSlice";
+import { undoable, undo, redo } from "../features/todo/undoHistory";
+import {
+  startUndoToastListener,
+  UndoNotifier
+} from "../features/todo/undoToastListener";
+import { createAsyncStorageTaskStore } from "../features/persistence/asyncStorageTaskStore";
+
+const makeStore = (limit?: number) =>
+  configureStore({ reducer: { todo: undoable(todoReducer, limit) } });
+
+const add = (text: string) =>
+  addTask({ text, subjectId: "subject:Math", priority: "Medium", dueDate: "2025-08-01" });
+
+const texts = (store: ReturnType<typeof makeStore>) =>
+  store.getState().todo.tasks.map(t => t.text);
+
+describe("undoable", () => {
+  it("steps back and forward through task changes", () => {
+    const store = makeStore();
+    store.dispatch(add("A"));
+    store.dispatch(add("B"));
+
+    store.dispatch(undo());
+    expect(texts(store)).toEqual(["A"]);
+    store.dispatch(undo());
+    expect(texts(store)).toEqual([]);
+
+    store.dispatch(redo());
+    store.dispatch(redo());
+    expect(texts(store)).toEqual(["A", "B"]);
+  });
+
+  it("restores a deleted task", () => {
+    const store = makeStore();
+    store.dispatch(add("A"));
+    const { id } = store.getState().todo.tasks[0];
+
+    store.dispatch(deleteTask(id));
+    store.dispatch(undo());
+
+    expect(store.getState().todo.tasks[0].deletedAt).toBeNull();
+  });
+
+  it("drops the redo branch after a new change", () => {
+    const store = makeStore();
+    store.dispatch(add("A"));
+    store.dispatch(undo());
+    store.dispatch(add("B"));
+
+    store.dispatch(redo());
+
+    expect(texts(store)).toEqual(["B"]);
+    expect(store.getState().todo.history.future).toEqual([]);
+  });
+
+  it("keeps at most `limit` snapshots", () => {
+    const store = makeStore(3);
+    ["A", "B", "C", "D", "E"].forEach(text => store.dispatch(add(text)));
+
+    expect(store.getState().todo.history.past).toHaveLength(3);
+
+    store.dispatch(undo());
+    store.dispatch(undo());
+    store.dispatch(undo());
+    store.dispatch(undo());
+    expect(texts(store)).toEqual(["A", "B"]);
+  });
+
+  it("ignores actions that change nothing", () => {
+    const store = makeStore();
+    store.dispatch(toggleTask("missing"));
+
+    expect(store.getState().todo.history.past).toHaveLength(0);
+  });
+
+  it("resets the history when the retention purge removes tasks", () => {
+    const store = makeStore();
+    store.dispatch(add("A"));
+    store.dispatch(deleteTask(store.getState().todo.tasks[0].id));
+
+    store.dispatch(purgeExpiredTrash("2999-01-01T00:00:00.000Z"));
+
+    expect(store.getState().todo.tasks).toEqual([]);
+    expect(store.getState().todo.history).toEqual({ past: [], future: [] });
+  });
+
+  it("resets the history when tasks are loaded from storage", async () => {
+    const store = makeStore();
+    store.dispatch(add("A"));
+
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([]));
+    await store.dispatch(loadTasksFromStorage(createAsyncStorageTaskStore(AsyncStorage)));
+
+    expect(store.getState().todo.history).toEqual({ past: [], future: [] });
+  });
+});
+
+describe("startUndoToastListener", () => {
+  const setup = () => {
+    const shown: { message: string; onUndo: () => void }[] = [];
+    const notifier: UndoNotifier = {
+      show: (message, onUndo) => shown.push({ message, onUndo })
+    };
+    const listener = createListenerMiddleware();
+    startUndoToastListener(listener.startListening, notifier);
+
+    const store = configureStore({
+      reducer: { todo: undoable(todoReducer) },
+      middleware: getDefault => getDefault().prepend(listener.middleware)
+    });
+    return { store, shown };
+  };
+
+  it("offers an undo after deleting a task", () => {
+    const { store, shown } = setup();
+    store.dispatch(add("A"));
+    const { id } = store.getState().todo.tasks[0];
+
+    store.dispatch(deleteTask(id));
+    expect(shown.map(s => s.message)).toEqual(["Task moved to trash"]);
+
+    shown[0].onUndo();
+    expect(store.getState().todo.tasks[0].deletedAt).toBeNull();
+  });
+
+  it("does not undo a later change from a stale toast", () => {
+    const { store, shown } = setup();
+    store.dispatch(add("A"));
+    store.dispatch(deleteTask(store.getState().todo.tasks[0].id));
+    store.dispatch(add("B"));
+
+    shown[0].onUndo();
+
+    expect(texts(store as ReturnType<typeof makeStore>)).toEqual(["A", "B"]);
+  });
+
+  it("stays quiet when the delete changed nothing", () => {
+    const { store, shown } = setup();
+    store.dispatch(deleteTask("missing"));
+
+    expect(shown).toEqual([]);
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * File: SettingsScreen.tsx
  * Description: Main settings screen of BrainDesk.
- * Allows users to configure theme, subjects, notifications, and app preferences.
+ * Allows users to configure theme, subjects, priorities, notifications, and app preferences.
  *
  * Author: BrainDesk Team
  * Created: 2025-07-10
@@ -16,9 +16,19 @@ import { useTheme } from "@/hooks/useTheme";
 // ─────────────────────────────────────────────
 import ThemeModeSelector from "@/components/settings/ThemeModeSelector";
 import SubjectManager from "@/components/settings/SubjectManager";
+import PriorityManager from "@/components/settings/PriorityManager";
+import TagManager from "@/components/settings/TagManager";
+import AutoCompleteToggle from "@/components/settings/AutoCompleteToggle";
+import DailyGoalSetting from "@/components/settings/DailyGoalSetting";
 import NotificationSettings from "@/components/settings/NotificationSettings";
+import FocusDurationsSetting from "@/components/settings/FocusDurationsSetting";
 import ExportButton from "@/components/settings/ExportButton";
 import ImportButton from "@/components/settings/ImportButton";
+import TaskExportButton from "@/components/settings/TaskExportButton";
+import TaskImportButton from "@/components/settings/TaskImportButton";
+import SnapshotsButton from "@/components/settings/SnapshotsButton";
+import SyncButton from "@/components/settings/SyncButton";
+import TrashButton from "@/components/settings/TrashButton";
 import DeleteAllButton from "@/components/settings/DeleteAllButton";
 import { AppInfo } from "@/components/settings/AppInfo";
 
@@ -61,8 +71,16 @@ export default function SettingsScreen() {
             {/* ───── ✅ Task Preferences ───── */}
             {renderSectionTitle("Task Preferences")}
             <SubjectManager />
+            <PriorityManager />
+            <TagManager />
+            <AutoCompleteToggle />
+            <DailyGoalSetting />
             {/* TODO: Add default subject and priority options */}
 
+            {/* ───── ⏱ Focus Timer ───── */}
+            {renderSectionTitle("Focus Timer")}
+            <FocusDurationsSetting />
+
             {/* ───── 🔔 Notification Settings ───── */}
             {renderSectionTitle("Notifications")}
             <NotificationSettings />
@@ -71,6 +89,11 @@ export default function SettingsScreen() {
             {renderSectionTitle("App Management")}
             <ExportButton />
             <ImportButton />
+            <TaskExportButton />
+            <TaskImportButton />
+            <SnapshotsButton />
+            <SyncButton />
+            <TrashButton />
             <DeleteAllButton />
 
             {/* ───── ℹ️ About Section ───── */}
@@ -4,6 +4,7 @@ import { Pressable, Platform, View, StyleSheet } from "react-native";
 import React from "react";
 
 import { useTheme } from "@/hooks/useTheme";
+import UndoRedoButtons from "@/components/todo/UndoRedoButtons";
 
 export default function TabLayout() {
     const theme = useTheme();
@@ -68,6 +69,7 @@ export default function TabLayout() {
                 options={{
                     title: "To-Do",
                     tabBarLabel: "To-Do",
+                    headerRight: () => <UndoRedoButtons />,
                     tabBarIcon: ({ color }) => (
                         <Ionicons
                             name="checkbox-outline"
@@ -77,6 +79,20 @@ export default function TabLayout() {
                     )
                 }}
             />
+            <Tabs.Screen
+                name="stats/index"
+                options={{
+                    title: "Statistics",
+                    tabBarLabel: "Stats",
+                    tabBarIcon: ({ color }) => (
+                        <Ionicons
+                            name="stats-chart-outline"
+                            size={24}
+                            color={color}
+                        />
+                    )
+                }}
+            />
             <Tabs.Screen
                 name="Settings/index"
                 options={{
@@ -0,0 +1,185 @@
+/**
+ * File: StatsScreen.tsx
+ * Description: Statistics tab — completion rate over time, subject and
+ * priority breakdowns, on-time vs late completions and time per subject.
+ * All numbers come from the pure selectors in `features/stats`.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, StyleSheet } from "react-native";
+import dayjs from "dayjs";
+
+import { useAppSelector } from "@/store/hooks";
+import { useTheme } from "@/hooks/useTheme";
+import {
+    getPeriodRange,
+    selectCompletionByPeriod,
+    selectPriorityBreakdown,
+    selectPunctuality,
+    selectSubjectBreakdown,
+    StatPeriod
+} from "@/features/stats/statsSelectors";
+import { selectSubjectTime } from "@/features/todo/timeTracking";
+import { resolveSubject, subjectName } from "@/features/settings/subjects";
+import { resolvePriority } from "@/features/settings/priorities";
+import CompletionChart from "@/components/stats/CompletionChart";
+import BreakdownChart from "@/components/stats/BreakdownChart";
+import PunctualityChart from "@/components/stats/PunctualityChart";
+import SubjectTimeChart from "@/components/stats/SubjectTimeChart";
+
+// Periods shown per granularity
+const PERIODS: { value: StatPeriod; label: string; count: number }[] = [
+    { value: "day", label: "Days", count: 7 },
+    { value: "week", label: "Weeks", count: 8 },
+    { value: "month", label: "Months", count: 6 }
+];
+
+/**
+ * StatsScreen
+ *
+ * The selected granularity sets both the chart buckets and the date range
+ * the breakdowns are computed over.
+ */
+export default function StatsScreen() {
+    const theme = useTheme();
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const sessions = useAppSelector(state => state.sessions.sessions);
+    const subjects = useAppSelector(state => state.settings.subjects);
+    const priorities = useAppSelector(state => state.settings.priorities);
+    const [period, setPeriod] = useState<StatPeriod>("day");
+
+    const today = dayjs().format("YYYY-MM-DD");
+    const { count } = PERIODS.find(p => p.value === period)!;
+
+    // 📊 Derived statistics for the selected range
+    const stats = useMemo(() => {
+        const range = getPeriodRange(period, today, count);
+        return {
+            buckets: selectCompletionByPeriod(tasks, period, today, count),
+            subjects: selectSubjectBreakdown(tasks, range),
+            priorities: selectPriorityBreakdown(tasks, range, priorities),
+            punctuality: selectPunctuality(tasks, range),
+            time: selectSubjectTime(tasks, sessions, range)
+        };
+    }, [tasks, sessions, priorities, period, today, count]);
+
+    const renderCard = (title: string, children: React.ReactNode) => (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+            <Text style={[styles.cardTitle, { color: theme.text }]}>
+                {title}
+            </Text>
+            {children}
+        </View>
+    );
+
+    return (
+        <ScrollView
+            style={[styles.container, { backgroundColor: theme.background }]}
+            contentContainerStyle={styles.content}
+        >
+            {/* 🎛 Granularity selector */}
+            <View style={styles.chipRow}>
+                {PERIODS.map(option => {
+                    const selected = option.value === period;
+                    return (
+                        <Pressable
+                            key={option.value}
+                            onPress={() => setPeriod(option.value)}
+                            style={[
+                                styles.chip,
+                                { backgroundColor: theme.chipBackground },
+                                selected && { backgroundColor: theme.primary }
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.chipText,
+                                    { color: theme.secondaryText },
+                                    selected && styles.selectedChipText
+                                ]}
+                            >
+                                {option.label}
+                            </Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+
+            {renderCard(
+                "Completion rate",
+                <CompletionChart buckets={stats.buckets} />
+            )}
+            {renderCard(
+                "On time vs late",
+                <PunctualityChart punctuality={stats.punctuality} />
+            )}
+            {renderCard(
+                "By subject",
+                <BreakdownChart
+                    groups={stats.subjects}
+                    labelFor={id => subjectName(subjects, id)}
+                    colorFor={id => resolveSubject(subjects, id).color}
+                />
+            )}
+            {renderCard(
+                "Time by subject",
+                <SubjectTimeChart
+                    subjects={stats.time}
+                    labelFor={id => subjectName(subjects, id)}
+                />
+            )}
+            {renderCard(
+                "By priority",
+                <BreakdownChart
+                    groups={stats.priorities}
+                    labelFor={id => resolvePriority(priorities, id).name}
+                    colorFor={id => resolvePriority(priorities, id).color}
+                />
+            )}
+        </ScrollView>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+const styles = StyleSheet.create({
+    container: {
+        flex: 1
+    },
+    content: {
+        padding: 16,
+        paddingBottom: 40
+    },
+    chipRow: {
+        flexDirection: "row",
+        gap: 8,
+        marginBottom: 16
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 999
+    },
+    chipText: {
+        fontSize: 13
+    },
+    selectedChipText: {
+        color: "#fff",
+        fontWeight: "600"
+    },
+    card: {
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+        elevation: 1
+    },
+    cardTitle: {
+        fontSize: 16,
+        fontWeight: "600",
+        marginBottom: 12
+    }
+});
@@ -1,7 +1,8 @@
 /**
  * File: TodoScreen.tsx
  * Description: Renders the main To-Do screen including task creation,
- * filtering, editing, and calendar-based selection.
+ * filtering, editing, calendar-based selection, repeating-task occurrences
+ * and the day's planned load.
  * Integrates Redux state with visual and animated components.
  *
  * Author: BrainDesk Team
@@ -9,7 +10,7 @@
  */
 
 import "react-native-get-random-values"; // ✅ UUID polyfill for React Native
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef } from "react";
 import {
     View,
     FlatList,
@@ -25,16 +26,34 @@ import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import {
     addTask,
     editTask,
-    Task,
-    loadTasksFromStorage
+    editOccurrence,
+    Subtask,
+    Task
 } from "@/features/todo/todoSlice";
+import {
+    expandTasksForDay,
+    RecurrenceRule
+} from "@/features/todo/recurrence";
+import { matchesTags, TagMatch } from "@/features/todo/tags";
+import type { Attachment } from "@/features/attachments/attachments";
+import { activeSubjects } from "@/features/settings/subjects";
+import {
+    comparePriorities,
+    defaultPriority,
+    resolvePriority
+} from "@/features/settings/priorities";
 
 import TaskInputModal from "@/components/todo/TaskInputModal";
 import TaskItem from "@/components/todo/TaskItem";
 import FilterPanel from "@/components/todo/FilterPanel";
 import InlineWeekCalendar from "@/components/todo/InlineWeekCalendar";
+import StreakBanner from "@/components/todo/StreakBanner";
+import DayLoadBar from "@/components/todo/DayLoadBar";
 import { useTheme } from "@/hooks/useTheme";
 import { AlertModal } from "@/components/AlertModal";
+import RecurrenceScopeModal, {
+    RecurrenceScope
+} from "@/components/todo/RecurrenceScopeModal";
 
 /**
  * TodoScreen
@@ -56,10 +75,23 @@ export default function TodoScreen() {
     const [modalVisible, setModalVisible] = useState(false);
     const [title, setTitle] = useState("");
     const subjects = useAppSelector(state => state.settings.subjects);
-    const [subject, setSubject] = useState(subjects[0] || "");
-    const [priority, setPriority] = useState("Medium");
+    const [subjectId, setSubjectId] = useState(
+        activeSubjects(subjects)[0]?.id ?? ""
+    );
+    const priorities = useAppSelector(state => state.settings.priorities);
+    const [priority, setPriority] = useState(defaultPriority(priorities).id);
+    const [dueDate, setDueDate] = useState(selectedDate);
+    const [dueTime, setDueTime] = useState<string | null>(null);
+    const [estimateMinutes, setEstimateMinutes] = useState<number | null>(null);
+    const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+    const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+    const [tags, setTags] = useState<string[]>([]);
+    const [notes, setNotes] = useState("");
+    const [attachments, setAttachments] = useState<Attachment[]>([]);
     const [isEditing, setIsEditing] = useState(false);
     const [editId, setEditId] = useState<string | null>(null);
+    const [editSeries, setEditSeries] = useState(false); // Editing an occurrence of a series
+    const [scopeVisible, setScopeVisible] = useState(false);
     const [alertVisible, setAlertVisible] = useState(false);
 
     // ─────────────────────────────────────────────
@@ -69,19 +101,16 @@ export default function TodoScreen() {
     const [filterPriority, setFilterPriority] = useState("All");
     const [filterSubject, setFilterSubject] = useState("All");
     const [filterStatus, setFilterStatus] = useState("All");
+    const [filterTags, setFilterTags] = useState<string[]>([]);
+    const [tagMatch, setTagMatch] = useState<TagMatch>("any");
     const filterHeightAnim = useRef(new Animated.Value(0)).current;
 
-    // 🔄 Load saved tasks from AsyncStorage when component mounts
-    useEffect(() => {
-        dispatch(loadTasksFromStorage());
-    }, []);
-
     /**
      * Toggles filter panel visibility using height animation.
      */
     const toggleFilters = () => {
         Animated.timing(filterHeightAnim, {
-            toValue: showFilters ? 0 : 200,
+            toValue: showFilters ? 0 : 280,
             duration: 300,
             useNativeDriver: false
         }).start();
@@ -94,8 +123,16 @@ export default function TodoScreen() {
     const handleOpenModal = () => {
         setIsEditing(false);
         setTitle("");
-        setSubject(subjects[0] || "");
-        setPriority("Medium");
+        setSubjectId(activeSubjects(subjects)[0]?.id ?? "");
+        setPriority(defaultPriority(priorities).id);
+        setDueDate(selectedDate);
+        setDueTime(null);
+        setEstimateMinutes(null);
+        setRecurrence(null);
+        setSubtasks([]);
+        setTags([]);
+        setNotes("");
+        setAttachments([]);
         setModalVisible(true);
     };
 
@@ -107,36 +144,99 @@ export default function TodoScreen() {
         setTitle("");
         setIsEditing(false);
         setEditId(null);
+        setEditSeries(false);
+        setScopeVisible(false);
     };
 
     /**
      * Dispatches either add or edit task based on `isEditing`.
+     * Edits to a series first ask whether they apply to one occurrence.
      * Also validates required fields.
      */
     const handleAddTask = () => {
-        if (!title.trim() || !subject || !priority) {
+        if (!title.trim() || !subjectId || !priority) {
             setAlertVisible(true);
             return;
         }
 
         if (isEditing && editId) {
+            if (editSeries) {
+                setScopeVisible(true);
+                return;
+            }
             dispatch(
                 editTask({
                     id: editId,
                     text: title.trim(),
-                    subject,
+                    subjectId,
                     priority,
-                    completed: false,
-                    createdAt: selectedDate
+                    dueDate,
+                    dueTime,
+                    estimateMinutes,
+                    recurrence,
+                    subtasks,
+                    tags,
+                    notes,
+                    attachments
                 })
             );
         } else {
             dispatch(
                 addTask({
                     text: title.trim(),
-                    subject,
+                    subjectId,
                     priority,
-                    createdAt: selectedDate
+                    dueDate,
+                    dueTime,
+                    estimateMinutes,
+                    recurrence,
+                    subtasks,
+                    tags,
+                    notes,
+                    attachments
+                })
+            );
+        }
+
+        handleCloseModal();
+    };
+
+    /**
+     * Applies a series edit to the chosen scope.
+     *
+     * @param scope - "occurrence" detaches the selected day, "series" edits all days
+     */
+    const handleEditScope = (scope: RecurrenceScope) => {
+        if (!editId) return;
+
+        const changes = {
+            text: title.trim(),
+            subjectId,
+            priority,
+            dueTime,
+            estimateMinutes,
+            subtasks,
+            tags,
+            notes,
+            attachments
+        };
+
+        if (scope === "occurrence") {
+            dispatch(
+                editOccurrence({
+                    id: editId,
+                    date: selectedDate,
+                    changes: { ...changes, dueDate }
+                })
+            );
+        } else {
+            // Keep the series start unless repeating is switched off
+            dispatch(
+                editTask({
+                    id: editId,
+                    ...changes,
+                    dueDate: recurrence ? undefined : dueDate,
+                    recurrence
                 })
             );
         }
@@ -147,35 +247,64 @@ export default function TodoScreen() {
     /**
      * Preloads task values into modal for editing.
      *
-     * @param task - Task object selected for editing
+     * @param task - Task (or series occurrence) selected for editing
      */
     const handleEditTask = (task: Task) => {
         setIsEditing(true);
         setEditId(task.id);
+        setEditSeries(!!task.recurrence);
+        setRecurrence(task.recurrence ?? null);
+        setSubtasks(task.subtasks ?? []);
+        setTags(task.tags ?? []);
+        setNotes(task.notes ?? "");
+        setAttachments(task.attachments ?? []);
         setTitle(task.text);
-        setSubject(task.subject);
-        setPriority(task.priority);
+        setSubjectId(task.subjectId);
+        setPriority(resolvePriority(priorities, task.priority).id);
+        setDueDate(task.dueDate);
+        setDueTime(task.dueTime ?? null);
+        setEstimateMinutes(task.estimateMinutes ?? null);
         setModalVisible(true);
     };
 
-    // 🔍 Filters all tasks based on selected date and filters
-    const filteredTasks = tasks.filter(task => {
-        const isSameDate = dayjs(task.createdAt).isSame(selectedDate, "day");
+    // 📅 One-off tasks due on the selected day plus series occurrences
+    const dayTasks = expandTasksForDay(tasks, selectedDate);
+
+    // 🔍 Filters the day's tasks based on the active filters
+    const filteredTasks = dayTasks.filter(task => {
         const matchPriority =
-            filterPriority === "All" || task.priority === filterPriority;
+            filterPriority === "All" ||
+            resolvePriority(priorities, task.priority).id === filterPriority;
         const matchSubject =
-            filterSubject === "All" || task.subject === filterSubject;
+            filterSubject === "All" || task.subjectId === filterSubject;
         const matchStatus =
             filterStatus === "All" ||
             (filterStatus === "Completed" && task.completed) ||
             (filterStatus === "Pending" && !task.completed);
-        return isSameDate && matchPriority && matchSubject && matchStatus;
+        return (
+            matchPriority &&
+            matchSubject &&
+            matchStatus &&
+            matchesTags(task, filterTags, tagMatch)
+        );
+    });
+
+    // ⏰ Timed tasks first (earliest due time on top), then by priority rank
+    const byPriority = comparePriorities(priorities);
+    const sortedTasks = [...filteredTasks].sort((a, b) => {
+        if (a.dueTime && b.dueTime) {
+            return (
+                a.dueTime.localeCompare(b.dueTime) ||
+                byPriority(a.priority, b.priority)
+            );
+        }
+        if (a.dueTime) return -1;
+        if (b.dueTime) return 1;
+        return byPriority(a.priority, b.priority);
     });
 
     // ✅ Used to determine whether the day has any tasks at all
-    const hasTasksForSelectedDate = tasks.some(task =>
-        dayjs(task.createdAt).isSame(selectedDate, "day")
-    );
+    const hasTasksForSelectedDate = dayTasks.length > 0;
 
     return (
         <View style={[styles.container, { backgroundColor: theme.background }]}>
@@ -185,6 +314,12 @@ export default function TodoScreen() {
                 onSelectDate={setSelectedDate}
             />
 
+            {/* 🔥 Streak and daily goal progress */}
+            <StreakBanner />
+
+            {/* ⏳ Planned load vs tracked time for the selected day */}
+            <DayLoadBar dayTasks={dayTasks} />
+
             {/* 🎛 Filter toggle button */}
             {hasTasksForSelectedDate && (
                 <Pressable
@@ -219,6 +354,10 @@ export default function TodoScreen() {
                     setFilterSubject={setFilterSubject}
                     filterStatus={filterStatus}
                     setFilterStatus={setFilterStatus}
+                    filterTags={filterTags}
+                    setFilterTags={setFilterTags}
+                    tagMatch={tagMatch}
+                    setTagMatch={setTagMatch}
                     heightAnim={filterHeightAnim}
                 />
             )}
@@ -238,7 +377,7 @@ export default function TodoScreen() {
                     </View>
                 ) : (
                     <FlatList
-                        data={filteredTasks}
+                        data={sortedTasks}
                         keyExtractor={item => item.id}
                         renderItem={({ item }) => (
                             <TaskItem task={item} onEdit={handleEditTask} />
@@ -277,13 +416,37 @@ export default function TodoScreen() {
                 onAdd={handleAddTask}
                 title={title}
                 setTitle={setTitle}
-                subject={subject}
-                setSubject={setSubject}
+                subject={subjectId}
+                setSubject={setSubjectId}
                 priority={priority}
                 setPriority={setPriority}
+                dueDate={dueDate}
+                setDueDate={setDueDate}
+                dueTime={dueTime}
+                setDueTime={setDueTime}
+                estimateMinutes={estimateMinutes}
+                setEstimateMinutes={setEstimateMinutes}
+                recurrence={recurrence}
+                setRecurrence={setRecurrence}
+                subtasks={subtasks}
+                setSubtasks={setSubtasks}
+                tags={tags}
+                setTags={setTags}
+                notes={notes}
+                setNotes={setNotes}
+                attachments={attachments}
+                setAttachments={setAttachments}
                 isEditing={isEditing}
             />
 
+            {/* 🔁 Scope prompt when editing a repeating task */}
+            <RecurrenceScopeModal
+                visible={scopeVisible}
+                title="Edit repeating task"
+                onSelect={handleEditScope}
+                onClose={() => setScopeVisible(false)}
+            />
+
             {/* ⚠️ Alert shown for missing input */}
             <AlertModal
                 visible={alertVisible}
@@ -2,19 +2,33 @@
  * File: app/_layout.tsx
  * Purpose: Root layout for the BrainDesk app using Expo Router and Redux.
  * Loads persisted Redux state (settings, tasks) before rendering the app.
+ * Tabs live in a stack so secondary screens (e.g. Trash) can be pushed on top.
+ * Hosts the global toast used to undo destructive task actions.
+ * Pending storage writes are flushed when the app leaves the foreground; coming
+ * back syncs with the sync server, if one is set up, and schedules the next daily
+ * reminder, as does the reminder firing while the app is open.
  */
 
+import "react-native-get-random-values"; // ✅ crypto.getRandomValues for UUIDs and backup encryption
 import React, { useEffect, useState } from "react";
-import { View, ActivityIndicator } from "react-native";
-import { Slot } from "expo-router";
+import { View, ActivityIndicator, AppState } from "react-native";
+import { Stack } from "expo-router";
 import { Provider } from "react-redux";
+import Toast from "react-native-toast-message";
 
-import { store } from "@/store";
+import { store, flushStorage } from "@/store";
 import { bootstrapApp } from "@/store/bootstrap";
 import { useAppSelector } from "@/store/hooks";
+import { useTheme } from "@/hooks/useTheme";
+import { toastConfig } from "@/components/UndoToast";
+import { requestServerSync } from "@/features/sync/serverSyncListener";
+import { refreshReminder } from "@/features/notifications/reminderListener";
+import { isDailyReminderId } from "@/features/notifications/notificationService";
+import { expoNotificationScheduler } from "@/features/notifications/expoNotificationScheduler";
 
 // 🌱 App content rendered after Redux hydration
 function AppContent() {
+  const theme = useTheme();
   const notificationTime = useAppSelector(
     state => state.settings.notificationTime
   );
@@ -24,7 +38,26 @@ function AppContent() {
     return null;
   }
 
-  return <Slot />;
+  return (
+    <>
+      <Stack
+        screenOptions={{
+          headerStyle: { backgroundColor: theme.card },
+          headerTintColor: theme.text,
+          contentStyle: { backgroundColor: theme.background }
+        }}
+      >
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="trash/index" options={{ title: "Trash" }} />
+        <Stack.Screen name="snapshots/index" options={{ title: "Snapshots" }} />
+        <Stack.Screen name="sync/index" options={{ title: "Sync" }} />
+        <Stack.Screen name="focus/index" options={{ title: "Focus" }} />
+      </Stack>
+
+      {/* 🍞 Undo toasts render above every screen */}
+      <Toast config={toastConfig} />
+    </>
+  );
 }
 
 // 🚀 App root layout
@@ -35,6 +68,29 @@ export default function Layout() {
     bootstrapApp().then(() => setIsReady(true));
   }, []);
 
+  // 💾 Don't leave debounced writes behind if the app is suspended or killed
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", state => {
+      if (state !== "active") flushStorage();
+      else {
+        // 🔄 Catch up with the sync server, sending anything queued while offline
+        store.dispatch(requestServerSync());
+        // 🔔 The reminder may have fired meanwhile; schedule the next one
+        store.dispatch(refreshReminder());
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // 🔔 Reminders are one-offs, so the window moves on once one fires
+  useEffect(
+    () =>
+      expoNotificationScheduler.onDelivered(isDailyReminderId, () =>
+        store.dispatch(refreshReminder())
+      ),
+    []
+  );
+
   if (!isReady) {
     return (
       <View
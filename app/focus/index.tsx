@@ -0,0 +1,249 @@
+/**
+ * File: FocusScreen.tsx
+ * Description: Pomodoro focus timer for a task. Shows the running phase as a
+ * countdown ring, starts/stops phases and summarizes today's focused time.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams } from "expo-router";
+import { AnimatedCircularProgress } from "react-native-circular-progress";
+import dayjs from "dayjs";
+
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { startFocus, stopFocus } from "@/features/focus/sessionsSlice";
+import {
+    FocusPhase,
+    formatRemaining,
+    getFocusMinutesByDay,
+    getNextPhase,
+    getPhaseMinutes,
+    PHASE_LABELS
+} from "@/features/focus/focusTimer";
+import { subjectName } from "@/features/settings/subjects";
+import { useTheme } from "@/hooks/useTheme";
+import { useFocusTimer } from "@/hooks/useFocusTimer";
+
+/**
+ * FocusScreen
+ *
+ * Opened from a task with `?taskId=`. While a phase runs, the screen follows
+ * the running timer's task instead.
+ */
+export default function FocusScreen() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const { taskId } = useLocalSearchParams<{ taskId?: string }>();
+    const { timer, remainingMs } = useFocusTimer();
+
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const durations = useAppSelector(state => state.settings.focusDurations);
+    const subjects = useAppSelector(state => state.settings.subjects);
+    const { sessions, lastPhase, completedWorkPhases } = useAppSelector(
+        state => state.sessions
+    );
+
+    const activeTaskId = timer ? timer.taskId : (taskId ?? null);
+    const task = tasks.find(t => t.id === activeTaskId);
+
+    // ⏱ Ring fill: share of the phase already elapsed
+    const phase: FocusPhase = timer
+        ? timer.phase
+        : getNextPhase(lastPhase, completedWorkPhases, durations);
+    const totalMs = getPhaseMinutes(phase, durations) * 60 * 1000;
+    const shownMs = timer ? remainingMs : totalMs;
+    const fill = timer ? ((totalMs - remainingMs) / totalMs) * 100 : 0;
+
+    // 📈 Focused minutes today, overall and for this task
+    const today = dayjs().format("YYYY-MM-DD");
+    const todayMinutes = Math.floor(getFocusMinutesByDay(sessions)[today] ?? 0);
+    const taskMinutes = Math.floor(
+        sessions
+            .filter(s => s.taskId === activeTaskId)
+            .reduce((sum, s) => sum + s.duration, 0) / 60
+    );
+
+    const handleStart = (next: FocusPhase) => {
+        dispatch(
+            startFocus({
+                phase: next,
+                durations,
+                taskId: task?.id ?? null,
+                subjectId: task?.subjectId ?? null
+            })
+        );
+    };
+
+    const phaseColor = phase === "work" ? theme.primary : theme.success;
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* 📝 Task being studied */}
+            <Text style={[styles.taskTitle, { color: theme.text }]} numberOfLines={2}>
+                {task?.text ?? "Free focus"}
+            </Text>
+            {task && (
+                <Text style={[styles.subject, { color: theme.tertiaryText }]}>
+                    {subjectName(subjects, task.subjectId)}
+                </Text>
+            )}
+
+            {/* ⭕ Countdown ring */}
+            <AnimatedCircularProgress
+                size={240}
+                width={12}
+                fill={fill}
+                rotation={0}
+                tintColor={phaseColor}
+                backgroundColor={theme.chipBackground}
+                style={styles.ring}
+            >
+                {() => (
+                    <View style={styles.ringContent}>
+                        <Text style={[styles.phase, { color: phaseColor }]}>
+                            {PHASE_LABELS[phase]}
+                        </Text>
+                        <Text style={[styles.time, { color: theme.text }]}>
+                            {formatRemaining(shownMs)}
+                        </Text>
+                    </View>
+                )}
+            </AnimatedCircularProgress>
+
+            {/* ▶️ Controls */}
+            {timer ? (
+                <Pressable
+                    onPress={() => dispatch(stopFocus())}
+                    style={[styles.button, { backgroundColor: theme.danger }]}
+                >
+                    <Ionicons name="stop" size={20} color="#fff" />
+                    <Text style={styles.buttonText}>Stop</Text>
+                </Pressable>
+            ) : (
+                <View style={styles.controls}>
+                    <Pressable
+                        onPress={() => handleStart(phase)}
+                        style={[styles.button, { backgroundColor: phaseColor }]}
+                    >
+                        <Ionicons name="play" size={20} color="#fff" />
+                        <Text style={styles.buttonText}>
+                            Start {PHASE_LABELS[phase].toLowerCase()}
+                        </Text>
+                    </Pressable>
+                    {phase !== "work" && (
+                        <Pressable onPress={() => handleStart("work")} hitSlop={8}>
+                            <Text style={[styles.skip, { color: theme.tertiaryText }]}>
+                                Skip break
+                            </Text>
+                        </Pressable>
+                    )}
+                </View>
+            )}
+
+            {/* 📈 Today's focus */}
+            <View style={[styles.summary, { backgroundColor: theme.card }]}>
+                <View style={styles.summaryItem}>
+                    <Text style={[styles.summaryValue, { color: theme.text }]}>
+                        {todayMinutes} min
+                    </Text>
+                    <Text style={[styles.summaryLabel, { color: theme.tertiaryText }]}>
+                        Focused today
+                    </Text>
+                </View>
+                {task && (
+                    <View style={styles.summaryItem}>
+                        <Text style={[styles.summaryValue, { color: theme.text }]}>
+                            {taskMinutes} min
+                        </Text>
+                        <Text
+                            style={[styles.summaryLabel, { color: theme.tertiaryText }]}
+                        >
+                            On this task
+                        </Text>
+                    </View>
+                )}
+            </View>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        alignItems: "center",
+        padding: 24
+    },
+    taskTitle: {
+        fontSize: 20,
+        fontWeight: "600",
+        textAlign: "center"
+    },
+    subject: {
+        fontSize: 14,
+        marginTop: 4
+    },
+    ring: {
+        marginVertical: 32
+    },
+    ringContent: {
+        alignItems: "center"
+    },
+    phase: {
+        fontSize: 14,
+        fontWeight: "600",
+        textTransform: "uppercase",
+        letterSpacing: 1
+    },
+    time: {
+        fontSize: 48,
+        fontWeight: "700",
+        fontVariant: ["tabular-nums"],
+        marginTop: 4
+    },
+    controls: {
+        alignItems: "center",
+        gap: 16
+    },
+    button: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        paddingVertical: 14,
+        paddingHorizontal: 32,
+        borderRadius: 999
+    },
+    buttonText: {
+        color: "#fff",
+        fontSize: 16,
+        fontWeight: "600"
+    },
+    skip: {
+        fontSize: 14
+    },
+    summary: {
+        flexDirection: "row",
+        justifyContent: "space-around",
+        alignSelf: "stretch",
+        marginTop: 32,
+        padding: 16,
+        borderRadius: 12
+    },
+    summaryItem: {
+        alignItems: "center"
+    },
+    summaryValue: {
+        fontSize: 18,
+        fontWeight: "600"
+    },
+    summaryLabel: {
+        fontSize: 12,
+        marginTop: 2
+    }
+});
@@ -0,0 +1,384 @@
+/**
+ * File: SnapshotsScreen.tsx
+ * Description: Lists the automatic local backups with their date, size and
+ * task count, restores one in a tap and sets how many are kept.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, FlatList, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Application from "expo-application";
+import dayjs from "dayjs";
+
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { replaceTasks } from "@/features/todo/todoSlice";
+import {
+    replaceSettings,
+    setSnapshotsToKeep
+} from "@/features/settings/settingsSlice";
+import { replaceSessions } from "@/features/focus/sessionsSlice";
+import {
+    listSnapshots,
+    readSnapshot,
+    SnapshotInfo,
+    SnapshotReason,
+    takeSnapshot
+} from "@/features/backup/snapshots";
+import { expoSnapshotStore } from "@/features/backup/expoSnapshotStore";
+import { BackupError, formatIssues } from "@/features/backup/backup";
+import { useTheme } from "@/hooks/useTheme";
+import { AlertModal } from "@/components/AlertModal";
+
+// Retention choices offered to the user (0 = no automatic snapshots)
+const KEEP_OPTIONS = [
+    { label: "3", value: 3 },
+    { label: "7", value: 7 },
+    { label: "14", value: 14 },
+    { label: "30", value: 30 },
+    { label: "Off", value: 0 }
+];
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+    daily: "Daily",
+    reset: "Before reset",
+    import: "Before import or restore",
+    manual: "Manual"
+};
+
+/** File size for display, e.g. "12.4 KB" */
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * SnapshotsScreen
+ *
+ * Restoring replaces all data, after the listener has snapshotted the current
+ * state, so a restore can itself be undone from this list.
+ */
+export default function SnapshotsScreen() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const settings = useAppSelector(state => state.settings);
+    const sessions = useAppSelector(state => state.sessions.sessions);
+
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [pendingRestore, setPendingRestore] = useState<SnapshotInfo | null>(null); // Restore confirm
+    const [pendingDelete, setPendingDelete] = useState<SnapshotInfo | null>(null); // Delete confirm
+    const [alert, setAlert] = useState<{
+        type: "success" | "warning" | "error";
+        title: string;
+        message: string;
+    } | null>(null); // Outcome of a restore or manual snapshot
+
+    const refresh = useCallback(async () => {
+        try {
+            setSnapshots(await listSnapshots(expoSnapshotStore));
+        } catch (error) {
+            console.error("Failed to list snapshots:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleSnapshotNow = async () => {
+        try {
+            await takeSnapshot(
+                expoSnapshotStore,
+                { tasks, settings, sessions },
+                "manual",
+                settings.snapshotsToKeep,
+                Application.nativeApplicationVersion || "1.0.0"
+            );
+        } catch (error) {
+            console.error("Manual snapshot failed:", error);
+            setAlert({
+                type: "error",
+                title: "Snapshot Failed",
+                message: "Could not write the snapshot."
+            });
+        }
+        refresh();
+    };
+
+    // Same validation as importing a backup file, then replace everything
+    const handleRestore = async () => {
+        const snapshot = pendingRestore;
+        setPendingRestore(null);
+        if (!snapshot) return;
+
+        try {
+            const { data, issues } = await readSnapshot(
+                expoSnapshotStore,
+                snapshot.name
+            );
+            dispatch(replaceTasks(data.tasks));
+            dispatch(replaceSettings(data.settings));
+            dispatch(replaceSessions(data.sessions));
+
+            const summary = `Restored ${data.tasks.length} tasks from ${dayjs(snapshot.takenAt).format("MMM D, HH:mm")}.`;
+            setAlert({
+                type: issues.length > 0 ? "warning" : "success",
+                title: "Snapshot Restored",
+                message:
+                    issues.length > 0
+                        ? `${summary} ${issues.length} invalid fields or entries were skipped:\n\n${formatIssues(issues)}`
+                        : summary
+            });
+        } catch (err: any) {
+            const details =
+                err instanceof BackupError && err.issues.length > 0
+                    ? `\n\n${formatIssues(err.issues)}`
+                    : "";
+            setAlert({
+                type: "error",
+                title: "Restore Failed",
+                message: (err.message || "Could not read the snapshot.") + details
+            });
+        }
+        refresh();
+    };
+
+    const handleDelete = async () => {
+        if (pendingDelete) {
+            await expoSnapshotStore.remove(pendingDelete.name);
+        }
+        setPendingDelete(null);
+        refresh();
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* ⏳ Retention setting */}
+            <Text style={[styles.label, { color: theme.secondaryText }]}>
+                Snapshots to keep
+            </Text>
+            <View style={styles.chipRow}>
+                {KEEP_OPTIONS.map(option => {
+                    const selected = settings.snapshotsToKeep === option.value;
+                    return (
+                        <Pressable
+                            key={option.value}
+                            onPress={() =>
+                                dispatch(setSnapshotsToKeep(option.value))
+                            }
+                            style={[
+                                styles.chip,
+                                { backgroundColor: theme.chipBackground },
+                                selected && { backgroundColor: theme.primary }
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.chipText,
+                                    { color: theme.secondaryText },
+                                    selected && styles.selectedChipText
+                                ]}
+                            >
+                                {option.label}
+                            </Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+
+            {/* 📋 Snapshots or empty state */}
+            {snapshots.length === 0 ? (
+                <View style={styles.emptyContainer}>
+                    <Ionicons
+                        name="time-outline"
+                        size={40}
+                        color={theme.tertiaryText}
+                    />
+                    <Text style={[styles.emptyText, { color: theme.tertiaryText }]}>
+                        {settings.snapshotsToKeep === 0
+                            ? "Automatic snapshots are off."
+                            : "No snapshots yet. One is taken on the first launch of each day."}
+                    </Text>
+                </View>
+            ) : (
+                <FlatList
+                    data={snapshots}
+                    keyExtractor={item => item.name}
+                    renderItem={({ item }) => (
+                        <View style={[styles.row, { backgroundColor: theme.card }]}>
+                            <View style={styles.rowText}>
+                                <Text style={[styles.rowTitle, { color: theme.text }]}>
+                                    {dayjs(item.takenAt).format("ddd, MMM D · HH:mm")}
+                                </Text>
+                                <Text
+                                    style={[styles.rowMeta, { color: theme.tertiaryText }]}
+                                >
+                                    {REASON_LABELS[item.reason]} · {item.taskCount} tasks ·{" "}
+                                    {formatSize(item.size)}
+                                </Text>
+                            </View>
+                            <Pressable
+                                onPress={() => setPendingRestore(item)}
+                                hitSlop={8}
+                                style={styles.rowAction}
+                            >
+                                <Ionicons
+                                    name="arrow-undo-outline"
+                                    size={20}
+                                    color={theme.primary}
+                                />
+                            </Pressable>
+                            <Pressable
+                                onPress={() => setPendingDelete(item)}
+                                hitSlop={8}
+                                style={styles.rowAction}
+                            >
+                                <Ionicons
+                                    name="trash-outline"
+                                    size={20}
+                                    color={theme.danger}
+                                />
+                            </Pressable>
+                        </View>
+                    )}
+                    contentContainerStyle={styles.list}
+                />
+            )}
+
+            <Pressable
+                onPress={handleSnapshotNow}
+                style={({ pressed }) => [
+                    styles.snapshotButton,
+                    { backgroundColor: theme.card },
+                    pressed && { opacity: 0.6 }
+                ]}
+            >
+                <Ionicons name="camera-outline" size={18} color={theme.primary} />
+                <Text style={[styles.snapshotButtonText, { color: theme.primary }]}>
+                    Take Snapshot Now
+                </Text>
+            </Pressable>
+
+            {/* ⚠️ Confirm restore */}
+            <AlertModal
+                visible={pendingRestore !== null}
+                type="warning"
+                title="Restore Snapshot"
+                message={`All tasks, settings and focus sessions will be replaced with the snapshot from ${pendingRestore ? dayjs(pendingRestore.takenAt).format("MMM D, HH:mm") : ""}.\nYour current data is snapshotted first.`}
+                confirmText="Restore"
+                cancelText="Cancel"
+                onClose={() => setPendingRestore(null)}
+                onConfirm={handleRestore}
+            />
+
+            {/* ⚠️ Confirm delete */}
+            <AlertModal
+                visible={pendingDelete !== null}
+                type="warning"
+                title="Delete Snapshot"
+                message="This snapshot will be permanently deleted."
+                confirmText="Delete"
+                cancelText="Cancel"
+                onClose={() => setPendingDelete(null)}
+                onConfirm={handleDelete}
+            />
+
+            {/* Outcome */}
+            <AlertModal
+                visible={alert !== null}
+                type={alert?.type ?? "success"}
+                title={alert?.title ?? ""}
+                message={alert?.message ?? ""}
+                confirmText="OK"
+                onClose={() => setAlert(null)}
+            />
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        padding: 16
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: "600",
+        marginBottom: 6
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8,
+        marginBottom: 16
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999
+    },
+    chipText: {
+        fontSize: 13
+    },
+    selectedChipText: {
+        color: "#fff",
+        fontWeight: "600"
+    },
+    list: {
+        paddingBottom: 16
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginBottom: 8,
+        gap: 12,
+        elevation: 1
+    },
+    rowText: {
+        flex: 1
+    },
+    rowTitle: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    rowMeta: {
+        fontSize: 13,
+        marginTop: 2
+    },
+    rowAction: {
+        padding: 4
+    },
+    emptyContainer: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 12
+    },
+    emptyText: {
+        fontSize: 16,
+        textAlign: "center"
+    },
+    snapshotButton: {
+        flexDirection: "row",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 8,
+        paddingVertical: 14,
+        borderRadius: 12,
+        elevation: 1
+    },
+    snapshotButtonText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
@@ -0,0 +1,267 @@
+/**
+ * File: SyncScreen.tsx
+ * Description: Exports a sync bundle for another device and merges the
+ * bundle another device exported, listing the devices synced so far; also
+ * sets up syncing through a self-hosted server.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import { View, Text, FlatList, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import dayjs from "dayjs";
+
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { applySyncMerge } from "@/features/sync/syncSlice";
+import {
+    createSyncBundle,
+    mergeSyncBundle,
+    parseSyncBundle
+} from "@/features/sync/syncBundle";
+import { pickTextFile, writeAndShare } from "@/features/exchange/files";
+import { BackupError, formatIssues } from "@/features/backup/backup";
+import { useTheme } from "@/hooks/useTheme";
+import { AlertModal } from "@/components/AlertModal";
+import SyncServerSetup from "@/components/settings/SyncServerSetup";
+
+/** Short form of a device ID for display */
+const shortId = (deviceId: string) => deviceId.slice(0, 8).toUpperCase();
+
+/**
+ * SyncScreen
+ *
+ * Sync goes through files: export here, open the file on the other device
+ * and import it there, then the other way round.
+ */
+export default function SyncScreen() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const sync = useAppSelector(state => state.sync);
+
+    const [alert, setAlert] = useState<{
+        type: "success" | "warning" | "error";
+        title: string;
+        message: string;
+    } | null>(null); // Outcome of an export or import
+
+    const peers = Object.entries(sync.peers).sort(([, a], [, b]) =>
+        b.syncedAt.localeCompare(a.syncedAt)
+    );
+
+    const handleExport = async () => {
+        try {
+            const bundle = createSyncBundle(tasks, sync);
+            await writeAndShare(
+                "braindesk_sync.json",
+                JSON.stringify(bundle),
+                "application/json",
+                "Export Sync Bundle"
+            );
+        } catch (error) {
+            console.error("Sync export failed:", error);
+            setAlert({
+                type: "error",
+                title: "Export Failed",
+                message: "Could not write the sync bundle."
+            });
+        }
+    };
+
+    const handleImport = async () => {
+        try {
+            const file = await pickTextFile("application/json");
+            if (!file) return;
+
+            const { bundle, issues } = parseSyncBundle(file.contents, sync.deviceId);
+            const result = mergeSyncBundle({ tasks, sync }, bundle);
+            dispatch(applySyncMerge(result));
+
+            const summary = `${result.added} added, ${result.updated} updated, ${result.removed} removed.`;
+            setAlert({
+                type: issues.length > 0 ? "warning" : "success",
+                title: "Devices Synced",
+                message:
+                    issues.length > 0
+                        ? `${summary} ${issues.length} invalid fields or entries were skipped:\n\n${formatIssues(issues)}`
+                        : summary
+            });
+        } catch (err: any) {
+            const details =
+                err instanceof BackupError && err.issues.length > 0
+                    ? `\n\n${formatIssues(err.issues)}`
+                    : "";
+            setAlert({
+                type: "error",
+                title: "Sync Failed",
+                message: (err.message || "Could not read the sync bundle.") + details
+            });
+        }
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* 📱 This device */}
+            <Text style={[styles.label, { color: theme.secondaryText }]}>
+                This device
+            </Text>
+            <View style={[styles.row, { backgroundColor: theme.card }]}>
+                <Ionicons name="phone-portrait-outline" size={20} color={theme.primary} />
+                <Text style={[styles.rowTitle, { color: theme.text }]}>
+                    {shortId(sync.deviceId)}
+                </Text>
+            </View>
+
+            {/* 🌐 Self-hosted sync server */}
+            <Text style={[styles.label, { color: theme.secondaryText }]}>
+                Sync server
+            </Text>
+            <SyncServerSetup />
+
+            {/* 🔄 Synced devices or empty state */}
+            <Text style={[styles.label, { color: theme.secondaryText }]}>
+                Synced devices
+            </Text>
+            {peers.length === 0 ? (
+                <View style={styles.emptyContainer}>
+                    <Ionicons
+                        name="sync-outline"
+                        size={40}
+                        color={theme.tertiaryText}
+                    />
+                    <Text style={[styles.emptyText, { color: theme.tertiaryText }]}>
+                        Export a sync bundle, import it on your other device, then bring
+                        its bundle back here.
+                    </Text>
+                </View>
+            ) : (
+                <FlatList
+                    data={peers}
+                    keyExtractor={([deviceId]) => deviceId}
+                    renderItem={({ item: [deviceId, peer] }) => (
+                        <View style={[styles.row, { backgroundColor: theme.card }]}>
+                            <Ionicons
+                                name="tablet-portrait-outline"
+                                size={20}
+                                color={theme.secondaryText}
+                            />
+                            <View style={styles.rowText}>
+                                <Text style={[styles.rowTitle, { color: theme.text }]}>
+                                    {shortId(deviceId)}
+                                </Text>
+                                <Text
+                                    style={[styles.rowMeta, { color: theme.tertiaryText }]}
+                                >
+                                    Last synced {dayjs(peer.syncedAt).format("ddd, MMM D · HH:mm")}
+                                </Text>
+                            </View>
+                        </View>
+                    )}
+                    contentContainerStyle={styles.list}
+                />
+            )}
+
+            <Pressable
+                onPress={handleExport}
+                style={({ pressed }) => [
+                    styles.actionButton,
+                    { backgroundColor: theme.card },
+                    pressed && { opacity: 0.6 }
+                ]}
+            >
+                <Ionicons name="share-outline" size={18} color={theme.primary} />
+                <Text style={[styles.actionButtonText, { color: theme.primary }]}>
+                    Export Sync Bundle
+                </Text>
+            </Pressable>
+            <Pressable
+                onPress={handleImport}
+                style={({ pressed }) => [
+                    styles.actionButton,
+                    { backgroundColor: theme.card },
+                    pressed && { opacity: 0.6 }
+                ]}
+            >
+                <Ionicons name="download-outline" size={18} color={theme.primary} />
+                <Text style={[styles.actionButtonText, { color: theme.primary }]}>
+                    Import Sync Bundle
+                </Text>
+            </Pressable>
+
+            {/* Outcome */}
+            <AlertModal
+                visible={alert !== null}
+                type={alert?.type ?? "success"}
+                title={alert?.title ?? ""}
+                message={alert?.message ?? ""}
+                confirmText="OK"
+                onClose={() => setAlert(null)}
+            />
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        padding: 16
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: "600",
+        marginBottom: 6
+    },
+    list: {
+        paddingBottom: 16
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginBottom: 8,
+        gap: 12,
+        elevation: 1
+    },
+    rowText: {
+        flex: 1
+    },
+    rowTitle: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    rowMeta: {
+        fontSize: 13,
+        marginTop: 2
+    },
+    emptyContainer: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 12
+    },
+    emptyText: {
+        fontSize: 16,
+        textAlign: "center"
+    },
+    actionButton: {
+        flexDirection: "row",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 8,
+        paddingVertical: 14,
+        borderRadius: 12,
+        marginTop: 8,
+        elevation: 1
+    },
+    actionButtonText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
@@ -0,0 +1,232 @@
+/**
+ * File: TrashScreen.tsx
+ * Description: Lists soft-deleted tasks with restore, permanent delete and
+ * "empty trash" actions, plus the trash retention setting.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import { View, Text, FlatList, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+    restoreTask,
+    purgeTask,
+    emptyTrash,
+    Task
+} from "@/features/todo/todoSlice";
+import { setTrashRetentionDays } from "@/features/settings/settingsSlice";
+import { useTheme } from "@/hooks/useTheme";
+import { AlertModal } from "@/components/AlertModal";
+import TrashedTaskRow from "@/components/trash/TrashedTaskRow";
+
+// Retention choices offered to the user (0 = keep forever)
+const RETENTION_OPTIONS = [
+    { label: "7 days", value: 7 },
+    { label: "30 days", value: 30 },
+    { label: "90 days", value: 90 },
+    { label: "Forever", value: 0 }
+];
+
+/**
+ * TrashScreen
+ *
+ * Shows trashed tasks newest first. Permanent deletes ask for confirmation.
+ */
+export default function TrashScreen() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const retentionDays = useAppSelector(
+        state => state.settings.trashRetentionDays
+    );
+
+    const [pendingPurge, setPendingPurge] = useState<Task | null>(null); // Single-task confirm
+    const [confirmEmpty, setConfirmEmpty] = useState(false); // Empty-trash confirm
+
+    // 🗑 Trashed tasks, most recently deleted first
+    const trashed = tasks
+        .filter(t => t.deletedAt)
+        .sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? ""));
+
+    const handlePurge = () => {
+        if (pendingPurge) dispatch(purgeTask(pendingPurge.id));
+        setPendingPurge(null);
+    };
+
+    const handleEmpty = () => {
+        dispatch(emptyTrash());
+        setConfirmEmpty(false);
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.background }]}>
+            {/* ⏳ Retention setting */}
+            <Text style={[styles.label, { color: theme.secondaryText }]}>
+                Keep deleted tasks for
+            </Text>
+            <View style={styles.chipRow}>
+                {RETENTION_OPTIONS.map(option => {
+                    const selected = retentionDays === option.value;
+                    return (
+                        <Pressable
+                            key={option.value}
+                            onPress={() =>
+                                dispatch(setTrashRetentionDays(option.value))
+                            }
+                            style={[
+                                styles.chip,
+                                { backgroundColor: theme.chipBackground },
+                                selected && { backgroundColor: theme.primary }
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.chipText,
+                                    { color: theme.secondaryText },
+                                    selected && styles.selectedChipText
+                                ]}
+                            >
+                                {option.label}
+                            </Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+
+            {/* 📋 Trashed tasks or empty state */}
+            {trashed.length === 0 ? (
+                <View style={styles.emptyContainer}>
+                    <Ionicons
+                        name="trash-bin-outline"
+                        size={40}
+                        color={theme.tertiaryText}
+                    />
+                    <Text style={[styles.emptyText, { color: theme.tertiaryText }]}>
+                        Trash is empty.
+                    </Text>
+                </View>
+            ) : (
+                <>
+                    <FlatList
+                        data={trashed}
+                        keyExtractor={item => item.id}
+                        renderItem={({ item }) => (
+                            <TrashedTaskRow
+                                task={item}
+                                retentionDays={retentionDays}
+                                onRestore={task => dispatch(restoreTask(task.id))}
+                                onPurge={setPendingPurge}
+                            />
+                        )}
+                        contentContainerStyle={styles.list}
+                    />
+
+                    <Pressable
+                        onPress={() => setConfirmEmpty(true)}
+                        style={({ pressed }) => [
+                            styles.emptyButton,
+                            { backgroundColor: theme.card },
+                            pressed && { opacity: 0.6 }
+                        ]}
+                    >
+                        <Ionicons
+                            name="trash-outline"
+                            size={18}
+                            color={theme.danger}
+                        />
+                        <Text style={[styles.emptyButtonText, { color: theme.danger }]}>
+                            Empty Trash
+                        </Text>
+                    </Pressable>
+                </>
+            )}
+
+            {/* ⚠️ Confirm permanent delete of one task */}
+            <AlertModal
+                visible={pendingPurge !== null}
+                type="warning"
+                title="Delete Forever"
+                message={`"${pendingPurge?.text ?? ""}" will be permanently deleted.\nThis action cannot be undone.`}
+                confirmText="Delete"
+                cancelText="Cancel"
+                onClose={() => setPendingPurge(null)}
+                onConfirm={handlePurge}
+            />
+
+            {/* ⚠️ Confirm emptying the trash */}
+            <AlertModal
+                visible={confirmEmpty}
+                type="warning"
+                title="Empty Trash"
+                message={`All ${trashed.length} tasks in the trash will be permanently deleted.\nThis action cannot be undone.`}
+                confirmText="Empty"
+                cancelText="Cancel"
+                onClose={() => setConfirmEmpty(false)}
+                onConfirm={handleEmpty}
+            />
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        padding: 16
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: "600",
+        marginBottom: 6
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8,
+        marginBottom: 16
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999
+    },
+    chipText: {
+        fontSize: 13
+    },
+    selectedChipText: {
+        color: "#fff",
+        fontWeight: "600"
+    },
+    list: {
+        paddingBottom: 16
+    },
+    emptyContainer: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 12
+    },
+    emptyText: {
+        fontSize: 16,
+        textAlign: "center"
+    },
+    emptyButton: {
+        flexDirection: "row",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 8,
+        paddingVertical: 14,
+        borderRadius: 12,
+        elevation: 1
+    },
+    emptyButtonText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
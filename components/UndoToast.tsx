@@ -0,0 +1,84 @@
+/**
+ * File: UndoToast.tsx
+ * Description: Toast layout with an "Undo" button, registered as the `undo`
+ * toast type for react-native-toast-message.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import Toast, {
+    ToastConfig,
+    ToastConfigParams
+} from "react-native-toast-message";
+import { useTheme } from "@/hooks/useTheme";
+import { UNDO_TOAST_TYPE } from "@/features/todo/toastUndoNotifier";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type UndoToastProps = {
+    onUndo: () => void; // Reverts the action the toast describes
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: UndoToast
+// ─────────────────────────────────────────────
+
+export function UndoToast({ text1, props }: ToastConfigParams<UndoToastProps>) {
+    const theme = useTheme();
+
+    const handleUndo = () => {
+        props.onUndo();
+        Toast.hide();
+    };
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.card }]}>
+            <Text style={[styles.message, { color: theme.text }]} numberOfLines={1}>
+                {text1}
+            </Text>
+            <Pressable onPress={handleUndo} hitSlop={8}>
+                <Text style={[styles.action, { color: theme.primary }]}>Undo</Text>
+            </Pressable>
+        </View>
+    );
+}
+
+/** Toast layouts passed to the root `<Toast />` */
+export const toastConfig: ToastConfig = {
+    [UNDO_TOAST_TYPE]: params => <UndoToast {...params} />
+};
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        width: "90%",
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        elevation: 4,
+        shadowColor: "#000",
+        shadowOpacity: 0.15,
+        shadowRadius: 6,
+        shadowOffset: { width: 0, height: 2 }
+    },
+    message: {
+        flex: 1,
+        fontSize: 15,
+        marginRight: 12
+    },
+    action: {
+        fontSize: 15,
+        fontWeight: "700"
+    }
+});
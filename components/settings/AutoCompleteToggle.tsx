@@ -0,0 +1,76 @@
+/**
+ * File: AutoCompleteToggle.tsx
+ * Description: Settings row that controls whether a task completes itself
+ * once every subtask in its checklist is checked.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, StyleSheet, Switch } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { setAutoCompleteTasks } from "@/features/settings/settingsSlice";
+import { useTheme } from "@/hooks/useTheme";
+
+// ─────────────────────────────────────────────
+// 🔸 Component: AutoCompleteToggle
+// ─────────────────────────────────────────────
+
+/**
+ * Renders a labelled switch bound to `settings.autoCompleteTasks`.
+ */
+export default function AutoCompleteToggle() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const enabled = useAppSelector(state => state.settings.autoCompleteTasks);
+
+    const handleChange = (value: boolean) => {
+        dispatch(setAutoCompleteTasks(value));
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.labelRow}>
+                <Ionicons
+                    name="checkmark-done-outline"
+                    size={18}
+                    color={theme.primary}
+                />
+                <Text style={[styles.label, { color: theme.text }]}>
+                    Auto-complete with subtasks
+                </Text>
+            </View>
+
+            <Switch
+                value={enabled}
+                onValueChange={handleChange}
+                trackColor={{ true: theme.primary, false: theme.chipBackground }}
+                thumbColor="#fff"
+            />
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 14
+    },
+    labelRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: "500"
+    }
+});
@@ -0,0 +1,169 @@
+/**
+ * File: DailyGoalSetting.tsx
+ * Description: Settings row for the daily goal that drives streaks —
+ * a number of completed tasks or focused minutes per day.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+    DailyGoalType,
+    setDailyGoal
+} from "@/features/settings/settingsSlice";
+import { useTheme } from "@/hooks/useTheme";
+
+// Stepper increments and defaults per goal type
+const GOAL_TYPES: {
+    value: DailyGoalType;
+    label: string;
+    unit: string;
+    step: number;
+    initial: number;
+    max: number;
+}[] = [
+    { value: "tasks", label: "Tasks", unit: "tasks", step: 1, initial: 3, max: 50 },
+    { value: "minutes", label: "Minutes", unit: "min", step: 15, initial: 60, max: 600 }
+];
+
+// ─────────────────────────────────────────────
+// 🔸 Component: DailyGoalSetting
+// ─────────────────────────────────────────────
+
+/**
+ * Renders the goal type chips and a stepper for the daily target.
+ */
+export default function DailyGoalSetting() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const goal = useAppSelector(state => state.settings.dailyGoal);
+    const config = GOAL_TYPES.find(t => t.value === goal.type) ?? GOAL_TYPES[0];
+
+    const changeTarget = (direction: -1 | 1) => {
+        const target = goal.target + direction * config.step;
+        if (target < config.step || target > config.max) return;
+        dispatch(setDailyGoal({ ...goal, target }));
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.labelRow}>
+                <Ionicons name="flame-outline" size={18} color={theme.primary} />
+                <Text style={[styles.label, { color: theme.text }]}>
+                    Daily goal
+                </Text>
+            </View>
+
+            {/* Goal type */}
+            <View style={styles.row}>
+                {GOAL_TYPES.map(type => {
+                    const selected = type.value === goal.type;
+                    return (
+                        <Pressable
+                            key={type.value}
+                            onPress={() =>
+                                !selected &&
+                                dispatch(
+                                    setDailyGoal({
+                                        type: type.value,
+                                        target: type.initial
+                                    })
+                                )
+                            }
+                            style={[
+                                styles.chip,
+                                { backgroundColor: theme.chipBackground },
+                                selected && { backgroundColor: theme.primary }
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.chipText,
+                                    { color: theme.secondaryText },
+                                    selected && styles.selectedChipText
+                                ]}
+                            >
+                                {type.label}
+                            </Text>
+                        </Pressable>
+                    );
+                })}
+
+                {/* Target stepper */}
+                <View style={styles.stepper}>
+                    <Pressable onPress={() => changeTarget(-1)} hitSlop={8}>
+                        <Ionicons
+                            name="remove-circle-outline"
+                            size={24}
+                            color={theme.tertiaryText}
+                        />
+                    </Pressable>
+                    <Text style={[styles.value, { color: theme.text }]}>
+                        {goal.target} {config.unit}
+                    </Text>
+                    <Pressable onPress={() => changeTarget(1)} hitSlop={8}>
+                        <Ionicons
+                            name="add-circle-outline"
+                            size={24}
+                            color={theme.primary}
+                        />
+                    </Pressable>
+                </View>
+            </View>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        paddingVertical: 14
+    },
+    labelRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        marginBottom: 10
+    },
+    label: {
+        fontSize: 16,
+        fontWeight: "500"
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999
+    },
+    chipText: {
+        fontSize: 13
+    },
+    selectedChipText: {
+        color: "#fff",
+        fontWeight: "600"
+    },
+    stepper: {
+        flex: 1,
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "flex-end",
+        gap: 10
+    },
+    value: {
+        fontSize: 15,
+        fontWeight: "600",
+        minWidth: 64,
+        textAlign: "center"
+    }
+});
@@ -1,6 +1,6 @@
 /**
  * File: DeleteAllButton.tsx
- * Description: Provides a pressable option to clear all app data (tasks and settings).
+ * Description: Provides a pressable option to clear all app data (tasks, settings and focus sessions).
  * Shows confirmation and success modals using AlertModal component.
  *
  * Author: BrainDesk Team
@@ -14,6 +14,7 @@ import { useAppDispatch } from "@/store/hooks";
 import { useTheme } from "@/hooks/useTheme";
 import { clearTasks } from "@/features/todo/todoSlice";
 import { clearSettings } from "@/features/settings/settingsSlice";
+import { clearSessions } from "@/features/focus/sessionsSlice";
 import { AlertModal } from "@/components/AlertModal";
 
 // ─────────────────────────────────────────────
@@ -23,7 +24,7 @@ import { AlertModal } from "@/components/AlertModal";
 /**
  * Renders a "Delete All Data" button.
  * When pressed, prompts user to confirm deletion.
- * On confirmation, clears tasks and settings and shows a success modal.
+ * On confirmation, clears tasks, settings and focus sessions and shows a success modal.
  */
 export default function DeleteAllButton() {
     const theme = useTheme();
@@ -40,6 +41,7 @@ export default function DeleteAllButton() {
     const confirmDelete = () => {
         dispatch(clearTasks());
         dispatch(clearSettings());
+        dispatch(clearSessions());
         setModalVisible(false);
         setSuccessVisible(true);
     };
@@ -76,7 +78,7 @@ export default function DeleteAllButton() {
                 visible={modalVisible}
                 type="warning"
                 title="Delete All Data"
-                message={`This will permanently delete all your tasks and settings.
+                message={`This will permanently delete all your tasks, settings and focus sessions.
 This action cannot be undone.`}
                 confirmText="Delete"
                 cancelText="Cancel"
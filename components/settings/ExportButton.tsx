@@ -1,66 +1,99 @@
 /**
  * File: ExportButton.tsx
- * Description: Provides a pressable UI for exporting all tasks and settings as a JSON file.
- * Uses Expo FileSystem and Sharing APIs to write and share the exported backup file.
+ * Description: Provides a pressable UI for exporting all tasks, settings and focus sessions as a JSON file.
+ * The file is written and shared through the Expo FileSystem/Sharing helpers in `features/exchange/files`.
+ * The file is a versioned backup envelope (see `features/backup`), optionally encrypted with a passphrase
+ * so it can travel through chat apps and cloud drives without exposing personal data.
+ * When tasks have attachments, a toggle bundles their files into the backup as well.
  *
  * Author: BrainDesk Team
  * Created: 2025-07-11
  */
 
 import React, { useState } from "react";
-import { View, Text, Pressable, StyleSheet } from "react-native";
-import * as FileSystem from "expo-file-system";
-import * as Sharing from "expo-sharing";
+import { View, Text, Pressable, StyleSheet, Switch } from "react-native";
+import * as Application from "expo-application";
 import { useAppSelector } from "@/store/hooks";
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "@/hooks/useTheme";
 import { AlertModal } from "@/components/AlertModal";
+import PassphraseModal from "@/components/settings/PassphraseModal";
+import { createBackup } from "@/features/backup/backup";
+import { encryptBackup } from "@/features/backup/encryption";
+import { writeAndShare } from "@/features/exchange/files";
+import { bundleAttachments, referencedPaths } from "@/features/attachments/attachments";
+import { expoAttachmentStore } from "@/features/attachments/expoAttachmentStore";
 
 // ─────────────────────────────────────────────
 // 🔸 Component: ExportButton
 // ─────────────────────────────────────────────
 
 /**
- * Renders a button that exports app data (tasks + settings) as a JSON file.
- * Shows an error modal if export fails.
+ * Renders a button that exports app data (tasks + settings + focus sessions) as a JSON file.
+ * Asks for an optional passphrase first. Shows an error modal if export fails.
  */
 export default function ExportButton() {
     const theme = useTheme();
     const tasks = useAppSelector(state => state.todo.tasks);
     const settings = useAppSelector(state => state.settings);
+    const sessions = useAppSelector(state => state.sessions.sessions);
     const [modalVisible, setModalVisible] = useState(false); // Controls error modal visibility
+    const [askPassphrase, setAskPassphrase] = useState(false); // Controls passphrase modal visibility
+    const [encrypting, setEncrypting] = useState(false); // Key derivation in progress
+    const [includeAttachments, setIncludeAttachments] = useState(false); // Bundle attachment files
 
-    // Called when user presses the export button
-    const handleExport = async () => {
+    const attachmentCount = referencedPaths([tasks]).size;
+    const bundle = includeAttachments && attachmentCount > 0;
+
+    // Called once the user chose a passphrase (or skipped encryption)
+    const handleExport = async (passphrase: string | null) => {
         try {
-            // Prepare export data as a formatted JSON string
-            const exportData = JSON.stringify({ tasks, settings }, null, 2);
+            // Wrap data in a versioned envelope as a formatted JSON string
+            const backup = createBackup(
+                { tasks, settings, sessions },
+                Application.nativeApplicationVersion || "1.0.0"
+            );
 
-            // Define file path in device's document directory
-            const fileUri =
-                FileSystem.documentDirectory + "braindesk_backup.json";
+            // Files missing on this device (e.g. synced tasks) are left out
+            const attachments = bundle
+                ? (await bundleAttachments(tasks, expoAttachmentStore)).files
+                : undefined;
+            let exportData = JSON.stringify(
+                attachments ? { ...backup, attachments } : backup,
+                null,
+                2
+            );
 
-            // Write the JSON file to disk
-            await FileSystem.writeAsStringAsync(fileUri, exportData, {
-                encoding: FileSystem.EncodingType.UTF8
-            });
+            // Seal the whole file when a passphrase was chosen
+            if (passphrase !== null) {
+                setEncrypting(true);
+                exportData = await encryptBackup(exportData, passphrase);
+            }
+            setAskPassphrase(false);
 
-            // Trigger share dialog for the JSON file
-            await Sharing.shareAsync(fileUri, {
-                mimeType: "application/json",
-                dialogTitle: "Export BrainDesk Data"
-            });
+            // Write the JSON file and trigger the share dialog
+            await writeAndShare(
+                `braindesk_backup${bundle ? "_with_attachments" : ""}${
+                    passphrase !== null ? ".encrypted" : ""
+                }.json`,
+                exportData,
+                "application/json",
+                "Export BrainDesk Data"
+            );
         } catch (error) {
             // Show error modal if something goes wrong
             console.error("Export failed:", error);
+            setAskPassphrase(false);
             setModalVisible(true);
+        } finally {
+            setEncrypting(false);
         }
     };
 
     return (
         <>
             <Pressable
-                onPress={handleExport}
+                onPress={() => setAskPassphrase(true)}
                 style={({ pressed }) => [
                     styles.container,
                     { backgroundColor: theme.card },
@@ -84,6 +117,53 @@ export default function ExportButton() {
                 />
             </Pressable>
 
+            {/* Attachment files are only offered when there are any */}
+            {attachmentCount > 0 && (
+                <View
+                    style={[
+                        styles.container,
+                        styles.option,
+                        { backgroundColor: theme.card }
+                    ]}
+                >
+                    <View style={styles.content}>
+                        <Ionicons
+                            name="attach"
+                            size={18}
+                            color={theme.primary}
+                        />
+                        <Text style={[styles.label, { color: theme.text }]}>
+                            {`Include attachments (${attachmentCount} ${
+                                attachmentCount === 1 ? "file" : "files"
+                            })`}
+                        </Text>
+                    </View>
+                    <Switch
+                        value={includeAttachments}
+                        onValueChange={setIncludeAttachments}
+                        trackColor={{
+                            true: theme.primary,
+                            false: theme.chipBackground
+                        }}
+                        thumbColor="#fff"
+                    />
+                </View>
+            )}
+
+            {/* Optional passphrase */}
+            <PassphraseModal
+                visible={askPassphrase}
+                title="Export Data"
+                message="Protect the backup with a passphrase so it can't be read if the file is shared. You'll need the passphrase to import it."
+                confirm
+                submitLabel="Encrypt & Export"
+                skipLabel="No Passphrase"
+                busy={encrypting}
+                onSubmit={handleExport}
+                onSkip={() => handleExport(null)}
+                onCancel={() => setAskPassphrase(false)}
+            />
+
             {/* Error Modal */}
             <AlertModal
                 visible={modalVisible}
@@ -112,6 +192,9 @@ const styles = StyleSheet.create({
         alignItems: "center",
         elevation: 1
     },
+    option: {
+        paddingVertical: 8
+    },
     pressed: {
         opacity: 0.6 // Visually indicates press interaction
     },
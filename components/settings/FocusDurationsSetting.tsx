@@ -0,0 +1,119 @@
+/**
+ * File: FocusDurationsSetting.tsx
+ * Description: Settings rows for the focus timer's work, short break and
+ * long break lengths.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+    FocusDurations,
+    setFocusDurations
+} from "@/features/settings/settingsSlice";
+import { useTheme } from "@/hooks/useTheme";
+
+// Editable fields with their stepper bounds
+const FIELDS: {
+    key: keyof FocusDurations;
+    label: string;
+    unit: string;
+    step: number;
+    max: number;
+}[] = [
+    { key: "work", label: "Focus", unit: "min", step: 5, max: 120 },
+    { key: "shortBreak", label: "Short break", unit: "min", step: 1, max: 30 },
+    { key: "longBreak", label: "Long break", unit: "min", step: 5, max: 60 },
+    { key: "longBreakEvery", label: "Long break every", unit: "sessions", step: 1, max: 10 }
+];
+
+// ─────────────────────────────────────────────
+// 🔸 Component: FocusDurationsSetting
+// ─────────────────────────────────────────────
+
+/**
+ * Renders one stepper row per focus timer length.
+ */
+export default function FocusDurationsSetting() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const durations = useAppSelector(state => state.settings.focusDurations);
+
+    const change = (key: keyof FocusDurations, step: number, max: number) => {
+        const value = durations[key] + step;
+        if (value < 1 || value > max) return;
+        dispatch(setFocusDurations({ ...durations, [key]: value }));
+    };
+
+    return (
+        <View style={styles.container}>
+            {FIELDS.map(field => (
+                <View key={field.key} style={styles.row}>
+                    <Text style={[styles.label, { color: theme.text }]}>
+                        {field.label}
+                    </Text>
+                    <View style={styles.stepper}>
+                        <Pressable
+                            onPress={() => change(field.key, -field.step, field.max)}
+                            hitSlop={8}
+                        >
+                            <Ionicons
+                                name="remove-circle-outline"
+                                size={22}
+                                color={theme.tertiaryText}
+                            />
+                        </Pressable>
+                        <Text style={[styles.value, { color: theme.text }]}>
+                            {durations[field.key]} {field.unit}
+                        </Text>
+                        <Pressable
+                            onPress={() => change(field.key, field.step, field.max)}
+                            hitSlop={8}
+                        >
+                            <Ionicons
+                                name="add-circle-outline"
+                                size={22}
+                                color={theme.primary}
+                            />
+                        </Pressable>
+                    </View>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        paddingVertical: 6
+    },
+    row: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 8
+    },
+    label: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    stepper: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10
+    },
+    value: {
+        fontSize: 15,
+        fontWeight: "600",
+        minWidth: 88,
+        textAlign: "center"
+    }
+});
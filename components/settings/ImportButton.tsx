@@ -1,7 +1,12 @@
 /**
  * File: ImportButton.tsx
- * Description: Allows the user to import a JSON backup file and merge it with current data.
- * Uses Expo DocumentPicker and FileSystem for file access, and validates task/settings structure.
+ * Description: Allows the user to import a JSON backup file into current data.
+ * Files are picked and read via `pickTextFile` (Expo DocumentPicker and FileSystem). Backups of any schema version
+ * are migrated and validated by `parseBackup`; invalid entries are skipped and reported.
+ * Encrypted backups are unlocked with their passphrase first (see `features/backup/encryption`).
+ * Nothing is written until the user confirms the import preview, which offers a merge
+ * with per-task conflict resolution or replacing everything. Attachment files bundled in the
+ * backup are written to the attachments folder before the tasks referring to them.
  *
  * Author: BrainDesk Team
  * Created: 2025-07-11
@@ -9,27 +14,63 @@
 
 import React, { useState } from "react";
 import { View, Text, Pressable, StyleSheet } from "react-native";
-import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system";
 import { Ionicons } from "@expo/vector-icons";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import { useTheme } from "@/hooks/useTheme";
-import { mergeTasks, Task } from "@/features/todo/todoSlice";
-import { mergeSettings } from "@/features/settings/settingsSlice";
+import { replaceTasks, upsertTasks } from "@/features/todo/todoSlice";
+import {
+    mergeSettings,
+    replaceSettings
+} from "@/features/settings/settingsSlice";
+import { mergeSessions, replaceSessions } from "@/features/focus/sessionsSlice";
 import { AlertModal } from "@/components/AlertModal";
+import ImportPreviewModal, {
+    ImportChoice
+} from "@/components/settings/ImportPreviewModal";
+import PassphraseModal from "@/components/settings/PassphraseModal";
+import {
+    BackupError,
+    formatIssues,
+    parseBackup,
+    ParsedBackup
+} from "@/features/backup/backup";
+import {
+    decryptBackup,
+    DecryptionError,
+    isEncryptedBackup
+} from "@/features/backup/encryption";
+import {
+    buildImportPlan,
+    ImportPlan,
+    isEmptyPlan,
+    pickSettings,
+    resolveTasks
+} from "@/features/backup/importPlan";
+import { pickTextFile } from "@/features/exchange/files";
+import { restoreAttachments } from "@/features/attachments/attachments";
+import { expoAttachmentStore } from "@/features/attachments/expoAttachmentStore";
 
 // ─────────────────────────────────────────────
 // 🔸 Component: ImportButton
 // ─────────────────────────────────────────────
 
 /**
- * Imports JSON backup and merges tasks and settings into current Redux state.
+ * Imports a JSON backup after the user reviews it in the import preview.
  * Shows modal alerts on success, warning (nothing to import), or error.
  */
 export default function ImportButton() {
     const theme = useTheme();
     const dispatch = useAppDispatch();
     const currentTasks = useAppSelector(state => state.todo.tasks);
+    const currentSettings = useAppSelector(state => state.settings);
+    const currentSessions = useAppSelector(state => state.sessions.sessions);
+
+    const [backup, setBackup] = useState<ParsedBackup | null>(null); // File awaiting confirmation
+    const [plan, setPlan] = useState<ImportPlan | null>(null); // Its comparison with current data
+
+    const [locked, setLocked] = useState<string | null>(null); // Encrypted file awaiting its passphrase
+    const [unlocking, setUnlocking] = useState(false); // Decryption in progress
+    const [passphraseError, setPassphraseError] = useState<string | null>(null); // Last failed attempt
 
     const [modalVisible, setModalVisible] = useState(false); // Controls modal visibility
     const [alertTitle, setAlertTitle] = useState(""); // Modal title
@@ -55,67 +96,140 @@ export default function ImportButton() {
         setModalVisible(true);
     };
 
-    // Handles import flow: pick file, validate structure, merge into state
-    const handleImport = async () => {
+    /**
+     * Shows why a file can't be imported.
+     * @param err - Error thrown while reading the file
+     */
+    const showImportError = (err: any) => {
+        const details =
+            err instanceof BackupError && err.issues.length > 0
+                ? `\n\n${formatIssues(err.issues)}`
+                : "";
+        showAlert(
+            "error",
+            "Import Failed",
+            (err.message || "Could not import data.") + details
+        );
+    };
+
+    /**
+     * Validates backup JSON and opens the preview.
+     * @param contents - Plain backup file contents
+     */
+    const openBackup = (contents: string) => {
         try {
-            const result = await DocumentPicker.getDocumentAsync({
-                type: "application/json",
-                copyToCacheDirectory: true
-            });
+            // Detect version, migrate and validate
+            const parsed = parseBackup(contents);
+            const nextPlan = buildImportPlan(
+                {
+                    tasks: currentTasks,
+                    settings: currentSettings,
+                    sessions: currentSessions
+                },
+                parsed.data
+            );
 
-            // Exit early if user cancels or file is invalid
-            if (result.canceled || !result.assets || result.assets.length === 0) {
+            // Nothing differs from the current data
+            if (isEmptyPlan(nextPlan)) {
+                showAlert(
+                    "warning",
+                    "Nothing to Import",
+                    "Everything in this backup is already in BrainDesk."
+                );
                 return;
             }
 
-            const file = result.assets[0];
-            const content = await FileSystem.readAsStringAsync(file.uri);
-            const parsed = JSON.parse(content);
+            setBackup(parsed);
+            setPlan(nextPlan);
+        } catch (err: any) {
+            // Handle malformed file or unexpected failure
+            showImportError(err);
+        }
+    };
+
+    // Handles import flow: pick file, unlock if encrypted, open the preview
+    const handleImport = async () => {
+        try {
+            const file = await pickTextFile("application/json");
+
+            // Exit early if user cancels
+            if (!file) return;
 
-            // Validate backup file structure
-            if (!Array.isArray(parsed.tasks)) {
-                throw new Error("Invalid format: 'tasks' array missing.");
+            if (isEncryptedBackup(file.contents)) {
+                setPassphraseError(null);
+                setLocked(file.contents);
+                return;
             }
+            openBackup(file.contents);
+        } catch (err: any) {
+            showImportError(err);
+        }
+    };
 
-            if (typeof parsed.settings !== "object" || parsed.settings === null) {
-                throw new Error("Invalid format: 'settings' object missing.");
+    // Decrypts the picked file; a passphrase that doesn't fit can be retried, a damaged file can't
+    const handleUnlock = async (passphrase: string) => {
+        if (!locked) return;
+        setUnlocking(true);
+        try {
+            const contents = await decryptBackup(locked, passphrase);
+            setLocked(null);
+            openBackup(contents);
+        } catch (err: any) {
+            if (err instanceof DecryptionError && err.reason === "passphrase") {
+                setPassphraseError(err.message);
+            } else {
+                setLocked(null);
+                showImportError(err);
             }
+        } finally {
+            setUnlocking(false);
+        }
+    };
 
-            // Filter only valid task objects
-            const validTasks: Task[] = parsed.tasks.filter(
-                (t: any) =>
-                    t &&
-                    typeof t.id === "string" &&
-                    typeof t.text === "string" &&
-                    typeof t.subject === "string" &&
-                    typeof t.priority === "string" &&
-                    typeof t.createdAt === "string"
-            );
+    // Applies the choices made in the preview
+    const handleConfirm = async (choice: ImportChoice) => {
+        if (!backup || !plan) return;
+        const { data, issues, attachments } = backup;
+        let summary: string;
 
-            // Prevent duplicate imports
-            const existingIds = new Set(currentTasks.map(t => t.id));
-            const newTasks = validTasks.filter(t => !existingIds.has(t.id));
+        // Files first, so imported tasks never point at missing copies
+        try {
+            await restoreAttachments(attachments, expoAttachmentStore);
+        } catch (err: any) {
+            setBackup(null);
+            setPlan(null);
+            showImportError(err);
+            return;
+        }
 
-            // No new data to import
-            if (newTasks.length === 0) {
-                showAlert("warning", "Nothing to Import", "No new tasks found to merge.");
-                return;
+        if (choice.mode === "replace") {
+            dispatch(replaceTasks(data.tasks));
+            dispatch(replaceSettings(data.settings));
+            dispatch(replaceSessions(data.sessions));
+            summary = `Replaced all data with ${data.tasks.length} tasks from the backup.`;
+        } else {
+            const tasks = resolveTasks(plan, choice.resolutions);
+            if (tasks.length > 0) {
+                dispatch(upsertTasks(tasks));
             }
+            dispatch(mergeSettings(pickSettings(data.settings, choice.settings)));
+            if (plan.addedSessions.length > 0) {
+                dispatch(mergeSessions(plan.addedSessions));
+            }
+            summary = `${plan.added.length} new tasks added, ${tasks.length - plan.added.length} updated from the backup.`;
+        }
 
-            // Merge new tasks and settings into store
-            dispatch(mergeTasks(validTasks));
-            dispatch(mergeSettings(parsed.settings));
+        setBackup(null);
+        setPlan(null);
 
-            // Show success
-            showAlert(
-                "success",
-                "Import Successful",
-                `${newTasks.length} new tasks merged.`
-            );
-        } catch (err: any) {
-            // Handle malformed file or unexpected failure
-            showAlert("error", "Import Failed", err.message || "Could not import data.");
-        }
+        // Show success, listing anything that was skipped
+        showAlert(
+            issues.length > 0 ? "warning" : "success",
+            "Import Successful",
+            issues.length > 0
+                ? `${summary} ${issues.length} invalid fields or entries were skipped:\n\n${formatIssues(issues)}`
+                : summary
+        );
     };
 
     return (
@@ -145,6 +259,30 @@ export default function ImportButton() {
                 />
             </Pressable>
 
+            {/* Passphrase for encrypted backups */}
+            <PassphraseModal
+                visible={locked !== null}
+                title="Encrypted Backup"
+                message="Enter the passphrase this backup was exported with."
+                submitLabel="Unlock"
+                error={passphraseError}
+                busy={unlocking}
+                onSubmit={handleUnlock}
+                onCancel={() => setLocked(null)}
+            />
+
+            {/* Review before anything is written */}
+            <ImportPreviewModal
+                visible={plan !== null}
+                backup={backup}
+                plan={plan}
+                onConfirm={handleConfirm}
+                onCancel={() => {
+                    setBackup(null);
+                    setPlan(null);
+                }}
+            />
+
             {/* Modal alert based on import outcome */}
             <AlertModal
                 visible={modalVisible}
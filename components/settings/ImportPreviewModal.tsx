@@ -0,0 +1,544 @@
+/**
+ * File: ImportPreviewModal.tsx
+ * Description: Preview shown before an import is applied. Lists new, identical
+ * and conflicting tasks and changed settings, lets the user resolve each
+ * conflict and pick which settings to take, or replace everything instead.
+ * Task file imports use it for their conflicts, without the replace option.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+    Modal,
+    View,
+    Text,
+    TouchableOpacity,
+    StyleSheet,
+    Pressable,
+    ScrollView,
+    Switch
+} from "react-native";
+import dayjs from "dayjs";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppSelector } from "@/store/hooks";
+import type { ParsedBackup } from "@/features/backup/backup";
+import { getLastChange } from "@/features/backup/migrations";
+import {
+    ConflictResolution,
+    ImportPlan,
+    SettingKey,
+    takesTheirs
+} from "@/features/backup/importPlan";
+import type { DailyGoal, FocusDurations } from "@/features/settings/settingsSlice";
+import { PriorityLevel, sortPriorities } from "@/features/settings/priorities";
+
+// Maximum new tasks listed by name
+const MAX_LISTED_TASKS = 5;
+
+const RESOLUTIONS: { value: ConflictResolution; label: string }[] = [
+    { value: "mine", label: "Keep mine" },
+    { value: "theirs", label: "Take theirs" },
+    { value: "newest", label: "Newest" }
+];
+
+const SETTING_LABELS: Record<SettingKey, string> = {
+    themeMode: "Theme",
+    priorities: "Priority levels",
+    notificationTime: "Reminder time",
+    autoCompleteTasks: "Auto-complete tasks",
+    trashRetentionDays: "Trash retention",
+    dailyGoal: "Daily goal",
+    focusDurations: "Focus timer",
+    snapshotsToKeep: "Snapshots kept"
+};
+
+/**
+ * Human-readable value of a setting, e.g. "08:00" or "25/5/15 min".
+ */
+function describeSetting(key: SettingKey, value: unknown): string {
+    switch (key) {
+        case "themeMode":
+            return String(value).charAt(0).toUpperCase() + String(value).slice(1);
+        case "priorities":
+            return sortPriorities(value as PriorityLevel[])
+                .map(p => p.name)
+                .join(", ");
+        case "notificationTime":
+            return value === null ? "Off" : String(value);
+        case "autoCompleteTasks":
+            return value ? "On" : "Off";
+        case "trashRetentionDays":
+            return value === 0 ? "Forever" : `${value} days`;
+        case "dailyGoal": {
+            const goal = value as DailyGoal;
+            return `${goal.target} ${goal.type === "tasks" ? "tasks" : "min"}`;
+        }
+        case "focusDurations": {
+            const d = value as FocusDurations;
+            return `${d.work}/${d.shortBreak}/${d.longBreak} min`;
+        }
+        case "snapshotsToKeep":
+            return value === 0 ? "Off" : `Last ${value}`;
+    }
+}
+
+// ─────────────────────────────────────────────
+// 🔸 Types
+// ─────────────────────────────────────────────
+
+/** What the user chose to import */
+export type ImportChoice =
+    | {
+          mode: "merge";
+          resolutions: Record<string, ConflictResolution>;
+          settings: SettingKey[];
+      }
+    | { mode: "replace" };
+
+type Props = {
+    visible: boolean; // Whether the modal is shown
+    backup: Pick<ParsedBackup, "exportedAt" | "appVersion" | "data"> | null; // Parsed file being imported
+    plan: ImportPlan | null; // Comparison with the current data
+    allowReplace?: boolean; // Offer "Replace everything" (backups only)
+    onConfirm: (choice: ImportChoice) => void; // Called with the user's choices
+    onCancel: () => void; // Called on cancel or outside tap
+};
+
+// ─────────────────────────────────────────────
+// 🔹 Component
+// ─────────────────────────────────────────────
+
+export default function ImportPreviewModal({
+    visible,
+    backup,
+    plan,
+    allowReplace = true,
+    onConfirm,
+    onCancel
+}: Props) {
+    const theme = useTheme();
+    const currentTaskCount = useAppSelector(state => state.todo.tasks.length);
+
+    const [mode, setMode] = useState<"merge" | "replace">("merge");
+    const [resolutions, setResolutions] = useState<
+        Record<string, ConflictResolution>
+    >({});
+    const [accepted, setAccepted] = useState<SettingKey[]>([]);
+
+    // Start every preview from the safe defaults: merge, newest wins, keep settings
+    useEffect(() => {
+        if (!plan) return;
+        setMode("merge");
+        setResolutions(
+            Object.fromEntries(plan.conflicts.map(c => [c.id, "newest"]))
+        );
+        setAccepted([]);
+    }, [plan]);
+
+    if (!backup || !plan) return null;
+
+    const resolveAll = (resolution: ConflictResolution) =>
+        setResolutions(
+            Object.fromEntries(plan.conflicts.map(c => [c.id, resolution]))
+        );
+
+    const toggleSetting = (key: SettingKey, value: boolean) =>
+        setAccepted(prev =>
+            value ? [...prev, key] : prev.filter(k => k !== key)
+        );
+
+    const takenCount = plan.conflicts.filter(c =>
+        takesTheirs(c, resolutions[c.id] ?? "newest")
+    ).length;
+
+    const handleConfirm = () =>
+        onConfirm(
+            mode === "replace"
+                ? { mode }
+                : { mode, resolutions, settings: accepted }
+        );
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render helpers
+    // ─────────────────────────────────────────────
+
+    const renderChip = (
+        label: string,
+        selected: boolean,
+        onPress: () => void
+    ) => (
+        <TouchableOpacity
+            key={label}
+            onPress={onPress}
+            style={[
+                styles.chip,
+                {
+                    backgroundColor: selected
+                        ? theme.primary
+                        : theme.chipBackground
+                }
+            ]}
+        >
+            <Text
+                style={[
+                    styles.chipText,
+                    { color: selected ? "#fff" : theme.text }
+                ]}
+            >
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const renderSectionTitle = (title: string) => (
+        <Text style={[styles.sectionTitle, { color: theme.tertiaryText }]}>
+            {title}
+        </Text>
+    );
+
+    const renderMerge = () => (
+        <>
+            <Text style={[styles.summary, { color: theme.secondaryText }]}>
+                {plan.added.length} new · {plan.identical.length} identical ·{" "}
+                {plan.conflicts.length} conflicting
+                {plan.addedSessions.length > 0
+                    ? ` · ${plan.addedSessions.length} focus sessions`
+                    : ""}
+            </Text>
+
+            {/* Conflicts */}
+            {plan.conflicts.length > 0 && (
+                <>
+                    {renderSectionTitle("Conflicts")}
+                    <View style={styles.chipRow}>
+                        <Text style={[styles.rowLabel, { color: theme.text }]}>
+                            Apply to all
+                        </Text>
+                        {RESOLUTIONS.map(r =>
+                            renderChip(
+                                r.label,
+                                plan.conflicts.every(
+                                    c => resolutions[c.id] === r.value
+                                ),
+                                () => resolveAll(r.value)
+                            )
+                        )}
+                    </View>
+                    {plan.conflicts.map(conflict => (
+                        <View
+                            key={conflict.id}
+                            style={[
+                                styles.conflict,
+                                { borderColor: theme.chipBackground }
+                            ]}
+                        >
+                            <Text
+                                style={[styles.taskText, { color: theme.text }]}
+                                numberOfLines={1}
+                            >
+                                {conflict.theirs.text}
+                            </Text>
+                            <Text
+                                style={[
+                                    styles.meta,
+                                    { color: theme.tertiaryText }
+                                ]}
+                            >
+                                Mine:{" "}
+                                {dayjs(getLastChange(conflict.mine)).format(
+                                    "MMM D, h:mm A"
+                                )}{" "}
+                                · Theirs:{" "}
+                                {dayjs(getLastChange(conflict.theirs)).format(
+                                    "MMM D, h:mm A"
+                                )}
+                            </Text>
+                            <View style={styles.chipRow}>
+                                {RESOLUTIONS.map(r =>
+                                    renderChip(
+                                        r.label,
+                                        resolutions[conflict.id] === r.value,
+                                        () =>
+                                            setResolutions(prev => ({
+                                                ...prev,
+                                                [conflict.id]: r.value
+                                            }))
+                                    )
+                                )}
+                            </View>
+                        </View>
+                    ))}
+                </>
+            )}
+
+            {/* New tasks */}
+            {plan.added.length > 0 && (
+                <>
+                    {renderSectionTitle("New tasks")}
+                    {plan.added.slice(0, MAX_LISTED_TASKS).map(task => (
+                        <Text
+                            key={task.id}
+                            style={[styles.listItem, { color: theme.text }]}
+                            numberOfLines={1}
+                        >
+                            • {task.text}
+                        </Text>
+                    ))}
+                    {plan.added.length > MAX_LISTED_TASKS && (
+                        <Text
+                            style={[styles.meta, { color: theme.tertiaryText }]}
+                        >
+                            …and {plan.added.length - MAX_LISTED_TASKS} more
+                        </Text>
+                    )}
+                </>
+            )}
+
+            {/* Settings */}
+            {(plan.settingsChanges.length > 0 ||
+                plan.newSubjects.length > 0) &&
+                renderSectionTitle("Settings")}
+            {plan.newSubjects.length > 0 && (
+                <Text style={[styles.meta, { color: theme.secondaryText }]}>
+                    New subjects will be added:{" "}
+                    {plan.newSubjects.map(s => s.name).join(", ")}
+                </Text>
+            )}
+            {plan.settingsChanges.map(change => (
+                <View key={change.key} style={styles.settingRow}>
+                    <View style={styles.settingInfo}>
+                        <Text style={[styles.rowLabel, { color: theme.text }]}>
+                            {SETTING_LABELS[change.key]}
+                        </Text>
+                        <Text
+                            style={[styles.meta, { color: theme.tertiaryText }]}
+                        >
+                            {describeSetting(change.key, change.mine)} →{" "}
+                            {describeSetting(change.key, change.theirs)}
+                        </Text>
+                    </View>
+                    <Switch
+                        value={accepted.includes(change.key)}
+                        onValueChange={value =>
+                            toggleSetting(change.key, value)
+                        }
+                        trackColor={{
+                            true: theme.primary,
+                            false: theme.chipBackground
+                        }}
+                        thumbColor="#fff"
+                    />
+                </View>
+            ))}
+        </>
+    );
+
+    const renderReplace = () => (
+        <Text style={[styles.warning, { color: theme.danger }]}>
+            Your {currentTaskCount} tasks, settings and focus sessions will be
+            deleted and replaced with the backup's {backup.data.tasks.length}{" "}
+            tasks, settings and {backup.data.sessions.length} sessions.
+        </Text>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onCancel}
+        >
+            <Pressable
+                style={[styles.overlay, { backgroundColor: theme.overlay }]}
+                onPress={onCancel}
+            >
+                <Pressable
+                    style={[styles.container, { backgroundColor: theme.card }]}
+                >
+                    <Text style={[styles.title, { color: theme.text }]}>
+                        Import Preview
+                    </Text>
+                    {backup.exportedAt && (
+                        <Text
+                            style={[
+                                styles.subtitle,
+                                { color: theme.tertiaryText }
+                            ]}
+                        >
+                            Exported{" "}
+                            {dayjs(backup.exportedAt).format("MMM D, YYYY h:mm A")}
+                            {backup.appVersion ? ` · v${backup.appVersion}` : ""}
+                        </Text>
+                    )}
+
+                    {/* Mode */}
+                    {allowReplace && (
+                        <View style={[styles.chipRow, styles.modeRow]}>
+                            {renderChip("Merge", mode === "merge", () =>
+                                setMode("merge")
+                            )}
+                            {renderChip("Replace everything", mode === "replace", () =>
+                                setMode("replace")
+                            )}
+                        </View>
+                    )}
+
+                    <ScrollView style={styles.body}>
+                        {mode === "merge" ? renderMerge() : renderReplace()}
+                    </ScrollView>
+
+                    <View style={styles.actions}>
+                        <TouchableOpacity onPress={onCancel} style={styles.action}>
+                            <Text
+                                style={[
+                                    styles.actionText,
+                                    { color: theme.tertiaryText }
+                                ]}
+                            >
+                                Cancel
+                            </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            onPress={handleConfirm}
+                            style={styles.action}
+                        >
+                            <Text
+                                style={[
+                                    styles.actionText,
+                                    {
+                                        color:
+                                            mode === "replace"
+                                                ? theme.danger
+                                                : theme.primary
+                                    }
+                                ]}
+                            >
+                                {mode === "replace"
+                                    ? "Replace"
+                                    : `Import ${plan.added.length + takenCount} tasks`}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                </Pressable>
+            </Pressable>
+        </Modal>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: 24
+    },
+    container: {
+        width: "100%",
+        maxWidth: 440,
+        maxHeight: "85%",
+        padding: 24,
+        borderRadius: 24,
+        elevation: 6
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "600",
+        textAlign: "center"
+    },
+    subtitle: {
+        fontSize: 13,
+        textAlign: "center",
+        marginTop: 4
+    },
+    modeRow: {
+        justifyContent: "center",
+        marginTop: 16
+    },
+    body: {
+        flexGrow: 0
+    },
+    summary: {
+        fontSize: 14,
+        textAlign: "center",
+        marginBottom: 8
+    },
+    sectionTitle: {
+        fontSize: 12,
+        fontWeight: "600",
+        textTransform: "uppercase",
+        letterSpacing: 0.5,
+        marginTop: 16,
+        marginBottom: 8
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: 8,
+        marginBottom: 8
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 20
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: "600"
+    },
+    conflict: {
+        borderTopWidth: StyleSheet.hairlineWidth,
+        paddingTop: 8
+    },
+    taskText: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    meta: {
+        fontSize: 13,
+        marginTop: 2,
+        marginBottom: 6
+    },
+    listItem: {
+        fontSize: 14,
+        paddingVertical: 2
+    },
+    rowLabel: {
+        fontSize: 14,
+        fontWeight: "500"
+    },
+    settingRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 4
+    },
+    settingInfo: {
+        flex: 1
+    },
+    warning: {
+        fontSize: 14,
+        lineHeight: 20,
+        marginTop: 8
+    },
+    actions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        gap: 8,
+        paddingTop: 16
+    },
+    action: {
+        paddingHorizontal: 12,
+        paddingVertical: 8
+    },
+    actionText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
@@ -0,0 +1,278 @@
+/**
+ * File: PassphraseModal.tsx
+ * Description: Asks for a backup passphrase. When exporting it asks twice and
+ * can be skipped for a plain file; when importing it shows why the last
+ * attempt failed. Key derivation takes a moment, so submitting shows a spinner.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+    Modal,
+    View,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    Pressable,
+    StyleSheet,
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Platform
+} from "react-native";
+import { useTheme } from "@/hooks/useTheme";
+
+// Shortest passphrase accepted for new backups
+const MIN_LENGTH = 8;
+
+// ─────────────────────────────────────────────
+// 🔸 Types
+// ─────────────────────────────────────────────
+
+type Props = {
+    visible: boolean;
+    title: string;
+    message: string;
+    /** Ask twice and enforce a minimum length (choosing a new passphrase) */
+    confirm?: boolean;
+    submitLabel: string;
+    /** Secondary action, e.g. exporting without encryption */
+    skipLabel?: string;
+    /** Why the last attempt failed */
+    error?: string | null;
+    /** Work in progress after submitting */
+    busy?: boolean;
+    onSubmit: (passphrase: string) => void;
+    onSkip?: () => void;
+    onCancel: () => void;
+};
+
+// ─────────────────────────────────────────────
+// 🔹 Component: PassphraseModal
+// ─────────────────────────────────────────────
+
+export default function PassphraseModal({
+    visible,
+    title,
+    message,
+    confirm = false,
+    submitLabel,
+    skipLabel,
+    error = null,
+    busy = false,
+    onSubmit,
+    onSkip,
+    onCancel
+}: Props) {
+    const theme = useTheme();
+    const [passphrase, setPassphrase] = useState("");
+    const [repeat, setRepeat] = useState("");
+
+    // Never keep a passphrase around between uses
+    useEffect(() => {
+        if (!visible) {
+            setPassphrase("");
+            setRepeat("");
+        }
+    }, [visible]);
+
+    const problem = !confirm
+        ? null
+        : passphrase.length > 0 && passphrase.length < MIN_LENGTH
+          ? `Use at least ${MIN_LENGTH} characters.`
+          : repeat.length > 0 && repeat !== passphrase
+            ? "The passphrases don't match."
+            : null;
+    const canSubmit =
+        !busy &&
+        passphrase.length > 0 &&
+        (!confirm || (passphrase.length >= MIN_LENGTH && repeat === passphrase));
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render helpers
+    // ─────────────────────────────────────────────
+
+    const renderInput = (
+        value: string,
+        onChange: (text: string) => void,
+        placeholder: string,
+        onSubmitEditing?: () => void
+    ) => (
+        <TextInput
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor={theme.tertiaryText}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!busy}
+            onSubmitEditing={onSubmitEditing}
+            style={[
+                styles.input,
+                { backgroundColor: theme.inputBackground, color: theme.text }
+            ]}
+        />
+    );
+
+    const renderAction = (
+        label: string,
+        onPress: () => void,
+        color: string,
+        disabled = false
+    ) => (
+        <TouchableOpacity
+            onPress={onPress}
+            disabled={disabled}
+            style={styles.action}
+        >
+            <Text
+                style={[
+                    styles.actionText,
+                    { color: disabled ? theme.tertiaryText : color }
+                ]}
+            >
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const submit = () => {
+        if (canSubmit) onSubmit(passphrase);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={() => !busy && onCancel()}
+        >
+            <Pressable
+                style={[styles.overlay, { backgroundColor: theme.overlay }]}
+                onPress={() => !busy && onCancel()}
+            >
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === "ios" ? "padding" : undefined}
+                    style={styles.keyboard}
+                >
+                    <Pressable
+                        style={[styles.container, { backgroundColor: theme.card }]}
+                    >
+                        <Text style={[styles.title, { color: theme.text }]}>
+                            {title}
+                        </Text>
+                        <Text
+                            style={[styles.message, { color: theme.secondaryText }]}
+                        >
+                            {message}
+                        </Text>
+
+                        {renderInput(
+                            passphrase,
+                            setPassphrase,
+                            "Passphrase",
+                            confirm ? undefined : submit
+                        )}
+                        {confirm &&
+                            renderInput(repeat, setRepeat, "Repeat passphrase", submit)}
+
+                        {(problem ?? error) && (
+                            <Text style={[styles.error, { color: theme.danger }]}>
+                                {problem ?? error}
+                            </Text>
+                        )}
+
+                        <View style={styles.actions}>
+                            {busy ? (
+                                <ActivityIndicator
+                                    color={theme.primary}
+                                    style={styles.action}
+                                />
+                            ) : (
+                                <>
+                                    {renderAction(
+                                        "Cancel",
+                                        onCancel,
+                                        theme.tertiaryText
+                                    )}
+                                    {skipLabel &&
+                                        onSkip &&
+                                        renderAction(skipLabel, onSkip, theme.text)}
+                                    {renderAction(
+                                        submitLabel,
+                                        submit,
+                                        theme.primary,
+                                        !canSubmit
+                                    )}
+                                </>
+                            )}
+                        </View>
+                    </Pressable>
+                </KeyboardAvoidingView>
+            </Pressable>
+        </Modal>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: 24
+    },
+    keyboard: {
+        width: "100%",
+        alignItems: "center"
+    },
+    container: {
+        width: "100%",
+        maxWidth: 440,
+        padding: 24,
+        borderRadius: 24,
+        elevation: 6
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "600",
+        textAlign: "center"
+    },
+    message: {
+        fontSize: 14,
+        textAlign: "center",
+        marginTop: 8,
+        marginBottom: 12
+    },
+    input: {
+        fontSize: 15,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        borderRadius: 12,
+        marginTop: 8
+    },
+    error: {
+        fontSize: 13,
+        marginTop: 8
+    },
+    actions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        flexWrap: "wrap",
+        gap: 8,
+        paddingTop: 20
+    },
+    action: {
+        paddingHorizontal: 12,
+        paddingVertical: 8
+    },
+    actionText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
@@ -0,0 +1,541 @@
+/**
+ * File: PriorityManager.tsx
+ * Description: Allows users to manage the priority levels tasks can have:
+ * add, rename, pick a color, reorder by urgency, and delete with the level's
+ * tasks moved to another one.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  Modal,
+  TextInput,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  LayoutAnimation,
+  UIManager,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  addPriority,
+  movePriority,
+  removePriority,
+  renamePriority,
+  setPriorityColor,
+} from "@/features/settings/settingsSlice";
+import {
+  defaultPriority,
+  findPriorityByName,
+  PRIORITY_COLORS,
+  PriorityLevel,
+  sortPriorities,
+} from "@/features/settings/priorities";
+
+// ✅ Enable LayoutAnimation on Android (iOS is supported by default)
+if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental) {
+  UIManager.setLayoutAnimationEnabledExperimental(true);
+}
+
+// ─────────────────────────────────────────────
+// 🔸 Component: PriorityManager
+// ─────────────────────────────────────────────
+
+/**
+ * Renders the PriorityManager UI. Levels are listed from most to least
+ * urgent; the arrows change that order, which is what sorting uses.
+ */
+export default function PriorityManager() {
+  const theme = useTheme();
+  const dispatch = useAppDispatch();
+  const priorities = useAppSelector((s) => s.settings.priorities);
+  const tasks = useAppSelector((s) => s.todo.tasks);
+
+  const [modalVisible, setModalVisible] = useState(false); // Controls modal visibility
+  const [newLevel, setNewLevel] = useState(""); // Stores user input
+  const [editingId, setEditingId] = useState<string | null>(null); // Level being edited
+  const [draftName, setDraftName] = useState(""); // Name field of the edited level
+  const [deleting, setDeleting] = useState(false); // Delete options shown for the edited level
+  const [reassignTo, setReassignTo] = useState<string | null>(null); // Target for its tasks
+
+  const sorted = sortPriorities(priorities);
+  const editing = priorities.find((p) => p.id === editingId) ?? null;
+  const taskCount = editing
+    ? tasks.filter((t) => t.priority === editing.id).length
+    : 0;
+  const targets = editing ? sorted.filter((p) => p.id !== editing.id) : [];
+
+  const animate = () =>
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+
+  /** Adds a new level, least urgent, if the name isn't taken */
+  const handleAdd = () => {
+    const trimmed = newLevel.trim();
+    if (trimmed && !findPriorityByName(priorities, trimmed)) {
+      animate();
+      dispatch(addPriority(trimmed));
+      setNewLevel("");
+    }
+  };
+
+  /**
+   * Opens or closes the editor of a level.
+   * @param level - Level tapped in the list
+   */
+  const toggleEditor = (level: PriorityLevel) => {
+    animate();
+    setEditingId(editingId !== level.id ? level.id : null);
+    setDraftName(level.name);
+    setDeleting(false);
+    setReassignTo(null);
+  };
+
+  /** Saves the edited name; tasks follow since they reference the ID */
+  const handleRename = () => {
+    if (editing && draftName.trim() && draftName.trim() !== editing.name) {
+      dispatch(renamePriority({ id: editing.id, name: draftName }));
+    }
+  };
+
+  /** Shows the delete options, preselecting the level tasks would fall back to */
+  const startDelete = () => {
+    animate();
+    setDeleting(true);
+    setReassignTo(targets.length > 0 ? defaultPriority(targets).id : null);
+  };
+
+  /** Deletes the edited level, moving its tasks to the chosen level */
+  const handleDelete = () => {
+    if (!editing || !reassignTo) return;
+    animate();
+    dispatch(removePriority(editing.id, reassignTo));
+    setEditingId(null);
+    setDeleting(false);
+  };
+
+  /**
+   * Renders the editor below the selected level: name, color and delete.
+   */
+  const renderEditor = (level: PriorityLevel) => (
+    <View style={[styles.editor, { borderColor: theme.overlay }]}>
+      <TextInput
+        value={draftName}
+        onChangeText={setDraftName}
+        onBlur={handleRename}
+        onSubmitEditing={handleRename}
+        placeholder="Priority name"
+        placeholderTextColor={theme.tertiaryText}
+        returnKeyType="done"
+        style={[
+          styles.nameInput,
+          { color: theme.text, backgroundColor: theme.inputBackground },
+        ]}
+      />
+
+      {/* Color swatches */}
+      <View style={styles.swatchRow}>
+        {PRIORITY_COLORS.map((color) => (
+          <Pressable
+            key={color}
+            onPress={() => dispatch(setPriorityColor({ id: level.id, color }))}
+            accessibilityLabel={`Color ${color}`}
+            style={[
+              styles.swatch,
+              { backgroundColor: color },
+              level.color === color && { borderColor: theme.text },
+            ]}
+          />
+        ))}
+      </View>
+
+      {deleting ? (
+        // Delete: the level's tasks move to another level
+        <View>
+          <Text style={[styles.hint, { color: theme.secondaryText }]}>
+            {taskCount === 0
+              ? `No tasks are ${level.name}.`
+              : `${taskCount} ${taskCount === 1 ? "task is" : "tasks are"} ${level.name}. Move them to:`}
+          </Text>
+          {taskCount > 0 && (
+            <View style={styles.swatchRow}>
+              {targets.map((target) => (
+                <Pressable
+                  key={target.id}
+                  onPress={() => setReassignTo(target.id)}
+                  style={[
+                    styles.targetChip,
+                    { backgroundColor: theme.inputBackground },
+                    reassignTo === target.id && { backgroundColor: target.color },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.targetText,
+                      { color: reassignTo === target.id ? "#fff" : theme.text },
+                    ]}
+                  >
+                    {target.name}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+          <View style={styles.actionRow}>
+            <Pressable
+              onPress={handleDelete}
+              disabled={!reassignTo}
+              style={({ pressed }) => [
+                styles.actionBtn,
+                { backgroundColor: theme.danger },
+                !reassignTo && styles.disabled,
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.actionText, { color: "#fff" }]}>
+                {taskCount > 0 ? "Move & Delete" : "Delete"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.actionRow}>
+          {/* At least one level has to remain */}
+          {targets.length > 0 && (
+            <Pressable
+              onPress={startDelete}
+              style={({ pressed }) => [
+                styles.actionBtn,
+                { backgroundColor: theme.inputBackground },
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.actionText, { color: theme.danger }]}>
+                Delete…
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  /**
+   * Renders one level: color, name, reorder arrows and, when selected, its editor.
+   */
+  const renderLevel = ({ item, index }: { item: PriorityLevel; index: number }) => (
+    <View>
+      <Pressable
+        onPress={() => toggleEditor(item)}
+        style={[styles.row, { backgroundColor: theme.inputBackground }]}
+      >
+        <View style={[styles.badge, { backgroundColor: item.color }]}>
+          <Ionicons name="flag" size={14} color="#fff" />
+        </View>
+        <Text style={[styles.rowText, { color: theme.text }]} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Pressable
+          onPress={() => dispatch(movePriority({ id: item.id, offset: -1 }))}
+          disabled={index === 0}
+          hitSlop={6}
+          accessibilityLabel={`Make ${item.name} more urgent`}
+        >
+          <Ionicons
+            name="chevron-up"
+            size={18}
+            color={index === 0 ? theme.overlay : theme.tertiaryText}
+          />
+        </Pressable>
+        <Pressable
+          onPress={() => dispatch(movePriority({ id: item.id, offset: 1 }))}
+          disabled={index === sorted.length - 1}
+          hitSlop={6}
+          accessibilityLabel={`Make ${item.name} less urgent`}
+        >
+          <Ionicons
+            name="chevron-down"
+            size={18}
+            color={index === sorted.length - 1 ? theme.overlay : theme.tertiaryText}
+          />
+        </Pressable>
+      </Pressable>
+      {editingId === item.id && renderEditor(item)}
+    </View>
+  );
+
+  /**
+   * Renders the modal dialog for managing priority levels.
+   */
+  const renderModal = () => (
+    <Modal
+      visible={modalVisible}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setModalVisible(false)}
+    >
+      <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+          style={styles.modalContainer}
+        >
+          <View style={[styles.modalCard, { backgroundColor: theme.card }]}>
+            {/* Modal Header */}
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: theme.text }]}>
+                Manage Priorities
+              </Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={20} color={theme.tertiaryText} />
+              </Pressable>
+            </View>
+            <Text style={[styles.hint, { color: theme.secondaryText }]}>
+              Most urgent first. New tasks start with the middle level.
+            </Text>
+
+            {/* List of Levels */}
+            <FlatList
+              data={sorted}
+              keyExtractor={(i) => i.id}
+              renderItem={renderLevel}
+              contentContainerStyle={styles.list}
+              style={styles.listBox}
+              keyboardShouldPersistTaps="handled"
+            />
+
+            {/* Input for Adding a New Level */}
+            <View
+              style={[
+                styles.addRow,
+                {
+                  borderColor: theme.overlay,
+                  backgroundColor: theme.inputBackground,
+                },
+              ]}
+            >
+              <TextInput
+                value={newLevel}
+                onChangeText={setNewLevel}
+                placeholder="New priority"
+                placeholderTextColor={theme.tertiaryText}
+                style={[styles.addInput, { color: theme.text }]}
+                returnKeyType="done"
+                onSubmitEditing={handleAdd}
+              />
+              <Pressable
+                onPress={handleAdd}
+                style={({ pressed }) => [
+                  styles.addBtn,
+                  { backgroundColor: theme.primary },
+                  pressed && styles.pressed,
+                ]}
+              >
+                <Ionicons name="add" size={18} color="#fff" />
+              </Pressable>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Pressable>
+    </Modal>
+  );
+
+  return (
+    <>
+      {/* Row in Settings List */}
+      <View style={styles.container}>
+        <View style={styles.labelRow}>
+          <Ionicons name="flag-outline" size={18} color={theme.primary} />
+          <Text style={[styles.label, { color: theme.text }]}>Priorities</Text>
+        </View>
+        <Pressable
+          onPress={() => setModalVisible(true)}
+          style={({ pressed }) => [
+            styles.iconButton,
+            pressed && styles.pressed,
+          ]}
+        >
+          <Ionicons name="options-outline" size={24} color={theme.primary} />
+        </Pressable>
+      </View>
+
+      {renderModal()}
+    </>
+  );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  // Settings Row
+  container: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 14,
+  },
+  labelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  iconButton: {
+    padding: 4,
+  },
+  pressed: {
+    opacity: 0.6,
+  },
+
+  // Modal
+  backdrop: {
+    flex: 1,
+    backgroundColor: "#00000055",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: "center",
+  },
+  modalCard: {
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOpacity: 0.1,
+    shadowOffset: { width: 0, height: 3 },
+    shadowRadius: 6,
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+
+  // Level list
+  listBox: {
+    maxHeight: 420,
+  },
+  list: {
+    paddingBottom: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    gap: 10,
+  },
+  badge: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "500",
+  },
+
+  // Level editor
+  editor: {
+    borderWidth: 1,
+    borderTopWidth: 0,
+    borderBottomLeftRadius: 8,
+    borderBottomRightRadius: 8,
+    padding: 10,
+    gap: 10,
+  },
+  nameInput: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  swatchRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  swatch: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  targetChip: {
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  targetText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 4,
+  },
+  actionBtn: {
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+
+  // Add level input row
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    marginTop: 10,
+  },
+  addInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+  },
+  addBtn: {
+    padding: 6,
+    borderRadius: 8,
+    marginLeft: 6,
+  },
+});
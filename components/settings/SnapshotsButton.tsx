@@ -0,0 +1,94 @@
+/**
+ * File: SnapshotsButton.tsx
+ * Description: Settings row that opens the Snapshots screen with the
+ * automatic local backups.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useAppSelector } from "@/store/hooks";
+import { useTheme } from "@/hooks/useTheme";
+
+// ─────────────────────────────────────────────
+// 🔸 Component: SnapshotsButton
+// ─────────────────────────────────────────────
+
+/**
+ * Renders a "Snapshots" navigation row showing how many are kept.
+ */
+export default function SnapshotsButton() {
+    const theme = useTheme();
+    const router = useRouter();
+    const snapshotsToKeep = useAppSelector(
+        state => state.settings.snapshotsToKeep
+    );
+
+    return (
+        <Pressable
+            onPress={() => router.push("/snapshots")}
+            style={({ pressed }) => [
+                styles.container,
+                { backgroundColor: theme.card },
+                pressed && styles.pressed
+            ]}
+        >
+            <View style={styles.content}>
+                <Ionicons
+                    name="time-outline"
+                    size={18}
+                    color={theme.primary}
+                />
+                <Text style={[styles.label, { color: theme.text }]}>
+                    Snapshots
+                </Text>
+            </View>
+            <View style={styles.content}>
+                <Text style={[styles.count, { color: theme.tertiaryText }]}>
+                    {snapshotsToKeep === 0 ? "Off" : `Last ${snapshotsToKeep}`}
+                </Text>
+                <Ionicons
+                    name="chevron-forward"
+                    size={18}
+                    color={theme.tertiaryText}
+                />
+            </View>
+        </Pressable>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginVertical: 6,
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        elevation: 1
+    },
+    pressed: {
+        opacity: 0.6
+    },
+    content: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10
+    },
+    label: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    count: {
+        fontSize: 14
+    }
+});
@@ -1,7 +1,8 @@
 /**
  * File: SubjectManager.tsx
- * Description: Allows users to add and remove subjects for task categorization.
- * Includes modal interface with input, list of subjects as chips, and support for animation.
+ * Description: Allows users to manage the subjects tasks are grouped by: add,
+ * rename, pick a color and icon, reorder, archive, and delete with the option
+ * to move the subject's tasks to another one.
  *
  * Author: BrainDesk Team
  * Created: 2025-07-11
@@ -24,7 +25,24 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useTheme } from "@/hooks/useTheme";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
-import { addSubject, deleteSubject } from "@/features/settings/settingsSlice";
+import {
+  addSubject,
+  moveSubject,
+  removeSubject,
+  renameSubject,
+  setSubjectArchived,
+  styleSubject,
+} from "@/features/settings/settingsSlice";
+import {
+  activeSubjects,
+  findSubjectByName,
+  sortSubjects,
+  Subject,
+  SUBJECT_COLORS,
+  SUBJECT_ICONS,
+} from "@/features/settings/subjects";
+
+type IconName = keyof typeof Ionicons.glyphMap;
 
 // ✅ Enable LayoutAnimation on Android (iOS is supported by default)
 if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -36,16 +54,34 @@ if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental
 // ─────────────────────────────────────────────
 
 /**
- * Renders the SubjectManager UI, allowing users to view, add, and delete subjects.
+ * Renders the SubjectManager UI, allowing users to add, rename, restyle,
+ * reorder, archive and delete subjects.
  * Data is managed through Redux and animations are applied to state changes.
  */
 export default function SubjectManager() {
   const theme = useTheme();
   const dispatch = useAppDispatch();
   const subjects = useAppSelector((s) => s.settings.subjects);
+  const tasks = useAppSelector((s) => s.todo.tasks);
 
   const [modalVisible, setModalVisible] = useState(false); // Controls modal visibility
   const [newSubject, setNewSubject] = useState(""); // Stores user input
+  const [editingId, setEditingId] = useState<string | null>(null); // Subject being edited
+  const [draftName, setDraftName] = useState(""); // Name field of the edited subject
+  const [deleting, setDeleting] = useState(false); // Delete options shown for the edited subject
+  const [reassignTo, setReassignTo] = useState<string | null>(null); // Target for its tasks
+
+  const sorted = sortSubjects(subjects);
+  const editing = subjects.find((s) => s.id === editingId) ?? null;
+  const taskCount = editing
+    ? tasks.filter((t) => t.subjectId === editing.id).length
+    : 0;
+  const targets = editing
+    ? activeSubjects(subjects).filter((s) => s.id !== editing.id)
+    : [];
+
+  const animate = () =>
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
 
   /**
    * Adds a new subject to the store if valid and non-duplicate.
@@ -53,25 +89,261 @@ export default function SubjectManager() {
    */
   const handleAdd = () => {
     const trimmed = newSubject.trim();
-    if (trimmed && !subjects.includes(trimmed)) {
-      LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    if (trimmed && !findSubjectByName(subjects, trimmed)) {
+      animate();
       dispatch(addSubject(trimmed));
       setNewSubject("");
     }
   };
 
   /**
-   * Deletes a subject from the store with animation.
-   * @param item - Subject to delete
+   * Opens or closes the editor of a subject.
+   * @param subject - Subject tapped in the list
    */
-  const handleDelete = (item: string) => {
-    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
-    dispatch(deleteSubject(item));
+  const toggleEditor = (subject: Subject) => {
+    animate();
+    const open = editingId !== subject.id;
+    setEditingId(open ? subject.id : null);
+    setDraftName(subject.name);
+    setDeleting(false);
+    setReassignTo(null);
+  };
+
+  /** Saves the edited name; tasks follow since they reference the ID */
+  const handleRename = () => {
+    if (editing && draftName.trim() && draftName.trim() !== editing.name) {
+      dispatch(renameSubject({ id: editing.id, name: draftName }));
+    }
+  };
+
+  /** Archives or unarchives the edited subject */
+  const handleArchive = (archived: boolean) => {
+    if (!editing) return;
+    animate();
+    dispatch(setSubjectArchived({ id: editing.id, archived }));
+    setDeleting(false);
+  };
+
+  /**
+   * Deletes the edited subject, moving its tasks to the chosen subject.
+   * A subject with tasks can only go once a target is picked.
+   */
+  const handleDelete = () => {
+    if (!editing || (taskCount > 0 && !reassignTo)) return;
+    animate();
+    dispatch(removeSubject(editing.id, reassignTo));
+    setEditingId(null);
+    setDeleting(false);
   };
 
+  /**
+   * Renders the editor below the selected subject: name, color, icon,
+   * archive and delete.
+   */
+  const renderEditor = (subject: Subject) => (
+    <View style={[styles.editor, { borderColor: theme.overlay }]}>
+      <TextInput
+        value={draftName}
+        onChangeText={setDraftName}
+        onBlur={handleRename}
+        onSubmitEditing={handleRename}
+        placeholder="Subject name"
+        placeholderTextColor={theme.tertiaryText}
+        returnKeyType="done"
+        style={[
+          styles.nameInput,
+          { color: theme.text, backgroundColor: theme.inputBackground },
+        ]}
+      />
+
+      {/* Color swatches */}
+      <View style={styles.swatchRow}>
+        {SUBJECT_COLORS.map((color) => (
+          <Pressable
+            key={color}
+            onPress={() => dispatch(styleSubject({ id: subject.id, color }))}
+            accessibilityLabel={`Color ${color}`}
+            style={[
+              styles.swatch,
+              { backgroundColor: color },
+              subject.color === color && { borderColor: theme.text },
+            ]}
+          />
+        ))}
+      </View>
+
+      {/* Icons */}
+      <View style={styles.swatchRow}>
+        {SUBJECT_ICONS.map((icon) => (
+          <Pressable
+            key={icon}
+            onPress={() => dispatch(styleSubject({ id: subject.id, icon }))}
+            style={[
+              styles.iconChoice,
+              { backgroundColor: theme.inputBackground },
+              subject.icon === icon && { backgroundColor: subject.color },
+            ]}
+          >
+            <Ionicons
+              name={icon as IconName}
+              size={16}
+              color={subject.icon === icon ? "#fff" : theme.secondaryText}
+            />
+          </Pressable>
+        ))}
+      </View>
+
+      {deleting ? (
+        // Delete: move the tasks elsewhere, or keep them by archiving
+        <View>
+          <Text style={[styles.hint, { color: theme.secondaryText }]}>
+            {taskCount === 0
+              ? `No tasks use ${subject.name}.`
+              : `${taskCount} ${taskCount === 1 ? "task uses" : "tasks use"} ${subject.name}. Move them to:`}
+          </Text>
+          {taskCount > 0 && (
+            <View style={styles.swatchRow}>
+              {targets.map((target) => (
+                <Pressable
+                  key={target.id}
+                  onPress={() => setReassignTo(target.id)}
+                  style={[
+                    styles.targetChip,
+                    { backgroundColor: theme.inputBackground },
+                    reassignTo === target.id && { backgroundColor: target.color },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.targetText,
+                      { color: reassignTo === target.id ? "#fff" : theme.text },
+                    ]}
+                  >
+                    {target.name}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+          <View style={styles.actionRow}>
+            {taskCount > 0 && !subject.archived && (
+              <Pressable
+                onPress={() => handleArchive(true)}
+                style={({ pressed }) => [
+                  styles.actionBtn,
+                  { backgroundColor: theme.inputBackground },
+                  pressed && styles.pressed,
+                ]}
+              >
+                <Text style={[styles.actionText, { color: theme.text }]}>
+                  Archive Instead
+                </Text>
+              </Pressable>
+            )}
+            <Pressable
+              onPress={handleDelete}
+              disabled={taskCount > 0 && !reassignTo}
+              style={({ pressed }) => [
+                styles.actionBtn,
+                { backgroundColor: theme.danger },
+                taskCount > 0 && !reassignTo && styles.disabled,
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.actionText, { color: "#fff" }]}>
+                {taskCount > 0 ? "Move & Delete" : "Delete"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.actionRow}>
+          <Pressable
+            onPress={() => handleArchive(!subject.archived)}
+            style={({ pressed }) => [
+              styles.actionBtn,
+              { backgroundColor: theme.inputBackground },
+              pressed && styles.pressed,
+            ]}
+          >
+            <Text style={[styles.actionText, { color: theme.text }]}>
+              {subject.archived ? "Unarchive" : "Archive"}
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => {
+              animate();
+              setDeleting(true);
+            }}
+            style={({ pressed }) => [
+              styles.actionBtn,
+              { backgroundColor: theme.inputBackground },
+              pressed && styles.pressed,
+            ]}
+          >
+            <Text style={[styles.actionText, { color: theme.danger }]}>
+              Delete…
+            </Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+
+  /**
+   * Renders one subject: icon, name, reorder arrows and, when selected, its editor.
+   */
+  const renderSubject = ({ item, index }: { item: Subject; index: number }) => (
+    <View>
+      <Pressable
+        onPress={() => toggleEditor(item)}
+        style={[styles.row, { backgroundColor: theme.inputBackground }]}
+      >
+        <View style={[styles.badge, { backgroundColor: item.color }]}>
+          <Ionicons name={item.icon as IconName} size={14} color="#fff" />
+        </View>
+        <Text
+          style={[
+            styles.rowText,
+            { color: item.archived ? theme.tertiaryText : theme.text },
+          ]}
+          numberOfLines={1}
+        >
+          {item.name}
+          {item.archived && " (archived)"}
+        </Text>
+        <Pressable
+          onPress={() => dispatch(moveSubject({ id: item.id, offset: -1 }))}
+          disabled={index === 0}
+          hitSlop={6}
+          accessibilityLabel={`Move ${item.name} up`}
+        >
+          <Ionicons
+            name="chevron-up"
+            size={18}
+            color={index === 0 ? theme.overlay : theme.tertiaryText}
+          />
+        </Pressable>
+        <Pressable
+          onPress={() => dispatch(moveSubject({ id: item.id, offset: 1 }))}
+          disabled={index === sorted.length - 1}
+          hitSlop={6}
+          accessibilityLabel={`Move ${item.name} down`}
+        >
+          <Ionicons
+            name="chevron-down"
+            size={18}
+            color={index === sorted.length - 1 ? theme.overlay : theme.tertiaryText}
+          />
+        </Pressable>
+      </Pressable>
+      {editingId === item.id && renderEditor(item)}
+    </View>
+  );
+
   /**
    * Renders the modal dialog for managing subjects.
-   * Includes subject chips and a new subject input row.
+   * Includes the subject list and a new subject input row.
    */
   const renderModal = () => (
     <Modal
@@ -96,39 +368,14 @@ export default function SubjectManager() {
               </Pressable>
             </View>
 
-            {/* List of Subjects as Chips */}
+            {/* List of Subjects */}
             <FlatList
-              data={subjects}
-              keyExtractor={(i) => i}
-              numColumns={2}
-              contentContainerStyle={styles.chipList}
-              renderItem={({ item }) => (
-                <View
-                  style={[
-                    styles.chip,
-                    {
-                      backgroundColor: theme.inputBackground,
-                      borderColor: theme.overlay,
-                      shadowColor: theme.shadow,
-                    },
-                  ]}
-                >
-                  <Text
-                    style={[styles.chipText, { color: theme.text }]}
-                    numberOfLines={1}
-                    ellipsizeMode="tail"
-                  >
-                    {item}
-                  </Text>
-                  <Pressable
-                    onPress={() => handleDelete(item)}
-                    hitSlop={8}
-                    style={styles.closeBtn}
-                  >
-                    <Ionicons name="close" size={14} color={theme.tertiaryText} />
-                  </Pressable>
-                </View>
-              )}
+              data={sorted}
+              keyExtractor={(i) => i.id}
+              renderItem={renderSubject}
+              contentContainerStyle={styles.list}
+              style={styles.listBox}
+              keyboardShouldPersistTaps="handled"
             />
 
             {/* Input for Adding New Subject */}
@@ -271,31 +518,99 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
 
-  // Chip list
-  chipList: {
+  // Subject list
+  listBox: {
+    maxHeight: 420,
+  },
+  list: {
     paddingBottom: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    gap: 10,
+  },
+  badge: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "500",
+  },
+
+  // Subject editor
+  editor: {
+    borderWidth: 1,
+    borderTopWidth: 0,
+    borderBottomLeftRadius: 8,
+    borderBottomRightRadius: 8,
+    padding: 10,
+    gap: 10,
+  },
+  nameInput: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
   },
-  chip: {
+  swatchRow: {
     flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  swatch: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  iconChoice: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
     alignItems: "center",
+    justifyContent: "center",
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  targetChip: {
     borderRadius: 16,
     paddingVertical: 6,
     paddingHorizontal: 12,
-    borderWidth: 1,
-    margin: 6,
-    shadowOffset: { width: 0, height: 1 },
-    shadowOpacity: 0.04,
-    shadowRadius: 2,
-    elevation: 2,
   },
-  chipText: {
+  targetText: {
     fontSize: 14,
     fontWeight: "500",
-    maxWidth: 100,
   },
-  closeBtn: {
-    marginLeft: 4,
-    padding: 2,
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 4,
+  },
+  actionBtn: {
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.4,
   },
 
   // Add subject input row
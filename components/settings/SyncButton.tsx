@@ -0,0 +1,96 @@
+/**
+ * File: SyncButton.tsx
+ * Description: Settings row that opens the Sync screen for exchanging sync
+ * bundles with another device.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useAppSelector } from "@/store/hooks";
+import { useTheme } from "@/hooks/useTheme";
+
+// ─────────────────────────────────────────────
+// 🔸 Component: SyncButton
+// ─────────────────────────────────────────────
+
+/**
+ * Renders a "Sync" navigation row showing how many devices are known.
+ */
+export default function SyncButton() {
+    const theme = useTheme();
+    const router = useRouter();
+    const peerCount = useAppSelector(
+        state => Object.keys(state.sync.peers).length
+    );
+
+    return (
+        <Pressable
+            onPress={() => router.push("/sync")}
+            style={({ pressed }) => [
+                styles.container,
+                { backgroundColor: theme.card },
+                pressed && styles.pressed
+            ]}
+        >
+            <View style={styles.content}>
+                <Ionicons
+                    name="sync-outline"
+                    size={18}
+                    color={theme.primary}
+                />
+                <Text style={[styles.label, { color: theme.text }]}>
+                    Sync Devices
+                </Text>
+            </View>
+            <View style={styles.content}>
+                <Text style={[styles.count, { color: theme.tertiaryText }]}>
+                    {peerCount === 0
+                        ? "Not synced"
+                        : `${peerCount} ${peerCount === 1 ? "device" : "devices"}`}
+                </Text>
+                <Ionicons
+                    name="chevron-forward"
+                    size={18}
+                    color={theme.tertiaryText}
+                />
+            </View>
+        </Pressable>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginVertical: 6,
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        elevation: 1
+    },
+    pressed: {
+        opacity: 0.6
+    },
+    content: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10
+    },
+    label: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    count: {
+        fontSize: 14
+    }
+});
@@ -0,0 +1,226 @@
+/**
+ * File: SyncServerSetup.tsx
+ * Description: Sync screen section for a self-hosted sync server: connect
+ * with an address and token, then see the sync status, sync now or
+ * disconnect.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import dayjs from "dayjs";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+    connectServer,
+    disconnectServer,
+    ServerSyncStatus
+} from "@/features/sync/serverSyncSlice";
+import { requestServerSync } from "@/features/sync/serverSyncListener";
+import { useTheme } from "@/hooks/useTheme";
+import { AlertModal } from "@/components/AlertModal";
+
+const STATUS_LABELS: Record<ServerSyncStatus, string> = {
+    idle: "Up to date",
+    syncing: "Syncing…",
+    offline: "Offline; changes are sent once the server is reachable",
+    error: "Sync failed"
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: SyncServerSetup
+// ─────────────────────────────────────────────
+
+/**
+ * Renders the connect form, or the connected server with its status.
+ */
+export default function SyncServerSetup() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const serverSync = useAppSelector(state => state.serverSync);
+
+    const [serverUrl, setServerUrl] = useState("");
+    const [token, setToken] = useState("");
+    const [confirmDisconnect, setConfirmDisconnect] = useState(false);
+
+    const pending = serverSync.queue.length;
+    const inputStyle = [
+        styles.input,
+        { backgroundColor: theme.inputBackground, color: theme.text }
+    ];
+
+    const handleConnect = () => {
+        if (!serverUrl.trim() || !token.trim()) return;
+        dispatch(connectServer({ serverUrl, token }));
+        setToken("");
+    };
+
+    if (!serverSync.token) {
+        return (
+            <View style={[styles.card, { backgroundColor: theme.card }]}>
+                <TextInput
+                    value={serverUrl}
+                    onChangeText={setServerUrl}
+                    placeholder="Server address, e.g. https://sync.school.org"
+                    placeholderTextColor={theme.tertiaryText}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    style={inputStyle}
+                />
+                <TextInput
+                    value={token}
+                    onChangeText={setToken}
+                    placeholder="Token"
+                    placeholderTextColor={theme.tertiaryText}
+                    secureTextEntry
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    onSubmitEditing={handleConnect}
+                    style={inputStyle}
+                />
+                <Pressable
+                    onPress={handleConnect}
+                    style={({ pressed }) => [
+                        styles.button,
+                        { backgroundColor: theme.primary },
+                        pressed && styles.pressed
+                    ]}
+                >
+                    <Text style={styles.buttonText}>Connect</Text>
+                </Pressable>
+            </View>
+        );
+    }
+
+    return (
+        <View style={[styles.card, { backgroundColor: theme.card }]}>
+            <View style={styles.row}>
+                <Ionicons name="server-outline" size={20} color={theme.primary} />
+                <View style={styles.rowText}>
+                    <Text style={[styles.title, { color: theme.text }]} numberOfLines={1}>
+                        {serverSync.serverUrl}
+                    </Text>
+                    <Text style={[styles.meta, { color: theme.tertiaryText }]}>
+                        {serverSync.status === "error" && serverSync.lastError
+                            ? serverSync.lastError
+                            : STATUS_LABELS[serverSync.status]}
+                        {pending > 0 && ` · ${pending} unsent`}
+                    </Text>
+                    {serverSync.lastSyncedAt && (
+                        <Text style={[styles.meta, { color: theme.tertiaryText }]}>
+                            Last synced {dayjs(serverSync.lastSyncedAt).format("ddd, MMM D · HH:mm")}
+                            {serverSync.conflicts > 0 &&
+                                ` · ${serverSync.conflicts} edits replaced by newer ones from the server`}
+                        </Text>
+                    )}
+                </View>
+            </View>
+
+            <View style={styles.actions}>
+                <Pressable
+                    onPress={() => dispatch(requestServerSync())}
+                    disabled={serverSync.status === "syncing"}
+                    style={({ pressed }) => [
+                        styles.button,
+                        styles.action,
+                        { backgroundColor: theme.primary },
+                        pressed && styles.pressed
+                    ]}
+                >
+                    <Text style={styles.buttonText}>Sync Now</Text>
+                </Pressable>
+                <Pressable
+                    onPress={() => setConfirmDisconnect(true)}
+                    style={({ pressed }) => [
+                        styles.button,
+                        styles.action,
+                        { backgroundColor: theme.chipBackground },
+                        pressed && styles.pressed
+                    ]}
+                >
+                    <Text style={[styles.buttonText, { color: theme.danger }]}>
+                        Disconnect
+                    </Text>
+                </Pressable>
+            </View>
+
+            {/* ⚠️ Confirm disconnect */}
+            <AlertModal
+                visible={confirmDisconnect}
+                type="warning"
+                title="Disconnect Server"
+                message={
+                    pending > 0
+                        ? `${pending} changes haven't reached the server yet and won't be sent. Your tasks stay on this device.`
+                        : "This device stops syncing with the server. Your tasks stay on this device."
+                }
+                confirmText="Disconnect"
+                cancelText="Cancel"
+                onClose={() => setConfirmDisconnect(false)}
+                onConfirm={() => {
+                    setConfirmDisconnect(false);
+                    dispatch(disconnectServer());
+                }}
+            />
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+        borderRadius: 12,
+        marginBottom: 16,
+        gap: 10,
+        elevation: 1
+    },
+    input: {
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 12
+    },
+    rowText: {
+        flex: 1
+    },
+    title: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    meta: {
+        fontSize: 13,
+        marginTop: 2
+    },
+    actions: {
+        flexDirection: "row",
+        gap: 8
+    },
+    action: {
+        flex: 1
+    },
+    button: {
+        alignItems: "center",
+        paddingVertical: 10,
+        borderRadius: 8
+    },
+    buttonText: {
+        color: "#fff",
+        fontSize: 15,
+        fontWeight: "600"
+    },
+    pressed: {
+        opacity: 0.6
+    }
+});
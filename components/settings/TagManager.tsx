@@ -0,0 +1,415 @@
+/**
+ * File: TagManager.tsx
+ * Description: Allows users to manage the tags their tasks carry: rename,
+ * merge one tag into another, and delete a tag from every task.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  Modal,
+  TextInput,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  LayoutAnimation,
+  UIManager,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { deleteTag, renameTag } from "@/features/todo/todoSlice";
+import { collectTags, normalizeTag, TagUsage } from "@/features/todo/tags";
+
+// ✅ Enable LayoutAnimation on Android (iOS is supported by default)
+if (Platform.OS === "android" && UIManager.setLayoutAnimationEnabledExperimental) {
+  UIManager.setLayoutAnimationEnabledExperimental(true);
+}
+
+// ─────────────────────────────────────────────
+// 🔸 Component: TagManager
+// ─────────────────────────────────────────────
+
+/**
+ * Renders the TagManager UI. Tags are created from the task form, so the
+ * list only holds tags in use; every change applies to all tasks with the tag.
+ */
+export default function TagManager() {
+  const theme = useTheme();
+  const dispatch = useAppDispatch();
+  const tasks = useAppSelector((s) => s.todo.tasks);
+
+  const [modalVisible, setModalVisible] = useState(false); // Controls modal visibility
+  const [editingTag, setEditingTag] = useState<string | null>(null); // Tag being edited
+  const [draftName, setDraftName] = useState(""); // Name field of the edited tag
+  const [deleting, setDeleting] = useState(false); // Delete confirmation shown
+
+  const tags = collectTags(tasks);
+  const editing = tags.find((t) => t.tag === editingTag) ?? null;
+  const targets = editing ? tags.filter((t) => t.tag !== editing.tag) : [];
+
+  const animate = () =>
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+
+  /**
+   * Opens or closes the editor of a tag.
+   * @param usage - Tag tapped in the list
+   */
+  const toggleEditor = (usage: TagUsage) => {
+    animate();
+    setEditingTag(editingTag !== usage.tag ? usage.tag : null);
+    setDraftName(usage.tag);
+    setDeleting(false);
+  };
+
+  /**
+   * Renames the edited tag on every task. Renaming to a tag that already
+   * exists merges the two, so the editor closes.
+   * @param name - New name; defaults to the name field
+   */
+  const handleRename = (name = draftName) => {
+    const to = normalizeTag(name);
+    if (!editing || !to || to === editing.tag) return;
+    animate();
+    dispatch(renameTag({ from: editing.tag, to }));
+    const merged = tags.some((t) => t.tag === to);
+    setEditingTag(merged ? null : to);
+    setDraftName(to);
+  };
+
+  /** Removes the edited tag from every task */
+  const handleDelete = () => {
+    if (!editing) return;
+    animate();
+    dispatch(deleteTag(editing.tag));
+    setEditingTag(null);
+    setDeleting(false);
+  };
+
+  /**
+   * Renders the editor below the selected tag: name, merge targets and delete.
+   */
+  const renderEditor = (usage: TagUsage) => (
+    <View style={[styles.editor, { borderColor: theme.overlay }]}>
+      <TextInput
+        value={draftName}
+        onChangeText={setDraftName}
+        onBlur={() => handleRename()}
+        onSubmitEditing={() => handleRename()}
+        placeholder="Tag name"
+        placeholderTextColor={theme.tertiaryText}
+        autoCapitalize="none"
+        returnKeyType="done"
+        style={[
+          styles.nameInput,
+          { color: theme.text, backgroundColor: theme.inputBackground },
+        ]}
+      />
+
+      {/* Merge: the tag is replaced by another one on all its tasks */}
+      {targets.length > 0 && (
+        <View>
+          <Text style={[styles.hint, { color: theme.secondaryText }]}>
+            Merge into:
+          </Text>
+          <View style={styles.chipRow}>
+            {targets.map((target) => (
+              <Pressable
+                key={target.tag}
+                onPress={() => handleRename(target.tag)}
+                style={({ pressed }) => [
+                  styles.targetChip,
+                  { backgroundColor: theme.inputBackground },
+                  pressed && styles.pressed,
+                ]}
+              >
+                <Text style={[styles.targetText, { color: theme.text }]}>
+                  #{target.tag}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {deleting ? (
+        // Delete: the tag disappears from its tasks, the tasks stay
+        <View>
+          <Text style={[styles.hint, { color: theme.secondaryText }]}>
+            {`Remove #${usage.tag} from ${usage.count} ${usage.count === 1 ? "task" : "tasks"}?`}
+          </Text>
+          <View style={styles.actionRow}>
+            <Pressable
+              onPress={() => setDeleting(false)}
+              style={({ pressed }) => [
+                styles.actionBtn,
+                { backgroundColor: theme.inputBackground },
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.actionText, { color: theme.text }]}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleDelete}
+              style={({ pressed }) => [
+                styles.actionBtn,
+                { backgroundColor: theme.danger },
+                pressed && styles.pressed,
+              ]}
+            >
+              <Text style={[styles.actionText, { color: "#fff" }]}>Delete</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.actionRow}>
+          <Pressable
+            onPress={() => {
+              animate();
+              setDeleting(true);
+            }}
+            style={({ pressed }) => [
+              styles.actionBtn,
+              { backgroundColor: theme.inputBackground },
+              pressed && styles.pressed,
+            ]}
+          >
+            <Text style={[styles.actionText, { color: theme.danger }]}>
+              Delete…
+            </Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+
+  /**
+   * Renders one tag: name, task count and, when selected, its editor.
+   */
+  const renderTag = ({ item }: { item: TagUsage }) => (
+    <View>
+      <Pressable
+        onPress={() => toggleEditor(item)}
+        style={[styles.row, { backgroundColor: theme.inputBackground }]}
+      >
+        <Ionicons name="pricetag-outline" size={16} color={theme.primary} />
+        <Text style={[styles.rowText, { color: theme.text }]} numberOfLines={1}>
+          {item.tag}
+        </Text>
+        <Text style={[styles.count, { color: theme.tertiaryText }]}>
+          {item.count}
+        </Text>
+      </Pressable>
+      {editingTag === item.tag && renderEditor(item)}
+    </View>
+  );
+
+  /**
+   * Renders the modal dialog for managing tags.
+   */
+  const renderModal = () => (
+    <Modal
+      visible={modalVisible}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setModalVisible(false)}
+    >
+      <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+          style={styles.modalContainer}
+        >
+          <View style={[styles.modalCard, { backgroundColor: theme.card }]}>
+            {/* Modal Header */}
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: theme.text }]}>
+                Manage Tags
+              </Text>
+              <Pressable onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={20} color={theme.tertiaryText} />
+              </Pressable>
+            </View>
+
+            {tags.length === 0 ? (
+              <Text style={[styles.hint, { color: theme.secondaryText }]}>
+                No tags yet. Add them to a task when creating or editing it.
+              </Text>
+            ) : (
+              <FlatList
+                data={tags}
+                keyExtractor={(i) => i.tag}
+                renderItem={renderTag}
+                contentContainerStyle={styles.list}
+                style={styles.listBox}
+                keyboardShouldPersistTaps="handled"
+              />
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Pressable>
+    </Modal>
+  );
+
+  return (
+    <>
+      {/* Row in Settings List */}
+      <View style={styles.container}>
+        <View style={styles.labelRow}>
+          <Ionicons name="pricetags-outline" size={18} color={theme.primary} />
+          <Text style={[styles.label, { color: theme.text }]}>Tags</Text>
+        </View>
+        <Pressable
+          onPress={() => setModalVisible(true)}
+          style={({ pressed }) => [
+            styles.iconButton,
+            pressed && styles.pressed,
+          ]}
+        >
+          <Ionicons name="options-outline" size={24} color={theme.primary} />
+        </Pressable>
+      </View>
+
+      {renderModal()}
+    </>
+  );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  // Settings Row
+  container: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 14,
+  },
+  labelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  iconButton: {
+    padding: 4,
+  },
+  pressed: {
+    opacity: 0.6,
+  },
+
+  // Modal
+  backdrop: {
+    flex: 1,
+    backgroundColor: "#00000055",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: "center",
+  },
+  modalCard: {
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOpacity: 0.1,
+    shadowOffset: { width: 0, height: 3 },
+    shadowRadius: 6,
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+
+  // Tag list
+  listBox: {
+    maxHeight: 420,
+  },
+  list: {
+    paddingBottom: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+    gap: 10,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  count: {
+    fontSize: 13,
+  },
+
+  // Tag editor
+  editor: {
+    borderWidth: 1,
+    borderTopWidth: 0,
+    borderBottomLeftRadius: 8,
+    borderBottomRightRadius: 8,
+    padding: 10,
+    gap: 10,
+  },
+  nameInput: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  targetChip: {
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  targetText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  actionRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 4,
+  },
+  actionBtn: {
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,415 @@
+/**
+ * File: TaskExportButton.tsx
+ * Description: Exports the task list as CSV, as a Markdown checklist for
+ * sharing with teachers and classmates, or as an iCalendar file for calendar
+ * apps, optionally limited to a date range, subject or status. Shares the
+ * file like the JSON backup does.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useMemo, useState } from "react";
+import {
+    Modal,
+    View,
+    Text,
+    Pressable,
+    TouchableOpacity,
+    StyleSheet
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import dayjs from "dayjs";
+import { useAppSelector } from "@/store/hooks";
+import { useTheme } from "@/hooks/useTheme";
+import { AlertModal } from "@/components/AlertModal";
+import { ExportFilter, selectTasksForExport } from "@/features/exchange/taskRows";
+import type { Task } from "@/features/todo/todoSlice";
+import { tasksToCsv } from "@/features/exchange/csv";
+import { tasksToMarkdown } from "@/features/exchange/markdown";
+import { tasksToICalendar } from "@/features/exchange/ical";
+import { Subject, sortSubjects } from "@/features/settings/subjects";
+import type { PriorityLevel } from "@/features/settings/priorities";
+import { writeAndShare } from "@/features/exchange/files";
+
+type Format = "csv" | "markdown" | "ical";
+
+// File name, MIME type and writer per format
+const FORMATS: Record<
+    Format,
+    {
+        label: string;
+        fileName: string;
+        mimeType: string;
+        write: (
+            tasks: Task[],
+            subjects: Subject[],
+            priorities: PriorityLevel[]
+        ) => string;
+    }
+> = {
+    csv: {
+        label: "CSV",
+        fileName: "braindesk_tasks.csv",
+        mimeType: "text/csv",
+        write: tasksToCsv
+    },
+    markdown: {
+        label: "Markdown",
+        fileName: "braindesk_tasks.md",
+        mimeType: "text/markdown",
+        write: (tasks, subjects, priorities) =>
+            tasksToMarkdown(tasks, subjects, priorities)
+    },
+    ical: {
+        label: "Calendar (.ics)",
+        fileName: "braindesk_tasks.ics",
+        mimeType: "text/calendar",
+        write: (tasks, subjects, priorities) =>
+            tasksToICalendar(tasks, subjects, priorities)
+    }
+};
+
+// Date range presets, computed when the export runs
+const RANGES: { label: string; get: () => ExportFilter["range"] }[] = [
+    { label: "All dates", get: () => null },
+    {
+        label: "This week",
+        get: () => ({
+            from: dayjs().startOf("week").format("YYYY-MM-DD"),
+            to: dayjs().endOf("week").format("YYYY-MM-DD")
+        })
+    },
+    {
+        label: "Next 7 days",
+        get: () => ({
+            from: dayjs().format("YYYY-MM-DD"),
+            to: dayjs().add(6, "day").format("YYYY-MM-DD")
+        })
+    },
+    {
+        label: "This month",
+        get: () => ({
+            from: dayjs().startOf("month").format("YYYY-MM-DD"),
+            to: dayjs().endOf("month").format("YYYY-MM-DD")
+        })
+    },
+    {
+        label: "Last 30 days",
+        get: () => ({
+            from: dayjs().subtract(29, "day").format("YYYY-MM-DD"),
+            to: dayjs().format("YYYY-MM-DD")
+        })
+    }
+];
+
+const STATUSES: { value: ExportFilter["status"]; label: string }[] = [
+    { value: "all", label: "All" },
+    { value: "open", label: "Open" },
+    { value: "completed", label: "Completed" }
+];
+
+// ─────────────────────────────────────────────
+// 🔸 Component: TaskExportButton
+// ─────────────────────────────────────────────
+
+/**
+ * Settings row that opens the task export options.
+ */
+export default function TaskExportButton() {
+    const theme = useTheme();
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const subjects = useAppSelector(state => state.settings.subjects);
+    const priorities = useAppSelector(state => state.settings.priorities);
+
+    const [visible, setVisible] = useState(false); // Options modal
+    const [errorVisible, setErrorVisible] = useState(false); // Error modal
+    const [format, setFormat] = useState<Format>("csv");
+    const [rangeIndex, setRangeIndex] = useState(0);
+    const [subjectId, setSubjectId] = useState<string | null>(null);
+    const [status, setStatus] = useState<ExportFilter["status"]>("all");
+
+    const selected = useMemo(
+        () =>
+            selectTasksForExport(
+                tasks,
+                { range: RANGES[rangeIndex].get(), subjectId, status },
+                // Calendar files carry the repeat rule instead of each occurrence
+                format !== "ical"
+            ),
+        [tasks, rangeIndex, subjectId, status, format]
+    );
+
+    // Writes the file and opens the share sheet
+    const handleExport = async () => {
+        try {
+            const { fileName, mimeType, write } = FORMATS[format];
+            await writeAndShare(
+                fileName,
+                write(selected, subjects, priorities),
+                mimeType,
+                "Export BrainDesk Tasks"
+            );
+            setVisible(false);
+        } catch (error) {
+            console.error("Task export failed:", error);
+            setVisible(false);
+            setErrorVisible(true);
+        }
+    };
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render helpers
+    // ─────────────────────────────────────────────
+
+    const renderChip = (
+        label: string,
+        isSelected: boolean,
+        onPress: () => void
+    ) => (
+        <TouchableOpacity
+            key={label}
+            onPress={onPress}
+            style={[
+                styles.chip,
+                {
+                    backgroundColor: isSelected
+                        ? theme.primary
+                        : theme.chipBackground
+                }
+            ]}
+        >
+            <Text
+                style={[
+                    styles.chipText,
+                    { color: isSelected ? "#fff" : theme.text }
+                ]}
+            >
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const renderLabel = (label: string) => (
+        <Text style={[styles.label, { color: theme.tertiaryText }]}>
+            {label}
+        </Text>
+    );
+
+    return (
+        <>
+            <Pressable
+                onPress={() => setVisible(true)}
+                style={({ pressed }) => [
+                    styles.row,
+                    { backgroundColor: theme.card },
+                    pressed && { opacity: 0.6 }
+                ]}
+            >
+                <View style={styles.iconLabel}>
+                    <Ionicons
+                        name="document-text-outline"
+                        size={18}
+                        color={theme.primary}
+                    />
+                    <Text style={[styles.text, { color: theme.text }]}>
+                        Export Tasks (CSV / Markdown / Calendar)
+                    </Text>
+                </View>
+                <Ionicons
+                    name="chevron-forward"
+                    size={18}
+                    color={theme.tertiaryText}
+                />
+            </Pressable>
+
+            <Modal
+                visible={visible}
+                transparent
+                animationType="fade"
+                onRequestClose={() => setVisible(false)}
+            >
+                <Pressable
+                    style={[styles.overlay, { backgroundColor: theme.overlay }]}
+                    onPress={() => setVisible(false)}
+                >
+                    <Pressable
+                        style={[
+                            styles.container,
+                            { backgroundColor: theme.card }
+                        ]}
+                    >
+                        <Text style={[styles.title, { color: theme.text }]}>
+                            Export Tasks
+                        </Text>
+
+                        {renderLabel("Format")}
+                        <View style={styles.chipRow}>
+                            {(Object.keys(FORMATS) as Format[]).map(f =>
+                                renderChip(FORMATS[f].label, format === f, () =>
+                                    setFormat(f)
+                                )
+                            )}
+                        </View>
+
+                        {renderLabel("Dates")}
+                        <View style={styles.chipRow}>
+                            {RANGES.map((range, index) =>
+                                renderChip(range.label, rangeIndex === index, () =>
+                                    setRangeIndex(index)
+                                )
+                            )}
+                        </View>
+
+                        {renderLabel("Subject")}
+                        <View style={styles.chipRow}>
+                            {renderChip("All", subjectId === null, () =>
+                                setSubjectId(null)
+                            )}
+                            {sortSubjects(subjects).map(s =>
+                                renderChip(s.name, subjectId === s.id, () =>
+                                    setSubjectId(s.id)
+                                )
+                            )}
+                        </View>
+
+                        {renderLabel("Status")}
+                        <View style={styles.chipRow}>
+                            {STATUSES.map(s =>
+                                renderChip(s.label, status === s.value, () =>
+                                    setStatus(s.value)
+                                )
+                            )}
+                        </View>
+
+                        <View style={styles.actions}>
+                            <TouchableOpacity
+                                onPress={() => setVisible(false)}
+                                style={styles.action}
+                            >
+                                <Text
+                                    style={[
+                                        styles.actionText,
+                                        { color: theme.tertiaryText }
+                                    ]}
+                                >
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                onPress={handleExport}
+                                disabled={selected.length === 0}
+                                style={styles.action}
+                            >
+                                <Text
+                                    style={[
+                                        styles.actionText,
+                                        {
+                                            color:
+                                                selected.length === 0
+                                                    ? theme.tertiaryText
+                                                    : theme.primary
+                                        }
+                                    ]}
+                                >
+                                    Export {selected.length} tasks
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
+            {/* Error Modal */}
+            <AlertModal
+                visible={errorVisible}
+                type="error"
+                title="Export Failed"
+                message={`Something went wrong while exporting your tasks.\n\nPlease try again.`}
+                confirmText="OK"
+                onClose={() => setErrorVisible(false)}
+            />
+        </>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    row: {
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginVertical: 6,
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        elevation: 1
+    },
+    iconLabel: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10
+    },
+    text: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    overlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: 24
+    },
+    container: {
+        width: "100%",
+        maxWidth: 440,
+        padding: 24,
+        borderRadius: 24,
+        elevation: 6
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "600",
+        textAlign: "center",
+        marginBottom: 8
+    },
+    label: {
+        fontSize: 12,
+        fontWeight: "600",
+        textTransform: "uppercase",
+        letterSpacing: 0.5,
+        marginTop: 12,
+        marginBottom: 8
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 20
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: "600"
+    },
+    actions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        gap: 8,
+        paddingTop: 20
+    },
+    action: {
+        paddingHorizontal: 12,
+        paddingVertical: 8
+    },
+    actionText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
@@ -0,0 +1,156 @@
+/**
+ * File: TaskImportButton.tsx
+ * Description: Imports tasks from a CSV file, a Markdown checklist (e.g. a
+ * list shared by a teacher) or an iCalendar file from a calendar app. The
+ * picked file is reviewed in `TaskImportModal` before anything is added.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { AlertModal } from "@/components/AlertModal";
+import TaskImportModal, {
+    TaskImportResult
+} from "@/components/settings/TaskImportModal";
+import { pickTextFile } from "@/features/exchange/files";
+import { formatIssues } from "@/features/backup/backup";
+import type { ValidationIssue } from "@/features/backup/schema";
+
+// Types offered by the picker; Markdown often arrives as plain text
+const FILE_TYPES = [
+    "text/csv",
+    "text/comma-separated-values",
+    "text/markdown",
+    "text/plain",
+    "text/calendar"
+];
+
+// ─────────────────────────────────────────────
+// 🔸 Component: TaskImportButton
+// ─────────────────────────────────────────────
+
+/**
+ * Settings row that picks a task file and opens the review step.
+ */
+export default function TaskImportButton() {
+    const theme = useTheme();
+
+    const [file, setFile] = useState<{ name: string; contents: string } | null>(
+        null
+    ); // File under review
+    const [alert, setAlert] = useState<{
+        type: "success" | "warning" | "error";
+        title: string;
+        message: string;
+    } | null>(null); // Outcome shown after the review closes
+
+    const handlePick = async () => {
+        try {
+            const picked = await pickTextFile(FILE_TYPES);
+            if (picked) setFile(picked);
+        } catch (err: any) {
+            setAlert({
+                type: "error",
+                title: "Import Failed",
+                message: err.message || "Could not read the file."
+            });
+        }
+    };
+
+    const handleImported = (
+        { added, updated, unchanged }: TaskImportResult,
+        issues: ValidationIssue[]
+    ) => {
+        setFile(null);
+        const summary = [
+            `${added} tasks added`,
+            updated > 0 ? `${updated} updated` : null,
+            unchanged > 0 ? `${unchanged} already in BrainDesk` : null
+        ]
+            .filter(Boolean)
+            .join(", ");
+        setAlert({
+            type: issues.length > 0 ? "warning" : "success",
+            title: "Import Successful",
+            message:
+                issues.length > 0
+                    ? `${summary}. ${issues.length} rows or fields could not be read:\n\n${formatIssues(issues)}`
+                    : `${summary}.`
+        });
+    };
+
+    return (
+        <>
+            <Pressable
+                onPress={handlePick}
+                style={({ pressed }) => [
+                    styles.row,
+                    { backgroundColor: theme.card },
+                    pressed && { opacity: 0.6 }
+                ]}
+            >
+                <View style={styles.iconLabel}>
+                    <Ionicons
+                        name="list-outline"
+                        size={18}
+                        color={theme.primary}
+                    />
+                    <Text style={[styles.text, { color: theme.text }]}>
+                        Import Tasks (CSV / Markdown / Calendar)
+                    </Text>
+                </View>
+                <Ionicons
+                    name="chevron-forward"
+                    size={18}
+                    color={theme.tertiaryText}
+                />
+            </Pressable>
+
+            <TaskImportModal
+                file={file}
+                onClose={() => setFile(null)}
+                onImported={handleImported}
+            />
+
+            {/* Modal alert based on import outcome */}
+            <AlertModal
+                visible={alert !== null}
+                type={alert?.type ?? "success"}
+                title={alert?.title ?? ""}
+                message={alert?.message ?? ""}
+                confirmText="OK"
+                onClose={() => setAlert(null)}
+            />
+        </>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    row: {
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginVertical: 6,
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        elevation: 1
+    },
+    iconLabel: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10
+    },
+    text: {
+        fontSize: 15,
+        fontWeight: "500"
+    }
+});
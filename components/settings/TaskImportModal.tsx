@@ -0,0 +1,539 @@
+/**
+ * File: TaskImportModal.tsx
+ * Description: Review step for importing tasks from a CSV file, a Markdown
+ * checklist or an iCalendar file. CSV files get a column-mapping step (guessed
+ * from the header); every format shows what will be added and what can't be read.
+ * Tasks already in BrainDesk (same ID) that differ go to the conflict preview.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    Modal,
+    View,
+    Text,
+    TouchableOpacity,
+    StyleSheet,
+    Pressable,
+    ScrollView,
+    Switch
+} from "react-native";
+import dayjs from "dayjs";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { upsertTasks } from "@/features/todo/todoSlice";
+import { mergeSettings } from "@/features/settings/settingsSlice";
+import ImportPreviewModal from "@/components/settings/ImportPreviewModal";
+import {
+    ColumnMapping,
+    CsvField,
+    csvToDrafts,
+    guessColumnMapping,
+    parseCsv
+} from "@/features/exchange/csv";
+import { markdownToDrafts } from "@/features/exchange/markdown";
+import { iCalendarToDrafts } from "@/features/exchange/ical";
+import {
+    DraftDefaults,
+    planTaskImport,
+    TaskImport
+} from "@/features/exchange/taskRows";
+import { ConflictResolution, resolveTasks } from "@/features/backup/importPlan";
+import { activeSubjects } from "@/features/settings/subjects";
+import { defaultPriority } from "@/features/settings/priorities";
+import { formatIssues } from "@/features/backup/backup";
+import type { ValidationIssue } from "@/features/backup/schema";
+
+type Format = "csv" | "markdown" | "ical";
+
+const FORMAT_LABELS: Record<Format, string> = {
+    csv: "CSV",
+    markdown: "Markdown",
+    ical: "Calendar"
+};
+
+// Fields offered in the mapping step, in display order
+const MAPPED_FIELDS: { field: CsvField; label: string }[] = [
+    { field: "text", label: "Task" },
+    { field: "dueDate", label: "Date" },
+    { field: "dueTime", label: "Time" },
+    { field: "subject", label: "Subject" },
+    { field: "priority", label: "Priority" },
+    { field: "completed", label: "Completed" },
+    { field: "estimateMinutes", label: "Estimate" },
+    { field: "subtasks", label: "Subtasks" }
+];
+
+// Drafts listed by name in the preview
+const MAX_LISTED_TASKS = 4;
+
+/**
+ * Picks the format from the file name, falling back to the contents.
+ */
+function detectFormat(name: string, contents: string): Format {
+    const lower = name.toLowerCase();
+    if (lower.endsWith(".csv")) return "csv";
+    if (lower.endsWith(".ics") || /^BEGIN:VCALENDAR/im.test(contents)) return "ical";
+    if (/\.(md|markdown|txt)$/.test(lower)) return "markdown";
+    return /^\s*[-*+]\s+\[[ xX]\]/m.test(contents) ? "markdown" : "csv";
+}
+
+// ─────────────────────────────────────────────
+// 🔸 Types
+// ─────────────────────────────────────────────
+
+/** What an import changed, for the summary */
+export type TaskImportResult = {
+    added: number;
+    updated: number;
+    /** Rows already in BrainDesk: identical tasks, kept conflicts, series occurrences */
+    unchanged: number;
+};
+
+type Props = {
+    file: { name: string; contents: string } | null; // Picked file; null hides the modal
+    onClose: () => void; // Called on cancel or outside tap
+    onImported: (result: TaskImportResult, issues: ValidationIssue[]) => void; // Called after import
+};
+
+// ─────────────────────────────────────────────
+// 🔹 Component
+// ─────────────────────────────────────────────
+
+export default function TaskImportModal({ file, onClose, onImported }: Props) {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const settings = useAppSelector(state => state.settings);
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const subjects = settings.subjects;
+    // Files name subjects, matched case-insensitively against these
+    const subjectNames = useMemo(
+        () => activeSubjects(subjects).map(s => s.name),
+        [subjects]
+    );
+    const priorities = useAppSelector(state => state.settings.priorities);
+    const priorityNames = useMemo(() => priorities.map(p => p.name), [priorities]);
+
+    const [format, setFormat] = useState<Format>("csv");
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [pending, setPending] = useState<TaskImport | null>(null); // Import waiting on conflict choices
+
+    const rows = useMemo(
+        () => (file && format === "csv" ? parseCsv(file.contents) : []),
+        [file, format]
+    );
+    const columnCount = Math.max(0, ...rows.map(r => r.length));
+
+    // Guess format and mapping for each newly picked file
+    useEffect(() => {
+        if (!file) return;
+        const detected = detectFormat(file.name, file.contents);
+        setFormat(detected);
+        setHasHeader(true);
+        const header = detected === "csv" ? parseCsv(file.contents)[0] ?? [] : [];
+        const guessed = guessColumnMapping(header);
+        setMapping(guessed.text === undefined ? { ...guessed, text: 0 } : guessed);
+    }, [file]);
+
+    // Used for anything the file doesn't say
+    const defaults = useMemo<DraftDefaults>(
+        () => ({
+            subject: subjectNames[0] ?? "General",
+            priority: defaultPriority(priorities).name,
+            dueDate: dayjs().format("YYYY-MM-DD")
+        }),
+        [subjectNames, priorities]
+    );
+
+    const { drafts, issues } = useMemo(() => {
+        if (!file) return { drafts: [], issues: [] };
+        switch (format) {
+            case "csv":
+                return csvToDrafts(
+                    hasHeader ? rows.slice(1) : rows,
+                    mapping,
+                    defaults,
+                    subjectNames,
+                    priorityNames
+                );
+            case "markdown":
+                return markdownToDrafts(
+                    file.contents,
+                    defaults,
+                    subjectNames,
+                    priorityNames
+                );
+            case "ical":
+                return iCalendarToDrafts(file.contents, {
+                    defaults,
+                    subjects: subjectNames,
+                    priorities
+                });
+        }
+    }, [
+        file,
+        format,
+        rows,
+        hasHeader,
+        mapping,
+        defaults,
+        subjectNames,
+        priorityNames,
+        priorities
+    ]);
+
+    if (!file) return null;
+
+    const columnName = (index: number) =>
+        hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`;
+
+    // Adds any new subjects to the subject list, then the new and chosen tasks
+    const applyImport = (
+        { plan, newSubjects, occurrenceRows }: TaskImport,
+        resolutions: Record<string, ConflictResolution> = {}
+    ) => {
+        const taken = resolveTasks(plan, resolutions);
+        if (newSubjects.length > 0) {
+            dispatch(mergeSettings({ subjects: newSubjects }));
+        }
+        if (taken.length > 0) dispatch(upsertTasks(taken));
+
+        setPending(null);
+        onImported(
+            {
+                added: plan.added.length,
+                updated: taken.length - plan.added.length,
+                unchanged:
+                    plan.identical.length +
+                    plan.conflicts.length -
+                    (taken.length - plan.added.length) +
+                    occurrenceRows
+            },
+            issues
+        );
+    };
+
+    // Compares the drafts with the current tasks; conflicts need the user's choice
+    const handleImport = () => {
+        const result = planTaskImport(drafts, { tasks, settings, sessions: [] });
+        if (result.plan.conflicts.length > 0) {
+            setPending(result);
+        } else {
+            applyImport(result);
+        }
+    };
+
+    if (pending) {
+        return (
+            <ImportPreviewModal
+                visible
+                backup={{
+                    exportedAt: null,
+                    appVersion: null,
+                    data: { tasks: [], settings: {}, sessions: [] }
+                }}
+                plan={pending.plan}
+                allowReplace={false}
+                onConfirm={choice =>
+                    choice.mode === "merge" && applyImport(pending, choice.resolutions)
+                }
+                onCancel={() => setPending(null)}
+            />
+        );
+    }
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render helpers
+    // ─────────────────────────────────────────────
+
+    const renderChip = (
+        label: string,
+        selected: boolean,
+        onPress: () => void
+    ) => (
+        <TouchableOpacity
+            key={label}
+            onPress={onPress}
+            style={[
+                styles.chip,
+                {
+                    backgroundColor: selected
+                        ? theme.primary
+                        : theme.chipBackground
+                }
+            ]}
+        >
+            <Text
+                style={[
+                    styles.chipText,
+                    { color: selected ? "#fff" : theme.text }
+                ]}
+                numberOfLines={1}
+            >
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const renderSectionTitle = (title: string) => (
+        <Text style={[styles.sectionTitle, { color: theme.tertiaryText }]}>
+            {title}
+        </Text>
+    );
+
+    const renderMapping = () => (
+        <>
+            <View style={styles.switchRow}>
+                <Text style={[styles.rowLabel, { color: theme.text }]}>
+                    First row is a header
+                </Text>
+                <Switch
+                    value={hasHeader}
+                    onValueChange={setHasHeader}
+                    trackColor={{
+                        true: theme.primary,
+                        false: theme.chipBackground
+                    }}
+                    thumbColor="#fff"
+                />
+            </View>
+
+            {renderSectionTitle("Columns")}
+            {MAPPED_FIELDS.map(({ field, label }) => (
+                <View key={field} style={styles.mappingRow}>
+                    <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                        {label}
+                    </Text>
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        contentContainerStyle={styles.columnChips}
+                    >
+                        {field !== "text" &&
+                            renderChip("—", mapping[field] === undefined, () =>
+                                setMapping(prev => ({ ...prev, [field]: undefined }))
+                            )}
+                        {Array.from({ length: columnCount }, (_, index) =>
+                            renderChip(
+                                columnName(index),
+                                mapping[field] === index,
+                                () =>
+                                    setMapping(prev => ({
+                                        ...prev,
+                                        [field]: index
+                                    }))
+                            )
+                        )}
+                    </ScrollView>
+                </View>
+            ))}
+        </>
+    );
+
+    return (
+        <Modal
+            visible
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <Pressable
+                style={[styles.overlay, { backgroundColor: theme.overlay }]}
+                onPress={onClose}
+            >
+                <Pressable
+                    style={[styles.container, { backgroundColor: theme.card }]}
+                >
+                    <Text style={[styles.title, { color: theme.text }]}>
+                        Import Tasks
+                    </Text>
+                    <Text
+                        style={[styles.subtitle, { color: theme.tertiaryText }]}
+                        numberOfLines={1}
+                    >
+                        {file.name}
+                    </Text>
+
+                    <View style={[styles.chipRow, styles.formatRow]}>
+                        {(Object.keys(FORMAT_LABELS) as Format[]).map(f =>
+                            renderChip(FORMAT_LABELS[f], format === f, () =>
+                                setFormat(f)
+                            )
+                        )}
+                    </View>
+
+                    <ScrollView style={styles.body}>
+                        {format === "csv" && renderMapping()}
+
+                        {renderSectionTitle(`${drafts.length} tasks to add`)}
+                        {drafts.slice(0, MAX_LISTED_TASKS).map((draft, index) => (
+                            <Text
+                                key={index}
+                                style={[styles.listItem, { color: theme.text }]}
+                                numberOfLines={1}
+                            >
+                                {draft.completed ? "☑" : "☐"} {draft.text} ·{" "}
+                                {draft.subject} ·{" "}
+                                {dayjs(draft.dueDate).format("MMM D")}
+                            </Text>
+                        ))}
+                        {drafts.length > MAX_LISTED_TASKS && (
+                            <Text
+                                style={[styles.meta, { color: theme.tertiaryText }]}
+                            >
+                                …and {drafts.length - MAX_LISTED_TASKS} more
+                            </Text>
+                        )}
+
+                        {issues.length > 0 && (
+                            <Text style={[styles.meta, { color: theme.danger }]}>
+                                {issues.length} problems:{"\n"}
+                                {formatIssues(issues)}
+                            </Text>
+                        )}
+                    </ScrollView>
+
+                    <View style={styles.actions}>
+                        <TouchableOpacity onPress={onClose} style={styles.action}>
+                            <Text
+                                style={[
+                                    styles.actionText,
+                                    { color: theme.tertiaryText }
+                                ]}
+                            >
+                                Cancel
+                            </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            onPress={handleImport}
+                            disabled={drafts.length === 0}
+                            style={styles.action}
+                        >
+                            <Text
+                                style={[
+                                    styles.actionText,
+                                    {
+                                        color:
+                                            drafts.length === 0
+                                                ? theme.tertiaryText
+                                                : theme.primary
+                                    }
+                                ]}
+                            >
+                                Import
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                </Pressable>
+            </Pressable>
+        </Modal>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: 24
+    },
+    container: {
+        width: "100%",
+        maxWidth: 440,
+        maxHeight: "85%",
+        padding: 24,
+        borderRadius: 24,
+        elevation: 6
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "600",
+        textAlign: "center"
+    },
+    subtitle: {
+        fontSize: 13,
+        textAlign: "center",
+        marginTop: 4
+    },
+    formatRow: {
+        justifyContent: "center",
+        marginVertical: 12
+    },
+    body: {
+        flexGrow: 0
+    },
+    sectionTitle: {
+        fontSize: 12,
+        fontWeight: "600",
+        textTransform: "uppercase",
+        letterSpacing: 0.5,
+        marginTop: 16,
+        marginBottom: 8
+    },
+    switchRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center"
+    },
+    rowLabel: {
+        fontSize: 14,
+        fontWeight: "500"
+    },
+    mappingRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginBottom: 8
+    },
+    fieldLabel: {
+        width: 80,
+        fontSize: 14
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8
+    },
+    columnChips: {
+        flexDirection: "row",
+        gap: 8
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 20,
+        maxWidth: 160
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: "600"
+    },
+    listItem: {
+        fontSize: 14,
+        paddingVertical: 2
+    },
+    meta: {
+        fontSize: 13,
+        marginTop: 8
+    },
+    actions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        gap: 8,
+        paddingTop: 16
+    },
+    action: {
+        paddingHorizontal: 12,
+        paddingVertical: 8
+    },
+    actionText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
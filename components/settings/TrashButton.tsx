@@ -0,0 +1,94 @@
+/**
+ * File: TrashButton.tsx
+ * Description: Settings row that opens the Trash screen and shows how many
+ * deleted tasks are waiting there.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useAppSelector } from "@/store/hooks";
+import { useTheme } from "@/hooks/useTheme";
+
+// ─────────────────────────────────────────────
+// 🔸 Component: TrashButton
+// ─────────────────────────────────────────────
+
+/**
+ * Renders a "Trash" navigation row with the current trashed-task count.
+ */
+export default function TrashButton() {
+    const theme = useTheme();
+    const router = useRouter();
+    const trashedCount = useAppSelector(
+        state => state.todo.tasks.filter(t => t.deletedAt).length
+    );
+
+    return (
+        <Pressable
+            onPress={() => router.push("/trash")}
+            style={({ pressed }) => [
+                styles.container,
+                { backgroundColor: theme.card },
+                pressed && styles.pressed
+            ]}
+        >
+            <View style={styles.content}>
+                <Ionicons
+                    name="trash-bin-outline"
+                    size={18}
+                    color={theme.primary}
+                />
+                <Text style={[styles.label, { color: theme.text }]}>Trash</Text>
+            </View>
+            <View style={styles.content}>
+                {trashedCount > 0 && (
+                    <Text style={[styles.count, { color: theme.tertiaryText }]}>
+                        {trashedCount}
+                    </Text>
+                )}
+                <Ionicons
+                    name="chevron-forward"
+                    size={18}
+                    color={theme.tertiaryText}
+                />
+            </View>
+        </Pressable>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        marginVertical: 6,
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        elevation: 1
+    },
+    pressed: {
+        opacity: 0.6
+    },
+    content: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10
+    },
+    label: {
+        fontSize: 15,
+        fontWeight: "500"
+    },
+    count: {
+        fontSize: 14
+    }
+});
@@ -0,0 +1,101 @@
+/**
+ * File: BreakdownChart.tsx
+ * Description: Horizontal SVG bars showing completed vs total for each group
+ * (subject or priority).
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, StyleSheet, useWindowDimensions } from "react-native";
+import Svg, { Rect } from "react-native-svg";
+import { useTheme } from "@/hooks/useTheme";
+import { CompletionGroup } from "@/features/stats/statsSelectors";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    groups: CompletionGroup[]; // Rows in display order
+    colorFor?: (key: string) => string; // Optional per-group bar color
+    labelFor?: (key: string) => string; // Optional display name of a group
+};
+
+const BAR_HEIGHT = 10;
+
+// ─────────────────────────────────────────────
+// 🔸 Component: BreakdownChart
+// ─────────────────────────────────────────────
+
+export default function BreakdownChart({ groups, colorFor, labelFor }: Props) {
+    const theme = useTheme();
+    const { width: windowWidth } = useWindowDimensions();
+    const width = windowWidth - 64; // Screen and card padding
+
+    if (groups.length === 0) {
+        return (
+            <Text style={[styles.empty, { color: theme.tertiaryText }]}>
+                No tasks in this period.
+            </Text>
+        );
+    }
+
+    return (
+        <View>
+            {groups.map(group => (
+                <View key={group.key} style={styles.row}>
+                    <View style={styles.labelRow}>
+                        <Text style={[styles.label, { color: theme.text }]}>
+                            {labelFor?.(group.key) ?? group.key}
+                        </Text>
+                        <Text style={[styles.count, { color: theme.tertiaryText }]}>
+                            {group.completed}/{group.total} ·{" "}
+                            {Math.round(group.rate * 100)}%
+                        </Text>
+                    </View>
+                    <Svg width={width} height={BAR_HEIGHT}>
+                        <Rect
+                            width={width}
+                            height={BAR_HEIGHT}
+                            rx={BAR_HEIGHT / 2}
+                            fill={theme.chipBackground}
+                        />
+                        <Rect
+                            width={width * group.rate}
+                            height={BAR_HEIGHT}
+                            rx={BAR_HEIGHT / 2}
+                            fill={colorFor?.(group.key) ?? theme.primary}
+                        />
+                    </Svg>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    row: {
+        marginBottom: 12
+    },
+    labelRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        marginBottom: 4
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "500"
+    },
+    count: {
+        fontSize: 12
+    },
+    empty: {
+        fontSize: 14
+    }
+});
@@ -0,0 +1,101 @@
+/**
+ * File: CompletionChart.tsx
+ * Description: SVG bar chart of completion rate per period.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, useWindowDimensions } from "react-native";
+import Svg, { Rect, Text as SvgText, Line } from "react-native-svg";
+import { useTheme } from "@/hooks/useTheme";
+import { CompletionBucket } from "@/features/stats/statsSelectors";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    buckets: CompletionBucket[]; // Oldest period first
+    height?: number; // Chart height in px
+};
+
+/** Space reserved under the bars for period labels */
+const LABEL_HEIGHT = 20;
+/** Space reserved above the bars for percentages */
+const VALUE_HEIGHT = 16;
+
+// ─────────────────────────────────────────────
+// 🔸 Component: CompletionChart
+// ─────────────────────────────────────────────
+
+export default function CompletionChart({ buckets, height = 180 }: Props) {
+    const theme = useTheme();
+    const { width: windowWidth } = useWindowDimensions();
+    const width = windowWidth - 64; // Screen and card padding
+
+    const slot = width / Math.max(buckets.length, 1);
+    const barWidth = Math.min(28, slot * 0.6);
+    const plotHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+
+    return (
+        <View>
+            <Svg width={width} height={height}>
+                {/* Baseline */}
+                <Line
+                    x1={0}
+                    x2={width}
+                    y1={VALUE_HEIGHT + plotHeight}
+                    y2={VALUE_HEIGHT + plotHeight}
+                    stroke={theme.chipBackground}
+                    strokeWidth={1}
+                />
+
+                {buckets.map((bucket, i) => {
+                    const barHeight = Math.max(bucket.rate * plotHeight, 2);
+                    const x = i * slot + (slot - barWidth) / 2;
+                    const y = VALUE_HEIGHT + plotHeight - barHeight;
+                    const center = i * slot + slot / 2;
+
+                    return (
+                        <React.Fragment key={bucket.key}>
+                            <Rect
+                                x={x}
+                                y={y}
+                                width={barWidth}
+                                height={barHeight}
+                                rx={4}
+                                fill={
+                                    bucket.total
+                                        ? theme.primary
+                                        : theme.chipBackground
+                                }
+                            />
+                            {bucket.total > 0 && (
+                                <SvgText
+                                    x={center}
+                                    y={y - 4}
+                                    fontSize={10}
+                                    fill={theme.secondaryText}
+                                    textAnchor="middle"
+                                >
+                                    {`${Math.round(bucket.rate * 100)}%`}
+                                </SvgText>
+                            )}
+                            <SvgText
+                                x={center}
+                                y={height - 4}
+                                fontSize={11}
+                                fill={theme.tertiaryText}
+                                textAnchor="middle"
+                            >
+                                {bucket.label}
+                            </SvgText>
+                        </React.Fragment>
+                    );
+                })}
+            </Svg>
+        </View>
+    );
+}
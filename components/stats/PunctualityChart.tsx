@@ -0,0 +1,141 @@
+/**
+ * File: PunctualityChart.tsx
+ * Description: SVG donut comparing tasks completed on time with late ones.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import Svg, { Circle, G } from "react-native-svg";
+import { useTheme } from "@/hooks/useTheme";
+import { Punctuality } from "@/features/stats/statsSelectors";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    punctuality: Punctuality;
+    size?: number; // Donut diameter in px
+};
+
+const STROKE = 14;
+
+// ─────────────────────────────────────────────
+// 🔸 Component: PunctualityChart
+// ─────────────────────────────────────────────
+
+export default function PunctualityChart({ punctuality, size = 120 }: Props) {
+    const theme = useTheme();
+    const { onTime, late } = punctuality;
+    const total = onTime + late;
+
+    const radius = (size - STROKE) / 2;
+    const circumference = 2 * Math.PI * radius;
+    const onTimeLength = total ? (onTime / total) * circumference : 0;
+
+    return (
+        <View style={styles.container}>
+            <Svg width={size} height={size}>
+                <G rotation={-90} origin={`${size / 2}, ${size / 2}`}>
+                    {/* Late share fills the ring, on-time share is drawn on top */}
+                    <Circle
+                        cx={size / 2}
+                        cy={size / 2}
+                        r={radius}
+                        stroke={total ? theme.danger : theme.chipBackground}
+                        strokeWidth={STROKE}
+                        fill="none"
+                    />
+                    {onTimeLength > 0 && (
+                        <Circle
+                            cx={size / 2}
+                            cy={size / 2}
+                            r={radius}
+                            stroke={theme.success}
+                            strokeWidth={STROKE}
+                            strokeDasharray={`${onTimeLength} ${circumference}`}
+                            fill="none"
+                        />
+                    )}
+                </G>
+            </Svg>
+
+            <View style={styles.legend}>
+                <LegendRow color={theme.success} label="On time" value={onTime} />
+                <LegendRow color={theme.danger} label="Late" value={late} />
+                {total === 0 && (
+                    <Text style={[styles.hint, { color: theme.tertiaryText }]}>
+                        Complete tasks to see how punctual you are.
+                    </Text>
+                )}
+            </View>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🔸 Legend row
+// ─────────────────────────────────────────────
+
+function LegendRow({
+    color,
+    label,
+    value
+}: {
+    color: string;
+    label: string;
+    value: number;
+}) {
+    const theme = useTheme();
+    return (
+        <View style={styles.legendRow}>
+            <View style={[styles.swatch, { backgroundColor: color }]} />
+            <Text style={[styles.legendLabel, { color: theme.text }]}>
+                {label}
+            </Text>
+            <Text style={[styles.legendValue, { color: theme.secondaryText }]}>
+                {value}
+            </Text>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 20
+    },
+    legend: {
+        flex: 1,
+        gap: 8
+    },
+    legendRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8
+    },
+    swatch: {
+        width: 10,
+        height: 10,
+        borderRadius: 5
+    },
+    legendLabel: {
+        flex: 1,
+        fontSize: 14
+    },
+    legendValue: {
+        fontSize: 14,
+        fontWeight: "600"
+    },
+    hint: {
+        fontSize: 12
+    }
+});
@@ -0,0 +1,116 @@
+/**
+ * File: SubjectTimeChart.tsx
+ * Description: Horizontal SVG bars comparing tracked time with the estimate
+ * for each subject. Bars share one scale so subjects can be compared.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, StyleSheet, useWindowDimensions } from "react-native";
+import Svg, { Rect } from "react-native-svg";
+import { useTheme } from "@/hooks/useTheme";
+import { formatMinutes, SubjectTime } from "@/features/todo/timeTracking";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    subjects: SubjectTime[]; // Rows in display order
+    labelFor: (subjectId: string) => string; // Display name of a subject
+};
+
+const BAR_HEIGHT = 10;
+
+// ─────────────────────────────────────────────
+// 🔸 Component: SubjectTimeChart
+// ─────────────────────────────────────────────
+
+export default function SubjectTimeChart({ subjects, labelFor }: Props) {
+    const theme = useTheme();
+    const { width: windowWidth } = useWindowDimensions();
+    const width = windowWidth - 64; // Screen and card padding
+
+    if (subjects.length === 0) {
+        return (
+            <Text style={[styles.empty, { color: theme.tertiaryText }]}>
+                No time estimated or tracked in this period.
+            </Text>
+        );
+    }
+
+    const scale = Math.max(
+        ...subjects.map(s => Math.max(s.actual, s.estimated)),
+        1
+    );
+
+    return (
+        <View>
+            {subjects.map(row => {
+                const over = row.estimated > 0 && row.actual > row.estimated;
+                return (
+                    <View key={row.subjectId} style={styles.row}>
+                        <View style={styles.labelRow}>
+                            <Text style={[styles.label, { color: theme.text }]}>
+                                {labelFor(row.subjectId)}
+                            </Text>
+                            <Text
+                                style={[
+                                    styles.count,
+                                    { color: over ? theme.danger : theme.tertiaryText }
+                                ]}
+                            >
+                                {formatMinutes(row.actual)} /{" "}
+                                {row.estimated > 0
+                                    ? formatMinutes(row.estimated)
+                                    : "–"}
+                            </Text>
+                        </View>
+                        <Svg width={width} height={BAR_HEIGHT}>
+                            {/* Estimate as the track, tracked time on top */}
+                            <Rect
+                                width={width * (row.estimated / scale)}
+                                height={BAR_HEIGHT}
+                                rx={BAR_HEIGHT / 2}
+                                fill={theme.chipBackground}
+                            />
+                            <Rect
+                                width={width * (row.actual / scale)}
+                                height={BAR_HEIGHT}
+                                rx={BAR_HEIGHT / 2}
+                                fill={over ? theme.danger : theme.primary}
+                            />
+                        </Svg>
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    row: {
+        marginBottom: 12
+    },
+    labelRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        marginBottom: 4
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "500"
+    },
+    count: {
+        fontSize: 12
+    },
+    empty: {
+        fontSize: 14
+    }
+});
@@ -0,0 +1,170 @@
+/**
+ * File: AttachmentList.tsx
+ * Description: Lists a task's attachments with an image thumbnail or file icon,
+ * name and size. Tapping one opens it in another app; in the task modal each
+ * row can also be removed.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, Image, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Toast from "react-native-toast-message";
+import { useTheme } from "@/hooks/useTheme";
+import {
+    Attachment,
+    formatFileSize,
+    isImage
+} from "@/features/attachments/attachments";
+import {
+    attachmentUri,
+    openAttachment
+} from "@/features/attachments/expoAttachmentStore";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    attachments: Attachment[]; // Attachments to show
+    onRemove?: (id: string) => void; // Shows a remove button when given
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: AttachmentList
+// ─────────────────────────────────────────────
+
+export default function AttachmentList({ attachments, onRemove }: Props) {
+    const colors = useTheme();
+
+    // Opens the file, explaining when it isn't on this device
+    const handleOpen = async (attachment: Attachment) => {
+        try {
+            await openAttachment(attachment);
+        } catch (error: any) {
+            Toast.show({
+                type: "error",
+                text1: `Could not open ${attachment.name}`,
+                text2: error?.message,
+                position: "bottom"
+            });
+        }
+    };
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render
+    // ─────────────────────────────────────────────
+    return (
+        <View style={styles.list}>
+            {attachments.map(attachment => (
+                <Pressable
+                    key={attachment.id}
+                    onPress={() => handleOpen(attachment)}
+                    style={({ pressed }) => [
+                        styles.row,
+                        { backgroundColor: colors.inputBackground },
+                        pressed && styles.pressed
+                    ]}
+                    accessibilityLabel={`Open ${attachment.name}`}
+                >
+                    {isImage(attachment) ? (
+                        <Image
+                            source={{ uri: attachmentUri(attachment.path) }}
+                            style={[
+                                styles.preview,
+                                { backgroundColor: colors.chipBackground }
+                            ]}
+                        />
+                    ) : (
+                        <View
+                            style={[
+                                styles.preview,
+                                styles.icon,
+                                { backgroundColor: colors.chipBackground }
+                            ]}
+                        >
+                            <Ionicons
+                                name={
+                                    attachment.mimeType === "application/pdf"
+                                        ? "document-text-outline"
+                                        : "document-outline"
+                                }
+                                size={20}
+                                color={colors.secondaryText}
+                            />
+                        </View>
+                    )}
+
+                    <View style={styles.info}>
+                        <Text
+                            style={[styles.name, { color: colors.text }]}
+                            numberOfLines={1}
+                        >
+                            {attachment.name}
+                        </Text>
+                        <Text
+                            style={[styles.size, { color: colors.tertiaryText }]}
+                        >
+                            {formatFileSize(attachment.size)}
+                        </Text>
+                    </View>
+
+                    {onRemove && (
+                        <Pressable
+                            onPress={() => onRemove(attachment.id)}
+                            hitSlop={8}
+                            accessibilityLabel={`Remove ${attachment.name}`}
+                        >
+                            <Ionicons
+                                name="close"
+                                size={18}
+                                color={colors.tertiaryText}
+                            />
+                        </Pressable>
+                    )}
+                </Pressable>
+            ))}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    list: {
+        gap: 6
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10,
+        borderRadius: 10,
+        padding: 6
+    },
+    pressed: {
+        opacity: 0.6
+    },
+    preview: {
+        width: 40,
+        height: 40,
+        borderRadius: 6
+    },
+    icon: {
+        alignItems: "center",
+        justifyContent: "center"
+    },
+    info: {
+        flex: 1
+    },
+    name: {
+        fontSize: 14,
+        fontWeight: "500"
+    },
+    size: {
+        fontSize: 12
+    }
+});
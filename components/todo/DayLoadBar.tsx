@@ -0,0 +1,133 @@
+/**
+ * File: DayLoadBar.tsx
+ * Description: Summary above the task list showing the selected day's planned
+ * load (sum of estimates) against tracked time, flagging over-scheduled days.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppSelector } from "@/store/hooks";
+import { Task } from "@/features/todo/todoSlice";
+import {
+    DAILY_CAPACITY_MINUTES,
+    formatMinutes,
+    getDayLoad,
+    isOverScheduled
+} from "@/features/todo/timeTracking";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    dayTasks: Task[]; // Tasks and occurrences due on the selected day
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: DayLoadBar
+// ─────────────────────────────────────────────
+
+export default function DayLoadBar({ dayTasks }: Props) {
+    const theme = useTheme();
+    const sessions = useAppSelector(state => state.sessions.sessions);
+    const load = useMemo(
+        () => getDayLoad(dayTasks, sessions),
+        [dayTasks, sessions]
+    );
+
+    // Nothing to show until something is estimated or tracked
+    if (load.planned === 0 && load.tracked === 0) return null;
+
+    const overloaded = isOverScheduled(load);
+    const accent = overloaded ? theme.danger : theme.secondaryText;
+    const fill = Math.min(load.planned / DAILY_CAPACITY_MINUTES, 1) * 100;
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.card }]}>
+            <View style={styles.row}>
+                <Ionicons
+                    name={overloaded ? "warning-outline" : "hourglass-outline"}
+                    size={16}
+                    color={accent}
+                />
+                <Text style={[styles.title, { color: accent }]}>
+                    Planned {formatMinutes(load.planned)}
+                    {overloaded &&
+                        ` · over ${formatMinutes(DAILY_CAPACITY_MINUTES)}`}
+                </Text>
+                <Text style={[styles.detail, { color: theme.tertiaryText }]}>
+                    {formatMinutes(load.remaining)} left ·{" "}
+                    {formatMinutes(load.tracked)} tracked
+                </Text>
+            </View>
+
+            <View
+                style={[styles.track, { backgroundColor: theme.chipBackground }]}
+            >
+                <View
+                    style={[
+                        styles.fill,
+                        {
+                            width: `${fill}%`,
+                            backgroundColor: overloaded
+                                ? theme.danger
+                                : theme.primary
+                        }
+                    ]}
+                />
+            </View>
+
+            {load.unestimated > 0 && (
+                <Text style={[styles.hint, { color: theme.tertiaryText }]}>
+                    {load.unestimated} task{load.unestimated === 1 ? "" : "s"}{" "}
+                    without an estimate
+                </Text>
+            )}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        padding: 12,
+        marginHorizontal: 16,
+        marginTop: 8,
+        borderRadius: 10
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 6
+    },
+    title: {
+        fontSize: 14,
+        fontWeight: "600",
+        flex: 1
+    },
+    detail: {
+        fontSize: 12
+    },
+    track: {
+        height: 6,
+        borderRadius: 3,
+        marginTop: 8,
+        overflow: "hidden"
+    },
+    fill: {
+        height: 6,
+        borderRadius: 3
+    },
+    hint: {
+        fontSize: 11,
+        marginTop: 6
+    }
+});
@@ -1,6 +1,6 @@
 /**
  * File: FilterPanel.tsx
- * Description: Animated filter section for Priority, Subject, and Status.
+ * Description: Animated filter section for Priority, Subject, Status, and Tags.
  * Props allow parent control of filters and panel animation.
  *
  * Author: BrainDesk Team
@@ -17,14 +17,21 @@ import {
 } from "react-native";
 import { useTheme } from "@/hooks/useTheme";
 import { useAppSelector } from "@/store/hooks";
+import { activeSubjects } from "@/features/settings/subjects";
+import { sortPriorities } from "@/features/settings/priorities";
+import { collectTags, TagMatch } from "@/features/todo/tags";
 
 interface FilterPanelProps {
-  filterPriority: string;
+  filterPriority: string; // "All" or a priority level ID
   setFilterPriority: (val: string) => void;
-  filterSubject: string;
+  filterSubject: string; // "All" or a subject ID
   setFilterSubject: (val: string) => void;
   filterStatus: string;
   setFilterStatus: (val: string) => void;
+  filterTags: string[]; // Selected tags; empty shows every task
+  setFilterTags: (val: string[]) => void;
+  tagMatch: TagMatch; // Whether a task needs any or all selected tags
+  setTagMatch: (val: TagMatch) => void;
   heightAnim: Animated.Value;
 }
 
@@ -34,7 +41,7 @@ interface FilterPanelProps {
 
 /**
  * Renders a collapsible animated panel with filter chips.
- * Categories: Priority, Subject (dynamic), Status.
+ * Categories: Priority (dynamic), Subject (dynamic), Status, Tags (multi-select).
  * Controlled externally via props.
  */
 export default function FilterPanel({
@@ -44,10 +51,21 @@ export default function FilterPanel({
   setFilterSubject,
   filterStatus,
   setFilterStatus,
+  filterTags,
+  setFilterTags,
+  tagMatch,
+  setTagMatch,
   heightAnim
 }: FilterPanelProps) {
   const theme = useTheme();
   const subjects = useAppSelector(state => state.settings.subjects);
+  const priorities = useAppSelector(state => state.settings.priorities);
+  const tags = collectTags(useAppSelector(state => state.todo.tasks));
+
+  const toggleTag = (tag: string) =>
+    setFilterTags(
+      filterTags.includes(tag) ? filterTags.filter(t => t !== tag) : [...filterTags, tag]
+    );
 
   return (
     <Animated.View style={[styles.animatedWrapper, { height: heightAnim }]}>
@@ -57,27 +75,30 @@ export default function FilterPanel({
           Priority
         </Text>
         <View style={styles.filterRow}>
-          {["All", "High", "Medium", "Low"].map(p => (
+          {[
+            { id: "All", name: "All", color: theme.primary },
+            ...sortPriorities(priorities)
+          ].map(level => (
             <Pressable
-              key={p}
-              onPress={() => setFilterPriority(p)}
+              key={level.id}
+              onPress={() => setFilterPriority(level.id)}
               style={[
                 styles.chip,
                 { backgroundColor: theme.chipBackground },
-                filterPriority === p && { backgroundColor: theme.primary }
+                filterPriority === level.id && { backgroundColor: level.color }
               ]}
             >
               <Text
                 style={[
                   styles.chipText,
                   { color: theme.secondaryText },
-                  filterPriority === p && {
+                  filterPriority === level.id && {
                     color: "#fff",
                     fontWeight: "600"
                   }
                 ]}
               >
-                {p}
+                {level.name}
               </Text>
             </Pressable>
           ))}
@@ -88,27 +109,30 @@ export default function FilterPanel({
           Subject
         </Text>
         <View style={styles.filterRow}>
-          {["All", ...subjects].map(subject => (
+          {[
+            { id: "All", name: "All", color: theme.primary },
+            ...activeSubjects(subjects)
+          ].map(subject => (
             <Pressable
-              key={subject}
-              onPress={() => setFilterSubject(subject)}
+              key={subject.id}
+              onPress={() => setFilterSubject(subject.id)}
               style={[
                 styles.chip,
                 { backgroundColor: theme.chipBackground },
-                filterSubject === subject && { backgroundColor: theme.primary }
+                filterSubject === subject.id && { backgroundColor: subject.color }
               ]}
             >
               <Text
                 style={[
                   styles.chipText,
                   { color: theme.secondaryText },
-                  filterSubject === subject && {
+                  filterSubject === subject.id && {
                     color: "#fff",
                     fontWeight: "600"
                   }
                 ]}
               >
-                {subject}
+                {subject.name}
               </Text>
             </Pressable>
           ))}
@@ -144,6 +168,51 @@ export default function FilterPanel({
             </Pressable>
           ))}
         </View>
+
+        {/* Tag Filter: several tags can be selected */}
+        {tags.length > 0 && (
+          <>
+            <View style={styles.labelRow}>
+              <Text style={[styles.filterLabel, { color: theme.secondaryText }]}>
+                Tags
+              </Text>
+              <Pressable
+                onPress={() => setTagMatch(tagMatch === "any" ? "all" : "any")}
+                hitSlop={6}
+              >
+                <Text style={[styles.matchText, { color: theme.primary }]}>
+                  Match {tagMatch}
+                </Text>
+              </Pressable>
+            </View>
+            <View style={styles.filterRow}>
+              {tags.map(({ tag }) => (
+                <Pressable
+                  key={tag}
+                  onPress={() => toggleTag(tag)}
+                  style={[
+                    styles.chip,
+                    { backgroundColor: theme.chipBackground },
+                    filterTags.includes(tag) && { backgroundColor: theme.primary }
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: theme.secondaryText },
+                      filterTags.includes(tag) && {
+                        color: "#fff",
+                        fontWeight: "600"
+                      }
+                    ]}
+                  >
+                    #{tag}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </>
+        )}
       </View>
     </Animated.View>
   );
@@ -167,6 +236,16 @@ const styles = StyleSheet.create({
     marginTop: 12,
     marginBottom: 6
   },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end"
+  },
+  matchText: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 6
+  },
   filterRow: {
     flexDirection: "row",
     flexWrap: "wrap",
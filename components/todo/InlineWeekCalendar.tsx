@@ -1,7 +1,8 @@
 /**
  * File: InlineWeekCalendar.tsx
  * Description: Horizontal scrollable week-view calendar with "Today" jump button.
- * Dynamically loads past/future weeks as the user scrolls.
+ * Dynamically loads past/future weeks as the user scrolls and marks days with pending tasks
+ * and days where the daily goal was met.
  *
  * Author: BrainDesk Team
  * Last Updated: 2025-07-11
@@ -19,6 +20,10 @@ import {
 import dayjs from "dayjs";
 import isoWeek from "dayjs/plugin/isoWeek";
 import { useTheme } from "@/hooks/useTheme";
+import { useAppSelector } from "@/store/hooks";
+import { expandTasksForDay } from "@/features/todo/recurrence";
+import { isGoalMet } from "@/features/stats/streaks";
+import { useDailyActivity } from "@/hooks/useDailyActivity";
 
 // Extend dayjs to support ISO week handling (weeks starting from Monday)
 dayjs.extend(isoWeek);
@@ -43,6 +48,14 @@ export default function InlineWeekCalendar({ selectedDate, onSelectDate }: Props
     const theme = useTheme();
     const today = dayjs();
     const todayStr = today.format("YYYY-MM-DD");
+    const tasks = useAppSelector(state => state.todo.tasks);
+
+    // Days with pending work (including series occurrences) get a dot
+    const hasPendingTasks = (date: string) =>
+        expandTasksForDay(tasks, date).some(t => !t.completed);
+
+    // Days that reached the daily goal get a green dot
+    const { activity, goal } = useDailyActivity();
 
     const [weeks, setWeeks] = useState<dayjs.Dayjs[][]>([]);
     const [showTodayButton, setShowTodayButton] = useState(false);
@@ -191,6 +204,26 @@ export default function InlineWeekCalendar({ selectedDate, onSelectDate }: Props
                                 >
                                     {day.date()}
                                 </Text>
+                                <View style={styles.dotRow}>
+                                    <View
+                                        style={[
+                                            styles.taskDot,
+                                            hasPendingTasks(dayStr) && {
+                                                backgroundColor: isSelected
+                                                    ? "#fff"
+                                                    : theme.primary
+                                            }
+                                        ]}
+                                    />
+                                    {isGoalMet(activity[dayStr], goal) && (
+                                        <View
+                                            style={[
+                                                styles.taskDot,
+                                                { backgroundColor: theme.success }
+                                            ]}
+                                        />
+                                    )}
+                                </View>
                             </Pressable>
                         );
                     })}
@@ -277,6 +310,17 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: "500"
     },
+    dotRow: {
+        flexDirection: "row",
+        gap: 3
+    },
+    taskDot: {
+        width: 5,
+        height: 5,
+        borderRadius: 3,
+        marginTop: 3,
+        backgroundColor: "transparent"
+    },
     monthLabel: {
         textAlign: "center",
         fontSize: 14,
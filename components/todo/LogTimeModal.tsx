@@ -0,0 +1,223 @@
+/**
+ * File: LogTimeModal.tsx
+ * Description: Modal for logging time against a task by hand and reviewing
+ * its estimate, manual entries and focus sessions.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useMemo } from "react";
+import {
+    Modal,
+    View,
+    Text,
+    TouchableOpacity,
+    StyleSheet,
+    Pressable
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import dayjs from "dayjs";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { deleteTimeEntry, logTime, Task } from "@/features/todo/todoSlice";
+import { formatMinutes, getActualMinutes } from "@/features/todo/timeTracking";
+
+// Quick amounts offered for manual logging (minutes)
+const QUICK_AMOUNTS = [5, 15, 30, 60];
+
+// ─────────────────────────────────────────────
+// 🔸 Types
+// ─────────────────────────────────────────────
+
+type Props = {
+    visible: boolean; // Whether the modal is shown
+    task: Task; // Task (for a series, the occurrence being shown)
+    onClose: () => void; // Called on close or outside tap
+};
+
+// ─────────────────────────────────────────────
+// 🔹 Component
+// ─────────────────────────────────────────────
+
+export default function LogTimeModal({ visible, task, onClose }: Props) {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const sessions = useAppSelector(state => state.sessions.sessions);
+
+    const actual = useMemo(
+        () => getActualMinutes(task, sessions, task.dueDate),
+        [task, sessions]
+    );
+
+    // Series show only entries logged on the occurrence day
+    const entries = (task.timeEntries ?? []).filter(
+        e =>
+            !task.recurrence ||
+            dayjs(e.loggedAt).format("YYYY-MM-DD") === task.dueDate
+    );
+
+    // Time logged for a past or future occurrence lands on that day
+    const loggedAtFor = () => {
+        const today = dayjs().format("YYYY-MM-DD");
+        return task.recurrence && task.dueDate !== today
+            ? dayjs(`${task.dueDate} 12:00`).toISOString()
+            : undefined;
+    };
+
+    const handleLog = (minutes: number) => {
+        Haptics.selectionAsync();
+        dispatch(logTime({ taskId: task.id, minutes, loggedAt: loggedAtFor() }));
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <Pressable
+                style={[styles.overlay, { backgroundColor: theme.overlay }]}
+                onPress={onClose}
+            >
+                <Pressable
+                    style={[styles.container, { backgroundColor: theme.card }]}
+                >
+                    <Text style={[styles.title, { color: theme.text }]}>
+                        {task.text}
+                    </Text>
+                    <Text style={[styles.summary, { color: theme.secondaryText }]}>
+                        {formatMinutes(actual)} tracked
+                        {task.estimateMinutes
+                            ? ` of ${formatMinutes(task.estimateMinutes)} estimated`
+                            : " · no estimate"}
+                    </Text>
+
+                    {/* Quick add */}
+                    <View style={styles.chipRow}>
+                        {QUICK_AMOUNTS.map(minutes => (
+                            <TouchableOpacity
+                                key={minutes}
+                                onPress={() => handleLog(minutes)}
+                                style={[
+                                    styles.chip,
+                                    { backgroundColor: theme.chipBackground }
+                                ]}
+                            >
+                                <Text
+                                    style={[styles.chipText, { color: theme.text }]}
+                                >
+                                    +{formatMinutes(minutes)}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    {/* Manual entries */}
+                    {entries.map(entry => (
+                        <View key={entry.id} style={styles.entryRow}>
+                            <Text
+                                style={[
+                                    styles.entryText,
+                                    { color: theme.secondaryText }
+                                ]}
+                            >
+                                {formatMinutes(entry.minutes)} ·{" "}
+                                {dayjs(entry.loggedAt).format("MMM D, h:mm A")}
+                            </Text>
+                            <Pressable
+                                onPress={() =>
+                                    dispatch(
+                                        deleteTimeEntry({
+                                            taskId: task.id,
+                                            entryId: entry.id
+                                        })
+                                    )
+                                }
+                                hitSlop={8}
+                                accessibilityLabel="Remove time entry"
+                            >
+                                <Ionicons
+                                    name="close"
+                                    size={16}
+                                    color={theme.tertiaryText}
+                                />
+                            </Pressable>
+                        </View>
+                    ))}
+
+                    <TouchableOpacity onPress={onClose} style={styles.done}>
+                        <Text style={[styles.doneText, { color: theme.primary }]}>
+                            Done
+                        </Text>
+                    </TouchableOpacity>
+                </Pressable>
+            </Pressable>
+        </Modal>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: 24
+    },
+    container: {
+        width: "100%",
+        maxWidth: 400,
+        padding: 24,
+        borderRadius: 24,
+        elevation: 6
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "600",
+        textAlign: "center"
+    },
+    summary: {
+        fontSize: 14,
+        textAlign: "center",
+        marginTop: 4,
+        marginBottom: 16
+    },
+    chipRow: {
+        flexDirection: "row",
+        justifyContent: "center",
+        gap: 8,
+        marginBottom: 12
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: "600"
+    },
+    entryRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 6
+    },
+    entryText: {
+        fontSize: 14
+    },
+    done: {
+        alignItems: "center",
+        paddingTop: 12
+    },
+    doneText: {
+        fontSize: 15,
+        fontWeight: "600"
+    }
+});
@@ -0,0 +1,215 @@
+/**
+ * File: NotesView.tsx
+ * Description: Renders a task's Markdown notes (see `layoutNotes`) with themed
+ * Text components. Links open in the browser or mail app; a toast explains
+ * when no app can open one.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, Linking, Platform } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Toast from "react-native-toast-message";
+import { useTheme } from "@/hooks/useTheme";
+import { layoutNotes, TextRun } from "@/features/todo/notes";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    notes: string; // Markdown notes as typed
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: NotesView
+// ─────────────────────────────────────────────
+
+export default function NotesView({ notes }: Props) {
+    const colors = useTheme();
+    const blocks = useMemo(() => layoutNotes(notes), [notes]);
+
+    // Opens a link, explaining when no app on the device handles it
+    const handleOpenLink = async (href: string) => {
+        try {
+            await Linking.openURL(href);
+        } catch {
+            Toast.show({
+                type: "error",
+                text1: "Could not open link",
+                text2: href,
+                position: "bottom"
+            });
+        }
+    };
+
+    /**
+     * Renders runs as nested Text so they wrap as one paragraph; only runs
+     * inside a link are tappable.
+     */
+    const renderRuns = (runs: TextRun[]): React.ReactNode =>
+        runs.map((run, index) => (
+            <Text
+                key={index}
+                style={[
+                    run.bold && styles.bold,
+                    run.italic && styles.italic,
+                    run.code && [
+                        styles.code,
+                        { backgroundColor: colors.chipBackground }
+                    ],
+                    run.href !== null && [styles.link, { color: colors.primary }]
+                ]}
+                onPress={run.href !== null ? () => handleOpenLink(run.href!) : undefined}
+                accessibilityRole={run.href !== null ? "link" : undefined}
+            >
+                {run.text}
+            </Text>
+        ));
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render
+    // ─────────────────────────────────────────────
+    return (
+        <View style={styles.container}>
+            {blocks.map((block, index) => {
+                if (block.type === "heading") {
+                    return (
+                        <Text
+                            key={index}
+                            style={[
+                                styles.heading,
+                                styles[`h${block.level}`],
+                                { color: colors.text }
+                            ]}
+                        >
+                            {renderRuns(block.runs)}
+                        </Text>
+                    );
+                }
+
+                if (block.type === "paragraph") {
+                    return (
+                        <Text
+                            key={index}
+                            style={[styles.text, { color: colors.secondaryText }]}
+                        >
+                            {renderRuns(block.runs)}
+                        </Text>
+                    );
+                }
+
+                return (
+                    <View key={index}>
+                        {block.items.map((item, itemIndex) => (
+                            <View
+                                key={itemIndex}
+                                style={[
+                                    styles.item,
+                                    { paddingLeft: item.depth * 16 }
+                                ]}
+                            >
+                                {item.marker.type === "checkbox" ? (
+                                    <Ionicons
+                                        name={
+                                            item.marker.checked
+                                                ? "checkbox"
+                                                : "square-outline"
+                                        }
+                                        size={15}
+                                        color={
+                                            item.marker.checked
+                                                ? colors.success
+                                                : colors.tertiaryText
+                                        }
+                                        style={styles.checkbox}
+                                    />
+                                ) : (
+                                    <Text
+                                        style={[
+                                            styles.marker,
+                                            { color: colors.tertiaryText }
+                                        ]}
+                                    >
+                                        {item.marker.text}
+                                    </Text>
+                                )}
+                                <Text
+                                    style={[
+                                        styles.text,
+                                        styles.itemText,
+                                        { color: colors.secondaryText },
+                                        item.done && styles.checkedText
+                                    ]}
+                                >
+                                    {renderRuns(item.runs)}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 6
+    },
+    heading: {
+        fontWeight: "700"
+    },
+    h1: {
+        fontSize: 17
+    },
+    h2: {
+        fontSize: 15
+    },
+    h3: {
+        fontSize: 14
+    },
+    text: {
+        fontSize: 14,
+        lineHeight: 20
+    },
+    bold: {
+        fontWeight: "700"
+    },
+    italic: {
+        fontStyle: "italic"
+    },
+    code: {
+        fontFamily: Platform.select({ ios: "Menlo", default: "monospace" }),
+        fontSize: 13
+    },
+    link: {
+        textDecorationLine: "underline"
+    },
+    item: {
+        flexDirection: "row",
+        alignItems: "flex-start",
+        gap: 6
+    },
+    marker: {
+        fontSize: 14,
+        lineHeight: 20,
+        minWidth: 14
+    },
+    checkbox: {
+        marginTop: 2
+    },
+    itemText: {
+        flex: 1
+    },
+    checkedText: {
+        textDecorationLine: "line-through",
+        opacity: 0.6
+    }
+});
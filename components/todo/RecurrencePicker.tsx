@@ -0,0 +1,328 @@
+/**
+ * File: RecurrencePicker.tsx
+ * Description: Repeat-rule editor used inside the task modal.
+ * Lets the user pick a frequency, its parameters and an optional end (date or count).
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import DateTimePicker, {
+    DateTimePickerEvent
+} from "@react-native-community/datetimepicker";
+import dayjs from "dayjs";
+import { useTheme } from "@/hooks/useTheme";
+import {
+    RecurrenceFrequency,
+    RecurrenceRule
+} from "@/features/todo/recurrence";
+
+// ─────────────────────────────────────────────
+// 🔸 Constants
+// ─────────────────────────────────────────────
+
+const FREQUENCY_OPTIONS: { label: string; value: RecurrenceFrequency | null }[] = [
+    { label: "Never", value: null },
+    { label: "Daily", value: "daily" },
+    { label: "Weekdays", value: "weekdays" },
+    { label: "Weekly", value: "weekly" },
+    { label: "Every N days", value: "interval" },
+    { label: "Monthly", value: "monthly" }
+];
+
+const WEEKDAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+type EndMode = "never" | "date" | "count";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    value: RecurrenceRule | null; // Current rule, null for a one-off task
+    onChange: (rule: RecurrenceRule | null) => void; // Update rule
+    startDate: string; // Series start ("YYYY-MM-DD"), used for defaults
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: RecurrencePicker
+// ─────────────────────────────────────────────
+
+export default function RecurrencePicker({ value, onChange, startDate }: Props) {
+    const colors = useTheme();
+    const [showEndPicker, setShowEndPicker] = useState(false);
+
+    const endMode: EndMode = value?.endDate
+        ? "date"
+        : value?.count
+          ? "count"
+          : "never";
+
+    /**
+     * Switches frequency, seeding its parameters from the start date.
+     */
+    const selectFrequency = (frequency: RecurrenceFrequency | null) => {
+        if (!frequency) {
+            onChange(null);
+            return;
+        }
+
+        const start = dayjs(startDate);
+        const base: RecurrenceRule = {
+            frequency,
+            endDate: value?.endDate ?? null,
+            count: value?.count ?? null
+        };
+
+        if (frequency === "weekly") base.weekdays = [start.day()];
+        if (frequency === "interval") base.interval = 2;
+        if (frequency === "monthly") base.dayOfMonth = start.date();
+
+        onChange(base);
+    };
+
+    // Toggle a weekday, keeping at least one selected
+    const toggleWeekday = (day: number) => {
+        if (!value) return;
+        const current = value.weekdays ?? [];
+        const next = current.includes(day)
+            ? current.filter(d => d !== day)
+            : [...current, day].sort();
+        if (next.length > 0) onChange({ ...value, weekdays: next });
+    };
+
+    // Parse a numeric field, ignoring anything that is not a positive integer
+    const updateNumber = (
+        field: "interval" | "dayOfMonth" | "count",
+        text: string,
+        max = Infinity
+    ) => {
+        if (!value) return;
+        const n = parseInt(text, 10);
+        if (Number.isNaN(n) || n < 1) return;
+        onChange({ ...value, [field]: Math.min(n, max) });
+    };
+
+    const selectEndMode = (mode: EndMode) => {
+        if (!value) return;
+        if (mode === "never") {
+            onChange({ ...value, endDate: null, count: null });
+        } else if (mode === "count") {
+            onChange({ ...value, endDate: null, count: value.count ?? 10 });
+        } else {
+            setShowEndPicker(true);
+        }
+    };
+
+    const handleEndDate = (event: DateTimePickerEvent, date?: Date) => {
+        setShowEndPicker(false);
+        if (event.type !== "set" || !date || !value) return;
+        onChange({
+            ...value,
+            endDate: dayjs(date).format("YYYY-MM-DD"),
+            count: null
+        });
+    };
+
+    // Shared chip renderer so every row looks the same
+    const renderChip = (
+        key: string,
+        label: string,
+        selected: boolean,
+        onPress: () => void
+    ) => (
+        <Pressable
+            key={key}
+            style={[
+                styles.chip,
+                { backgroundColor: colors.chipBackground },
+                selected && { backgroundColor: colors.primary }
+            ]}
+            onPress={onPress}
+        >
+            <Text
+                style={[
+                    styles.chipText,
+                    { color: colors.secondaryText },
+                    selected && styles.selectedChipText
+                ]}
+            >
+                {label}
+            </Text>
+        </Pressable>
+    );
+
+    const inputStyle = [
+        styles.numberInput,
+        { backgroundColor: colors.inputBackground, color: colors.text }
+    ];
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render
+    // ─────────────────────────────────────────────
+    return (
+        <View>
+            <Text style={[styles.label, { color: colors.secondaryText }]}>
+                Repeat
+            </Text>
+            <View style={styles.chipRow}>
+                {FREQUENCY_OPTIONS.map(option =>
+                    renderChip(
+                        option.label,
+                        option.label,
+                        (value?.frequency ?? null) === option.value,
+                        () => selectFrequency(option.value)
+                    )
+                )}
+            </View>
+
+            {/* Frequency parameters */}
+            {value?.frequency === "weekly" && (
+                <View style={styles.chipRow}>
+                    {WEEKDAY_INITIALS.map((initial, day) =>
+                        renderChip(
+                            `wd-${day}`,
+                            initial,
+                            !!value.weekdays?.includes(day),
+                            () => toggleWeekday(day)
+                        )
+                    )}
+                </View>
+            )}
+
+            {value?.frequency === "interval" && (
+                <View style={styles.inlineRow}>
+                    <Text style={{ color: colors.secondaryText }}>Every</Text>
+                    <TextInput
+                        style={inputStyle}
+                        keyboardType="number-pad"
+                        defaultValue={String(value.interval ?? 2)}
+                        onChangeText={t => updateNumber("interval", t)}
+                    />
+                    <Text style={{ color: colors.secondaryText }}>days</Text>
+                </View>
+            )}
+
+            {value?.frequency === "monthly" && (
+                <View style={styles.inlineRow}>
+                    <Text style={{ color: colors.secondaryText }}>On day</Text>
+                    <TextInput
+                        style={inputStyle}
+                        keyboardType="number-pad"
+                        defaultValue={String(value.dayOfMonth ?? 1)}
+                        onChangeText={t => updateNumber("dayOfMonth", t, 31)}
+                    />
+                </View>
+            )}
+
+            {/* End condition */}
+            {value && (
+                <>
+                    <Text
+                        style={[
+                            styles.label,
+                            { color: colors.secondaryText, marginTop: 8 }
+                        ]}
+                    >
+                        Ends
+                    </Text>
+                    <View style={styles.chipRow}>
+                        {renderChip("never", "Never", endMode === "never", () =>
+                            selectEndMode("never")
+                        )}
+                        {renderChip(
+                            "date",
+                            value.endDate
+                                ? `On ${dayjs(value.endDate).format("MMM D")}`
+                                : "On date",
+                            endMode === "date",
+                            () => selectEndMode("date")
+                        )}
+                        {renderChip("count", "After…", endMode === "count", () =>
+                            selectEndMode("count")
+                        )}
+                    </View>
+
+                    {endMode === "count" && (
+                        <View style={styles.inlineRow}>
+                            <Text style={{ color: colors.secondaryText }}>
+                                After
+                            </Text>
+                            <TextInput
+                                style={inputStyle}
+                                keyboardType="number-pad"
+                                defaultValue={String(value.count ?? 10)}
+                                onChangeText={t => updateNumber("count", t)}
+                            />
+                            <Text style={{ color: colors.secondaryText }}>
+                                times
+                            </Text>
+                        </View>
+                    )}
+                </>
+            )}
+
+            {showEndPicker && (
+                <DateTimePicker
+                    value={dayjs(value?.endDate ?? startDate).toDate()}
+                    minimumDate={dayjs(startDate).toDate()}
+                    mode="date"
+                    display="default"
+                    onChange={handleEndDate}
+                />
+            )}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    label: {
+        fontSize: 14,
+        fontWeight: "600",
+        marginBottom: 6,
+        marginTop: 16
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8,
+        marginBottom: 8
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 20,
+        minWidth: 40,
+        alignItems: "center",
+        alignSelf: "flex-start"
+    },
+    chipText: {
+        fontSize: 14,
+        lineHeight: 18,
+        fontWeight: "500"
+    },
+    selectedChipText: {
+        color: "#fff",
+        fontWeight: "600"
+    },
+    inlineRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        marginBottom: 8
+    },
+    numberInput: {
+        width: 56,
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        fontSize: 15,
+        textAlign: "center"
+    }
+});
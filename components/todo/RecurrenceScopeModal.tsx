@@ -0,0 +1,144 @@
+/**
+ * File: RecurrenceScopeModal.tsx
+ * Description: Asks whether a change to a repeating task applies to
+ * "this occurrence" only or to the whole series.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import {
+    Modal,
+    View,
+    Text,
+    TouchableOpacity,
+    StyleSheet,
+    Pressable
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+
+// ─────────────────────────────────────────────
+// 🔸 Types
+// ─────────────────────────────────────────────
+
+export type RecurrenceScope = "occurrence" | "series";
+
+type Props = {
+    visible: boolean; // Whether the modal is shown
+    title: string; // e.g. "Edit repeating task"
+    onSelect: (scope: RecurrenceScope) => void; // Called with the chosen scope
+    onClose: () => void; // Called on cancel or outside tap
+};
+
+// ─────────────────────────────────────────────
+// 🔹 Component
+// ─────────────────────────────────────────────
+
+export default function RecurrenceScopeModal({
+    visible,
+    title,
+    onSelect,
+    onClose
+}: Props) {
+    const theme = useTheme();
+
+    const renderOption = (scope: RecurrenceScope, label: string) => (
+        <TouchableOpacity
+            onPress={() => onSelect(scope)}
+            style={[styles.option, { backgroundColor: theme.chipBackground }]}
+        >
+            <Text style={[styles.optionText, { color: theme.text }]}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onClose}
+        >
+            <Pressable
+                style={[styles.overlay, { backgroundColor: theme.overlay }]}
+                onPress={onClose}
+            >
+                <Pressable
+                    style={[styles.container, { backgroundColor: theme.card }]}
+                >
+                    <View style={styles.iconWrapper}>
+                        <Ionicons name="repeat" size={40} color={theme.primary} />
+                    </View>
+
+                    <Text style={[styles.title, { color: theme.text }]}>
+                        {title}
+                    </Text>
+
+                    {renderOption("occurrence", "This occurrence")}
+                    {renderOption("series", "Whole series")}
+
+                    <TouchableOpacity onPress={onClose} style={styles.cancel}>
+                        <Text
+                            style={[
+                                styles.cancelText,
+                                { color: theme.tertiaryText }
+                            ]}
+                        >
+                            Cancel
+                        </Text>
+                    </TouchableOpacity>
+                </Pressable>
+            </Pressable>
+        </Modal>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: 24
+    },
+    container: {
+        width: "100%",
+        maxWidth: 400,
+        padding: 24,
+        borderRadius: 24,
+        elevation: 6
+    },
+    iconWrapper: {
+        alignItems: "center",
+        marginBottom: 12
+    },
+    title: {
+        fontSize: 20,
+        fontWeight: "600",
+        textAlign: "center",
+        marginBottom: 20
+    },
+    option: {
+        paddingVertical: 12,
+        borderRadius: 12,
+        alignItems: "center",
+        marginBottom: 10
+    },
+    optionText: {
+        fontSize: 15,
+        fontWeight: "600"
+    },
+    cancel: {
+        alignItems: "center",
+        paddingVertical: 8
+    },
+    cancelText: {
+        fontSize: 15
+    }
+});
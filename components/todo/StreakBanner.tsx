@@ -0,0 +1,81 @@
+/**
+ * File: StreakBanner.tsx
+ * Description: Banner above the task list showing the current streak, the
+ * best streak and today's progress towards the daily goal.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useDailyActivity } from "@/hooks/useDailyActivity";
+import { getGoalProgress } from "@/features/stats/streaks";
+
+// ─────────────────────────────────────────────
+// 🔸 Component: StreakBanner
+// ─────────────────────────────────────────────
+
+export default function StreakBanner() {
+    const theme = useTheme();
+    const { activity, streaks, goal, today } = useDailyActivity();
+    const { value, target } = getGoalProgress(activity[today], goal);
+    const unit = goal.type === "tasks" ? "tasks" : "min";
+
+    return (
+        <View style={[styles.container, { backgroundColor: theme.primary + "22" }]}>
+            <Ionicons
+                name={streaks.current > 0 ? "flame" : "flame-outline"}
+                size={22}
+                color={streaks.current > 0 ? "#F59E0B" : theme.tertiaryText}
+            />
+            <View style={styles.body}>
+                <Text style={[styles.title, { color: theme.text }]}>
+                    {streaks.current}-day streak
+                </Text>
+                <Text style={[styles.subtitle, { color: theme.tertiaryText }]}>
+                    Best {streaks.longest} ·{" "}
+                    {streaks.todayMet
+                        ? "Today's goal met"
+                        : `Today ${Math.floor(value)}/${target} ${unit}`}
+                </Text>
+            </View>
+            {streaks.todayMet && (
+                <Ionicons
+                    name="checkmark-circle"
+                    size={22}
+                    color={theme.success}
+                />
+            )}
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 10,
+        padding: 12,
+        marginHorizontal: 16,
+        marginTop: 8,
+        borderRadius: 10
+    },
+    body: {
+        flex: 1
+    },
+    title: {
+        fontSize: 15,
+        fontWeight: "600"
+    },
+    subtitle: {
+        fontSize: 12,
+        marginTop: 2
+    }
+});
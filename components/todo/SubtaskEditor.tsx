@@ -0,0 +1,196 @@
+/**
+ * File: SubtaskEditor.tsx
+ * Description: Checklist editor shown in the task modal.
+ * Supports adding, renaming, checking, reordering and removing steps on a draft list.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { v4 as uuid } from "uuid";
+import { useTheme } from "@/hooks/useTheme";
+import { Subtask } from "@/features/todo/todoSlice";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    subtasks: Subtask[]; // Draft checklist
+    onChange: (subtasks: Subtask[]) => void; // Replace the draft checklist
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: SubtaskEditor
+// ─────────────────────────────────────────────
+
+export default function SubtaskEditor({ subtasks, onChange }: Props) {
+    const colors = useTheme();
+    const [newText, setNewText] = useState("");
+
+    const handleAdd = () => {
+        const text = newText.trim();
+        if (!text) return;
+        onChange([...subtasks, { id: uuid(), text, completed: false }]);
+        setNewText("");
+    };
+
+    const update = (id: string, changes: Partial<Subtask>) =>
+        onChange(subtasks.map(s => (s.id === id ? { ...s, ...changes } : s)));
+
+    const remove = (id: string) => onChange(subtasks.filter(s => s.id !== id));
+
+    // Swap a step with its neighbour; out-of-range moves are ignored
+    const move = (index: number, offset: -1 | 1) => {
+        const target = index + offset;
+        if (target < 0 || target >= subtasks.length) return;
+        const next = [...subtasks];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render
+    // ─────────────────────────────────────────────
+    return (
+        <View>
+            <Text style={[styles.label, { color: colors.secondaryText }]}>
+                Checklist
+            </Text>
+
+            {subtasks.map((subtask, index) => (
+                <View key={subtask.id} style={styles.row}>
+                    <Pressable
+                        onPress={() =>
+                            update(subtask.id, { completed: !subtask.completed })
+                        }
+                        hitSlop={6}
+                    >
+                        <Ionicons
+                            name={
+                                subtask.completed
+                                    ? "checkbox"
+                                    : "square-outline"
+                            }
+                            size={20}
+                            color={
+                                subtask.completed
+                                    ? colors.success
+                                    : colors.tertiaryText
+                            }
+                        />
+                    </Pressable>
+
+                    <TextInput
+                        style={[
+                            styles.input,
+                            { color: colors.text },
+                            subtask.completed && styles.completedText
+                        ]}
+                        value={subtask.text}
+                        onChangeText={text => update(subtask.id, { text })}
+                    />
+
+                    <Pressable
+                        onPress={() => move(index, -1)}
+                        disabled={index === 0}
+                        hitSlop={6}
+                    >
+                        <Ionicons
+                            name="chevron-up"
+                            size={18}
+                            color={
+                                index === 0
+                                    ? colors.chipBackground
+                                    : colors.tertiaryText
+                            }
+                        />
+                    </Pressable>
+                    <Pressable
+                        onPress={() => move(index, 1)}
+                        disabled={index === subtasks.length - 1}
+                        hitSlop={6}
+                    >
+                        <Ionicons
+                            name="chevron-down"
+                            size={18}
+                            color={
+                                index === subtasks.length - 1
+                                    ? colors.chipBackground
+                                    : colors.tertiaryText
+                            }
+                        />
+                    </Pressable>
+                    <Pressable onPress={() => remove(subtask.id)} hitSlop={6}>
+                        <Ionicons
+                            name="close"
+                            size={18}
+                            color={colors.tertiaryText}
+                        />
+                    </Pressable>
+                </View>
+            ))}
+
+            {/* New step input */}
+            <View
+                style={[
+                    styles.addRow,
+                    { backgroundColor: colors.inputBackground }
+                ]}
+            >
+                <TextInput
+                    style={[styles.input, { color: colors.text }]}
+                    placeholder="Add a step"
+                    placeholderTextColor={colors.tertiaryText}
+                    value={newText}
+                    onChangeText={setNewText}
+                    onSubmitEditing={handleAdd}
+                    returnKeyType="done"
+                    blurOnSubmit={false}
+                />
+                <Pressable onPress={handleAdd} hitSlop={6}>
+                    <Ionicons name="add" size={20} color={colors.primary} />
+                </Pressable>
+            </View>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    label: {
+        fontSize: 14,
+        fontWeight: "600",
+        marginBottom: 6,
+        marginTop: 16
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        paddingVertical: 2
+    },
+    input: {
+        flex: 1,
+        fontSize: 15,
+        paddingVertical: 6
+    },
+    completedText: {
+        textDecorationLine: "line-through",
+        opacity: 0.6
+    },
+    addRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        marginTop: 6
+    }
+});
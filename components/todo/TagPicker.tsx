@@ -0,0 +1,156 @@
+/**
+ * File: TagPicker.tsx
+ * Description: Tag selector shown in the task modal.
+ * Offers the tags other tasks already use as chips and creates new ones inline.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React, { useMemo, useState } from "react";
+import { View, Text, TextInput, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { useAppSelector } from "@/store/hooks";
+import { collectTags, normalizeTag } from "@/features/todo/tags";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    tags: string[]; // Draft tags
+    onChange: (tags: string[]) => void; // Replace the draft tags
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: TagPicker
+// ─────────────────────────────────────────────
+
+export default function TagPicker({ tags, onChange }: Props) {
+    const colors = useTheme();
+    const tasks = useAppSelector(state => state.todo.tasks);
+    const [newTag, setNewTag] = useState("");
+
+    // Tags in use plus the ones just created for this draft
+    const options = useMemo(() => {
+        const known = collectTags(tasks).map(t => t.tag);
+        return [...known, ...tags.filter(t => !known.includes(t))];
+    }, [tasks, tags]);
+
+    const toggle = (tag: string) =>
+        onChange(tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]);
+
+    const handleCreate = () => {
+        const tag = normalizeTag(newTag);
+        if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+        setNewTag("");
+    };
+
+    // ─────────────────────────────────────────────
+    // 🧱 Render
+    // ─────────────────────────────────────────────
+    return (
+        <View>
+            <Text style={[styles.label, { color: colors.secondaryText }]}>
+                Tags
+            </Text>
+
+            {options.length > 0 && (
+                <View style={styles.chipRow}>
+                    {options.map(tag => {
+                        const selected = tags.includes(tag);
+                        return (
+                            <Pressable
+                                key={tag}
+                                style={[
+                                    styles.chip,
+                                    { backgroundColor: colors.chipBackground },
+                                    selected && { backgroundColor: colors.primary }
+                                ]}
+                                onPress={() => toggle(tag)}
+                            >
+                                <Text
+                                    style={[
+                                        styles.chipText,
+                                        { color: colors.secondaryText },
+                                        selected && styles.selectedChipText
+                                    ]}
+                                >
+                                    #{tag}
+                                </Text>
+                            </Pressable>
+                        );
+                    })}
+                </View>
+            )}
+
+            {/* New tag input */}
+            <View
+                style={[
+                    styles.addRow,
+                    { backgroundColor: colors.inputBackground }
+                ]}
+            >
+                <TextInput
+                    style={[styles.input, { color: colors.text }]}
+                    placeholder="New tag"
+                    placeholderTextColor={colors.tertiaryText}
+                    value={newTag}
+                    onChangeText={setNewTag}
+                    onSubmitEditing={handleCreate}
+                    autoCapitalize="none"
+                    returnKeyType="done"
+                    blurOnSubmit={false}
+                />
+                <Pressable onPress={handleCreate} hitSlop={6}>
+                    <Ionicons name="add" size={20} color={colors.primary} />
+                </Pressable>
+            </View>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    label: {
+        fontSize: 14,
+        fontWeight: "600",
+        marginBottom: 6,
+        marginTop: 16
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        gap: 8,
+        marginBottom: 8
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: "500"
+    },
+    selectedChipText: {
+        color: "#fff",
+        fontWeight: "600"
+    },
+    input: {
+        flex: 1,
+        fontSize: 15,
+        paddingVertical: 6
+    },
+    addRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        borderRadius: 10,
+        paddingHorizontal: 12
+    }
+});
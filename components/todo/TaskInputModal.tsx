@@ -1,13 +1,14 @@
 /**
  * File: TaskInputModal.tsx
  * Description: Animated bottom-sheet modal for adding/editing tasks.
- * Handles title input, subject & priority chip selection, and add/update actions.
+ * Handles title input, subject & priority chip selection, due date/time, estimate,
+ * repeat rule, tags, checklist, Markdown notes, attachments, and add/update actions.
  *
  * Author: BrainDesk Team
  * Last Updated: 2025-07-11
  */
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
     Modal,
     View,
@@ -18,14 +19,33 @@ import {
     TouchableWithoutFeedback,
     Keyboard,
     Animated,
-    Dimensions
+    Dimensions,
+    ScrollView
 } from "react-native";
+import DateTimePicker, {
+    DateTimePickerEvent
+} from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import dayjs from "dayjs";
 import { useTheme } from "@/hooks/useTheme";
 import { useAppSelector } from "@/store/hooks";
+import { RecurrenceRule } from "@/features/todo/recurrence";
+import { Subtask } from "@/features/todo/todoSlice";
+import { formatMinutes } from "@/features/todo/timeTracking";
+import { sortSubjects } from "@/features/settings/subjects";
+import { sortPriorities } from "@/features/settings/priorities";
+import type { Attachment } from "@/features/attachments/attachments";
+import { pickAttachment } from "@/features/attachments/expoAttachmentStore";
+import RecurrencePicker from "./RecurrencePicker";
+import SubtaskEditor from "./SubtaskEditor";
+import TagPicker from "./TagPicker";
+import Toast from "react-native-toast-message";
+import NotesView from "./NotesView";
+import AttachmentList from "./AttachmentList";
 
 // 🔸 Constants
 const { height: SCREEN_HEIGHT } = Dimensions.get("window");
-const priorities = ["High", "Medium", "Low"];
+const estimates = [15, 30, 45, 60, 90, 120]; // Estimate presets (minutes)
 
 // ─────────────────────────────────────────────
 // 🔸 Props
@@ -37,10 +57,26 @@ type Props = {
     onAdd: () => void; // Callback to add/update task
     title: string; // Current task title
     setTitle: (text: string) => void; // Update title text
-    subject: string; // Selected subject
+    subject: string; // Selected subject ID
     setSubject: (subject: string) => void; // Update subject
-    priority: string; // Selected priority
+    priority: string; // Selected priority level ID
     setPriority: (priority: string) => void; // Update priority
+    dueDate: string; // Due day ("YYYY-MM-DD")
+    setDueDate: (date: string) => void; // Update due day
+    dueTime: string | null; // Optional due time ("HH:MM")
+    setDueTime: (time: string | null) => void; // Update or clear due time
+    estimateMinutes: number | null; // Expected effort, null when unset
+    setEstimateMinutes: (minutes: number | null) => void; // Update or clear estimate
+    recurrence: RecurrenceRule | null; // Repeat rule, null for one-off
+    setRecurrence: (rule: RecurrenceRule | null) => void; // Update repeat rule
+    subtasks: Subtask[]; // Draft checklist
+    setSubtasks: (subtasks: Subtask[]) => void; // Update draft checklist
+    tags: string[]; // Draft tags
+    setTags: (tags: string[]) => void; // Update draft tags
+    notes: string; // Markdown notes
+    setNotes: (notes: string) => void; // Update notes
+    attachments: Attachment[]; // Draft attachments
+    setAttachments: (attachments: Attachment[]) => void; // Update draft attachments
     isEditing?: boolean; // Optional flag for edit mode
 };
 
@@ -58,10 +94,36 @@ export default function TaskInputModal({
     setSubject,
     priority,
     setPriority,
+    dueDate,
+    setDueDate,
+    dueTime,
+    setDueTime,
+    estimateMinutes,
+    setEstimateMinutes,
+    recurrence,
+    setRecurrence,
+    subtasks,
+    setSubtasks,
+    tags,
+    setTags,
+    notes,
+    setNotes,
+    attachments,
+    setAttachments,
     isEditing = false
 }: Props) {
     const colors = useTheme();
-    const subjects = useAppSelector(state => state.settings.subjects);
+    const subjects = sortSubjects(
+        useAppSelector(state => state.settings.subjects)
+    );
+    const priorities = sortPriorities(
+        useAppSelector(state => state.settings.priorities)
+    );
+    const [pickerMode, setPickerMode] = useState<"date" | "time" | null>(
+        null
+    );
+    const [previewNotes, setPreviewNotes] = useState(false); // Notes shown rendered
+    const [attaching, setAttaching] = useState(false); // File being copied in
 
     // Slide and fade animations
     const slideAnim = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
@@ -72,6 +134,7 @@ export default function TaskInputModal({
     // ─────────────────────────────────────────────
     useEffect(() => {
         if (visible) {
+            setPreviewNotes(false);
             fadeAnim.setValue(0);
             slideAnim.setValue(SCREEN_HEIGHT);
 
@@ -104,6 +167,55 @@ export default function TaskInputModal({
         }
     }, [visible]);
 
+    // ─────────────────────────────────────────────
+    // 📅 Due date/time picker
+    // ─────────────────────────────────────────────
+
+    // Picker value: the due day combined with the due time (or 09:00)
+    const pickerValue = (() => {
+        const [h = "09", m = "00"] = dueTime?.split(":") ?? [];
+        return dayjs(dueDate)
+            .hour(Number(h))
+            .minute(Number(m))
+            .toDate();
+    })();
+
+    /**
+     * Stores the picked date or time; dismissing the picker changes nothing.
+     */
+    const handlePickerChange = (event: DateTimePickerEvent, value?: Date) => {
+        const mode = pickerMode;
+        setPickerMode(null);
+        if (event.type !== "set" || !value) return;
+
+        if (mode === "date") {
+            setDueDate(dayjs(value).format("YYYY-MM-DD"));
+        } else {
+            setDueTime(dayjs(value).format("HH:mm"));
+        }
+    };
+
+    /**
+     * Picks a file and adds its copy to the draft; the copy is cleaned up
+     * later if the task isn't saved.
+     */
+    const handleAttach = async () => {
+        setAttaching(true);
+        try {
+            const attachment = await pickAttachment();
+            if (attachment) setAttachments([...attachments, attachment]);
+        } catch (error: any) {
+            Toast.show({
+                type: "error",
+                text1: "Could not attach file",
+                text2: error?.message,
+                position: "bottom"
+            });
+        } finally {
+            setAttaching(false);
+        }
+    };
+
     if (!visible) return null; // Prevent rendering when not needed
 
     // ─────────────────────────────────────────────
@@ -142,102 +254,372 @@ export default function TaskInputModal({
                                 {isEditing ? "Edit Task" : "New Task"}
                             </Text>
 
-                            {/* Task input */}
-                            <TextInput
-                                style={[
-                                    styles.input,
-                                    {
-                                        backgroundColor: colors.inputBackground,
-                                        color: colors.text
-                                    }
-                                ]}
-                                placeholder="Enter task title"
-                                placeholderTextColor={colors.tertiaryText}
-                                value={title}
-                                onChangeText={setTitle}
-                                returnKeyType="done"
-                            />
-
-                            {/* Priority selector */}
-                            <Text
-                                style={[
-                                    styles.label,
-                                    { color: colors.secondaryText }
-                                ]}
+                            <ScrollView
+                                style={styles.scrollArea}
+                                keyboardShouldPersistTaps="handled"
+                                showsVerticalScrollIndicator={false}
                             >
-                                Priority
-                            </Text>
-                            <View style={styles.chipRow}>
-                                {priorities.map(p => (
+                                {/* Task input */}
+                                <TextInput
+                                    style={[
+                                        styles.input,
+                                        {
+                                            backgroundColor: colors.inputBackground,
+                                            color: colors.text
+                                        }
+                                    ]}
+                                    placeholder="Enter task title"
+                                    placeholderTextColor={colors.tertiaryText}
+                                    value={title}
+                                    onChangeText={setTitle}
+                                    returnKeyType="done"
+                                />
+
+                                {/* Priority selector */}
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        { color: colors.secondaryText }
+                                    ]}
+                                >
+                                    Priority
+                                </Text>
+                                <View style={styles.chipRow}>
+                                    {priorities.map(p => (
+                                        <Pressable
+                                            key={p.id}
+                                            style={[
+                                                styles.chip,
+                                                {
+                                                    backgroundColor:
+                                                        colors.chipBackground
+                                                },
+                                                priority === p.id && {
+                                                    backgroundColor: p.color
+                                                }
+                                            ]}
+                                            onPress={() => setPriority(p.id)}
+                                        >
+                                            <Text
+                                                style={[
+                                                    styles.chipText,
+                                                    { color: colors.secondaryText },
+                                                    priority === p.id &&
+                                                        styles.selectedChipText
+                                                ]}
+                                            >
+                                                {p.name}
+                                            </Text>
+                                        </Pressable>
+                                    ))}
+                                </View>
+
+                                {/* Subject selector */}
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        {
+                                            color: colors.secondaryText,
+                                            marginTop: 16
+                                        }
+                                    ]}
+                                >
+                                    Subject
+                                </Text>
+                                <View style={styles.chipRow}>
+                                    {/* An archived subject stays selectable for its own tasks */}
+                                    {subjects
+                                        .filter(s => !s.archived || s.id === subject)
+                                        .map(s => (
+                                            <Pressable
+                                                key={s.id}
+                                                style={[
+                                                    styles.chip,
+                                                    styles.subjectChip,
+                                                    {
+                                                        backgroundColor:
+                                                            colors.chipBackground
+                                                    },
+                                                    subject === s.id && {
+                                                        backgroundColor: s.color
+                                                    }
+                                                ]}
+                                                onPress={() => setSubject(s.id)}
+                                            >
+                                                <Ionicons
+                                                    name={s.icon as keyof typeof Ionicons.glyphMap}
+                                                    size={14}
+                                                    color={
+                                                        subject === s.id
+                                                            ? "#fff"
+                                                            : s.color
+                                                    }
+                                                />
+                                                <Text
+                                                    style={[
+                                                        styles.chipText,
+                                                        { color: colors.secondaryText },
+                                                        subject === s.id &&
+                                                            styles.selectedChipText
+                                                    ]}
+                                                >
+                                                    {s.name}
+                                                </Text>
+                                            </Pressable>
+                                        ))}
+                                </View>
+
+                                {/* Due date/time selector */}
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        {
+                                            color: colors.secondaryText,
+                                            marginTop: 16
+                                        }
+                                    ]}
+                                >
+                                    Due
+                                </Text>
+                                <View style={styles.chipRow}>
                                     <Pressable
-                                        key={p}
                                         style={[
                                             styles.chip,
-                                            {
-                                                backgroundColor:
-                                                    colors.chipBackground
-                                            },
-                                            priority === p && {
-                                                backgroundColor: colors.primary
-                                            }
+                                            styles.dueChip,
+                                            { backgroundColor: colors.chipBackground }
                                         ]}
-                                        onPress={() => setPriority(p)}
+                                        onPress={() => setPickerMode("date")}
                                     >
+                                        <Ionicons
+                                            name="calendar-outline"
+                                            size={14}
+                                            color={colors.secondaryText}
+                                        />
                                         <Text
                                             style={[
                                                 styles.chipText,
-                                                { color: colors.secondaryText },
-                                                priority === p &&
-                                                    styles.selectedChipText
+                                                { color: colors.secondaryText }
                                             ]}
                                         >
-                                            {p}
+                                            {dayjs(dueDate).format("ddd, MMM D")}
                                         </Text>
                                     </Pressable>
-                                ))}
-                            </View>
-
-                            {/* Subject selector */}
-                            <Text
-                                style={[
-                                    styles.label,
-                                    {
-                                        color: colors.secondaryText,
-                                        marginTop: 16
-                                    }
-                                ]}
-                            >
-                                Subject
-                            </Text>
-                            <View style={styles.chipRow}>
-                                {subjects.map(s => (
                                     <Pressable
-                                        key={s}
                                         style={[
                                             styles.chip,
-                                            {
-                                                backgroundColor:
-                                                    colors.chipBackground
-                                            },
-                                            subject === s && {
-                                                backgroundColor: colors.primary
-                                            }
+                                            styles.dueChip,
+                                            { backgroundColor: colors.chipBackground }
                                         ]}
-                                        onPress={() => setSubject(s)}
+                                        onPress={() => setPickerMode("time")}
                                     >
+                                        <Ionicons
+                                            name="time-outline"
+                                            size={14}
+                                            color={colors.secondaryText}
+                                        />
                                         <Text
                                             style={[
                                                 styles.chipText,
-                                                { color: colors.secondaryText },
-                                                subject === s &&
-                                                    styles.selectedChipText
+                                                { color: colors.secondaryText }
                                             ]}
                                         >
-                                            {s}
+                                            {dueTime
+                                                ? dayjs(pickerValue).format("h:mm A")
+                                                : "Add time"}
                                         </Text>
+                                        {dueTime && (
+                                            <Pressable
+                                                onPress={() => setDueTime(null)}
+                                                hitSlop={8}
+                                            >
+                                                <Ionicons
+                                                    name="close"
+                                                    size={14}
+                                                    color={colors.tertiaryText}
+                                                />
+                                            </Pressable>
+                                        )}
                                     </Pressable>
-                                ))}
-                            </View>
+                                </View>
+
+                                {pickerMode && (
+                                    <DateTimePicker
+                                        value={pickerValue}
+                                        mode={pickerMode}
+                                        display="default"
+                                        onChange={handlePickerChange}
+                                    />
+                                )}
+
+                                {/* Estimate selector; tap the selected chip to clear */}
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        {
+                                            color: colors.secondaryText,
+                                            marginTop: 16
+                                        }
+                                    ]}
+                                >
+                                    Estimate
+                                </Text>
+                                <View style={styles.chipRow}>
+                                    {estimates.map(minutes => (
+                                        <Pressable
+                                            key={minutes}
+                                            style={[
+                                                styles.chip,
+                                                {
+                                                    backgroundColor:
+                                                        colors.chipBackground
+                                                },
+                                                estimateMinutes === minutes && {
+                                                    backgroundColor: colors.primary
+                                                }
+                                            ]}
+                                            onPress={() =>
+                                                setEstimateMinutes(
+                                                    estimateMinutes === minutes
+                                                        ? null
+                                                        : minutes
+                                                )
+                                            }
+                                        >
+                                            <Text
+                                                style={[
+                                                    styles.chipText,
+                                                    { color: colors.secondaryText },
+                                                    estimateMinutes === minutes &&
+                                                        styles.selectedChipText
+                                                ]}
+                                            >
+                                                {formatMinutes(minutes)}
+                                            </Text>
+                                        </Pressable>
+                                    ))}
+                                </View>
+
+                                {/* Repeat rule */}
+                                <RecurrencePicker
+                                    value={recurrence}
+                                    onChange={setRecurrence}
+                                    startDate={dueDate}
+                                />
+
+                                {/* Tags */}
+                                <TagPicker tags={tags} onChange={setTags} />
+
+                                {/* Checklist */}
+                                <SubtaskEditor
+                                    subtasks={subtasks}
+                                    onChange={setSubtasks}
+                                />
+
+                                {/* Notes: Markdown source, or its preview */}
+                                <View style={styles.labelRow}>
+                                    <Text
+                                        style={[
+                                            styles.label,
+                                            { color: colors.secondaryText }
+                                        ]}
+                                    >
+                                        Notes
+                                    </Text>
+                                    {!!notes.trim() && (
+                                        <Pressable
+                                            onPress={() =>
+                                                setPreviewNotes(prev => !prev)
+                                            }
+                                            hitSlop={8}
+                                        >
+                                            <Text
+                                                style={[
+                                                    styles.previewToggle,
+                                                    { color: colors.primary }
+                                                ]}
+                                            >
+                                                {previewNotes ? "Edit" : "Preview"}
+                                            </Text>
+                                        </Pressable>
+                                    )}
+                                </View>
+                                {previewNotes && notes.trim() ? (
+                                    <View
+                                        style={[
+                                            styles.notesPreview,
+                                            {
+                                                backgroundColor:
+                                                    colors.inputBackground
+                                            }
+                                        ]}
+                                    >
+                                        <NotesView notes={notes} />
+                                    </View>
+                                ) : (
+                                    <TextInput
+                                        style={[
+                                            styles.input,
+                                            styles.notesInput,
+                                            {
+                                                backgroundColor:
+                                                    colors.inputBackground,
+                                                color: colors.text
+                                            }
+                                        ]}
+                                        placeholder="Pages, links, formulas… (**bold**, - lists, [ ] checkboxes)"
+                                        placeholderTextColor={colors.tertiaryText}
+                                        value={notes}
+                                        onChangeText={setNotes}
+                                        multiline
+                                        textAlignVertical="top"
+                                    />
+                                )}
+
+                                {/* Attachments */}
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        {
+                                            color: colors.secondaryText,
+                                            marginTop: 16
+                                        }
+                                    ]}
+                                >
+                                    Attachments
+                                </Text>
+                                <AttachmentList
+                                    attachments={attachments}
+                                    onRemove={id =>
+                                        setAttachments(
+                                            attachments.filter(a => a.id !== id)
+                                        )
+                                    }
+                                />
+                                <Pressable
+                                    style={[
+                                        styles.chip,
+                                        styles.dueChip,
+                                        styles.attachChip,
+                                        { backgroundColor: colors.chipBackground }
+                                    ]}
+                                    onPress={handleAttach}
+                                    disabled={attaching}
+                                >
+                                    <Ionicons
+                                        name="attach"
+                                        size={16}
+                                        color={colors.secondaryText}
+                                    />
+                                    <Text
+                                        style={[
+                                            styles.chipText,
+                                            { color: colors.secondaryText }
+                                        ]}
+                                    >
+                                        {attaching ? "Attaching…" : "Attach file"}
+                                    </Text>
+                                </Pressable>
+                            </ScrollView>
 
                             {/* Footer buttons */}
                             <View style={styles.buttonRow}>
@@ -293,6 +675,9 @@ const styles = StyleSheet.create({
         paddingBottom: 70,
         minHeight: 320
     },
+    scrollArea: {
+        maxHeight: SCREEN_HEIGHT * 0.6
+    },
     title: {
         fontSize: 20,
         fontWeight: "700",
@@ -309,6 +694,26 @@ const styles = StyleSheet.create({
         fontWeight: "600",
         marginBottom: 6
     },
+    labelRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginTop: 16
+    },
+    previewToggle: {
+        fontSize: 13,
+        fontWeight: "600",
+        marginBottom: 6
+    },
+    notesInput: {
+        minHeight: 96,
+        fontSize: 15,
+        marginBottom: 0
+    },
+    notesPreview: {
+        padding: 14,
+        borderRadius: 10
+    },
     chipRow: {
         flexDirection: "row",
         flexWrap: "wrap",
@@ -327,6 +732,19 @@ const styles = StyleSheet.create({
         lineHeight: 18,
         fontWeight: "500"
     },
+    subjectChip: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 6
+    },
+    dueChip: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 6
+    },
+    attachChip: {
+        marginTop: 8
+    },
     selectedChipText: {
         color: "#fff",
         fontWeight: "600"
@@ -2,30 +2,53 @@
  * File: TaskItem.tsx
  * Description: Renders a single swipeable to-do task item.
  * Supports completion toggle, swipe-to-edit, and swipe-to-delete with haptics and theming.
+ * Occurrences of repeating tasks toggle and delete per day.
+ * Tasks with a checklist show a progress ring and an expandable list of steps.
+ * Tasks with notes or attachments show a button that expands the rendered
+ * Markdown notes and the attached files.
+ * A timer button opens the focus timer for the task.
+ * Estimated vs tracked time is shown in the meta row; long press logs time.
  *
  * Author: BrainDesk Team
  * Last Updated: 2025-07-11
  */
 
-import React, { useMemo, useRef } from "react";
+import React, { useMemo, useRef, useState } from "react";
 import { Pressable, Text, View, StyleSheet, Animated } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
+import dayjs from "dayjs";
+import { useRouter } from "expo-router";
+import { AnimatedCircularProgress } from "react-native-circular-progress";
 import {
     GestureHandlerRootView,
     Swipeable
 } from "react-native-gesture-handler";
 
-import { useAppDispatch } from "@/store/hooks";
-import { toggleTask, deleteTask, Task } from "@/features/todo/todoSlice";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+    toggleTask,
+    toggleSubtask,
+    deleteTask,
+    skipOccurrence,
+    Task
+} from "@/features/todo/todoSlice";
+import { describeRecurrence } from "@/features/todo/recurrence";
+import { resolveSubject } from "@/features/settings/subjects";
+import { resolvePriority } from "@/features/settings/priorities";
+import { formatMinutes, getActualMinutes } from "@/features/todo/timeTracking";
 import { useTheme } from "@/hooks/useTheme";
+import RecurrenceScopeModal, { RecurrenceScope } from "./RecurrenceScopeModal";
+import LogTimeModal from "./LogTimeModal";
+import NotesView from "./NotesView";
+import AttachmentList from "./AttachmentList";
 
 // ─────────────────────────────────────────────
 // 🔸 Props
 // ─────────────────────────────────────────────
 
 type Props = {
-    task: Task; // Task data
+    task: Task; // Task data (for a series, the occurrence being shown)
     onEdit: (task: Task) => void; // Callback to initiate edit mode
 };
 
@@ -37,20 +60,87 @@ export default function TaskItem({ task, onEdit }: Props) {
     const dispatch = useAppDispatch();
     const swipeableRef = useRef<Swipeable>(null);
     const theme = useTheme();
+    const router = useRouter();
+    const [scopeVisible, setScopeVisible] = useState(false); // Delete scope prompt for series
+    const [expanded, setExpanded] = useState(false); // Checklist visibility
+    const [detailsVisible, setDetailsVisible] = useState(false); // Notes and attachments visibility
+    const [logVisible, setLogVisible] = useState(false); // Time log modal
+    const autoComplete = useAppSelector(
+        state => state.settings.autoCompleteTasks
+    );
+    const sessions = useAppSelector(state => state.sessions.sessions);
+    const subject = resolveSubject(
+        useAppSelector(state => state.settings.subjects),
+        task.subjectId
+    );
+    const priorities = useAppSelector(state => state.settings.priorities);
+
+    // Estimated vs tracked minutes (for a series, this occurrence only)
+    const estimate = task.estimateMinutes ?? 0;
+    const actual = useMemo(
+        () => getActualMinutes(task, sessions, task.dueDate),
+        [task, sessions]
+    );
+    const overEstimate = estimate > 0 && actual > estimate;
+
+    // Checklist progress (0–100) for the ring
+    const subtasks = task.subtasks ?? [];
+    const doneCount = subtasks.filter(s => s.completed).length;
+    const progress = subtasks.length ? (doneCount / subtasks.length) * 100 : 0;
 
-    // ─── Mark task as complete/incomplete ─────
+    const attachments = task.attachments ?? [];
+    const hasDetails = !!task.notes || attachments.length > 0;
+
+    // ─── Mark task (or this occurrence) as complete/incomplete ─────
     const handleToggleTask = () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        dispatch(toggleTask(task.id));
+        dispatch(
+            task.recurrence
+                ? toggleTask({ id: task.id, date: task.dueDate })
+                : toggleTask(task.id)
+        );
     };
 
-    // ─── Delete task ─────
+    // ─── Delete task; series ask which occurrences to remove ─────
     const handleDelete = () => {
+        if (task.recurrence) {
+            setScopeVisible(true);
+            return;
+        }
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         dispatch(deleteTask(task.id));
         swipeableRef.current?.close();
     };
 
+    const handleDeleteScope = (scope: RecurrenceScope) => {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        dispatch(
+            scope === "occurrence"
+                ? skipOccurrence({ id: task.id, date: task.dueDate })
+                : deleteTask(task.id)
+        );
+        setScopeVisible(false);
+        swipeableRef.current?.close();
+    };
+
+    const handleDeleteCancel = () => {
+        setScopeVisible(false);
+        swipeableRef.current?.close();
+    };
+
+    // ─── Check/uncheck one checklist step ─────
+    const handleToggleSubtask = (subtaskId: string) => {
+        Haptics.selectionAsync();
+        dispatch(
+            toggleSubtask({
+                taskId: task.id,
+                subtaskId,
+                autoComplete,
+                date: task.recurrence ? task.dueDate : undefined
+            })
+        );
+    };
+
     // ─── Trigger edit mode ─────
     const handleEdit = () => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -58,19 +148,11 @@ export default function TaskItem({ task, onEdit }: Props) {
         swipeableRef.current?.close();
     };
 
-    // ─── Memoize color based on priority ─────
-    const priorityColor = useMemo(() => {
-        switch (task.priority) {
-            case "High":
-                return theme.danger;
-            case "Medium":
-                return "#F59E0B";
-            case "Low":
-                return "#10B981";
-            default:
-                return theme.tertiaryText;
-        }
-    }, [task.priority, theme]);
+    // ─── Priority level (unknown priorities resolve to the default level) ─────
+    const priority = useMemo(
+        () => resolvePriority(priorities, task.priority),
+        [priorities, task.priority]
+    );
 
     // ─────────────────────────────────────────────
     // 🔹 Swipe Actions
@@ -138,6 +220,7 @@ export default function TaskItem({ task, onEdit }: Props) {
                 >
                     <Pressable
                         onPress={handleToggleTask}
+                        onLongPress={() => setLogVisible(true)}
                         style={[
                             styles.taskItem,
                             { backgroundColor: theme.card },
@@ -162,7 +245,7 @@ export default function TaskItem({ task, onEdit }: Props) {
                                 style={{ marginRight: 8 }}
                             />
 
-                            <View>
+                            <View style={styles.body}>
                                 <Text
                                     style={[
                                         styles.taskText,
@@ -179,10 +262,10 @@ export default function TaskItem({ task, onEdit }: Props) {
                                     <Text
                                         style={[
                                             styles.meta,
-                                            { color: priorityColor }
+                                            { color: priority.color }
                                         ]}
                                     >
-                                        {task.priority}
+                                        {priority.name}
                                     </Text>
                                     <Text
                                         style={[
@@ -195,17 +278,278 @@ export default function TaskItem({ task, onEdit }: Props) {
                                     <Text
                                         style={[
                                             styles.meta,
-                                            { color: theme.secondaryText }
+                                            { color: subject.color }
                                         ]}
                                     >
-                                        {task.subject}
+                                        {subject.name}
                                     </Text>
+                                    {task.dueTime && (
+                                        <>
+                                            <Text
+                                                style={[
+                                                    styles.metaDot,
+                                                    { color: theme.tertiaryText }
+                                                ]}
+                                            >
+                                                •
+                                            </Text>
+                                            <Ionicons
+                                                name="time-outline"
+                                                size={12}
+                                                color={theme.tertiaryText}
+                                            />
+                                            <Text
+                                                style={[
+                                                    styles.meta,
+                                                    { color: theme.tertiaryText }
+                                                ]}
+                                            >
+                                                {dayjs(
+                                                    `${task.dueDate} ${task.dueTime}`
+                                                ).format("h:mm A")}
+                                            </Text>
+                                        </>
+                                    )}
+                                    {task.recurrence && (
+                                        <>
+                                            <Text
+                                                style={[
+                                                    styles.metaDot,
+                                                    { color: theme.tertiaryText }
+                                                ]}
+                                            >
+                                                •
+                                            </Text>
+                                            <Ionicons
+                                                name="repeat"
+                                                size={12}
+                                                color={theme.tertiaryText}
+                                            />
+                                            <Text
+                                                style={[
+                                                    styles.meta,
+                                                    { color: theme.tertiaryText }
+                                                ]}
+                                            >
+                                                {describeRecurrence(
+                                                    task.recurrence
+                                                )}
+                                            </Text>
+                                        </>
+                                    )}
+                                    {(estimate > 0 || actual > 0) && (
+                                        <>
+                                            <Text
+                                                style={[
+                                                    styles.metaDot,
+                                                    { color: theme.tertiaryText }
+                                                ]}
+                                            >
+                                                •
+                                            </Text>
+                                            <Ionicons
+                                                name="hourglass-outline"
+                                                size={12}
+                                                color={
+                                                    overEstimate
+                                                        ? theme.danger
+                                                        : theme.tertiaryText
+                                                }
+                                            />
+                                            <Text
+                                                style={[
+                                                    styles.meta,
+                                                    {
+                                                        color: overEstimate
+                                                            ? theme.danger
+                                                            : theme.tertiaryText
+                                                    }
+                                                ]}
+                                            >
+                                                {formatMinutes(actual)}
+                                                {estimate > 0 &&
+                                                    ` / ${formatMinutes(estimate)}`}
+                                            </Text>
+                                        </>
+                                    )}
                                 </View>
+
+                                {/* Tags */}
+                                {(task.tags ?? []).length > 0 && (
+                                    <View style={styles.tagRow}>
+                                        {task.tags!.map(tag => (
+                                            <View
+                                                key={tag}
+                                                style={[
+                                                    styles.tagChip,
+                                                    {
+                                                        backgroundColor:
+                                                            theme.chipBackground
+                                                    }
+                                                ]}
+                                            >
+                                                <Text
+                                                    style={[
+                                                        styles.tagText,
+                                                        { color: theme.secondaryText }
+                                                    ]}
+                                                >
+                                                    #{tag}
+                                                </Text>
+                                            </View>
+                                        ))}
+                                    </View>
+                                )}
                             </View>
+
+                            {/* Notes and attachments; tap to expand */}
+                            {hasDetails && (
+                                <Pressable
+                                    onPress={() => setDetailsVisible(prev => !prev)}
+                                    hitSlop={8}
+                                    style={styles.focusButton}
+                                    accessibilityLabel={
+                                        detailsVisible ? "Hide details" : "Show details"
+                                    }
+                                >
+                                    <Ionicons
+                                        name={
+                                            attachments.length > 0
+                                                ? detailsVisible
+                                                    ? "document-attach"
+                                                    : "document-attach-outline"
+                                                : detailsVisible
+                                                  ? "document-text"
+                                                  : "document-text-outline"
+                                        }
+                                        size={22}
+                                        color={theme.tertiaryText}
+                                    />
+                                </Pressable>
+                            )}
+
+                            {/* Focus timer for this task */}
+                            {!task.completed && (
+                                <Pressable
+                                    onPress={() =>
+                                        router.push({
+                                            pathname: "/focus",
+                                            params: { taskId: task.id }
+                                        })
+                                    }
+                                    hitSlop={8}
+                                    style={styles.focusButton}
+                                    accessibilityLabel={`Focus on ${task.text}`}
+                                >
+                                    <Ionicons
+                                        name="timer-outline"
+                                        size={22}
+                                        color={theme.tertiaryText}
+                                    />
+                                </Pressable>
+                            )}
+
+                            {/* Checklist progress; tap to expand */}
+                            {subtasks.length > 0 && (
+                                <Pressable
+                                    onPress={() => setExpanded(prev => !prev)}
+                                    hitSlop={8}
+                                    style={styles.progress}
+                                    accessibilityLabel={`${doneCount} of ${subtasks.length} steps done`}
+                                >
+                                    <AnimatedCircularProgress
+                                        size={28}
+                                        width={3}
+                                        fill={progress}
+                                        rotation={0}
+                                        tintColor={theme.success}
+                                        backgroundColor={theme.chipBackground}
+                                    >
+                                        {() => (
+                                            <Text
+                                                style={[
+                                                    styles.progressText,
+                                                    { color: theme.secondaryText }
+                                                ]}
+                                            >
+                                                {doneCount}
+                                            </Text>
+                                        )}
+                                    </AnimatedCircularProgress>
+                                </Pressable>
+                            )}
                         </View>
+
+                        {/* Expanded checklist */}
+                        {expanded &&
+                            subtasks.map(subtask => (
+                                <Pressable
+                                    key={subtask.id}
+                                    onPress={() =>
+                                        handleToggleSubtask(subtask.id)
+                                    }
+                                    style={styles.subtaskRow}
+                                >
+                                    <Ionicons
+                                        name={
+                                            subtask.completed
+                                                ? "checkbox"
+                                                : "square-outline"
+                                        }
+                                        size={16}
+                                        color={
+                                            subtask.completed
+                                                ? theme.success
+                                                : theme.tertiaryText
+                                        }
+                                    />
+                                    <Text
+                                        style={[
+                                            styles.subtaskText,
+                                            { color: theme.secondaryText },
+                                            subtask.completed && {
+                                                textDecorationLine:
+                                                    "line-through"
+                                            }
+                                        ]}
+                                    >
+                                        {subtask.text}
+                                    </Text>
+                                </Pressable>
+                            ))}
+
+                        {/* Expanded notes and attachments */}
+                        {detailsVisible && hasDetails && (
+                            <View
+                                style={[
+                                    styles.notes,
+                                    { borderColor: theme.chipBackground }
+                                ]}
+                            >
+                                {!!task.notes && <NotesView notes={task.notes} />}
+                                {attachments.length > 0 && (
+                                    <AttachmentList attachments={attachments} />
+                                )}
+                            </View>
+                        )}
                     </Pressable>
                 </Swipeable>
             </View>
+
+            {/* Series delete: this occurrence or the whole series */}
+            <RecurrenceScopeModal
+                visible={scopeVisible}
+                title="Delete repeating task"
+                onSelect={handleDeleteScope}
+                onClose={handleDeleteCancel}
+            />
+
+            {/* Manual time logging */}
+            <LogTimeModal
+                visible={logVisible}
+                task={task}
+                onClose={() => setLogVisible(false)}
+            />
         </GestureHandlerRootView>
     );
 }
@@ -227,12 +571,43 @@ const styles = StyleSheet.create({
         flexDirection: "row",
         alignItems: "center"
     },
+    body: {
+        flex: 1
+    },
+    focusButton: {
+        marginLeft: 8
+    },
+    progress: {
+        marginLeft: 8
+    },
+    progressText: {
+        fontSize: 11,
+        fontWeight: "600"
+    },
+    subtaskRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 8,
+        paddingVertical: 4,
+        paddingLeft: 28
+    },
+    subtaskText: {
+        fontSize: 14
+    },
+    notes: {
+        marginTop: 8,
+        marginLeft: 28,
+        paddingLeft: 10,
+        borderLeftWidth: 2,
+        gap: 8
+    },
     taskText: {
         fontSize: 16,
         fontWeight: "500"
     },
     metaRow: {
         flexDirection: "row",
+        flexWrap: "wrap",
         marginTop: 4,
         alignItems: "center",
         gap: 4
@@ -243,6 +618,21 @@ const styles = StyleSheet.create({
     metaDot: {
         fontSize: 12
     },
+    tagRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        marginTop: 6,
+        gap: 4
+    },
+    tagChip: {
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: 999
+    },
+    tagText: {
+        fontSize: 11,
+        fontWeight: "500"
+    },
     swipeDeleteBG: {
         backgroundColor: "#EF4444",
         justifyContent: "center",
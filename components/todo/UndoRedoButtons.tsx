@@ -0,0 +1,69 @@
+/**
+ * File: UndoRedoButtons.tsx
+ * Description: Header buttons that step the task list back and forward
+ * through the undo history.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { undo, redo } from "@/features/todo/undoHistory";
+import { useTheme } from "@/hooks/useTheme";
+
+// ─────────────────────────────────────────────
+// 🔸 Component: UndoRedoButtons
+// ─────────────────────────────────────────────
+
+export default function UndoRedoButtons() {
+    const theme = useTheme();
+    const dispatch = useAppDispatch();
+    const canUndo = useAppSelector(state => state.todo.history.past.length > 0);
+    const canRedo = useAppSelector(
+        state => state.todo.history.future.length > 0
+    );
+
+    return (
+        <View style={styles.container}>
+            <Pressable
+                onPress={() => dispatch(undo())}
+                disabled={!canUndo}
+                hitSlop={8}
+                accessibilityLabel="Undo"
+            >
+                <Ionicons
+                    name="arrow-undo-outline"
+                    size={22}
+                    color={canUndo ? theme.text : theme.chipBackground}
+                />
+            </Pressable>
+            <Pressable
+                onPress={() => dispatch(redo())}
+                disabled={!canRedo}
+                hitSlop={8}
+                accessibilityLabel="Redo"
+            >
+                <Ionicons
+                    name="arrow-redo-outline"
+                    size={22}
+                    color={canRedo ? theme.text : theme.chipBackground}
+                />
+            </Pressable>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: "row",
+        gap: 18,
+        marginRight: 16
+    }
+});
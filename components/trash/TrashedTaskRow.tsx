@@ -0,0 +1,116 @@
+/**
+ * File: TrashedTaskRow.tsx
+ * Description: Row in the Trash screen showing a deleted task with
+ * restore and delete-forever actions.
+ *
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import React from "react";
+import { View, Text, Pressable, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import dayjs from "dayjs";
+import { useTheme } from "@/hooks/useTheme";
+import { Task } from "@/features/todo/todoSlice";
+import { subjectName } from "@/features/settings/subjects";
+import { useAppSelector } from "@/store/hooks";
+
+// ─────────────────────────────────────────────
+// 🔸 Props
+// ─────────────────────────────────────────────
+
+type Props = {
+    task: Task; // Trashed task (`deletedAt` is set)
+    retentionDays: number; // Trash retention; 0 keeps tasks forever
+    onRestore: (task: Task) => void; // Move back to the list
+    onPurge: (task: Task) => void; // Ask to delete permanently
+};
+
+// ─────────────────────────────────────────────
+// 🔸 Component: TrashedTaskRow
+// ─────────────────────────────────────────────
+
+export default function TrashedTaskRow({
+    task,
+    retentionDays,
+    onRestore,
+    onPurge
+}: Props) {
+    const theme = useTheme();
+    const subjects = useAppSelector(state => state.settings.subjects);
+    const deletedAt = dayjs(task.deletedAt);
+
+    // Days left before the bootstrap purge removes this task
+    const daysLeft =
+        retentionDays > 0
+            ? Math.max(
+                  0,
+                  deletedAt.add(retentionDays, "day").diff(dayjs(), "day")
+              )
+            : null;
+
+    return (
+        <View style={[styles.row, { backgroundColor: theme.card }]}>
+            <View style={styles.body}>
+                <Text
+                    style={[styles.text, { color: theme.text }]}
+                    numberOfLines={2}
+                >
+                    {task.text}
+                </Text>
+                <Text style={[styles.meta, { color: theme.tertiaryText }]}>
+                    {subjectName(subjects, task.subjectId)} • Deleted {deletedAt.format("MMM D")}
+                    {daysLeft !== null &&
+                        ` • ${daysLeft === 0 ? "Purged on next launch" : `${daysLeft}d left`}`}
+                </Text>
+            </View>
+
+            <Pressable
+                onPress={() => onRestore(task)}
+                hitSlop={8}
+                style={styles.action}
+                accessibilityLabel={`Restore ${task.text}`}
+            >
+                <Ionicons name="arrow-undo" size={20} color={theme.primary} />
+            </Pressable>
+            <Pressable
+                onPress={() => onPurge(task)}
+                hitSlop={8}
+                style={styles.action}
+                accessibilityLabel={`Delete ${task.text} forever`}
+            >
+                <Ionicons name="trash-outline" size={20} color={theme.danger} />
+            </Pressable>
+        </View>
+    );
+}
+
+// ─────────────────────────────────────────────
+// 🎨 Styles
+// ─────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        padding: 14,
+        borderRadius: 12,
+        marginBottom: 12
+    },
+    body: {
+        flex: 1
+    },
+    text: {
+        fontSize: 16,
+        fontWeight: "500"
+    },
+    meta: {
+        fontSize: 12,
+        marginTop: 4
+    },
+    action: {
+        padding: 6,
+        marginLeft: 8
+    }
+});
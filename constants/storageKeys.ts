@@ -6,9 +6,24 @@
  */
 
 export const STORAGE_KEYS = {
-  /** AsyncStorage key for persisting user tasks */
+  /** AsyncStorage key tasks were kept under before they moved to SQLite */
   TASKS: "braindesk:tasks",
 
   /** AsyncStorage key for persisting user settings */
-  SETTINGS: "braindesk:settings"
+  SETTINGS: "braindesk:settings",
+
+  /** AsyncStorage key for persisting logged focus sessions */
+  SESSIONS: "braindesk:sessions",
+
+  /** AsyncStorage key for the running focus timer, restored after relaunch */
+  FOCUS_TIMER: "braindesk:focus-timer",
+
+  /** AsyncStorage key for device sync bookkeeping (field stamps, tombstones, peers) */
+  SYNC: "braindesk:sync",
+
+  /** AsyncStorage key for the sync server setup, cursor and queue of unsent changes */
+  SERVER_SYNC: "braindesk:server-sync",
+
+  /** AsyncStorage key for the schema version of all stored data */
+  SCHEMA_VERSION: "braindesk:schema-version"
 };
\ No newline at end of file
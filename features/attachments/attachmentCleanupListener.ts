@@ -0,0 +1,67 @@
+/**
+ * File: attachmentCleanupListener.ts
+ * Description: Store listener that deletes attachment files no task or kept
+ * snapshot refers to once tasks are permanently deleted (purged, trash
+ * emptied or expired).
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isAnyOf, ListenerMiddlewareInstance } from "@reduxjs/toolkit";
+import {
+    emptyTrash,
+    purgeExpiredTrash,
+    purgeTask,
+    Task
+} from "@/features/todo/todoSlice";
+import type { TaskHistory } from "@/features/todo/undoHistory";
+import { SnapshotStore, snapshotAttachmentPaths } from "@/features/backup/snapshots";
+import { AttachmentStore, findOrphans, referencedPaths } from "./attachments";
+
+/** Slice of root state the cleanup depends on */
+type CleanupState = {
+    todo: { tasks: Task[]; history?: TaskHistory };
+};
+
+/**
+ * Registers the cleanup listener on a listener middleware.
+ * Tasks the undo history or a kept snapshot can still bring back keep their
+ * files, and so do files just attached to a task that is still being edited
+ * (see `ORPHAN_GRACE_MS`); all are collected by a later cleanup.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param store - Where the attachment files are
+ * @param snapshots - Where the snapshots are
+ * @param now - Clock (tests pass a fake)
+ * @returns Function that removes the listener
+ */
+export function startAttachmentCleanupListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    store: AttachmentStore,
+    snapshots: SnapshotStore,
+    now: () => number = Date.now
+) {
+    return startListening({
+        matcher: isAnyOf(purgeTask, emptyTrash, purgeExpiredTrash),
+        effect: async (_action, listenerApi) => {
+            const { todo } = listenerApi.getState() as CleanupState;
+            const referenced = referencedPaths([
+                todo.tasks,
+                ...(todo.history?.past ?? []),
+                ...(todo.history?.future ?? [])
+            ]);
+
+            try {
+                for (const path of await snapshotAttachmentPaths(snapshots)) {
+                    referenced.add(path);
+                }
+                const orphans = findOrphans(await store.list(), referenced, now());
+                for (const path of orphans) {
+                    await store.remove(path);
+                }
+            } catch (error) {
+                console.warn("Attachment cleanup failed:", error);
+            }
+        }
+    });
+}
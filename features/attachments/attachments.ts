@@ -0,0 +1,201 @@
+/**
+ * File: attachments.ts
+ * Description: Files attached to tasks (worksheets, photos of the board).
+ * Picked files are copied into an `attachments` folder of the document
+ * directory; tasks keep only metadata and the copy's path relative to that
+ * directory, which survives the app container moving on iOS updates. Files
+ * no task refers to any more are removed by `startAttachmentCleanupListener`.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "@/features/todo/todoSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** A file attached to a task */
+export type Attachment = {
+    id: string;
+    /** File name as picked, shown to the user */
+    name: string;
+    mimeType: string;
+    /** Size in bytes */
+    size: number;
+    /** Copy inside the document directory, e.g. "attachments/4f1c-sheet.pdf" */
+    path: string;
+    /** ISO timestamp of when the file was attached */
+    addedAt: string;
+};
+
+/** A file found in the attachments folder */
+export type StoredFile = {
+    path: string;
+    /** Last modification, in milliseconds since the epoch */
+    modifiedAt: number;
+};
+
+/**
+ * Storage for attachment files, addressed by `Attachment.path`.
+ * The app uses the document directory; tests pass in a fake.
+ */
+export interface AttachmentStore {
+    /** Copies a picked file to `path` */
+    copyIn(sourceUri: string, path: string): Promise<void>;
+    /** Every file in the attachments folder */
+    list(): Promise<StoredFile[]>;
+    /** Base64 contents, or null if the file is missing */
+    read(path: string): Promise<string | null>;
+    /** Writes base64 contents */
+    write(path: string, base64: string): Promise<void>;
+    /** A no-op if the file does not exist */
+    remove(path: string): Promise<void>;
+}
+
+//
+// ─── CONSTANTS ─────────────────────────────────────────────────────────────────
+//
+
+/** Folder of the document directory holding attachments */
+export const ATTACHMENT_DIR = "attachments/";
+
+/**
+ * Unreferenced files younger than this are left alone: they may belong to a
+ * task still being edited, whose attachments aren't in the store yet.
+ */
+export const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+const ATTACHMENT_PATH = /^attachments\/(?!\.)[^/\\]+$/;
+
+//
+// ─── PATHS ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Path for a new attachment's copy. The ID keeps names unique; the name is
+ * kept (minus unusual characters) so the share sheet shows something readable.
+ *
+ * @param id - Attachment ID
+ * @param name - Picked file name
+ */
+export function attachmentPath(id: string, name: string): string {
+    const safeName = name.replace(/[^\w.\- ]+/g, "_").slice(-80) || "file";
+    return `${ATTACHMENT_DIR}${id}-${safeName}`;
+}
+
+/**
+ * Whether a path points directly into the attachments folder. Paths read from
+ * backups are checked with this before anything is written.
+ *
+ * @param path - Path relative to the document directory
+ */
+export const isAttachmentPath = (path: string): boolean =>
+    ATTACHMENT_PATH.test(path);
+
+//
+// ─── DISPLAY ───────────────────────────────────────────────────────────────────
+//
+
+/** Whether an attachment can be previewed as an image */
+export const isImage = (attachment: Attachment): boolean =>
+    attachment.mimeType.startsWith("image/");
+
+/**
+ * Human-readable size, e.g. "820 B", "14 KB", "2.4 MB".
+ *
+ * @param bytes - Size in bytes
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+//
+// ─── CLEANUP ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Paths of every attachment the given task lists refer to.
+ *
+ * @param taskLists - Current tasks plus any lists that may come back (undo history)
+ */
+export function referencedPaths(taskLists: Task[][]): Set<string> {
+    const paths = new Set<string>();
+    for (const tasks of taskLists) {
+        for (const task of tasks) {
+            for (const attachment of task.attachments ?? []) {
+                paths.add(attachment.path);
+            }
+        }
+    }
+    return paths;
+}
+
+/**
+ * Files no task refers to, skipping ones added within the grace period.
+ *
+ * @param files - Contents of the attachments folder
+ * @param referenced - Paths still in use (see `referencedPaths`)
+ * @param now - Current time in milliseconds
+ */
+export function findOrphans(
+    files: StoredFile[],
+    referenced: Set<string>,
+    now: number
+): string[] {
+    return files
+        .filter(
+            file =>
+                !referenced.has(file.path) &&
+                now - file.modifiedAt >= ORPHAN_GRACE_MS
+        )
+        .map(file => file.path);
+}
+
+//
+// ─── BUNDLES ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Reads the files of the given tasks' attachments for a backup bundle.
+ * Attachments whose file is missing, e.g. ones synced from another device,
+ * are left out.
+ *
+ * @param tasks - Tasks being exported
+ * @param store - Where the files are
+ * @returns Base64 contents keyed by path, and the paths that were missing
+ */
+export async function bundleAttachments(
+    tasks: Task[],
+    store: AttachmentStore
+): Promise<{ files: Record<string, string>; missing: string[] }> {
+    const files: Record<string, string> = {};
+    const missing: string[] = [];
+
+    for (const path of referencedPaths([tasks])) {
+        const contents = await store.read(path);
+        if (contents === null) {
+            missing.push(path);
+        } else {
+            files[path] = contents;
+        }
+    }
+    return { files, missing };
+}
+
+/**
+ * Writes the files of a backup bundle back into the attachments folder.
+ *
+ * @param files - Base64 contents keyed by path, as checked by `parseBackup`
+ * @param store - Where the files go
+ */
+export async function restoreAttachments(
+    files: Record<string, string>,
+    store: AttachmentStore
+): Promise<void> {
+    for (const [path, contents] of Object.entries(files)) {
+        if (isAttachmentPath(path)) await store.write(path, contents);
+    }
+}
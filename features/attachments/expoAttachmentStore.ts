@@ -0,0 +1,131 @@
+/**
+ * File: expoAttachmentStore.ts
+ * Description: `AttachmentStore` implementation backed by expo-file-system,
+ * plus picking a file to attach with expo-document-picker and opening one
+ * through the share sheet ("Open with…").
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { v4 as uuid } from "uuid";
+import {
+    ATTACHMENT_DIR,
+    Attachment,
+    AttachmentStore,
+    attachmentPath
+} from "./attachments";
+
+/**
+ * Absolute URI of an attachment's copy, for previews and the share sheet.
+ *
+ * @param path - `Attachment.path`
+ */
+export const attachmentUri = (path: string): string =>
+    FileSystem.documentDirectory + path;
+
+/**
+ * Creates the attachments folder on first use; later calls are no-ops.
+ */
+async function ensureDir() {
+    const dir = attachmentUri(ATTACHMENT_DIR);
+    const info = await FileSystem.getInfoAsync(dir);
+    if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    }
+}
+
+export const expoAttachmentStore: AttachmentStore = {
+    async copyIn(sourceUri, path) {
+        await ensureDir();
+        await FileSystem.copyAsync({ from: sourceUri, to: attachmentUri(path) });
+    },
+
+    async list() {
+        await ensureDir();
+        const names = await FileSystem.readDirectoryAsync(attachmentUri(ATTACHMENT_DIR));
+        return Promise.all(
+            names.map(async name => {
+                const path = ATTACHMENT_DIR + name;
+                const info = await FileSystem.getInfoAsync(attachmentUri(path));
+                return {
+                    path,
+                    // Seconds on iOS and Android
+                    modifiedAt: info.exists ? info.modificationTime * 1000 : 0
+                };
+            })
+        );
+    },
+
+    async read(path) {
+        const info = await FileSystem.getInfoAsync(attachmentUri(path));
+        if (!info.exists) return null;
+        return FileSystem.readAsStringAsync(attachmentUri(path), {
+            encoding: FileSystem.EncodingType.Base64
+        });
+    },
+
+    async write(path, base64) {
+        await ensureDir();
+        await FileSystem.writeAsStringAsync(attachmentUri(path), base64, {
+            encoding: FileSystem.EncodingType.Base64
+        });
+    },
+
+    async remove(path) {
+        await FileSystem.deleteAsync(attachmentUri(path), { idempotent: true });
+    }
+};
+
+/**
+ * Lets the user pick a file and copies it into the attachments folder.
+ *
+ * @param store - Where the copy goes
+ * @returns The new attachment, or null when the user cancels
+ */
+export async function pickAttachment(
+    store: AttachmentStore = expoAttachmentStore
+): Promise<Attachment | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true
+    });
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+        return null;
+    }
+
+    const file = result.assets[0];
+    const id = uuid();
+    const path = attachmentPath(id, file.name);
+    await store.copyIn(file.uri, path);
+
+    return {
+        id,
+        name: file.name,
+        mimeType: file.mimeType ?? "application/octet-stream",
+        size: file.size ?? 0,
+        path,
+        addedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Opens an attachment in another app via the share sheet.
+ *
+ * @param attachment - Attachment to open
+ * @throws Error when the file isn't on this device (e.g. a synced task)
+ */
+export async function openAttachment(attachment: Attachment): Promise<void> {
+    const uri = attachmentUri(attachment.path);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) {
+        throw new Error(`${attachment.name} is not on this device.`);
+    }
+    await Sharing.shareAsync(uri, {
+        mimeType: attachment.mimeType,
+        dialogTitle: attachment.name
+    });
+}
@@ -0,0 +1,247 @@
+/**
+ * File: backup.ts
+ * Description: Versioned backup file format. Exports wrap app data in an
+ * envelope (format id, schema version, app version, export time); imports
+ * detect the version, migrate and validate with the shared schema. A bundle
+ * is a backup that also carries the tasks' attachment files.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "@/features/todo/todoSlice";
+import type { SettingsState } from "@/features/settings/settingsSlice";
+import type { FocusSession } from "@/features/focus/focusTimer";
+import { isAttachmentPath } from "@/features/attachments/attachments";
+import { migrateDocument, SCHEMA_VERSION } from "./migrations";
+import {
+    validateSessions,
+    validateSettings,
+    validateTasks,
+    ValidationIssue
+} from "./schema";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Identifies a BrainDesk backup file */
+export const BACKUP_FORMAT = "braindesk-backup";
+
+/** App data carried by a backup */
+export type BackupData = {
+    tasks: Task[];
+    settings: SettingsState;
+    sessions: FocusSession[];
+};
+
+/** Backup file as written by `createBackup` */
+export type Backup = {
+    format: typeof BACKUP_FORMAT;
+    schemaVersion: number;
+    /** App version that wrote the file */
+    appVersion: string;
+    /** ISO timestamp of the export */
+    exportedAt: string;
+    data: BackupData;
+    /** Bundles only: attachment files (base64) keyed by `Attachment.path` */
+    attachments?: Record<string, string>;
+};
+
+/** Result of reading a backup: current-schema data plus what was dropped */
+export type ParsedBackup = {
+    /** Schema version the file was written with (0 = unversioned) */
+    schemaVersion: number;
+    appVersion: string | null;
+    exportedAt: string | null;
+    data: {
+        tasks: Task[];
+        /** Only the valid fields; missing ones keep their current value */
+        settings: Partial<SettingsState>;
+        sessions: FocusSession[];
+    };
+    /** Attachment files of a bundle (base64) keyed by path; empty otherwise */
+    attachments: Record<string, string>;
+    issues: ValidationIssue[];
+};
+
+/**
+ * A file that can't be imported at all. `issues` says which fields are wrong.
+ */
+export class BackupError extends Error {
+    issues: ValidationIssue[];
+
+    constructor(message: string, issues: ValidationIssue[] = []) {
+        super(message);
+        this.name = "BackupError";
+        this.issues = issues;
+    }
+}
+
+//
+// ─── EXPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Wraps app data in a versioned backup envelope.
+ *
+ * @param data - Tasks, settings and focus sessions to export
+ * @param appVersion - Version of the app writing the file
+ * @param now - Export time (ISO)
+ */
+export function createBackup(
+    data: BackupData,
+    appVersion: string,
+    now = new Date().toISOString()
+): Backup {
+    return {
+        format: BACKUP_FORMAT,
+        schemaVersion: SCHEMA_VERSION,
+        appVersion,
+        exportedAt: now,
+        data
+    };
+}
+
+//
+// ─── IMPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Schema version of a parsed file. Files without a format id predate
+ * versioning and are version 0.
+ */
+function detectVersion(raw: Record<string, unknown>): number {
+    if (raw.format === undefined && raw.schemaVersion === undefined) return 0;
+
+    if (raw.format !== BACKUP_FORMAT) {
+        throw new BackupError("This file is not a BrainDesk backup.", [
+            { path: "format", message: `expected "${BACKUP_FORMAT}"` }
+        ]);
+    }
+
+    const version = raw.schemaVersion;
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+        throw new BackupError("The backup's schema version is missing.", [
+            { path: "schemaVersion", message: "expected a positive whole number" }
+        ]);
+    }
+    if (version > SCHEMA_VERSION) {
+        throw new BackupError(
+            "This backup was made by a newer version of BrainDesk. Update the app to import it."
+        );
+    }
+    return version;
+}
+
+/**
+ * Reads the attachment files of a bundle. Entries whose path leaves the
+ * attachments folder are dropped.
+ */
+function readAttachments(
+    raw: unknown,
+    issues: ValidationIssue[]
+): Record<string, string> {
+    const files: Record<string, string> = {};
+    if (raw === undefined || raw === null) return files;
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+        issues.push({ path: "attachments", message: "expected an object" });
+        return files;
+    }
+
+    for (const [path, contents] of Object.entries(raw)) {
+        if (isAttachmentPath(path) && typeof contents === "string") {
+            files[path] = contents;
+        } else {
+            issues.push({
+                path: `attachments.${path}`,
+                message: "expected a file in the attachments folder"
+            });
+        }
+    }
+    return files;
+}
+
+/**
+ * Reads backup file contents: detects the schema version, migrates to the
+ * current schema and validates every record.
+ *
+ * @param contents - File contents
+ * @returns Valid data and the issues of everything that was dropped
+ * @throws BackupError when the file isn't a readable backup
+ */
+export function parseBackup(contents: string): ParsedBackup {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(contents);
+    } catch {
+        throw new BackupError("The file is not valid JSON.");
+    }
+
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        throw new BackupError("This file is not a BrainDesk backup.");
+    }
+
+    const envelope = raw as Record<string, unknown>;
+    const schemaVersion = detectVersion(envelope);
+    const body = schemaVersion === 0 ? envelope : envelope.data;
+    const prefix = schemaVersion === 0 ? "" : "data.";
+
+    if (!body || typeof body !== "object") {
+        throw new BackupError("The backup has no data.", [
+            { path: "data", message: "expected an object" }
+        ]);
+    }
+
+    const doc = migrateDocument(body, schemaVersion);
+
+    if (!Array.isArray(doc.tasks)) {
+        throw new BackupError("Invalid format: 'tasks' array missing.", [
+            { path: `${prefix}tasks`, message: "expected a list" }
+        ]);
+    }
+    if (!doc.settings || typeof doc.settings !== "object") {
+        throw new BackupError("Invalid format: 'settings' object missing.", [
+            { path: `${prefix}settings`, message: "expected an object" }
+        ]);
+    }
+
+    const tasks = validateTasks(doc.tasks, `${prefix}tasks`);
+    const settings = validateSettings(doc.settings, `${prefix}settings`);
+    const sessions = validateSessions(doc.sessions, `${prefix}sessions`);
+    const attachmentIssues: ValidationIssue[] = [];
+    const attachments = readAttachments(envelope.attachments, attachmentIssues);
+
+    return {
+        schemaVersion,
+        appVersion:
+            typeof envelope.appVersion === "string" ? envelope.appVersion : null,
+        exportedAt:
+            typeof envelope.exportedAt === "string" ? envelope.exportedAt : null,
+        data: {
+            tasks: tasks.value,
+            settings: settings.value,
+            sessions: sessions.value
+        },
+        attachments,
+        issues: [
+            ...tasks.issues,
+            ...settings.issues,
+            ...sessions.issues,
+            ...attachmentIssues
+        ]
+    };
+}
+
+/**
+ * Formats issues for an alert, e.g. "• tasks[2].dueDate: expected a day".
+ *
+ * @param issues - Issues to list
+ * @param limit - Maximum lines before summarising the rest
+ */
+export function formatIssues(issues: ValidationIssue[], limit = 3): string {
+    const lines = issues
+        .slice(0, limit)
+        .map(issue => `• ${issue.path}: ${issue.message}`);
+    if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+    return lines.join("\n");
+}
@@ -0,0 +1,293 @@
+/**
+ * File: encryption.ts
+ * Description: Passphrase-protected backup files. The backup JSON is sealed
+ * with AES-256-GCM under a key derived by PBKDF2-SHA256 from the passphrase
+ * and a random salt; salt, nonce and KDF cost travel in the file header,
+ * which is authenticated along with the data.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { gcm } from "@noble/ciphers/aes";
+import { bytesToUtf8, equalBytes, utf8ToBytes } from "@noble/ciphers/utils";
+import { randomBytes } from "@noble/ciphers/webcrypto";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { BackupError } from "./backup";
+import { isObject } from "./schema";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Identifies an encrypted BrainDesk backup file */
+export const ENCRYPTED_FORMAT = "braindesk-encrypted-backup";
+
+/** PBKDF2 rounds for new files; older files carry their own count */
+export const DEFAULT_ITERATIONS = 310000;
+
+// Refuse headers that would keep the phone busy for minutes
+const MAX_ITERATIONS = 5000000;
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 12;
+const KEY_BYTES = 32;
+const CHECK_BYTES = 16;
+// AES-GCM appends its authentication tag to the sealed data
+const TAG_BYTES = 16;
+
+/** Everything needed to derive the key and open the data */
+type EncryptedHeader = {
+    format: typeof ENCRYPTED_FORMAT;
+    version: 1;
+    kdf: { name: "PBKDF2-SHA256"; iterations: number; salt: string };
+    cipher: { name: "AES-256-GCM"; nonce: string };
+};
+
+/** Encrypted backup file as written by `encryptBackup` */
+export type EncryptedBackup = EncryptedHeader & {
+    /** Derived alongside the key; a match proves the passphrase before decrypting */
+    check: string;
+    /** Sealed backup JSON */
+    data: string;
+};
+
+/**
+ * An encrypted backup that can't be opened. `reason` tells the user whether
+ * retyping the passphrase may help ("passphrase") or the file itself is
+ * broken ("tampered"). A check value that doesn't match can also come from a
+ * damaged salt or check field, so "passphrase" never rules out damage.
+ */
+export class DecryptionError extends BackupError {
+    reason: "passphrase" | "tampered";
+
+    constructor(reason: "passphrase" | "tampered") {
+        super(
+            reason === "passphrase"
+                ? "Wrong passphrase, or the file is damaged. Check the passphrase and try again."
+                : "This backup has been changed or damaged and can't be decrypted."
+        );
+        this.name = "DecryptionError";
+        this.reason = reason;
+    }
+}
+
+//
+// ─── BASE64 ────────────────────────────────────────────────────────────────────
+//
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function toBase64(bytes: Uint8Array): string {
+    let out = "";
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63];
+        out += i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : "=";
+        out += i + 2 < bytes.length ? BASE64[n & 63] : "=";
+    }
+    return out;
+}
+
+/** Decodes base64; null when the text isn't valid base64 */
+function fromBase64(text: string): Uint8Array | null {
+    if (text.length % 4 !== 0) return null;
+    const padding = text.endsWith("==") ? 2 : text.endsWith("=") ? 1 : 0;
+    const out = new Uint8Array((text.length / 4) * 3 - padding);
+
+    for (let i = 0, o = 0; i < text.length; i += 4) {
+        let n = 0;
+        for (let j = 0; j < 4; j++) {
+            const char = text[i + j];
+            const value = char === "=" && i + j >= text.length - padding ? 0 : BASE64.indexOf(char);
+            if (value < 0) return null;
+            n = (n << 6) | value;
+        }
+        out[o++] = (n >> 16) & 255;
+        if (o < out.length) out[o++] = (n >> 8) & 255;
+        if (o < out.length) out[o++] = n & 255;
+    }
+    return out;
+}
+
+//
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
+//
+
+/** Key for the cipher plus the passphrase check value */
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number) {
+    const derived = await pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, {
+        c: iterations,
+        dkLen: KEY_BYTES + CHECK_BYTES
+    });
+    return { key: derived.slice(0, KEY_BYTES), check: derived.slice(KEY_BYTES) };
+}
+
+/** Header bytes bound to the ciphertext, in a fixed field order */
+function headerBytes(header: EncryptedHeader): Uint8Array {
+    return utf8ToBytes(
+        JSON.stringify({
+            format: header.format,
+            version: header.version,
+            kdf: {
+                name: header.kdf.name,
+                iterations: header.kdf.iterations,
+                salt: header.kdf.salt
+            },
+            cipher: { name: header.cipher.name, nonce: header.cipher.nonce }
+        })
+    );
+}
+
+/** Parses file contents as an encrypted backup, or null for anything else */
+function readEncrypted(contents: string): Record<string, unknown> | null {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(contents);
+    } catch {
+        return null;
+    }
+    return isObject(raw) && raw.format === ENCRYPTED_FORMAT ? raw : null;
+}
+
+/** Checks and decodes the header and payload of a version 1 file, or null if any is damaged */
+function readSealed(raw: Record<string, unknown>) {
+    const { kdf, cipher, check, data } = raw;
+    if (!isObject(kdf) || !isObject(cipher)) return null;
+    if (kdf.name !== "PBKDF2-SHA256" || cipher.name !== "AES-256-GCM") return null;
+
+    const { iterations, salt } = kdf;
+    const { nonce } = cipher;
+    if (
+        typeof iterations !== "number" ||
+        !Number.isInteger(iterations) ||
+        iterations < 1 ||
+        iterations > MAX_ITERATIONS ||
+        typeof salt !== "string" ||
+        typeof nonce !== "string" ||
+        typeof check !== "string" ||
+        typeof data !== "string"
+    ) {
+        return null;
+    }
+
+    const header: EncryptedHeader = {
+        format: ENCRYPTED_FORMAT,
+        version: 1,
+        kdf: { name: kdf.name, iterations, salt },
+        cipher: { name: cipher.name, nonce }
+    };
+    const bytes = {
+        salt: fromBase64(salt),
+        nonce: fromBase64(nonce),
+        check: fromBase64(check),
+        data: fromBase64(data)
+    };
+    if (
+        bytes.salt?.length !== SALT_BYTES ||
+        bytes.nonce?.length !== NONCE_BYTES ||
+        bytes.check?.length !== CHECK_BYTES ||
+        // Truncated: too short to even hold the tag
+        !bytes.data ||
+        bytes.data.length <= TAG_BYTES
+    ) {
+        return null;
+    }
+    return {
+        header,
+        iterations,
+        salt: bytes.salt,
+        nonce: bytes.nonce,
+        check: bytes.check,
+        data: bytes.data
+    };
+}
+
+//
+// ─── PUBLIC API ────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Whether file contents are an encrypted backup (and need a passphrase).
+ *
+ * @param contents - File contents
+ */
+export function isEncryptedBackup(contents: string): boolean {
+    return readEncrypted(contents) !== null;
+}
+
+/**
+ * Seals backup file contents with a passphrase.
+ *
+ * @param contents - Backup JSON as written by the plain export
+ * @param passphrase - Passphrase chosen by the user
+ * @param iterations - PBKDF2 rounds (tests use fewer)
+ * @returns Encrypted backup file contents (JSON)
+ */
+export async function encryptBackup(
+    contents: string,
+    passphrase: string,
+    iterations = DEFAULT_ITERATIONS
+): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const nonce = randomBytes(NONCE_BYTES);
+    const { key, check } = await deriveKey(passphrase, salt, iterations);
+
+    const header: EncryptedHeader = {
+        format: ENCRYPTED_FORMAT,
+        version: 1,
+        kdf: { name: "PBKDF2-SHA256", iterations, salt: toBase64(salt) },
+        cipher: { name: "AES-256-GCM", nonce: toBase64(nonce) }
+    };
+    const sealed = gcm(key, nonce, headerBytes(header)).encrypt(utf8ToBytes(contents));
+
+    const file: EncryptedBackup = {
+        ...header,
+        check: toBase64(check),
+        data: toBase64(sealed)
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Opens an encrypted backup.
+ *
+ * @param contents - Encrypted backup file contents
+ * @param passphrase - Passphrase entered by the user
+ * @returns The backup JSON, ready for `parseBackup`
+ * @throws DecryptionError on a wrong passphrase or a damaged file
+ * @throws BackupError when the header is unreadable or from a newer app
+ */
+export async function decryptBackup(
+    contents: string,
+    passphrase: string
+): Promise<string> {
+    const raw = readEncrypted(contents);
+    if (!raw) {
+        throw new BackupError("This file is not an encrypted BrainDesk backup.");
+    }
+    if (raw.version !== 1) {
+        throw new BackupError(
+            "This backup was encrypted by a newer version of BrainDesk. Update the app to import it."
+        );
+    }
+
+    const sealed = readSealed(raw);
+    if (!sealed) {
+        throw new DecryptionError("tampered");
+    }
+    const { header, iterations, salt, nonce, check, data } = sealed;
+
+    const derived = await deriveKey(passphrase, salt, iterations);
+    if (!equalBytes(derived.check, check)) {
+        throw new DecryptionError("passphrase");
+    }
+
+    // The passphrase is proven right, so a failure here can only be damage
+    try {
+        const opened = gcm(derived.key, nonce, headerBytes(header)).decrypt(data);
+        return bytesToUtf8(opened);
+    } catch {
+        throw new DecryptionError("tampered");
+    }
+}
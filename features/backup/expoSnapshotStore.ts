@@ -0,0 +1,50 @@
+/**
+ * File: expoSnapshotStore.ts
+ * Description: `SnapshotStore` implementation backed by expo-file-system,
+ * keeping snapshots in a folder of the app's document directory.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import * as FileSystem from "expo-file-system";
+import type { SnapshotStore } from "./snapshots";
+
+/** Folder holding the snapshot files */
+const SNAPSHOT_DIR = FileSystem.documentDirectory + "snapshots/";
+
+/**
+ * Creates the snapshot folder on first use; later calls are no-ops.
+ */
+async function ensureDir() {
+    const info = await FileSystem.getInfoAsync(SNAPSHOT_DIR);
+    if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(SNAPSHOT_DIR, { intermediates: true });
+    }
+}
+
+export const expoSnapshotStore: SnapshotStore = {
+    async list() {
+        await ensureDir();
+        return FileSystem.readDirectoryAsync(SNAPSHOT_DIR);
+    },
+
+    async read(name) {
+        return FileSystem.readAsStringAsync(SNAPSHOT_DIR + name);
+    },
+
+    async write(name, contents) {
+        await ensureDir();
+        await FileSystem.writeAsStringAsync(SNAPSHOT_DIR + name, contents, {
+            encoding: FileSystem.EncodingType.UTF8
+        });
+    },
+
+    async remove(name) {
+        await FileSystem.deleteAsync(SNAPSHOT_DIR + name, { idempotent: true });
+    },
+
+    async size(name) {
+        const info = await FileSystem.getInfoAsync(SNAPSHOT_DIR + name);
+        return info.exists ? info.size : 0;
+    }
+};
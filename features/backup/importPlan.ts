@@ -0,0 +1,249 @@
+/**
+ * File: importPlan.ts
+ * Description: Compares a parsed backup with the current data before import:
+ * which tasks are new, identical or in conflict, and which settings differ.
+ * Conflicts are resolved per task as keep mine, take theirs or newest wins.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "@/features/todo/todoSlice";
+import type { SettingsState } from "@/features/settings/settingsSlice";
+import type { FocusSession } from "@/features/focus/focusTimer";
+import { findSubjectByName, Subject } from "@/features/settings/subjects";
+import type { ParsedBackup } from "./backup";
+import { getLastChange } from "./migrations";
+import { validateTask } from "./schema";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** How to settle a task that exists on both sides with different content */
+export type ConflictResolution = "mine" | "theirs" | "newest";
+
+/** A task whose ID exists locally and in the backup, with different content */
+export type TaskConflict = {
+    id: string;
+    mine: Task;
+    theirs: Task;
+    /** Side with the later `updatedAt`; "same" when both are equal */
+    newer: "mine" | "theirs" | "same";
+};
+
+/** Settings that would overwrite a value (subjects are merged instead) */
+export type SettingKey = Exclude<keyof SettingsState, "subjects">;
+
+/** A setting whose imported value differs from the current one */
+export type SettingChange = {
+    key: SettingKey;
+    mine: unknown;
+    theirs: unknown;
+};
+
+/** Everything an import would change, for the preview */
+export type ImportPlan = {
+    /** Tasks whose IDs don't exist locally */
+    added: Task[];
+    /** Tasks that match the local copy (ignoring `updatedAt`) */
+    identical: Task[];
+    conflicts: TaskConflict[];
+    settingsChanges: SettingChange[];
+    /** Subjects in the backup that aren't in the current list, by ID or name */
+    newSubjects: Subject[];
+    /** Focus sessions whose IDs don't exist locally */
+    addedSessions: FocusSession[];
+};
+
+/** Current app data the backup is compared against */
+export type CurrentData = {
+    tasks: Task[];
+    settings: SettingsState;
+    sessions: FocusSession[];
+};
+
+//
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Task content in a canonical form, so that tasks built by different
+ * reducers (different key order) or differing only in `updatedAt` compare equal.
+ */
+function fingerprint(task: Task): string {
+    const { value } = validateTask(task);
+    const { updatedAt: _updatedAt, ...content } = value ?? task;
+    return JSON.stringify(content);
+}
+
+/**
+ * Which side changed last, by `updatedAt` (falling back to the latest
+ * timestamp on tasks saved before it existed).
+ */
+function compareUpdated(mine: Task, theirs: Task): TaskConflict["newer"] {
+    const a = Date.parse(getLastChange(mine));
+    const b = Date.parse(getLastChange(theirs));
+    if (a === b) return "same";
+    return a > b ? "mine" : "theirs";
+}
+
+/**
+ * Local subject IDs for imported subjects that exist here under the same name
+ * but another ID, keyed by the imported ID. `mergeSettings` skips those
+ * subjects, so whatever refers to them must point at the local one instead.
+ */
+function localSubjectIds(incoming: Subject[], current: Subject[]): Map<string, string> {
+    const ids = new Map<string, string>();
+    for (const subject of incoming) {
+        if (current.some(known => known.id === subject.id)) continue;
+        const local = findSubjectByName(current, subject.name);
+        if (local) ids.set(subject.id, local.id);
+    }
+    return ids;
+}
+
+//
+// ─── PLAN ──────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Compares a parsed backup with the current data. Imported tasks and
+ * sessions of a subject the current list has under another ID are pointed
+ * at the local subject of the same name.
+ *
+ * @param current - Tasks, settings and sessions in the store
+ * @param incoming - Validated data from `parseBackup`
+ * @returns What would be added, what is identical and what conflicts
+ */
+export function buildImportPlan(
+    current: CurrentData,
+    incoming: ParsedBackup["data"]
+): ImportPlan {
+    const mine = new Map(current.tasks.map(t => [t.id, t]));
+    const plan: ImportPlan = {
+        added: [],
+        identical: [],
+        conflicts: [],
+        settingsChanges: [],
+        newSubjects: [],
+        addedSessions: []
+    };
+
+    const subjectIds = localSubjectIds(
+        incoming.settings.subjects ?? [],
+        current.settings.subjects
+    );
+    const toLocalSubject = <T extends { subjectId: string | null }>(item: T): T => {
+        const id = item.subjectId === null ? undefined : subjectIds.get(item.subjectId);
+        return id ? { ...item, subjectId: id } : item;
+    };
+
+    for (const theirs of incoming.tasks.map(toLocalSubject)) {
+        const local = mine.get(theirs.id);
+        if (!local) {
+            plan.added.push(theirs);
+        } else if (fingerprint(local) === fingerprint(theirs)) {
+            plan.identical.push(theirs);
+        } else {
+            plan.conflicts.push({
+                id: theirs.id,
+                mine: local,
+                theirs,
+                newer: compareUpdated(local, theirs)
+            });
+        }
+    }
+
+    const { subjects, ...rest } = incoming.settings;
+    plan.newSubjects = (subjects ?? []).filter(
+        s =>
+            !current.settings.subjects.some(known => known.id === s.id) &&
+            !findSubjectByName(current.settings.subjects, s.name)
+    );
+    for (const key of Object.keys(rest) as SettingKey[]) {
+        const value = rest[key];
+        if (JSON.stringify(value) !== JSON.stringify(current.settings[key])) {
+            plan.settingsChanges.push({
+                key,
+                mine: current.settings[key],
+                theirs: value
+            });
+        }
+    }
+
+    const sessionIds = new Set(current.sessions.map(s => s.id));
+    plan.addedSessions = incoming.sessions
+        .filter(s => !sessionIds.has(s.id))
+        .map(toLocalSubject);
+
+    return plan;
+}
+
+/**
+ * Whether importing would change anything at all.
+ */
+export function isEmptyPlan(plan: ImportPlan): boolean {
+    return (
+        plan.added.length === 0 &&
+        plan.conflicts.length === 0 &&
+        plan.settingsChanges.length === 0 &&
+        plan.newSubjects.length === 0 &&
+        plan.addedSessions.length === 0
+    );
+}
+
+//
+// ─── RESOLUTION ────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Whether a conflict ends up with the imported copy.
+ * "newest" keeps the local copy on a tie.
+ */
+export function takesTheirs(
+    conflict: TaskConflict,
+    resolution: ConflictResolution
+): boolean {
+    if (resolution === "newest") return conflict.newer === "theirs";
+    return resolution === "theirs";
+}
+
+/**
+ * Tasks to write for a merge: every new task plus the imported copy of each
+ * conflict resolved in its favour.
+ *
+ * @param plan - Plan from `buildImportPlan`
+ * @param resolutions - Per-conflict choice by task ID
+ * @param fallback - Choice for conflicts without one
+ */
+export function resolveTasks(
+    plan: ImportPlan,
+    resolutions: Record<string, ConflictResolution>,
+    fallback: ConflictResolution = "newest"
+): Task[] {
+    const taken = plan.conflicts
+        .filter(c => takesTheirs(c, resolutions[c.id] ?? fallback))
+        .map(c => c.theirs);
+    return [...plan.added, ...taken];
+}
+
+/**
+ * Imported settings limited to the fields the user accepted.
+ * Subjects are always included; `mergeSettings` adds them to the current list.
+ *
+ * @param incoming - Validated settings from the backup
+ * @param accepted - Settings the user chose to overwrite
+ */
+export function pickSettings(
+    incoming: Partial<SettingsState>,
+    accepted: SettingKey[]
+): Partial<SettingsState> {
+    const picked: Partial<SettingsState> = {};
+    if (incoming.subjects) picked.subjects = incoming.subjects;
+    for (const key of accepted) {
+        if (incoming[key] !== undefined) {
+            (picked as Record<string, unknown>)[key] = incoming[key];
+        }
+    }
+    return picked;
+}
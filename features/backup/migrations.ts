@@ -0,0 +1,221 @@
+/**
+ * File: migrations.ts
+ * Description: Migration chain that upgrades stored data and backups from
+ * older schema versions to the current `Task`/`SettingsState` shape, plus the
+ * schema version recorded in AsyncStorage.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import dayjs from "dayjs";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+import type { Task } from "@/features/todo/todoSlice";
+import {
+    Subject,
+    subjectIdFromName,
+    subjectsFromNames
+} from "@/features/settings/subjects";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Persisted app data at some schema version, not yet validated.
+ * Storage loaders pass only the part they own.
+ */
+export type BackupDocument = {
+    tasks?: unknown;
+    settings?: unknown;
+    sessions?: unknown;
+};
+
+/** Upgrades a document by exactly one schema version */
+type Migration = (doc: BackupDocument) => BackupDocument;
+
+//
+// ─── STEPS ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Upgrades a task saved before due dates existed.
+ * Older versions stored the planned day in `createdAt`, so it becomes the due date.
+ *
+ * @param task - Task as read from storage or a backup file
+ * @returns Task with `dueDate` and `dueTime` populated
+ */
+export function migrateLegacyTask(task: Task): Task {
+    if (typeof task.dueDate === "string" && task.dueDate) {
+        return { ...task, dueTime: task.dueTime ?? null };
+    }
+
+    return {
+        ...task,
+        dueDate: dayjs(task.createdAt).format("YYYY-MM-DD"),
+        dueTime: null
+    };
+}
+
+/**
+ * When a task last changed: its `updatedAt`, or for tasks saved before that
+ * existed, the latest timestamp recorded on it (creation, completion of the
+ * task or any occurrence, trashing or logged time).
+ *
+ * @param task - Task in any schema version
+ * @returns ISO timestamp
+ */
+export function getLastChange(task: Task): string {
+    if (typeof task.updatedAt === "string" && !Number.isNaN(Date.parse(task.updatedAt))) {
+        return task.updatedAt;
+    }
+
+    const candidates = [
+        task.createdAt,
+        task.completedAt,
+        task.deletedAt,
+        ...Object.values(task.occurrenceCompletions ?? {}),
+        ...(task.timeEntries ?? []).map(e => e.loggedAt)
+    ].filter(
+        (value): value is string =>
+            typeof value === "string" && !Number.isNaN(Date.parse(value))
+    );
+
+    return candidates.reduce(
+        (latest, value) =>
+            Date.parse(value) > Date.parse(latest) ? value : latest,
+        candidates[0] ?? new Date(0).toISOString()
+    );
+}
+
+/**
+ * Upgrades data saved while subjects were plain names: the names become
+ * subject records and tasks and sessions reference them by ID. IDs derive
+ * from the name, so tasks migrated without their settings still match.
+ *
+ * @param doc - Document at schema version 2
+ * @returns Document at schema version 3
+ */
+function migrateSubjectNames(doc: BackupDocument): BackupDocument {
+    type Legacy = { subject?: unknown; subjectId?: unknown };
+    const toId = <T extends Legacy>(item: T): T => {
+        if (typeof item.subjectId === "string" || !("subject" in item)) return item;
+        const { subject, ...rest } = item;
+        return {
+            ...rest,
+            subjectId:
+                typeof subject === "string"
+                    ? subjectIdFromName(subject.trim() || "General")
+                    : null
+        } as unknown as T;
+    };
+
+    const settings = doc.settings as { subjects?: unknown } | undefined;
+    const subjects = settings?.subjects;
+    const migrated =
+        Array.isArray(subjects) && subjects.some(s => typeof s === "string")
+            ? {
+                  ...settings,
+                  subjects: [
+                      ...subjects.filter((s): s is Subject => typeof s === "object"),
+                      ...subjectsFromNames(
+                          subjects.filter((s): s is string => typeof s === "string")
+                      )
+                  ]
+              }
+            : doc.settings;
+
+    return {
+        ...doc,
+        tasks: mapObjects<Legacy>(doc.tasks, toId),
+        settings: migrated,
+        sessions: mapObjects<Legacy>(doc.sessions, toId)
+    };
+}
+
+/** Applies `step` to every object in a list, leaving anything else alone */
+const mapObjects = <T>(list: unknown, step: (item: T) => T): unknown =>
+    Array.isArray(list)
+        ? list.map(item =>
+              item && typeof item === "object" ? step(item as T) : item
+          )
+        : list;
+
+/**
+ * Migration steps; `MIGRATIONS[n]` upgrades version n to n + 1.
+ * Each step must leave data already in its target shape unchanged, so a
+ * document of unknown age can safely be run through the chain again.
+ */
+const MIGRATIONS: Migration[] = [
+    // 0 → 1: unversioned files and storage. Tasks gain due dates derived from
+    // `createdAt`; backups made before focus sessions existed get none.
+    doc => ({
+        ...doc,
+        tasks: mapObjects(doc.tasks, migrateLegacyTask),
+        sessions: doc.sessions ?? []
+    }),
+
+    // 1 → 2: tasks gain `updatedAt` for import conflict resolution
+    doc => ({
+        ...doc,
+        tasks: mapObjects<Task>(doc.tasks, task =>
+            typeof task.updatedAt === "string"
+                ? task
+                : { ...task, updatedAt: getLastChange(task) }
+        )
+    }),
+
+    // 2 → 3: subjects become records; tasks and sessions reference their ID
+    migrateSubjectNames
+];
+
+/** Schema version written by this build */
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+//
+// ─── CHAIN ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Runs every migration from `fromVersion` up to `SCHEMA_VERSION`.
+ *
+ * @param doc - Data as read from storage or a backup file
+ * @param fromVersion - Schema version the data was written with
+ * @returns Data in the current shape (validate before use)
+ */
+export function migrateDocument(
+    doc: BackupDocument,
+    fromVersion: number
+): BackupDocument {
+    return MIGRATIONS.slice(Math.max(fromVersion, 0)).reduce(
+        (current, step) => step(current),
+        doc
+    );
+}
+
+//
+// ─── STORAGE VERSION ───────────────────────────────────────────────────────────
+//
+
+/**
+ * Schema version of the data in AsyncStorage; 0 when never recorded.
+ */
+export async function loadStorageVersion(): Promise<number> {
+    try {
+        const stored = Number(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION));
+        return Number.isInteger(stored) && stored > 0 ? stored : 0;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Records that storage now holds data in the current schema.
+ * Call only after every migrated collection has been written back.
+ */
+export async function saveStorageVersion() {
+    await AsyncStorage.setItem(
+        STORAGE_KEYS.SCHEMA_VERSION,
+        String(SCHEMA_VERSION)
+    );
+}
@@ -0,0 +1,623 @@
+/**
+ * File: schema.ts
+ * Description: Shared validator for tasks, settings and focus sessions coming
+ * from storage or a backup file. Malformed records are dropped and malformed
+ * optional fields are reset; every problem is reported with its field path.
+ * Also holds the checks for sync server messages and the stored sync queue.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { sanitizeRecurrence } from "@/features/todo/recurrence";
+import { normalizeTag, sanitizeTags } from "@/features/todo/tags";
+import { sanitizeSession } from "@/features/focus/focusTimer";
+import type { FocusSession } from "@/features/focus/focusTimer";
+import type { Subtask, Task, TimeEntry } from "@/features/todo/todoSlice";
+import type {
+    DailyGoal,
+    FocusDurations,
+    SettingsState,
+    ThemeMode
+} from "@/features/settings/settingsSlice";
+import { SUBJECT_COLORS, SUBJECT_ICONS, Subject } from "@/features/settings/subjects";
+import { PRIORITY_COLORS, PriorityLevel } from "@/features/settings/priorities";
+import { Attachment, isAttachmentPath } from "@/features/attachments/attachments";
+import type {
+    Mutation,
+    MutationResult,
+    PullResponse,
+    PushResponse,
+    ServerRecord
+} from "@/features/sync/protocol";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** One problem found in untrusted data, e.g. `tasks[2].dueDate` */
+export type ValidationIssue = {
+    path: string;
+    message: string;
+};
+
+/** Cleaned value plus everything that had to be dropped or reset */
+export type ValidationResult<T> = {
+    value: T;
+    issues: ValidationIssue[];
+};
+
+/** Upper bound for an estimate or a single time entry (one day) */
+export const MAX_TRACKED_MINUTES = 24 * 60;
+
+const THEME_MODES: ThemeMode[] = ["light", "dark", "system"];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+/** A plain JSON object (not null, not an array) */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Whether two JSON values hold the same data, whatever their key order.
+ * A field set to `undefined` counts as missing, as it does once stored.
+ */
+export function isSameData(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return (
+            Array.isArray(a) &&
+            Array.isArray(b) &&
+            a.length === b.length &&
+            a.every((item, i) => isSameData(item, b[i]))
+        );
+    }
+    if (!isObject(a) || !isObject(b)) return false;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => isSameData(a[key], b[key]));
+}
+
+const isDay = (value: unknown): value is string =>
+    typeof value === "string" && DAY_PATTERN.test(value);
+
+const isTime = (value: unknown): value is string =>
+    typeof value === "string" && TIME_PATTERN.test(value);
+
+const isTimestamp = (value: unknown): value is string =>
+    typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+//
+// ─── FIELD SANITIZERS ──────────────────────────────────────────────────────────
+//
+
+/**
+ * Validates an estimate or a logged duration.
+ *
+ * @param raw - Minutes from storage, a backup file or the UI
+ * @returns Whole minutes between 1 and a day, or null
+ */
+export function sanitizeEstimate(raw: unknown): number | null {
+    if (typeof raw !== "number" || !Number.isFinite(raw)) return null;
+    const minutes = Math.round(raw);
+    return minutes > 0 && minutes <= MAX_TRACKED_MINUTES ? minutes : null;
+}
+
+/** Valid retention values are whole, non-negative day counts */
+export const isRetention = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/**
+ * Returns a copy of a stored daily goal, or null when it is malformed.
+ */
+export function sanitizeDailyGoal(raw: unknown): DailyGoal | null {
+    if (!isObject(raw)) return null;
+    const { type, target } = raw;
+    if (type !== "tasks" && type !== "minutes") return null;
+    if (typeof target !== "number" || !Number.isInteger(target) || target < 1) {
+        return null;
+    }
+    return { type, target };
+}
+
+/**
+ * Returns a copy of stored focus durations, or null when any field is not a
+ * positive whole number.
+ */
+export function sanitizeFocusDurations(raw: unknown): FocusDurations | null {
+    if (!isObject(raw)) return null;
+    const { work, shortBreak, longBreak, longBreakEvery } = raw;
+    const values = [work, shortBreak, longBreak, longBreakEvery];
+    if (!values.every(v => typeof v === "number" && Number.isInteger(v) && v > 0)) {
+        return null;
+    }
+    return {
+        work: work as number,
+        shortBreak: shortBreak as number,
+        longBreak: longBreak as number,
+        longBreakEvery: longBreakEvery as number
+    };
+}
+
+//
+// ─── TASKS ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Keeps the valid entries of a list, reporting each dropped one.
+ */
+function validateList<T>(
+    raw: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    check: (item: unknown) => T | null,
+    message: string
+): T[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+        issues.push({ path, message: "expected a list" });
+        return [];
+    }
+
+    const items: T[] = [];
+    raw.forEach((item, index) => {
+        const valid = check(item);
+        if (valid === null) {
+            issues.push({ path: `${path}[${index}]`, message });
+        } else {
+            items.push(valid);
+        }
+    });
+    return items;
+}
+
+/**
+ * Reads an optional nullable field, reporting values of the wrong shape.
+ */
+function optional<T>(
+    raw: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    check: (value: unknown) => value is T,
+    message: string
+): T | null {
+    if (raw === undefined || raw === null) return null;
+    if (check(raw)) return raw;
+    issues.push({ path, message });
+    return null;
+}
+
+const toSubtask = (raw: unknown): Subtask | null =>
+    isObject(raw) &&
+    typeof raw.id === "string" &&
+    typeof raw.text === "string" &&
+    typeof raw.completed === "boolean"
+        ? { id: raw.id, text: raw.text, completed: raw.completed }
+        : null;
+
+// The path is checked so a crafted backup can't point outside the attachments folder
+const toAttachment = (raw: unknown): Attachment | null =>
+    isObject(raw) &&
+    typeof raw.id === "string" &&
+    typeof raw.name === "string" &&
+    typeof raw.mimeType === "string" &&
+    typeof raw.size === "number" &&
+    raw.size >= 0 &&
+    typeof raw.path === "string" &&
+    isAttachmentPath(raw.path) &&
+    isTimestamp(raw.addedAt)
+        ? {
+              id: raw.id,
+              name: raw.name,
+              mimeType: raw.mimeType,
+              size: raw.size,
+              path: raw.path,
+              addedAt: raw.addedAt
+          }
+        : null;
+
+const toTimeEntry = (raw: unknown): TimeEntry | null => {
+    if (!isObject(raw) || typeof raw.id !== "string") return null;
+    const minutes = sanitizeEstimate(raw.minutes);
+    return minutes !== null && isTimestamp(raw.loggedAt)
+        ? { id: raw.id, minutes, loggedAt: raw.loggedAt }
+        : null;
+};
+
+/**
+ * Validates one task in the current schema.
+ * A task missing a required field is rejected; bad optional fields are reset.
+ *
+ * @param raw - Untrusted task
+ * @param path - Location used in issue paths, e.g. "tasks[3]"
+ * @returns The cleaned task (null when rejected) and the issues found
+ */
+export function validateTask(
+    raw: unknown,
+    path = "task"
+): ValidationResult<Task | null> {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(raw)) {
+        return { value: null, issues: [{ path, message: "expected an object" }] };
+    }
+
+    const required: [string, boolean, string][] = [
+        ["id", typeof raw.id === "string" && raw.id !== "", "expected a non-empty string"],
+        ["text", typeof raw.text === "string", "expected a string"],
+        ["subjectId", typeof raw.subjectId === "string" && raw.subjectId !== "", "expected a non-empty string"],
+        ["priority", typeof raw.priority === "string", "expected a string"],
+        ["createdAt", isTimestamp(raw.createdAt), "expected a timestamp"],
+        ["dueDate", isDay(raw.dueDate), "expected a day (YYYY-MM-DD)"]
+    ];
+    for (const [field, ok, message] of required) {
+        if (!ok) issues.push({ path: `${path}.${field}`, message });
+    }
+    if (issues.length > 0) return { value: null, issues };
+
+    if (raw.completed !== undefined && typeof raw.completed !== "boolean") {
+        issues.push({ path: `${path}.completed`, message: "expected true or false" });
+    }
+
+    const recurrence = sanitizeRecurrence(raw.recurrence);
+    if (raw.recurrence != null && recurrence === null) {
+        issues.push({ path: `${path}.recurrence`, message: "invalid repeat rule" });
+    }
+
+    const occurrenceCompletions: Record<string, string> = {};
+    if (isObject(raw.occurrenceCompletions)) {
+        for (const [day, at] of Object.entries(raw.occurrenceCompletions)) {
+            if (isDay(day) && isTimestamp(at)) {
+                occurrenceCompletions[day] = at;
+            } else {
+                issues.push({
+                    path: `${path}.occurrenceCompletions.${day}`,
+                    message: "expected a completion timestamp for a day"
+                });
+            }
+        }
+    } else if (raw.occurrenceCompletions != null) {
+        issues.push({ path: `${path}.occurrenceCompletions`, message: "expected an object" });
+    }
+
+    if (raw.notes != null && typeof raw.notes !== "string") {
+        issues.push({ path: `${path}.notes`, message: "expected a string" });
+    }
+
+    const estimateMinutes = sanitizeEstimate(raw.estimateMinutes);
+    if (raw.estimateMinutes != null && estimateMinutes === null) {
+        issues.push({
+            path: `${path}.estimateMinutes`,
+            message: `expected minutes between 1 and ${MAX_TRACKED_MINUTES}`
+        });
+    }
+
+    const task: Task = {
+        id: raw.id as string,
+        text: raw.text as string,
+        completed: raw.completed === true,
+        subjectId: raw.subjectId as string,
+        priority: raw.priority as string,
+        dueDate: raw.dueDate as string,
+        dueTime: optional(raw.dueTime, `${path}.dueTime`, issues, isTime, "expected a time (HH:MM)"),
+        createdAt: raw.createdAt as string,
+        updatedAt:
+            optional(raw.updatedAt, `${path}.updatedAt`, issues, isTimestamp, "expected a timestamp") ??
+            undefined,
+        completedAt: optional(raw.completedAt, `${path}.completedAt`, issues, isTimestamp, "expected a timestamp"),
+        deletedAt: optional(raw.deletedAt, `${path}.deletedAt`, issues, isTimestamp, "expected a timestamp"),
+        recurrence,
+        excludedDates: validateList(
+            raw.excludedDates,
+            `${path}.excludedDates`,
+            issues,
+            d => (isDay(d) ? d : null),
+            "expected a day (YYYY-MM-DD)"
+        ),
+        occurrenceCompletions,
+        subtasks: validateList(
+            raw.subtasks,
+            `${path}.subtasks`,
+            issues,
+            toSubtask,
+            "malformed subtask"
+        ),
+        tags: sanitizeTags(
+            validateList(
+                raw.tags,
+                `${path}.tags`,
+                issues,
+                t => (typeof t === "string" && normalizeTag(t) ? t : null),
+                "expected a tag"
+            )
+        ),
+        notes: typeof raw.notes === "string" ? raw.notes : "",
+        attachments: validateList(
+            raw.attachments,
+            `${path}.attachments`,
+            issues,
+            toAttachment,
+            "malformed attachment"
+        ),
+        estimateMinutes,
+        timeEntries: validateList(
+            raw.timeEntries,
+            `${path}.timeEntries`,
+            issues,
+            toTimeEntry,
+            "malformed time entry"
+        )
+    };
+
+    return { value: task, issues };
+}
+
+/**
+ * Validates a task list, dropping rejected tasks and repeated IDs.
+ *
+ * @param raw - Untrusted list
+ * @param path - Location used in issue paths
+ */
+export function validateTasks(
+    raw: unknown,
+    path = "tasks"
+): ValidationResult<Task[]> {
+    if (!Array.isArray(raw)) {
+        return { value: [], issues: [{ path, message: "expected a list" }] };
+    }
+
+    const tasks: Task[] = [];
+    const issues: ValidationIssue[] = [];
+    const seen = new Set<string>();
+
+    raw.forEach((item, index) => {
+        const result = validateTask(item, `${path}[${index}]`);
+        issues.push(...result.issues);
+        if (!result.value) return;
+
+        if (seen.has(result.value.id)) {
+            issues.push({ path: `${path}[${index}].id`, message: "duplicate task ID" });
+            return;
+        }
+        seen.add(result.value.id);
+        tasks.push(result.value);
+    });
+
+    return { value: tasks, issues };
+}
+
+//
+// ─── SETTINGS ──────────────────────────────────────────────────────────────────
+//
+
+/** A subject needs an ID and a name; bad styling falls back to defaults */
+const toSubject = (raw: unknown): Subject | null =>
+    isObject(raw) &&
+    typeof raw.id === "string" &&
+    raw.id !== "" &&
+    typeof raw.name === "string" &&
+    raw.name.trim() !== ""
+        ? {
+              id: raw.id,
+              name: raw.name.trim(),
+              color:
+                  typeof raw.color === "string" && COLOR_PATTERN.test(raw.color)
+                      ? raw.color
+                      : SUBJECT_COLORS[0],
+              icon: typeof raw.icon === "string" && raw.icon ? raw.icon : SUBJECT_ICONS[0],
+              archived: raw.archived === true,
+              order:
+                  typeof raw.order === "number" && Number.isFinite(raw.order)
+                      ? raw.order
+                      : 0
+          }
+        : null;
+
+/** A priority level needs an ID, a name and a rank; a bad color falls back */
+const toPriority = (raw: unknown): PriorityLevel | null =>
+    isObject(raw) &&
+    typeof raw.id === "string" &&
+    raw.id !== "" &&
+    typeof raw.name === "string" &&
+    raw.name.trim() !== "" &&
+    typeof raw.rank === "number" &&
+    Number.isFinite(raw.rank)
+        ? {
+              id: raw.id,
+              name: raw.name.trim(),
+              rank: raw.rank,
+              color:
+                  typeof raw.color === "string" && COLOR_PATTERN.test(raw.color)
+                      ? raw.color
+                      : PRIORITY_COLORS[0]
+          }
+        : null;
+
+/**
+ * Validates settings. Only valid fields are returned, so the result can be
+ * spread over defaults or passed to `mergeSettings`; missing fields are not
+ * an issue since older versions didn't have them.
+ *
+ * @param raw - Untrusted settings object
+ * @param path - Location used in issue paths
+ */
+export function validateSettings(
+    raw: unknown,
+    path = "settings"
+): ValidationResult<Partial<SettingsState>> {
+    if (!isObject(raw)) {
+        return { value: {}, issues: [{ path, message: "expected an object" }] };
+    }
+
+    const value: Partial<SettingsState> = {};
+    const issues: ValidationIssue[] = [];
+    const check = <K extends keyof SettingsState>(
+        field: K,
+        clean: SettingsState[K] | null | undefined,
+        message: string
+    ) => {
+        if (raw[field] === undefined) return;
+        if (clean === null || clean === undefined) {
+            issues.push({ path: `${path}.${field}`, message });
+        } else {
+            value[field] = clean;
+        }
+    };
+
+    check(
+        "themeMode",
+        THEME_MODES.includes(raw.themeMode as ThemeMode)
+            ? (raw.themeMode as ThemeMode)
+            : null,
+        `expected one of ${THEME_MODES.join(", ")}`
+    );
+
+    if (raw.subjects !== undefined) {
+        const seen = new Set<string>();
+        const subjects = validateList(
+            raw.subjects,
+            `${path}.subjects`,
+            issues,
+            toSubject,
+            "expected a subject with an ID and a name"
+        ).filter(subject => {
+            if (seen.has(subject.id)) return false;
+            seen.add(subject.id);
+            return true;
+        });
+        if (Array.isArray(raw.subjects)) value.subjects = subjects;
+    }
+
+    if (raw.priorities !== undefined) {
+        const seen = new Set<string>();
+        const priorities = validateList(
+            raw.priorities,
+            `${path}.priorities`,
+            issues,
+            toPriority,
+            "expected a priority level with an ID, a name and a rank"
+        ).filter(level => {
+            if (seen.has(level.id)) return false;
+            seen.add(level.id);
+            return true;
+        });
+        if (priorities.length > 0) {
+            value.priorities = priorities;
+        } else if (Array.isArray(raw.priorities)) {
+            issues.push({ path: `${path}.priorities`, message: "expected at least one level" });
+        }
+    }
+
+    if (raw.notificationTime === null) {
+        value.notificationTime = null;
+    } else {
+        check(
+            "notificationTime",
+            isTime(raw.notificationTime) ? raw.notificationTime : null,
+            "expected a time (HH:MM) or null"
+        );
+    }
+
+    check(
+        "autoCompleteTasks",
+        typeof raw.autoCompleteTasks === "boolean" ? raw.autoCompleteTasks : null,
+        "expected true or false"
+    );
+    check(
+        "trashRetentionDays",
+        isRetention(raw.trashRetentionDays) ? raw.trashRetentionDays : null,
+        "expected a whole number of days"
+    );
+    check("dailyGoal", sanitizeDailyGoal(raw.dailyGoal), "invalid daily goal");
+    check(
+        "focusDurations",
+        sanitizeFocusDurations(raw.focusDurations),
+        "expected positive whole minutes"
+    );
+    check(
+        "snapshotsToKeep",
+        isRetention(raw.snapshotsToKeep) ? raw.snapshotsToKeep : null,
+        "expected a whole number of snapshots"
+    );
+
+    return { value, issues };
+}
+
+//
+// ─── SESSIONS ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Validates a focus session log, dropping malformed entries and repeated IDs.
+ *
+ * @param raw - Untrusted list
+ * @param path - Location used in issue paths
+ */
+export function validateSessions(
+    raw: unknown,
+    path = "sessions"
+): ValidationResult<FocusSession[]> {
+    const issues: ValidationIssue[] = [];
+    const seen = new Set<string>();
+
+    const sessions = validateList(
+        raw,
+        path,
+        issues,
+        sanitizeSession,
+        "malformed focus session"
+    ).filter(session => {
+        if (seen.has(session.id)) return false;
+        seen.add(session.id);
+        return true;
+    });
+
+    return { value: sessions, issues };
+}
+
+//
+// ─── SYNC SERVER ───────────────────────────────────────────────────────────────
+//
+
+/** A cursor or record revision: a whole, non-negative number */
+export const isRevision = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/** A mutation as pushed to the server or kept in the offline queue */
+export const isMutation = (value: unknown): value is Mutation =>
+    isObject(value) &&
+    typeof value.id === "string" &&
+    value.id !== "" &&
+    typeof value.key === "string" &&
+    value.key !== "" &&
+    (value.fields === null || isObject(value.fields)) &&
+    isRevision(value.baseRevision) &&
+    (value.looseFields === undefined ||
+        (Array.isArray(value.looseFields) &&
+            value.looseFields.every(field => typeof field === "string")));
+
+const isServerRecord = (value: unknown): value is ServerRecord =>
+    isObject(value) &&
+    typeof value.key === "string" &&
+    value.key !== "" &&
+    (value.value === null || isObject(value.value)) &&
+    isRevision(value.revision);
+
+const isMutationResult = (value: unknown): value is MutationResult =>
+    isObject(value) &&
+    typeof value.id === "string" &&
+    ((value.status === "applied" && isRevision(value.revision)) ||
+        (value.status === "conflict" && isServerRecord(value.current)) ||
+        (value.status === "rejected" && typeof value.reason === "string"));
+
+/** A well-formed answer to a pull */
+export const isPullResponse = (value: unknown): value is PullResponse =>
+    isObject(value) &&
+    Array.isArray(value.changes) &&
+    value.changes.every(isServerRecord) &&
+    isRevision(value.cursor) &&
+    typeof value.hasMore === "boolean";
+
+/** A well-formed answer to a push */
+export const isPushResponse = (value: unknown): value is PushResponse =>
+    isObject(value) &&
+    Array.isArray(value.results) &&
+    value.results.every(isMutationResult);
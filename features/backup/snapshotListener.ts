@@ -0,0 +1,99 @@
+/**
+ * File: snapshotListener.ts
+ * Description: Store listener that snapshots the data as it was right before
+ * a reset or an import, so either can be rolled back from the Snapshots screen.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isAnyOf, ListenerMiddlewareInstance } from "@reduxjs/toolkit";
+import {
+    clearTasks,
+    mergeTasks,
+    replaceTasks,
+    upsertTasks,
+    Task
+} from "@/features/todo/todoSlice";
+import {
+    clearSettings,
+    mergeSettings,
+    replaceSettings,
+    SettingsState
+} from "@/features/settings/settingsSlice";
+import { mergeSessions, replaceSessions } from "@/features/focus/sessionsSlice";
+import type { FocusSession } from "@/features/focus/focusTimer";
+import { SnapshotStore, takeSnapshot } from "./snapshots";
+
+/** Slice of root state a snapshot is made of */
+type SnapshotState = {
+    todo: { tasks: Task[] };
+    settings: SettingsState;
+    sessions: { sessions: FocusSession[] };
+};
+
+/**
+ * A reset or import dispatches several actions in a row; only the state
+ * before the first one is worth keeping.
+ */
+const BURST_WINDOW_MS = 5000;
+
+/**
+ * Registers the snapshot listener on a listener middleware.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param store - Where snapshots are written
+ * @param appVersion - Version recorded in each snapshot
+ * @param now - Clock (tests pass a fake)
+ * @returns Function that removes the listener
+ */
+export function startSnapshotListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    store: SnapshotStore,
+    appVersion: string,
+    now: () => number = Date.now
+) {
+    let lastTakenAt = -Infinity;
+
+    return startListening({
+        matcher: isAnyOf(
+            clearTasks,
+            clearSettings,
+            upsertTasks,
+            replaceTasks,
+            mergeTasks,
+            mergeSettings,
+            replaceSettings,
+            mergeSessions,
+            replaceSessions
+        ),
+        effect: async (action, listenerApi) => {
+            // Must be read before the effect yields
+            const { todo, settings, sessions } =
+                listenerApi.getOriginalState() as SnapshotState;
+
+            if (now() - lastTakenAt < BURST_WINDOW_MS) return;
+            lastTakenAt = now();
+
+            const reason =
+                clearTasks.match(action) || clearSettings.match(action)
+                    ? "reset"
+                    : "import";
+
+            try {
+                await takeSnapshot(
+                    store,
+                    {
+                        tasks: todo.tasks,
+                        settings,
+                        sessions: sessions.sessions
+                    },
+                    reason,
+                    settings.snapshotsToKeep,
+                    appVersion
+                );
+            } catch (error) {
+                console.error("Failed to take snapshot:", error);
+            }
+        }
+    });
+}
@@ -0,0 +1,220 @@
+/**
+ * File: snapshots.ts
+ * Description: Automatic local backups. Snapshots are ordinary backup files
+ * (see `backup.ts`) written to the device once a day and before data is
+ * reset or imported; only the newest few are kept. File names carry the
+ * time, reason and task count so the list can be shown without reading
+ * every file.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import { referencedPaths } from "@/features/attachments/attachments";
+import { BackupData, createBackup, parseBackup, ParsedBackup } from "./backup";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Why a snapshot was taken */
+export type SnapshotReason = "daily" | "reset" | "import" | "manual";
+
+/** A snapshot as listed on the Snapshots screen */
+export type SnapshotInfo = {
+    /** File name, also used as the id */
+    name: string;
+    /** ISO timestamp */
+    takenAt: string;
+    reason: SnapshotReason;
+    taskCount: number;
+    /** File size in bytes */
+    size: number;
+};
+
+/**
+ * Storage for snapshot files.
+ * The app writes to the document directory; tests pass in a fake.
+ */
+export interface SnapshotStore {
+    /** Names of all files in the snapshot folder */
+    list(): Promise<string[]>;
+    read(name: string): Promise<string>;
+    write(name: string, contents: string): Promise<void>;
+    /** A no-op if the file does not exist */
+    remove(name: string): Promise<void>;
+    /** Size in bytes */
+    size(name: string): Promise<number>;
+}
+
+const REASONS: SnapshotReason[] = ["daily", "reset", "import", "manual"];
+
+// e.g. snapshot_20261019T083000123Z_daily_42.json
+const NAME_PATTERN = /^snapshot_(\d{8}T\d{9}Z)_([a-z]+)_(\d+)\.json$/;
+
+//
+// ─── NAMES ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * File name for a snapshot. Names sort by time.
+ *
+ * @param takenAt - ISO timestamp
+ * @param reason - Why the snapshot is taken
+ * @param taskCount - Tasks in the snapshot
+ */
+export function snapshotName(
+    takenAt: string,
+    reason: SnapshotReason,
+    taskCount: number
+): string {
+    const stamp = new Date(takenAt).toISOString().replace(/[-:.]/g, "");
+    return `snapshot_${stamp}_${reason}_${taskCount}.json`;
+}
+
+/**
+ * Reads time, reason and task count back from a file name.
+ *
+ * @returns null for files that aren't snapshots
+ */
+export function parseSnapshotName(
+    name: string
+): Omit<SnapshotInfo, "size"> | null {
+    const match = NAME_PATTERN.exec(name);
+    if (!match || !REASONS.includes(match[2] as SnapshotReason)) return null;
+
+    const s = match[1];
+    const takenAt = `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}T${s.slice(9, 11)}:${s.slice(11, 13)}:${s.slice(13, 15)}.${s.slice(15, 18)}Z`;
+    if (!dayjs(takenAt).isValid()) return null;
+
+    return {
+        name,
+        takenAt,
+        reason: match[2] as SnapshotReason,
+        taskCount: Number(match[3])
+    };
+}
+
+/** Snapshot file names, newest first */
+async function snapshotNames(store: SnapshotStore): Promise<string[]> {
+    const names = await store.list();
+    return names
+        .filter(name => parseSnapshotName(name) !== null)
+        .sort()
+        .reverse();
+}
+
+//
+// ─── PUBLIC API ────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Lists snapshots newest first.
+ *
+ * @param store - Snapshot storage
+ */
+export async function listSnapshots(store: SnapshotStore): Promise<SnapshotInfo[]> {
+    const names = await snapshotNames(store);
+    return Promise.all(
+        names.map(async name => ({
+            ...parseSnapshotName(name)!,
+            size: await store.size(name)
+        }))
+    );
+}
+
+/**
+ * Deletes all but the newest snapshots.
+ *
+ * @param store - Snapshot storage
+ * @param keep - Snapshots to keep
+ * @returns Names of the deleted files
+ */
+export async function pruneSnapshots(
+    store: SnapshotStore,
+    keep: number
+): Promise<string[]> {
+    const stale = (await snapshotNames(store)).slice(keep);
+    for (const name of stale) {
+        await store.remove(name);
+    }
+    return stale;
+}
+
+/**
+ * Writes a snapshot of app data, then drops the oldest beyond `keep`.
+ *
+ * @param store - Snapshot storage
+ * @param data - Tasks, settings and focus sessions
+ * @param reason - Why the snapshot is taken
+ * @param keep - Snapshots to keep; 0 turns automatic snapshots off (and
+ * leaves manual ones alone)
+ * @param appVersion - Version of the app writing the file
+ * @param now - Snapshot time (ISO)
+ * @returns Name of the new file, or null when snapshots are off
+ */
+export async function takeSnapshot(
+    store: SnapshotStore,
+    data: BackupData,
+    reason: SnapshotReason,
+    keep: number,
+    appVersion: string,
+    now = new Date().toISOString()
+): Promise<string | null> {
+    if (keep <= 0 && reason !== "manual") return null;
+
+    const name = snapshotName(now, reason, data.tasks.length);
+    await store.write(name, JSON.stringify(createBackup(data, appVersion, now)));
+    if (keep > 0) await pruneSnapshots(store, keep);
+    return name;
+}
+
+/**
+ * Whether today's daily snapshot is still missing.
+ *
+ * @param store - Snapshot storage
+ * @param now - Current time (ISO)
+ */
+export async function isDailySnapshotDue(
+    store: SnapshotStore,
+    now = new Date().toISOString()
+): Promise<boolean> {
+    const names = await snapshotNames(store);
+    return !names.some(name => {
+        const info = parseSnapshotName(name)!;
+        return info.reason === "daily" && dayjs(info.takenAt).isSame(now, "day");
+    });
+}
+
+/**
+ * Reads a snapshot through the same migration and validation as an import.
+ *
+ * @param store - Snapshot storage
+ * @param name - Snapshot file name
+ * @throws BackupError when the file is damaged
+ */
+export async function readSnapshot(
+    store: SnapshotStore,
+    name: string
+): Promise<ParsedBackup> {
+    return parseBackup(await store.read(name));
+}
+
+/**
+ * Attachment paths the kept snapshots refer to. Snapshots hold no file
+ * contents, so these files must outlive the tasks that were deleted since.
+ * Damaged snapshots can't be restored and are skipped.
+ *
+ * @param store - Snapshot storage
+ */
+export async function snapshotAttachmentPaths(store: SnapshotStore): Promise<Set<string>> {
+    const taskLists = [];
+    for (const name of await snapshotNames(store)) {
+        try {
+            taskLists.push((await readSnapshot(store, name)).data.tasks);
+        } catch {
+            // Not restorable, so nothing to keep for it
+        }
+    }
+    return referencedPaths(taskLists);
+}
@@ -0,0 +1,311 @@
+/**
+ * File: csv.ts
+ * Description: CSV export and import of tasks. Fields are quoted per RFC 4180;
+ * dates are ISO. Cells that a spreadsheet would run as a formula are written
+ * with a leading apostrophe, which the import removes again. Imports map file columns to task fields, guessing the
+ * mapping from the header row so the user only has to correct it.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "@/features/todo/todoSlice";
+import { describeRecurrence } from "@/features/todo/recurrence";
+import type { ValidationIssue } from "@/features/backup/schema";
+import { Subject, subjectName } from "@/features/settings/subjects";
+import { PriorityLevel, resolvePriority } from "@/features/settings/priorities";
+import {
+    DraftDefaults,
+    matchName,
+    parseDay,
+    parseFlag,
+    parseTime,
+    TaskDraft
+} from "./taskRows";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Task fields a CSV column can be mapped to */
+export type CsvField =
+    | "text"
+    | "subject"
+    | "priority"
+    | "dueDate"
+    | "dueTime"
+    | "completed"
+    | "estimateMinutes"
+    | "subtasks"
+    | "tags"
+    | "id";
+
+/** Column index for each mapped field; unmapped fields use the defaults */
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+/** Header names understood when guessing a mapping, in lower case */
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+    text: ["text", "task", "title", "name", "description"],
+    subject: ["subject", "course", "class", "category"],
+    priority: ["priority", "importance"],
+    dueDate: ["date", "due", "due date", "day", "deadline"],
+    dueTime: ["time", "due time"],
+    completed: ["completed", "done", "status"],
+    estimateMinutes: ["estimate", "estimate (min)", "minutes", "duration"],
+    subtasks: ["subtasks", "checklist", "steps"],
+    tags: ["tags", "labels"],
+    id: ["id"]
+};
+
+/** Columns written by `tasksToCsv` */
+const EXPORT_HEADER = [
+    "Date",
+    "Time",
+    "Task",
+    "Subject",
+    "Priority",
+    "Completed",
+    "Completed At",
+    "Estimate (min)",
+    "Repeat",
+    "Subtasks",
+    "Tags",
+    "ID"
+];
+
+//
+// ─── FORMAT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Quotes a field when it contains a comma, quote or line break, doubling
+ * any quotes inside it.
+ */
+export function quoteCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Leading characters that make Excel or Sheets read a cell as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes cells that start like a formula with an apostrophe, so opening
+ * an export in a spreadsheet shows task text instead of running it.
+ */
+export const escapeFormula = (value: string): string =>
+    FORMULA_START.test(value) ? `'${value}` : value;
+
+/** Removes the apostrophe `escapeFormula` added */
+export const unescapeFormula = (value: string): string =>
+    value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Joins rows into CSV text with CRLF line endings, escaping formula-like cells.
+ */
+export function toCsv(rows: string[][]): string {
+    return (
+        rows
+            .map(row => row.map(cell => quoteCsvField(escapeFormula(cell))).join(","))
+            .join("\r\n") + "\r\n"
+    );
+}
+
+/**
+ * Splits CSV text into rows. Handles quoted fields with commas, doubled
+ * quotes and line breaks, CRLF or LF endings and a UTF-8 byte order mark.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, "");
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== "") rows.push(row);
+        row = [];
+        field = "";
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) endRow();
+    return rows;
+}
+
+//
+// ─── EXPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Writes tasks as CSV: one row per task (or occurrence), with a header row.
+ *
+ * @param tasks - Tasks from `selectTasksForExport`
+ * @param subjects - Subjects, to name each task's subject
+ * @param priorities - Priority levels, to name each task's priority
+ */
+export function tasksToCsv(
+    tasks: Task[],
+    subjects: Subject[],
+    priorities: PriorityLevel[]
+): string {
+    const rows = tasks.map(task => [
+        task.dueDate,
+        task.dueTime ?? "",
+        task.text,
+        subjectName(subjects, task.subjectId),
+        resolvePriority(priorities, task.priority).name,
+        task.completed ? "yes" : "no",
+        task.completedAt ?? "",
+        task.estimateMinutes ? String(task.estimateMinutes) : "",
+        task.recurrence ? describeRecurrence(task.recurrence) : "",
+        (task.subtasks ?? [])
+            .map(s => `${s.completed ? "[x]" : "[ ]"} ${s.text}`)
+            .join("; "),
+        (task.tags ?? []).join(", "),
+        task.id
+    ]);
+    return toCsv([EXPORT_HEADER, ...rows]);
+}
+
+//
+// ─── IMPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Reads a subtasks cell as written by `tasksToCsv` ("[x] Read; [ ] Notes").
+ * Items without a checkbox are open.
+ */
+function parseSubtasks(cell: string): TaskDraft["subtasks"] {
+    return cell
+        .split(";")
+        .map(item => /^(?:\[([ xX])\]\s*)?(.*)$/.exec(item.trim())!)
+        .filter(([, , text]) => text !== "")
+        .map(([, mark, text]) => ({
+            text,
+            completed: mark !== undefined && mark !== " "
+        }));
+}
+
+/**
+ * Guesses which column holds each field from the header row.
+ * Our own export maps completely; other files usually need only small fixes.
+ *
+ * @param header - First row of the file
+ */
+export function guessColumnMapping(header: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const names = header.map(h => h.trim().toLowerCase());
+
+    for (const field of Object.keys(FIELD_ALIASES) as CsvField[]) {
+        const index = names.findIndex(n => FIELD_ALIASES[field].includes(n));
+        if (index !== -1 && !Object.values(mapping).includes(index)) {
+            mapping[field] = index;
+        }
+    }
+    return mapping;
+}
+
+/**
+ * Turns CSV rows into task drafts using a column mapping.
+ * Rows without text or with an unreadable date are skipped; unreadable
+ * times and estimates are reported and left empty.
+ *
+ * @param rows - Rows from `parseCsv`, header excluded
+ * @param mapping - Column index per field
+ * @param defaults - Subject, priority and day for missing values
+ * @param subjects - Known subjects, matched case-insensitively
+ * @param priorities - Priority level names; other values get the default
+ * @returns Drafts and issues, with 1-based row numbers counting the header
+ */
+export function csvToDrafts(
+    rows: string[][],
+    mapping: ColumnMapping,
+    defaults: DraftDefaults,
+    subjects: string[],
+    priorities: string[]
+): { drafts: TaskDraft[]; issues: ValidationIssue[] } {
+    const drafts: TaskDraft[] = [];
+    const issues: ValidationIssue[] = [];
+
+    rows.forEach((row, index) => {
+        const path = `row ${index + 2}`;
+        const cell = (field: CsvField) => {
+            const column = mapping[field];
+            return column === undefined ? "" : unescapeFormula((row[column] ?? "").trim());
+        };
+
+        const text = cell("text");
+        if (!text) {
+            issues.push({ path: `${path}.text`, message: "empty, row skipped" });
+            return;
+        }
+
+        let dueDate = defaults.dueDate;
+        if (cell("dueDate")) {
+            const day = parseDay(cell("dueDate"));
+            if (day) {
+                dueDate = day;
+            } else {
+                issues.push({ path: `${path}.date`, message: "not a date, row skipped" });
+                return;
+            }
+        }
+
+        const dueTime = cell("dueTime") ? parseTime(cell("dueTime")) : null;
+        if (cell("dueTime") && !dueTime) {
+            issues.push({ path: `${path}.time`, message: "not a time (HH:MM)" });
+        }
+
+        const estimate = cell("estimateMinutes") ? Number(cell("estimateMinutes")) : null;
+        if (estimate !== null && !(estimate > 0)) {
+            issues.push({ path: `${path}.estimate`, message: "expected minutes" });
+        }
+
+        const priority = matchName(cell("priority"), priorities);
+
+        drafts.push({
+            id: cell("id") || undefined,
+            text,
+            subject: cell("subject")
+                ? matchName(cell("subject"), subjects)
+                : defaults.subject,
+            priority: priorities.includes(priority) ? priority : defaults.priority,
+            dueDate,
+            dueTime,
+            completed: parseFlag(cell("completed")),
+            estimateMinutes: estimate !== null && estimate > 0 ? estimate : null,
+            subtasks: parseSubtasks(cell("subtasks")),
+            tags: cell("tags")
+                .split(/[,;]/)
+                .map(tag => tag.trim())
+                .filter(tag => tag !== "")
+        });
+    });
+
+    return { drafts, issues };
+}
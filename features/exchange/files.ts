@@ -0,0 +1,58 @@
+/**
+ * File: files.ts
+ * Description: Writes export files to the document directory and opens the
+ * share sheet, and reads files picked by the user. Used by the JSON backup
+ * and the CSV/Markdown task exchange alike.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+/**
+ * Writes a UTF-8 file and opens the share sheet for it.
+ *
+ * @param fileName - Name inside the document directory
+ * @param contents - File contents
+ * @param mimeType - Type announced to the share target
+ * @param dialogTitle - Title of the share sheet (Android)
+ */
+export async function writeAndShare(
+    fileName: string,
+    contents: string,
+    mimeType: string,
+    dialogTitle: string
+) {
+    const fileUri = FileSystem.documentDirectory + fileName;
+
+    await FileSystem.writeAsStringAsync(fileUri, contents, {
+        encoding: FileSystem.EncodingType.UTF8
+    });
+
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle });
+}
+
+/**
+ * Lets the user pick a file and reads it as text.
+ *
+ * @param types - MIME types offered by the picker
+ * @returns File name and contents, or null when the user cancels
+ */
+export async function pickTextFile(
+    types: string | string[]
+): Promise<{ name: string; contents: string } | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+        type: types,
+        copyToCacheDirectory: true
+    });
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+        return null;
+    }
+
+    const file = result.assets[0];
+    const contents = await FileSystem.readAsStringAsync(file.uri);
+    return { name: file.name, contents };
+}
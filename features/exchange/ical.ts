@@ -0,0 +1,649 @@
+/**
+ * File: ical.ts
+ * Description: iCalendar (RFC 5545) export and import of tasks. Tasks are
+ * written as VTODO items; imports accept VTODO and VEVENT components,
+ * including repeat rules, excluded days, folded lines and time zones.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import type { Task } from "@/features/todo/todoSlice";
+import {
+    RecurrenceRule,
+    sanitizeRecurrence
+} from "@/features/todo/recurrence";
+import type { ValidationIssue } from "@/features/backup/schema";
+import { Subject, subjectName } from "@/features/settings/subjects";
+import {
+    PriorityLevel,
+    resolvePriority,
+    sortPriorities
+} from "@/features/settings/priorities";
+import { DraftDefaults, matchName, TaskDraft } from "./taskRows";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** One unfolded content line, e.g. `DUE;VALUE=DATE:20250801` */
+type ContentLine = {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+};
+
+/** Options for reading a calendar file */
+export type ICalendarOptions = {
+    defaults: DraftDefaults;
+    /** Known subjects, matched case-insensitively */
+    subjects: string[];
+    /** Configured priority levels, mapped onto PRIORITY 1–9 by rank */
+    priorities: PriorityLevel[];
+    /** Zone that zoned and UTC times are converted to; defaults to the device's */
+    timeZone?: string;
+};
+
+/** Suffix added to task IDs so re-imported files keep their IDs */
+const UID_SUFFIX = "@braindesk";
+
+/** RFC 5545 limit for one line, in octets, before folding */
+const MAX_LINE_OCTETS = 75;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+//
+// ─── TEXT ──────────────────────────────────────────────────────────────────────
+//
+
+/** Escapes a TEXT value: backslash, semicolon, comma and newlines */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/** Reverses `escapeText` */
+export function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+        c === "n" || c === "N" ? "\n" : c
+    );
+}
+
+/** Splits a list value on commas that aren't escaped */
+function splitList(value: string): string[] {
+    const items: string[] = [];
+    let item = "";
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === "\\" && i + 1 < value.length) {
+            item += value[i] + value[i + 1];
+            i++;
+        } else if (value[i] === ",") {
+            items.push(item);
+            item = "";
+        } else {
+            item += value[i];
+        }
+    }
+    items.push(item);
+    return items.map(unescapeText);
+}
+
+/** UTF-8 length of one character */
+const octets = (char: string): number => {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    return code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Folds a line into chunks of at most 75 octets; continuation lines start
+ * with a space. Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+    const chunks: string[] = [];
+    let chunk = "";
+    let size = 0;
+
+    for (const char of line) {
+        const length = octets(char);
+        // Continuation lines lose one octet to the leading space
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (size + length > limit) {
+            chunks.push(chunk);
+            chunk = "";
+            size = 0;
+        }
+        chunk += char;
+        size += length;
+    }
+    chunks.push(chunk);
+
+    return chunks.join("\r\n ");
+}
+
+/** Joins folded lines back together */
+export function unfoldLines(text: string): string[] {
+    return text
+        .replace(/^\uFEFF/, "")
+        .replace(/\r?\n[ \t]/g, "")
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== "");
+}
+
+/**
+ * Splits a content line into name, parameters and value.
+ * Parameter values may be quoted and contain ':' or ';'.
+ */
+function parseContentLine(line: string): ContentLine | null {
+    // Split the head on ';' and find the value after the first ':', outside quotes
+    const head: string[] = [""];
+    let quoted = false;
+    let valueStart = -1;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            quoted = !quoted;
+        } else if (!quoted && char === ":") {
+            valueStart = i + 1;
+            break;
+        } else if (!quoted && char === ";") {
+            head.push("");
+            continue;
+        }
+        head[head.length - 1] += char;
+    }
+
+    const [name, ...rawParams] = head;
+    if (valueStart === -1 || !/^[A-Za-z0-9-]+$/.test(name)) return null;
+
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const [key, ...rest] = param.split("=");
+        params[key.toUpperCase()] = rest.join("=").replace(/"/g, "");
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(valueStart) };
+}
+
+//
+// ─── DATES ─────────────────────────────────────────────────────────────────────
+//
+
+const toDateValue = (day: string) => day.replace(/-/g, "");
+
+const toUtcValue = (iso: string) =>
+    dayjs.utc(iso).format("YYYYMMDD[T]HHmmss[Z]");
+
+/**
+ * Reads a DATE or DATE-TIME value. UTC and zoned times are converted to
+ * `timeZone`; floating times are kept as written.
+ *
+ * @returns Day, time of day (null for DATE values) and the ISO instant,
+ * or null when the value can't be read
+ */
+function readDateValue(
+    line: ContentLine,
+    timeZone: string,
+    issues: ValidationIssue[],
+    path: string
+): { day: string; time: string | null; iso: string } | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+        line.value.trim()
+    );
+    if (!match) return null;
+
+    const [, y, mo, d, h, mi, s, utcFlag] = match;
+    const day = `${y}-${mo}-${d}`;
+    if (!dayjs(day).isValid()) return null;
+    if (h === undefined || line.params.VALUE === "DATE") {
+        return { day, time: null, iso: dayjs(day).toISOString() };
+    }
+
+    const wall = `${day}T${h}:${mi}:${s}`;
+    let instant: dayjs.Dayjs;
+
+    if (utcFlag) {
+        instant = dayjs.utc(wall).tz(timeZone);
+    } else if (line.params.TZID) {
+        try {
+            instant = dayjs.tz(wall, line.params.TZID).tz(timeZone);
+        } catch {
+            // Unknown zone names (e.g. Windows ones) are read as floating time
+            issues.push({
+                path: `${path}.TZID`,
+                message: `unknown time zone "${line.params.TZID}", read as local time`
+            });
+            instant = dayjs.tz(wall, timeZone);
+        }
+    } else {
+        instant = dayjs.tz(wall, timeZone);
+    }
+
+    return {
+        day: instant.format("YYYY-MM-DD"),
+        time: instant.format("HH:mm"),
+        iso: instant.toISOString()
+    };
+}
+
+//
+// ─── RECURRENCE ────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Writes a repeat rule as an RRULE value.
+ * `untilTime` makes UNTIL a date-time when the series start has a time.
+ */
+export function toRRule(rule: RecurrenceRule, untilTime = false): string {
+    const parts: string[] = [];
+
+    switch (rule.frequency) {
+        case "daily":
+            parts.push("FREQ=DAILY");
+            break;
+        case "interval":
+            parts.push("FREQ=DAILY", `INTERVAL=${rule.interval ?? 1}`);
+            break;
+        case "weekdays":
+            parts.push("FREQ=WEEKLY", "BYDAY=MO,TU,WE,TH,FR");
+            break;
+        case "weekly":
+            parts.push(
+                "FREQ=WEEKLY",
+                `BYDAY=${(rule.weekdays ?? []).map(d => WEEKDAY_CODES[d]).join(",")}`
+            );
+            break;
+        case "monthly":
+            parts.push("FREQ=MONTHLY", `BYMONTHDAY=${rule.dayOfMonth ?? 1}`);
+            break;
+    }
+
+    if (rule.endDate) {
+        parts.push(`UNTIL=${toDateValue(rule.endDate)}${untilTime ? "T235959" : ""}`);
+    }
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+    return parts.join(";");
+}
+
+/**
+ * Reads an RRULE value into a repeat rule. Rules BrainDesk can't represent
+ * (yearly, hourly, every other week on set days, "second Monday", …)
+ * return null.
+ *
+ * @param value - RRULE value
+ * @param start - Series start day ("YYYY-MM-DD"), used when BYDAY/BYMONTHDAY is absent
+ */
+export function fromRRule(value: string, start: string): RecurrenceRule | null {
+    const parts = Object.fromEntries(
+        value.split(";").map(part => {
+            const [key, ...rest] = part.split("=");
+            return [key.toUpperCase(), rest.join("=")];
+        })
+    );
+    const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+    const byDay: string[] = parts.BYDAY ? parts.BYDAY.split(",") : [];
+    const weekdays = byDay.map(code => WEEKDAY_CODES.indexOf(code));
+    let rule: Partial<RecurrenceRule>;
+
+    if (!Number.isInteger(interval) || interval < 1) return null;
+    if (weekdays.includes(-1)) return null;
+
+    switch (parts.FREQ) {
+        case "DAILY":
+            rule =
+                interval === 1
+                    ? { frequency: "daily" }
+                    : { frequency: "interval", interval };
+            break;
+        case "WEEKLY":
+            if (weekdays.length === 0) {
+                rule =
+                    interval === 1
+                        ? { frequency: "weekly", weekdays: [dayjs(start).day()] }
+                        : { frequency: "interval", interval: interval * 7 };
+            } else if (interval !== 1) {
+                return null;
+            } else if ([1, 2, 3, 4, 5].every(d => weekdays.includes(d)) && weekdays.length === 5) {
+                rule = { frequency: "weekdays" };
+            } else {
+                rule = { frequency: "weekly", weekdays };
+            }
+            break;
+        case "MONTHLY": {
+            const dayOfMonth = parts.BYMONTHDAY
+                ? Number(parts.BYMONTHDAY)
+                : dayjs(start).date();
+            if (interval !== 1 || byDay.length > 0) return null;
+            rule = { frequency: "monthly", dayOfMonth };
+            break;
+        }
+        default:
+            return null;
+    }
+
+    if (parts.UNTIL) {
+        const until = /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL);
+        if (until) rule.endDate = `${until[1]}-${until[2]}-${until[3]}`;
+    }
+    if (parts.COUNT) rule.count = Number(parts.COUNT);
+
+    return sanitizeRecurrence(rule);
+}
+
+//
+// ─── EXPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * PRIORITY value (1 = highest, 9 = lowest) of the level at `index` among
+ * `count` levels sorted by rank. The default (middle) level writes 5, more
+ * urgent levels spread over 1–4 and less urgent ones over 6–9, so High,
+ * Medium and Low write 1, 5 and 9. Unranked (-1) writes 0, "undefined".
+ */
+function toPriorityValue(index: number, count: number): number {
+    const middle = Math.floor((count - 1) / 2);
+    if (index === -1) return 0;
+    if (index === middle) return 5;
+    if (index < middle) return 1 + Math.floor((index * 4) / middle);
+    return 9 - Math.floor(((count - 1 - index) * 4) / (count - 1 - middle));
+}
+
+/**
+ * Writes one task as a VTODO. Times are floating (no zone), like in the app.
+ * A series gets DTSTART + RRULE instead of DUE, as RFC 5545 requires.
+ */
+function taskToVTodo(
+    task: Task,
+    subject: string,
+    priority: number,
+    now: string
+): string[] {
+    const start = task.dueTime
+        ? `${toDateValue(task.dueDate)}T${task.dueTime.replace(":", "")}00`
+        : toDateValue(task.dueDate);
+    const dateParam = task.dueTime ? "" : ";VALUE=DATE";
+
+    const lines = [
+        "BEGIN:VTODO",
+        `UID:${task.id}${UID_SUFFIX}`,
+        `DTSTAMP:${toUtcValue(now)}`,
+        `CREATED:${toUtcValue(task.createdAt)}`,
+        `LAST-MODIFIED:${toUtcValue(task.updatedAt ?? task.createdAt)}`,
+        `SUMMARY:${escapeText(task.text)}`,
+        `CATEGORIES:${[subject, ...(task.tags ?? [])].map(escapeText).join(",")}`,
+        `PRIORITY:${priority}`
+    ];
+
+    if (task.recurrence) {
+        lines.push(
+            `DTSTART${dateParam}:${start}`,
+            `RRULE:${toRRule(task.recurrence, !!task.dueTime)}`
+        );
+        for (const day of task.excludedDates ?? []) {
+            lines.push(
+                task.dueTime
+                    ? `EXDATE:${toDateValue(day)}T${task.dueTime.replace(":", "")}00`
+                    : `EXDATE;VALUE=DATE:${toDateValue(day)}`
+            );
+        }
+    } else {
+        lines.push(`DUE${dateParam}:${start}`);
+    }
+
+    if (task.completed) {
+        lines.push("STATUS:COMPLETED", "PERCENT-COMPLETE:100");
+        if (task.completedAt) lines.push(`COMPLETED:${toUtcValue(task.completedAt)}`);
+    } else {
+        lines.push("STATUS:NEEDS-ACTION");
+    }
+
+    if (task.subtasks && task.subtasks.length > 0) {
+        const checklist = task.subtasks
+            .map(s => `[${s.completed ? "x" : " "}] ${s.text}`)
+            .join("\n");
+        lines.push(`DESCRIPTION:${escapeText(checklist)}`);
+    }
+
+    lines.push("END:VTODO");
+    return lines;
+}
+
+/**
+ * Writes tasks as an iCalendar file of VTODO items.
+ *
+ * @param tasks - Tasks to export; series should not be expanded
+ * @param subjects - Subjects, written as each task's first category (tags follow)
+ * @param priorities - Priority levels, written as PRIORITY values
+ * @param now - Export time (ISO), used for DTSTAMP
+ */
+export function tasksToICalendar(
+    tasks: Task[],
+    subjects: Subject[],
+    priorities: PriorityLevel[],
+    now = new Date().toISOString()
+): string {
+    const ranked = sortPriorities(priorities).map(p => p.id);
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//BrainDesk//Tasks//EN",
+        "CALSCALE:GREGORIAN",
+        ...tasks.flatMap(task =>
+            taskToVTodo(
+                task,
+                subjectName(subjects, task.subjectId),
+                toPriorityValue(
+                    ranked.indexOf(resolvePriority(priorities, task.priority).id),
+                    ranked.length
+                ),
+                now
+            )
+        ),
+        "END:VCALENDAR"
+    ];
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+//
+// ─── IMPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Name of the level for a PRIORITY value, the inverse of `toPriorityValue`:
+ * 1–4 map to the levels above the default, 5 to the default and 6–9 to the
+ * levels below (with High/Medium/Low: 1–4 High, 5 Medium, 6–9 Low).
+ */
+function readPriority(
+    value: string | undefined,
+    levels: PriorityLevel[],
+    fallback: string
+): string {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1 || n > 9 || levels.length === 0) return fallback;
+
+    const sorted = sortPriorities(levels);
+    const last = sorted.length - 1;
+    const middle = Math.floor(last / 2);
+    const index =
+        n === 5
+            ? middle
+            : n < 5
+              ? Math.floor(((n - 1) * middle) / 4)
+              : last - Math.floor(((9 - n) * (last - middle)) / 4);
+    return sorted[index].name;
+}
+
+/** Reads a checklist DESCRIPTION as written by `tasksToICalendar` */
+function readChecklist(description: string | undefined) {
+    return (description ?? "")
+        .split("\n")
+        .map(line => /^\[([ xX])\]\s+(.+)$/.exec(line.trim()))
+        .filter((m): m is RegExpExecArray => m !== null)
+        .map(([, mark, text]) => ({ text, completed: mark !== " " }));
+}
+
+/**
+ * Turns one VTODO or VEVENT into a draft.
+ */
+function componentToDraft(
+    type: string,
+    lines: ContentLine[],
+    options: Required<ICalendarOptions>,
+    issues: ValidationIssue[],
+    path: string
+): TaskDraft | null {
+    const first = (name: string) => lines.find(l => l.name === name);
+    const text = (name: string) => {
+        const line = first(name);
+        return line ? unescapeText(line.value) : undefined;
+    };
+
+    const summary = text("SUMMARY")?.trim();
+    if (!summary) {
+        issues.push({ path: `${path}.SUMMARY`, message: "missing, item skipped" });
+        return null;
+    }
+
+    // Tasks are planned on their due day; events on their start day
+    const dateLine = (type === "VTODO" && first("DUE")) || first("DTSTART");
+    const when = dateLine
+        ? readDateValue(dateLine, options.timeZone, issues, `${path}.${dateLine.name}`)
+        : null;
+    if (dateLine && !when) {
+        issues.push({ path: `${path}.${dateLine.name}`, message: "not a date, today used" });
+    }
+    const dueDate = when?.day ?? options.defaults.dueDate;
+
+    // The first category is the subject, the others are tags
+    const category = first("CATEGORIES");
+    const [subjectCategory = "", ...tags] = category ? splitList(category.value) : [];
+    const subject = subjectCategory
+        ? matchName(subjectCategory, options.subjects)
+        : "";
+
+    const completedLine = first("COMPLETED");
+    const completedAt = completedLine
+        ? readDateValue(completedLine, options.timeZone, issues, `${path}.COMPLETED`)?.iso ?? null
+        : null;
+    const completed =
+        first("STATUS")?.value.toUpperCase() === "COMPLETED" || completedAt !== null;
+
+    let recurrence: RecurrenceRule | null = null;
+    const rrule = first("RRULE");
+    if (rrule) {
+        recurrence = fromRRule(rrule.value, dueDate);
+        if (!recurrence) {
+            issues.push({
+                path: `${path}.RRULE`,
+                message: "repeat rule not supported, imported once"
+            });
+        }
+    }
+
+    const excludedDates = recurrence
+        ? lines
+              .filter(l => l.name === "EXDATE")
+              .flatMap(l =>
+                  l.value.split(",").map(value =>
+                      readDateValue({ ...l, value }, options.timeZone, issues, `${path}.EXDATE`)?.day
+                  )
+              )
+              .filter((day): day is string => !!day)
+        : [];
+
+    const uid = first("UID")?.value.trim();
+    const created = first("CREATED");
+    const modified = first("LAST-MODIFIED");
+
+    return {
+        id: uid ? (uid.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : uid) : undefined,
+        text: summary,
+        subject: subject || options.defaults.subject,
+        priority: readPriority(
+            first("PRIORITY")?.value,
+            options.priorities,
+            options.defaults.priority
+        ),
+        dueDate,
+        dueTime: when?.time ?? null,
+        completed,
+        completedAt: completed ? completedAt : null,
+        createdAt: created
+            ? readDateValue(created, options.timeZone, issues, `${path}.CREATED`)?.iso
+            : undefined,
+        updatedAt: modified
+            ? readDateValue(modified, options.timeZone, issues, `${path}.LAST-MODIFIED`)?.iso
+            : undefined,
+        estimateMinutes: null,
+        recurrence,
+        excludedDates,
+        subtasks: readChecklist(text("DESCRIPTION")),
+        tags
+    };
+}
+
+/**
+ * Reads the VTODO and VEVENT items of an iCalendar file. Other components
+ * (VTIMEZONE, VJOURNAL, alarms inside items) are ignored.
+ *
+ * @param contents - File contents
+ * @param options - Defaults, known subjects and the target time zone
+ * @returns Drafts and issues, paths like "VEVENT[2].DTSTART"
+ */
+export function iCalendarToDrafts(
+    contents: string,
+    options: ICalendarOptions
+): { drafts: TaskDraft[]; issues: ValidationIssue[] } {
+    const resolved: Required<ICalendarOptions> = {
+        ...options,
+        timeZone: options.timeZone ?? dayjs.tz.guess()
+    };
+    const drafts: TaskDraft[] = [];
+    const issues: ValidationIssue[] = [];
+    const stack: string[] = [];
+    const counts: Record<string, number> = {};
+    let current: ContentLine[] = [];
+
+    for (const raw of unfoldLines(contents)) {
+        const line = parseContentLine(raw);
+        if (!line) continue;
+
+        if (line.name === "BEGIN") {
+            const type = line.value.trim().toUpperCase();
+            stack.push(type);
+            if (type === "VTODO" || type === "VEVENT") current = [];
+        } else if (line.name === "END") {
+            const type = stack.pop();
+            if (type === "VTODO" || type === "VEVENT") {
+                counts[type] = (counts[type] ?? 0) + 1;
+                const draft = componentToDraft(
+                    type,
+                    current,
+                    resolved,
+                    issues,
+                    `${type}[${counts[type]}]`
+                );
+                if (draft) drafts.push(draft);
+            }
+        } else if (stack[stack.length - 1] === "VTODO" || stack[stack.length - 1] === "VEVENT") {
+            current.push(line);
+        }
+    }
+
+    if (!/^BEGIN:VCALENDAR/im.test(contents)) {
+        issues.push({ path: "file", message: "not an iCalendar file" });
+    }
+
+    return { drafts, issues };
+}
@@ -0,0 +1,197 @@
+/**
+ * File: markdown.ts
+ * Description: Markdown checklist export and import of tasks. Exports group
+ * tasks by day (`## 2025-08-01 (Fri)`) and subject (`### Math`); imports read
+ * checkbox lines such as `- [ ] Revise optics #Physics !High @16:30 +exam`.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import type { Task } from "@/features/todo/todoSlice";
+import type { ValidationIssue } from "@/features/backup/schema";
+import { Subject, subjectName } from "@/features/settings/subjects";
+import { PriorityLevel, resolvePriority } from "@/features/settings/priorities";
+import {
+    DraftDefaults,
+    matchName,
+    parseTime,
+    TaskDraft
+} from "./taskRows";
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const CHECKBOX = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const DAY = /\d{4}-\d{2}-\d{2}/;
+
+//
+// ─── EXPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Writes one checkbox line, e.g. `- [x] Revise optics !High @16:30 +exam`.
+ * Spaces in the priority name become underscores. Subtasks follow as
+ * indented checkboxes.
+ */
+function taskToLines(task: Task, priority: string): string[] {
+    const time = task.dueTime ? ` @${task.dueTime}` : "";
+    const token = priority.replace(/\s+/g, "_");
+    const tags = (task.tags ?? []).map(tag => ` +${tag}`).join("");
+    const lines = [
+        `- [${task.completed ? "x" : " "}] ${task.text} !${token}${time}${tags}`
+    ];
+    for (const subtask of task.subtasks ?? []) {
+        lines.push(`  - [${subtask.completed ? "x" : " "}] ${subtask.text}`);
+    }
+    return lines;
+}
+
+/**
+ * Writes tasks as a Markdown checklist grouped by day, then subject.
+ *
+ * @param tasks - Tasks from `selectTasksForExport`, sorted by day
+ * @param subjects - Subjects, to name each task's subject
+ * @param priorities - Priority levels, to name each task's priority
+ * @param title - Document heading
+ */
+export function tasksToMarkdown(
+    tasks: Task[],
+    subjects: Subject[],
+    priorities: PriorityLevel[],
+    title = "BrainDesk Tasks"
+): string {
+    const lines = [`# ${title}`];
+    const days = new Map<string, Map<string, Task[]>>();
+
+    for (const task of tasks) {
+        const byName = days.get(task.dueDate) ?? new Map<string, Task[]>();
+        const name = subjectName(subjects, task.subjectId);
+        byName.set(name, [...(byName.get(name) ?? []), task]);
+        days.set(task.dueDate, byName);
+    }
+
+    for (const [day, byName] of days) {
+        lines.push("", `## ${day} (${dayjs(day).format("ddd")})`);
+        for (const [subject, subjectTasks] of byName) {
+            lines.push("", `### ${subject}`, "");
+            subjectTasks.forEach(task =>
+                lines.push(
+                    ...taskToLines(task, resolvePriority(priorities, task.priority).name)
+                )
+            );
+        }
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+//
+// ─── IMPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Reads the inline tokens of a checkbox line: `#Subject` and `!Priority`
+ * (underscores become spaces), `@HH:MM`, `@YYYY-MM-DD` and any number of
+ * `+tag`. Everything else,
+ * including `!word` that names no priority level, is text.
+ */
+function parseTokens(body: string, subjects: string[], priorities: string[]) {
+    const words: string[] = [];
+    const tags: string[] = [];
+    const found: {
+        subject?: string;
+        priority?: string;
+        dueTime?: string;
+        dueDate?: string;
+    } = {};
+
+    for (const word of body.split(/\s+/)) {
+        const value = word.slice(1);
+        const priority = matchName(value.replace(/_/g, " "), priorities);
+
+        if (word.startsWith("#") && value) {
+            found.subject = matchName(value.replace(/_/g, " "), subjects);
+        } else if (word.startsWith("!") && priorities.includes(priority)) {
+            found.priority = priority;
+        } else if (word.startsWith("@") && parseTime(value)) {
+            found.dueTime = parseTime(value)!;
+        } else if (word.startsWith("@") && DAY.test(value) && dayjs(value).isValid()) {
+            found.dueDate = value;
+        } else if (word.startsWith("+") && value) {
+            tags.push(value);
+        } else if (word) {
+            words.push(word);
+        }
+    }
+
+    return { text: words.join(" "), tags, ...found };
+}
+
+/**
+ * Reads checkbox lines into task drafts. A heading containing a date sets the
+ * day for the lines below it; other headings (level 2 and deeper) set the
+ * subject. Inline tokens override both. Indented checkboxes become subtasks
+ * of the task above them. Other lines are ignored.
+ *
+ * @param markdown - File contents
+ * @param defaults - Subject, priority and day for lines that name none
+ * @param subjects - Known subjects, matched case-insensitively
+ * @param priorities - Priority level names, matched case-insensitively
+ * @returns Drafts and issues, with 1-based line numbers
+ */
+export function markdownToDrafts(
+    markdown: string,
+    defaults: DraftDefaults,
+    subjects: string[],
+    priorities: string[]
+): { drafts: TaskDraft[]; issues: ValidationIssue[] } {
+    const drafts: TaskDraft[] = [];
+    const issues: ValidationIssue[] = [];
+    let day = defaults.dueDate;
+    let subject = defaults.subject;
+
+    markdown.split(/\r?\n/).forEach((line, index) => {
+        const heading = HEADING.exec(line);
+        if (heading) {
+            const date = DAY.exec(heading[2])?.[0];
+            if (date && dayjs(date).isValid()) {
+                day = date;
+                subject = defaults.subject;
+            } else if (heading[1].length > 1) {
+                subject = matchName(heading[2], subjects);
+            }
+            return;
+        }
+
+        const checkbox = CHECKBOX.exec(line);
+        if (!checkbox) return;
+
+        const [, indent, mark, body] = checkbox;
+        const completed = mark !== " ";
+        const parent = drafts[drafts.length - 1];
+
+        if (indent.length > 0 && parent) {
+            parent.subtasks.push({ text: body.trim(), completed });
+            return;
+        }
+
+        const tokens = parseTokens(body, subjects, priorities);
+        if (!tokens.text) {
+            issues.push({ path: `line ${index + 1}`, message: "checkbox without text" });
+            return;
+        }
+
+        drafts.push({
+            text: tokens.text,
+            subject: tokens.subject ?? subject,
+            priority: tokens.priority ?? defaults.priority,
+            dueDate: tokens.dueDate ?? day,
+            dueTime: tokens.dueTime ?? null,
+            completed,
+            estimateMinutes: null,
+            subtasks: [],
+            tags: tokens.tags
+        });
+    });
+
+    return { drafts, issues };
+}
@@ -0,0 +1,318 @@
+/**
+ * File: taskRows.ts
+ * Description: Shared pieces of the CSV and Markdown task exchange: which
+ * tasks an export covers (date range, subject, status) and how an imported
+ * row becomes a task, and how an import compares with the current tasks.
+ * Files name subjects and priorities; tasks reference them by ID.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import { v4 as uuid } from "uuid";
+import type { Task } from "@/features/todo/todoSlice";
+import { sanitizeTags } from "@/features/todo/tags";
+import {
+    getOccurrenceDates,
+    RecurrenceRule,
+    toOccurrence
+} from "@/features/todo/recurrence";
+import { sanitizeEstimate } from "@/features/backup/schema";
+import { buildImportPlan, CurrentData, ImportPlan } from "@/features/backup/importPlan";
+import { resolveSubjectNames, Subject } from "@/features/settings/subjects";
+import { PriorityLevel, resolvePriority } from "@/features/settings/priorities";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Which tasks an export includes */
+export type ExportFilter = {
+    /** First and last day ("YYYY-MM-DD"); null exports every day */
+    range: { from: string; to: string } | null;
+    /** Only this subject ID; null exports all */
+    subjectId: string | null;
+    status: "all" | "open" | "completed";
+};
+
+/** A task read from a CSV row or Markdown line, before it gets an ID */
+export type TaskDraft = {
+    /** Kept when the file came from a BrainDesk export, so re-imports don't duplicate */
+    id?: string;
+    text: string;
+    /** Subject name */
+    subject: string;
+    /** Priority level name */
+    priority: string;
+    dueDate: string;
+    dueTime: string | null;
+    completed: boolean;
+    estimateMinutes: number | null;
+    subtasks: { text: string; completed: boolean }[];
+    /** Tags as written in the file; normalized when the task is built */
+    tags: string[];
+    /** Calendar files only: timestamps and repeat rule from the source item */
+    completedAt?: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+    recurrence?: RecurrenceRule | null;
+    excludedDates?: string[];
+};
+
+/** An import compared with the current tasks, for the conflict preview */
+export type TaskImport = {
+    plan: ImportPlan;
+    /** Subjects the file names that don't exist yet; added along with the tasks */
+    newSubjects: Subject[];
+    /** Rows of series already in the list, which hold those occurrences */
+    occurrenceRows: number;
+};
+
+/** Values for fields a file doesn't provide */
+export type DraftDefaults = {
+    /** Subject name */
+    subject: string;
+    /** Priority level name */
+    priority: string;
+    /** Day used for rows or lines without a date ("YYYY-MM-DD") */
+    dueDate: string;
+};
+
+//
+// ─── EXPORT SELECTION ──────────────────────────────────────────────────────────
+//
+
+/**
+ * Tasks covered by an export, sorted by day and time. Trashed tasks are
+ * skipped. With a date range, a series contributes one row per occurrence
+ * (or, with `expandSeries` off, the series itself if it occurs in the range);
+ * without one, a series is exported once, on its start day.
+ *
+ * @param tasks - All tasks from the store
+ * @param filter - Range, subject and status to export
+ * @param expandSeries - False for formats that carry repeat rules (iCalendar)
+ */
+export function selectTasksForExport(
+    tasks: Task[],
+    filter: ExportFilter,
+    expandSeries = true
+): Task[] {
+    const { range, subjectId, status } = filter;
+
+    return tasks
+        .filter(t => !t.deletedAt && (!subjectId || t.subjectId === subjectId))
+        .flatMap(task => {
+            if (!range) return [task];
+            if (task.recurrence) {
+                const days = getOccurrenceDates(task, range.from, range.to);
+                if (!expandSeries) return days.length > 0 ? [task] : [];
+                return days.map(day => toOccurrence(task, day));
+            }
+            return task.dueDate >= range.from && task.dueDate <= range.to
+                ? [task]
+                : [];
+        })
+        .filter(
+            t =>
+                status === "all" ||
+                (status === "completed" ? t.completed : !t.completed)
+        )
+        .sort(
+            (a, b) =>
+                a.dueDate.localeCompare(b.dueDate) ||
+                (a.dueTime ?? "").localeCompare(b.dueTime ?? "")
+        );
+}
+
+//
+// ─── IMPORT HELPERS ────────────────────────────────────────────────────────────
+//
+
+/**
+ * Reads a day in ISO form, or anything dayjs understands (e.g. "2025/08/01").
+ *
+ * @returns "YYYY-MM-DD", or null when the value isn't a date
+ */
+export function parseDay(value: string): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    const parsed = dayjs(trimmed);
+    return parsed.isValid() ? parsed.format("YYYY-MM-DD") : null;
+}
+
+/**
+ * Reads a time of day as "HH:MM" ("9:05" and "09:05:00" are accepted).
+ *
+ * @returns "HH:MM", or null when the value isn't a time
+ */
+export function parseTime(value: string): string | null {
+    const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+    if (!match) return null;
+    const [hours, minutes] = [Number(match[1]), Number(match[2])];
+    if (hours > 23 || minutes > 59) return null;
+    return `${String(hours).padStart(2, "0")}:${match[2]}`;
+}
+
+/** Reads a yes/no cell; "x", "yes", "true", "1", "done" count as yes */
+export const parseFlag = (value: string): boolean =>
+    ["x", "yes", "y", "true", "1", "done", "completed"].includes(
+        value.trim().toLowerCase()
+    );
+
+/**
+ * Matches a name against known values case-insensitively, so "math" maps to
+ * an existing "Math". Unknown names are kept as written.
+ */
+export function matchName(value: string, known: string[]): string {
+    const trimmed = value.trim();
+    return (
+        known.find(k => k.toLowerCase() === trimmed.toLowerCase()) ?? trimmed
+    );
+}
+
+/**
+ * Builds a full task from an imported draft.
+ * Timestamps the draft doesn't carry are set to `now`.
+ *
+ * @param draft - Parsed row, line or calendar item
+ * @param subjectId - ID of the subject the draft names
+ * @param now - Import time (ISO)
+ */
+export function draftToTask(
+    draft: TaskDraft,
+    subjectId: string,
+    now = new Date().toISOString()
+): Task {
+    return {
+        id: draft.id || uuid(),
+        text: draft.text,
+        completed: draft.completed,
+        subjectId,
+        priority: draft.priority,
+        dueDate: draft.dueDate,
+        dueTime: draft.dueTime,
+        createdAt: draft.createdAt ?? now,
+        updatedAt: draft.updatedAt ?? now,
+        completedAt: draft.completed ? draft.completedAt ?? now : null,
+        deletedAt: null,
+        recurrence: draft.recurrence ?? null,
+        excludedDates: draft.excludedDates ?? [],
+        subtasks: draft.subtasks.map(s => ({ id: uuid(), ...s })),
+        tags: sanitizeTags(draft.tags),
+        estimateMinutes: sanitizeEstimate(draft.estimateMinutes),
+        timeEntries: []
+    };
+}
+
+/**
+ * Builds tasks from drafts, resolving subject and priority names to IDs.
+ * Names no known subject has become new subjects, which the caller adds to
+ * settings; unknown priorities get the default level.
+ *
+ * @param drafts - Parsed rows, lines or calendar items
+ * @param subjects - Known subjects
+ * @param priorities - Configured priority levels
+ * @param now - Import time (ISO)
+ */
+export function draftsToTasks(
+    drafts: TaskDraft[],
+    subjects: Subject[],
+    priorities: PriorityLevel[],
+    now = new Date().toISOString()
+): { tasks: Task[]; newSubjects: Subject[] } {
+    const { ids, created } = resolveSubjectNames(
+        subjects,
+        drafts.map(d => d.subject)
+    );
+    return {
+        tasks: drafts.map(d =>
+            draftToTask(
+                { ...d, priority: resolvePriority(priorities, d.priority).id },
+                ids.get(d.subject)!,
+                now
+            )
+        ),
+        newSubjects: created
+    };
+}
+
+//
+// ─── IMPORT PLAN ───────────────────────────────────────────────────────────────
+//
+
+/**
+ * Lays an imported row over the local task with its ID. Files carry only
+ * some fields, so everything else (notes, time entries, creation time) is
+ * kept, and subtasks keep their IDs by text. An unchanged row then compares
+ * as identical instead of as a conflict.
+ */
+function overlayDraft(local: Task, imported: Task, draft: TaskDraft): Task {
+    const subtaskIds = new Map((local.subtasks ?? []).map(s => [s.text, s.id]));
+    return {
+        ...local,
+        text: imported.text,
+        completed: imported.completed,
+        completedAt:
+            imported.completed === local.completed ? local.completedAt : imported.completedAt,
+        subjectId: imported.subjectId,
+        priority: imported.priority,
+        dueDate: imported.dueDate,
+        dueTime: imported.dueTime,
+        estimateMinutes: imported.estimateMinutes,
+        tags: imported.tags,
+        subtasks: (imported.subtasks ?? []).map(s => ({ ...s, id: subtaskIds.get(s.text) ?? s.id })),
+        // Only calendar items carry repeat rules
+        recurrence: draft.recurrence === undefined ? local.recurrence : imported.recurrence,
+        excludedDates:
+            draft.excludedDates === undefined ? local.excludedDates : imported.excludedDates,
+        updatedAt: imported.updatedAt
+    };
+}
+
+/**
+ * Compares imported drafts with the current tasks. Rows whose ID exists
+ * locally become conflicts (or identical tasks) instead of being dropped.
+ * An export with a date range writes one row per occurrence of a series,
+ * all with the series' ID: rows of a series already in the list are left
+ * out, and rows sharing an ID the list doesn't know each get their own ID,
+ * as the file doesn't carry the repeat rule to rebuild the series from.
+ *
+ * @param drafts - Parsed rows, lines or calendar items
+ * @param current - Tasks and settings in the store
+ * @param now - Import time (ISO)
+ */
+export function planTaskImport(
+    drafts: TaskDraft[],
+    current: CurrentData,
+    now = new Date().toISOString()
+): TaskImport {
+    const local = new Map(current.tasks.map(t => [t.id, t]));
+    const kept = drafts.filter(
+        d => !(d.id && !d.recurrence && local.get(d.id)?.recurrence)
+    );
+
+    const idCounts = new Map<string, number>();
+    for (const { id } of kept) {
+        if (id) idCounts.set(id, (idCounts.get(id) ?? 0) + 1);
+    }
+    const unique = kept.map(d =>
+        d.id && idCounts.get(d.id)! > 1 ? { ...d, id: undefined } : d
+    );
+
+    const { tasks, newSubjects } = draftsToTasks(
+        unique,
+        current.settings.subjects,
+        current.settings.priorities,
+        now
+    );
+    const incoming = tasks.map((task, i) => {
+        const mine = local.get(task.id);
+        return mine ? overlayDraft(mine, task, unique[i]) : task;
+    });
+
+    return {
+        plan: buildImportPlan(current, { tasks: incoming, settings: {}, sessions: [] }),
+        newSubjects,
+        occurrenceRows: drafts.length - kept.length
+    };
+}
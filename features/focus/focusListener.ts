@@ -0,0 +1,76 @@
+/**
+ * File: focusListener.ts
+ * Description: Store listener that schedules a local notification for the
+ * end of the running focus phase and cancels it when the phase is stopped.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isAnyOf, ListenerMiddlewareInstance } from "@reduxjs/toolkit";
+import { startFocus, stopFocus, clearSessions } from "./sessionsSlice";
+import { FocusTimer, PHASE_LABELS } from "./focusTimer";
+import type {
+    NotificationScheduler,
+    ReminderContent
+} from "@/features/notifications/notificationService";
+
+/** Fixed identifier so a new phase replaces the previous notification */
+export const FOCUS_PHASE_ID = "braindesk:focus-phase";
+
+/** Slice of root state the listener reads */
+type FocusState = {
+    sessions: { timer: FocusTimer | null };
+};
+
+/**
+ * Builds the notification shown when a phase ends.
+ *
+ * @param timer - Phase that is ending
+ */
+export function buildPhaseEndContent(timer: FocusTimer): ReminderContent {
+    if (timer.phase === "work") {
+        return {
+            title: "Focus session complete 🎉",
+            body: "Time for a break."
+        };
+    }
+    return {
+        title: `${PHASE_LABELS[timer.phase]} over`,
+        body: "Ready for the next focus session?"
+    };
+}
+
+/**
+ * Registers the focus notification listener on a listener middleware.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param scheduler - Platform scheduler used for the phase-end notification
+ * @returns Function that removes the listener
+ */
+export function startFocusListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    scheduler: NotificationScheduler
+) {
+    return startListening({
+        matcher: isAnyOf(startFocus, stopFocus, clearSessions),
+        effect: async (action, listenerApi) => {
+            const { timer } = (listenerApi.getState() as FocusState).sessions;
+
+            try {
+                if (!startFocus.match(action) || !timer) {
+                    await scheduler.cancel(FOCUS_PHASE_ID);
+                    return;
+                }
+
+                if (!(await scheduler.requestPermission())) return;
+                await scheduler.scheduleAt(
+                    FOCUS_PHASE_ID,
+                    new Date(timer.endsAt),
+                    buildPhaseEndContent(timer)
+                );
+            } catch (error) {
+                console.error("Failed to schedule focus notification:", error);
+            }
+        }
+    });
+}
@@ -0,0 +1,182 @@
+/**
+ * File: focusTimer.ts
+ * Description: Pure Pomodoro timer logic. A running phase is stored as
+ * wall-clock timestamps, so the remaining time stays correct while the app is
+ * backgrounded or killed — nothing here depends on intervals firing.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import type { FocusDurations } from "@/features/settings/settingsSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Pomodoro phases */
+export type FocusPhase = "work" | "shortBreak" | "longBreak";
+
+/** A running phase */
+export type FocusTimer = {
+    phase: FocusPhase;
+    /** Task being studied, if the timer was started from one */
+    taskId: string | null;
+    /** Subject studied, by ID; the task's subject when started from a task */
+    subjectId: string | null;
+    /** ISO timestamp the phase started */
+    startedAt: string;
+    /** ISO timestamp the phase ends */
+    endsAt: string;
+};
+
+/** A logged block of focused work */
+export type FocusSession = {
+    id: string;
+    taskId: string | null;
+    subjectId: string | null;
+    /** ISO start timestamp */
+    startedAt: string;
+    /** ISO end timestamp */
+    endedAt: string;
+    /** Focused time in seconds */
+    duration: number;
+};
+
+/** Short labels for the timer screen */
+export const PHASE_LABELS: Record<FocusPhase, string> = {
+    work: "Focus",
+    shortBreak: "Short break",
+    longBreak: "Long break"
+};
+
+//
+// ─── TIMER ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Length of a phase in minutes.
+ */
+export function getPhaseMinutes(
+    phase: FocusPhase,
+    durations: FocusDurations
+): number {
+    return durations[phase];
+}
+
+/**
+ * Creates a running timer for a phase.
+ *
+ * @param phase - Phase to run
+ * @param durations - Phase lengths from settings
+ * @param context - Task the session belongs to
+ * @param now - Start time (ISO)
+ */
+export function createTimer(
+    phase: FocusPhase,
+    durations: FocusDurations,
+    context: { taskId: string | null; subjectId: string | null },
+    now: string
+): FocusTimer {
+    return {
+        phase,
+        ...context,
+        startedAt: now,
+        endsAt: dayjs(now)
+            .add(getPhaseMinutes(phase, durations), "minute")
+            .toISOString()
+    };
+}
+
+/**
+ * Milliseconds left in the phase, never negative.
+ */
+export function getRemainingMs(timer: FocusTimer, now: string): number {
+    return Math.max(0, Date.parse(timer.endsAt) - Date.parse(now));
+}
+
+/**
+ * Whether the phase has ended by `now`.
+ */
+export function isPhaseOver(timer: FocusTimer, now: string): boolean {
+    return getRemainingMs(timer, now) === 0;
+}
+
+/**
+ * Phase that should follow the last completed one.
+ * Every `longBreakEvery`-th work phase earns a long break.
+ *
+ * @param lastPhase - Last completed phase (null before the first one)
+ * @param completedWorkPhases - Work phases completed so far
+ * @param durations - Phase lengths from settings
+ */
+export function getNextPhase(
+    lastPhase: FocusPhase | null,
+    completedWorkPhases: number,
+    durations: FocusDurations
+): FocusPhase {
+    if (lastPhase !== "work") return "work";
+    return completedWorkPhases > 0 &&
+        completedWorkPhases % durations.longBreakEvery === 0
+        ? "longBreak"
+        : "shortBreak";
+}
+
+/**
+ * Formats milliseconds as "MM:SS" (rounding up so 0:00 only shows at the end).
+ */
+export function formatRemaining(ms: number): string {
+    const total = Math.ceil(ms / 1000);
+    const minutes = Math.floor(total / 60);
+    const seconds = total % 60;
+    return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+//
+// ─── SESSIONS ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Returns a copy of a stored session, or null when it is malformed.
+ */
+export function sanitizeSession(raw: unknown): FocusSession | null {
+    if (!raw || typeof raw !== "object") return null;
+    const s = raw as Record<string, unknown>;
+
+    if (
+        typeof s.id !== "string" ||
+        typeof s.startedAt !== "string" ||
+        typeof s.endedAt !== "string" ||
+        typeof s.duration !== "number" ||
+        s.duration < 0
+    ) {
+        return null;
+    }
+
+    return {
+        id: s.id,
+        taskId: typeof s.taskId === "string" ? s.taskId : null,
+        subjectId: typeof s.subjectId === "string" ? s.subjectId : null,
+        startedAt: s.startedAt,
+        endedAt: s.endedAt,
+        duration: s.duration
+    };
+}
+
+/**
+ * Focused minutes per local day, counted on the day each session started.
+ *
+ * @param sessions - Logged sessions
+ * @param toDay - Timestamp → local day conversion
+ */
+export function getFocusMinutesByDay(
+    sessions: FocusSession[],
+    toDay: (timestamp: string) => string = ts => dayjs(ts).format("YYYY-MM-DD")
+): Record<string, number> {
+    const minutes: Record<string, number> = {};
+    for (const session of sessions) {
+        const day = toDay(session.startedAt);
+        minutes[day] = (minutes[day] ?? 0) + session.duration / 60;
+    }
+    return minutes;
+}
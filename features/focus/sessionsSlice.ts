@@ -0,0 +1,296 @@
+/**
+ * File: sessionsSlice.ts
+ * Description: Redux slice for the focus timer and the log of focus sessions + loading from storage.
+ * Changes are written back by the store's persistence listener (see `features/persistence`).
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { v4 as uuid } from "uuid";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+import type { FocusDurations } from "@/features/settings/settingsSlice";
+import { validateSessions } from "@/features/backup/schema";
+import {
+    loadStorageVersion,
+    migrateDocument,
+    SCHEMA_VERSION
+} from "@/features/backup/migrations";
+import {
+    createTimer,
+    FocusPhase,
+    FocusSession,
+    FocusTimer,
+    isPhaseOver
+} from "./focusTimer";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Sessions slice state */
+export type SessionsState = {
+    sessions: FocusSession[];
+    /** Running phase, null when idle */
+    timer: FocusTimer | null;
+    /** Last phase that ran to completion, used to suggest the next one */
+    lastPhase: FocusPhase | null;
+    /** Work phases completed in the current cycle, for long breaks */
+    completedWorkPhases: number;
+};
+
+/** Persisted timer state, restored after a relaunch */
+export type StoredTimer = Pick<
+    SessionsState,
+    "timer" | "lastPhase" | "completedWorkPhases"
+>;
+
+/** Work stopped earlier than this is not logged */
+const MIN_SESSION_SECONDS = 60;
+
+//
+// ─── INITIAL STATE ─────────────────────────────────────────────────────────────
+//
+
+const initialState: SessionsState = {
+    sessions: [],
+    timer: null,
+    lastPhase: null,
+    completedWorkPhases: 0
+};
+
+//
+// ─── ASYNC THUNK: Load from AsyncStorage ───────────────────────────────────────
+//
+
+/**
+ * Load sessions and the running timer from AsyncStorage.
+ * Sessions saved by an older schema are migrated and written back.
+ */
+export const loadSessionsFromStorage = createAsyncThunk(
+    "sessions/loadFromStorage",
+    async () => {
+        try {
+            const [sessionsJson, timerJson, version] = await Promise.all([
+                AsyncStorage.getItem(STORAGE_KEYS.SESSIONS),
+                AsyncStorage.getItem(STORAGE_KEYS.FOCUS_TIMER),
+                loadStorageVersion()
+            ]);
+            const stored: Partial<StoredTimer> = timerJson
+                ? JSON.parse(timerJson)
+                : {};
+
+            const { sessions: migrated } = migrateDocument(
+                { sessions: sessionsJson ? JSON.parse(sessionsJson) : [] },
+                version
+            );
+            const { value: sessions, issues } = validateSessions(migrated);
+            if (issues.length > 0) {
+                console.warn("Dropped invalid stored focus sessions:", issues);
+            }
+            // The running timer carries the same subject reference as a session
+            if (stored.timer) {
+                const { sessions: [timer] } = migrateDocument(
+                    { sessions: [stored.timer] },
+                    version
+                ) as { sessions: FocusTimer[] };
+                stored.timer = timer;
+            }
+            if (version < SCHEMA_VERSION && sessionsJson) {
+                await AsyncStorage.setItem(
+                    STORAGE_KEYS.SESSIONS,
+                    JSON.stringify(sessions)
+                );
+            }
+
+            return {
+                sessions,
+                timer: stored.timer ?? null,
+                lastPhase: stored.lastPhase ?? null,
+                completedWorkPhases: stored.completedWorkPhases ?? 0
+            } as SessionsState;
+        } catch (error) {
+            console.error("Failed to load focus sessions:", error);
+            return initialState;
+        }
+    }
+);
+
+//
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Appends a work session covering `startedAt` → `endedAt`.
+ */
+function logWork(state: SessionsState, timer: FocusTimer, endedAt: string) {
+    const duration = Math.round(
+        (Date.parse(endedAt) - Date.parse(timer.startedAt)) / 1000
+    );
+    if (duration < MIN_SESSION_SECONDS) return;
+
+    state.sessions.push({
+        id: uuid(),
+        taskId: timer.taskId,
+        subjectId: timer.subjectId,
+        startedAt: timer.startedAt,
+        endedAt,
+        duration
+    });
+}
+
+//
+// ─── REDUX SLICE ───────────────────────────────────────────────────────────────
+//
+
+const sessionsSlice = createSlice({
+    name: "sessions",
+    initialState,
+    reducers: {
+        /**
+         * Start a phase, replacing any running one.
+         */
+        startFocus: {
+            reducer(
+                state,
+                action: PayloadAction<{
+                    phase: FocusPhase;
+                    durations: FocusDurations;
+                    taskId: string | null;
+                    subjectId: string | null;
+                    now: string;
+                }>
+            ) {
+                const { phase, durations, taskId, subjectId, now } =
+                    action.payload;
+                state.timer = createTimer(
+                    phase,
+                    durations,
+                    { taskId, subjectId },
+                    now
+                );
+            },
+            prepare(payload: {
+                phase: FocusPhase;
+                durations: FocusDurations;
+                taskId?: string | null;
+                subjectId?: string | null;
+                now?: string;
+            }) {
+                return {
+                    payload: {
+                        ...payload,
+                        taskId: payload.taskId ?? null,
+                        subjectId: payload.subjectId ?? null,
+                        now: payload.now ?? new Date().toISOString()
+                    }
+                };
+            }
+        },
+
+        /**
+         * Complete the running phase once its end time has passed.
+         * A finished work phase is logged with its scheduled end, even if the
+         * app only notices later (e.g. after being backgrounded).
+         */
+        finishPhase: {
+            reducer(state, action: PayloadAction<string>) {
+                const timer = state.timer;
+                if (!timer || !isPhaseOver(timer, action.payload)) return;
+
+                if (timer.phase === "work") {
+                    logWork(state, timer, timer.endsAt);
+                    state.completedWorkPhases += 1;
+                } else if (timer.phase === "longBreak") {
+                    state.completedWorkPhases = 0;
+                }
+                state.lastPhase = timer.phase;
+                state.timer = null;
+            },
+            prepare(now?: string) {
+                return { payload: now ?? new Date().toISOString() };
+            }
+        },
+
+        /**
+         * Stop the running phase early. Partial work is logged if it lasted
+         * at least a minute.
+         */
+        stopFocus: {
+            reducer(state, action: PayloadAction<string>) {
+                const timer = state.timer;
+                if (!timer) return;
+
+                if (timer.phase === "work") {
+                    const end =
+                        Date.parse(action.payload) < Date.parse(timer.endsAt)
+                            ? action.payload
+                            : timer.endsAt;
+                    logWork(state, timer, end);
+                }
+                state.timer = null;
+            },
+            prepare(now?: string) {
+                return { payload: now ?? new Date().toISOString() };
+            }
+        },
+
+        /**
+         * Remove one logged session.
+         */
+        deleteSession: (state, action: PayloadAction<string>) => {
+            state.sessions = state.sessions.filter(s => s.id !== action.payload);
+        },
+
+        /**
+         * Merge imported sessions, skipping malformed entries and known IDs.
+         */
+        mergeSessions: (state, action: PayloadAction<unknown[]>) => {
+            const existingIds = new Set(state.sessions.map(s => s.id));
+            for (const session of validateSessions(action.payload).value) {
+                if (!existingIds.has(session.id)) {
+                    state.sessions.push(session);
+                }
+            }
+        },
+
+        /**
+         * Replace the session log with imported sessions. A running timer is kept.
+         */
+        replaceSessions: (state, action: PayloadAction<unknown[]>) => {
+            state.sessions = validateSessions(action.payload).value;
+        },
+
+        /**
+         * Delete all sessions and stop the timer.
+         */
+        clearSessions: state => {
+            state.sessions = [];
+            state.timer = null;
+            state.lastPhase = null;
+            state.completedWorkPhases = 0;
+        }
+    },
+    extraReducers: builder => {
+        builder.addCase(loadSessionsFromStorage.fulfilled, (_state, action) => {
+            return action.payload;
+        });
+    }
+});
+
+//
+// ─── EXPORTS ───────────────────────────────────────────────────────────────────
+//
+
+export const {
+    startFocus,
+    finishPhase,
+    stopFocus,
+    deleteSession,
+    mergeSessions,
+    replaceSessions,
+    clearSessions
+} = sessionsSlice.actions;
+
+export default sessionsSlice.reducer;
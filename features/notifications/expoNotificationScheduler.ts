@@ -0,0 +1,73 @@
+/**
+ * File: expoNotificationScheduler.ts
+ * Description: `NotificationScheduler` implementation backed by expo-notifications.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import type { NotificationScheduler } from "./notificationService";
+
+/** Android channel used for all study reminders */
+const REMINDER_CHANNEL_ID = "reminders";
+
+// Show reminders as a banner even when the app is in the foreground
+Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: true,
+        shouldSetBadge: false
+    })
+});
+
+/**
+ * Creates the Android notification channel once; later calls are no-ops.
+ */
+async function ensureChannel() {
+    if (Platform.OS !== "android") return;
+
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: "Study reminders",
+        importance: Notifications.AndroidImportance.DEFAULT
+    });
+}
+
+export const expoNotificationScheduler: NotificationScheduler = {
+    async requestPermission() {
+        const existing = await Notifications.getPermissionsAsync();
+        if (existing.granted) return true;
+
+        const requested = await Notifications.requestPermissionsAsync();
+        return requested.granted;
+    },
+
+    async scheduleAt(id, date, content) {
+        await ensureChannel();
+
+        // Reusing the identifier replaces any previously scheduled notification
+        await Notifications.scheduleNotificationAsync({
+            identifier: id,
+            content,
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                channelId: REMINDER_CHANNEL_ID,
+                date
+            }
+        });
+    },
+
+    async cancel(id) {
+        await Notifications.cancelScheduledNotificationAsync(id);
+    },
+
+    onDelivered(matches, listener) {
+        const subscription = Notifications.addNotificationReceivedListener(
+            notification => {
+                if (matches(notification.request.identifier)) listener();
+            }
+        );
+        return () => subscription.remove();
+    }
+};
@@ -0,0 +1,225 @@
+/**
+ * File: notificationService.ts
+ * Description: Schedules the daily study reminder from `settings.notificationTime`
+ * and summarizes the pending tasks of the day it fires in its body. The next
+ * `REMINDER_DAYS` reminders are scheduled as one-offs, each listing its own
+ * day, so reminders keep coming while the app stays closed; the window moves
+ * forward when one fires, when the app opens or returns to the foreground,
+ * and whenever tasks change.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import type { Task } from "@/features/todo/todoSlice";
+import { expandTasksForDay } from "@/features/todo/recurrence";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Title and body shown in a local notification */
+export type ReminderContent = {
+    title: string;
+    body: string;
+};
+
+/**
+ * Thin wrapper around the platform notification API.
+ * The app uses the Expo implementation; tests pass in a fake.
+ */
+export interface NotificationScheduler {
+    /** Resolves to true once the user has granted notification permission. */
+    requestPermission(): Promise<boolean>;
+
+    /** Schedules (or replaces) a one-off notification at a point in time. */
+    scheduleAt(id: string, date: Date, content: ReminderContent): Promise<void>;
+
+    /** Cancels a scheduled notification; a no-op if it does not exist. */
+    cancel(id: string): Promise<void>;
+
+    /**
+     * Calls `listener` when a notification whose ID passes `matches` is
+     * delivered while the app runs. Returns a function that removes the listener.
+     */
+    onDelivered(matches: (id: string) => boolean, listener: () => void): () => void;
+}
+
+//
+// ─── CONSTANTS ─────────────────────────────────────────────────────────────────
+//
+
+/** Identifier of the repeating reminder of earlier versions; prefix of the daily ones */
+export const DAILY_REMINDER_ID = "braindesk:daily-reminder";
+
+/** Days ahead covered by scheduled reminders */
+export const REMINDER_DAYS = 14;
+
+/** Number of task titles listed in the body before collapsing into "+N more" */
+const MAX_LISTED_TASKS = 3;
+
+//
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Parses a stored "HH:MM" time string.
+ *
+ * @param time - Value of `settings.notificationTime`
+ * @returns Hour and minute, or null if the string is missing or malformed
+ */
+export function parseNotificationTime(
+    time: string | null | undefined
+): { hour: number; minute: number } | null {
+    if (!time) return null;
+
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    if (!match) return null;
+
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    if (hour > 23 || minute > 59) return null;
+
+    return { hour, minute };
+}
+
+/**
+ * Identifier of the reminder `day` days after the next one. Fixed per slot,
+ * so rescheduling replaces the previous reminders.
+ *
+ * @param day - 0 for the next reminder, up to `REMINDER_DAYS` - 1
+ */
+export const reminderId = (day: number) => `${DAILY_REMINDER_ID}:${day}`;
+
+/** Whether a notification ID belongs to a daily reminder */
+export const isDailyReminderId = (id: string) => id.startsWith(`${DAILY_REMINDER_ID}:`);
+
+/** Cancels every daily reminder, including the repeating one of earlier versions */
+async function cancelReminders(scheduler: NotificationScheduler) {
+    await scheduler.cancel(DAILY_REMINDER_ID);
+    for (let day = 0; day < REMINDER_DAYS; day++) {
+        await scheduler.cancel(reminderId(day));
+    }
+}
+
+/**
+ * Next time the reminder should fire: today at the given time if that is
+ * still ahead, otherwise tomorrow.
+ *
+ * @param time - Parsed reminder time
+ * @param now - Current time
+ */
+export function nextReminderDate(
+    time: { hour: number; minute: number },
+    now: Date = new Date()
+): Date {
+    const today = dayjs(now)
+        .hour(time.hour)
+        .minute(time.minute)
+        .second(0)
+        .millisecond(0);
+    return (today.isAfter(now) ? today : today.add(1, "day")).toDate();
+}
+
+/**
+ * Returns tasks and series occurrences planned for the given day that are
+ * neither completed nor deleted.
+ *
+ * @param tasks - All tasks from the store
+ * @param date - Day to summarize (defaults to today)
+ * @returns Pending tasks for that day
+ */
+export function getPendingTasksForDay(
+    tasks: Task[],
+    date: dayjs.ConfigType = dayjs()
+): Task[] {
+    return expandTasksForDay(tasks, dayjs(date).format("YYYY-MM-DD")).filter(
+        task => !task.completed
+    );
+}
+
+/**
+ * Builds the reminder title and body from today's pending tasks.
+ *
+ * @param tasks - All tasks from the store
+ * @param date - Day to summarize (defaults to today)
+ * @returns Notification content
+ */
+export function buildReminderContent(
+    tasks: Task[],
+    date: dayjs.ConfigType = dayjs()
+): ReminderContent {
+    const pending = getPendingTasksForDay(tasks, date);
+
+    if (pending.length === 0) {
+        return {
+            title: "BrainDesk",
+            body: "No pending tasks for today. Plan your study session!"
+        };
+    }
+
+    const listed = pending.slice(0, MAX_LISTED_TASKS).map(t => t.text);
+    const remaining = pending.length - listed.length;
+    const suffix = remaining > 0 ? ` +${remaining} more` : "";
+    const noun = pending.length === 1 ? "task" : "tasks";
+
+    return {
+        title: `${pending.length} pending ${noun} today`,
+        body: `${listed.join(", ")}${suffix}`
+    };
+}
+
+//
+// ─── SCHEDULING ────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Brings the scheduled daily reminders in line with the current settings.
+ * Cancels them when the time is null or permission is denied, otherwise
+ * replaces them with one-offs for the next `REMINDER_DAYS` fire times, each
+ * listing the tasks pending on its day.
+ *
+ * @param scheduler - Platform scheduler (Expo in the app, a fake in tests)
+ * @param notificationTime - "HH:MM" string or null when reminders are off
+ * @param tasks - All tasks, used to summarize the day's pending work
+ * @param now - Current time
+ * @returns True if reminders are scheduled after the call
+ */
+export async function syncDailyReminder(
+    scheduler: NotificationScheduler,
+    notificationTime: string | null,
+    tasks: Task[],
+    now: Date = new Date()
+): Promise<boolean> {
+    try {
+        const time = parseNotificationTime(notificationTime);
+
+        if (!time) {
+            await cancelReminders(scheduler);
+            return false;
+        }
+
+        const granted = await scheduler.requestPermission();
+        if (!granted) {
+            await cancelReminders(scheduler);
+            return false;
+        }
+
+        // Replaced by the one-offs below
+        await scheduler.cancel(DAILY_REMINDER_ID);
+
+        const first = dayjs(nextReminderDate(time, now));
+        for (let day = 0; day < REMINDER_DAYS; day++) {
+            const fireAt = first.add(day, "day").toDate();
+            await scheduler.scheduleAt(
+                reminderId(day),
+                fireAt,
+                buildReminderContent(tasks, fireAt)
+            );
+        }
+        return true;
+    } catch (err) {
+        console.error("Error scheduling daily reminder:", err);
+        return false;
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * File: reminderListener.ts
+ * Description: Store listener that reschedules the daily reminders whenever
+ * the reminder time or the task list changes, whatever the action (edits,
+ * subtask auto-complete, imports, sync), or on request (a reminder fired,
+ * the app came back to the foreground).
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import {
+    createAction,
+    isAnyOf,
+    ListenerMiddlewareInstance
+} from "@reduxjs/toolkit";
+import { loadSettings } from "@/features/settings/settingsSlice";
+import { loadTasksFromStorage, Task } from "@/features/todo/todoSlice";
+import {
+    NotificationScheduler,
+    syncDailyReminder
+} from "./notificationService";
+
+/** Slice of root state the reminder depends on */
+type ReminderState = {
+    settings: { notificationTime: string | null };
+    todo: { tasks: Task[] };
+};
+
+/** Schedule the next reminder now, e.g. once the current one has fired */
+export const refreshReminder = createAction("notifications/refreshReminder");
+
+/** Waits for a burst of task edits to settle before rescheduling */
+const RESCHEDULE_DELAY_MS = 500;
+
+/** Startup loads; `bootstrapApp` schedules once after all of them */
+const isHydration = isAnyOf(loadSettings, loadTasksFromStorage.fulfilled);
+
+/**
+ * Registers the reminder listener on a listener middleware.
+ * Any action that changes the task list or the reminder time reschedules,
+ * so the summaries never lag behind. Hydration actions are ignored here
+ * because `bootstrapApp` schedules once after everything is loaded.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param scheduler - Platform scheduler used to (re)schedule the reminder
+ * @returns Function that removes the listener
+ */
+export function startReminderListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    scheduler: NotificationScheduler
+) {
+    return startListening({
+        predicate: (action, current, previous) => {
+            if (refreshReminder.match(action)) return true;
+            if (isHydration(action)) return false;
+
+            const now = current as ReminderState;
+            const before = previous as ReminderState;
+            return (
+                now.todo.tasks !== before.todo.tasks ||
+                now.settings.notificationTime !== before.settings.notificationTime
+            );
+        },
+        effect: async (_action, listenerApi) => {
+            // Only the latest change in a burst needs to reach the scheduler
+            listenerApi.cancelActiveListeners();
+            await listenerApi.delay(RESCHEDULE_DELAY_MS);
+
+            const state = listenerApi.getState() as ReminderState;
+            await syncDailyReminder(
+                scheduler,
+                state.settings.notificationTime,
+                state.todo.tasks
+            );
+        }
+    });
+}
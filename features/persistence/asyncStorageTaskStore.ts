@@ -0,0 +1,81 @@
+/**
+ * File: asyncStorageTaskStore.ts
+ * Description: `TaskStore` keeping every task in one AsyncStorage string.
+ * Every change rewrites the whole list, so it is only the fallback and the
+ * source of the one-time move to SQLite.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+import type { Task } from "@/features/todo/todoSlice";
+import type { KeyValueStorage } from "./storageWriter";
+import { storedTaskId, TaskStore } from "./taskStore";
+
+/** The part of AsyncStorage the store needs */
+export interface ReadableStorage extends KeyValueStorage {
+    getItem(key: string): Promise<string | null>;
+}
+
+/**
+ * Creates a task store on a key-value storage.
+ *
+ * @param storage - Usually AsyncStorage; tests pass its mock or a fake
+ * @param key - Key holding the JSON task list
+ */
+export function createAsyncStorageTaskStore(
+    storage: ReadableStorage,
+    key = STORAGE_KEYS.TASKS
+): TaskStore {
+    const read = async (): Promise<unknown[]> => {
+        const json = await storage.getItem(key);
+        const parsed: unknown = json ? JSON.parse(json) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    };
+
+    const save = (entries: unknown[]) =>
+        storage.setItem(key, JSON.stringify(entries));
+
+    return {
+        load: read,
+
+        async upsert(tasks) {
+            if (tasks.length === 0) return;
+
+            const updates = new Map(tasks.map(task => [task.id, task]));
+            const entries = (await read()).map(entry => {
+                const id = storedTaskId(entry);
+                const update = id !== null ? updates.get(id) : undefined;
+                if (!update) return entry;
+
+                updates.delete(id!);
+                return update;
+            });
+            await save([...entries, ...updates.values()]);
+        },
+
+        async remove(ids) {
+            if (ids.length === 0) return;
+
+            const removed = new Set(ids);
+            const entries = await read();
+            await save(
+                entries.filter(entry => {
+                    const id = storedTaskId(entry);
+                    return id === null || !removed.has(id);
+                })
+            );
+        },
+
+        async queryByDueDate(from, to) {
+            return (await read()).filter((entry): entry is Task => {
+                const dueDate = (entry as Partial<Task> | null)?.dueDate;
+                return typeof dueDate === "string" && dueDate >= from && dueDate <= to;
+            });
+        }
+    };
+}
+
+/** Tasks under `STORAGE_KEYS.TASKS`, where every version before SQLite kept them */
+export const asyncStorageTaskStore = createAsyncStorageTaskStore(AsyncStorage);
@@ -0,0 +1,16 @@
+/**
+ * File: expoSqliteTaskStore.ts
+ * Description: The app's `TaskStore`: an SQLite database opened with expo-sqlite.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import * as SQLite from "expo-sqlite";
+import { createSqliteTaskStore } from "./sqliteTaskStore";
+
+/** Database file in the app's private storage */
+const DATABASE_NAME = "braindesk.db";
+
+export const expoSqliteTaskStore = createSqliteTaskStore(
+    SQLite.openDatabaseSync(DATABASE_NAME)
+);
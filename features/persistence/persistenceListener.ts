@@ -0,0 +1,106 @@
+/**
+ * File: persistenceListener.ts
+ * Description: Store listener that writes tasks, settings, focus and sync data back
+ * to storage whenever they change. Reducers stay pure; all writes go through
+ * a `StorageWriter`, which debounces, orders and retries them. Tasks have a
+ * writer of their own, backed by a `TaskStore` (see `taskListStorage`).
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isAnyOf, ListenerMiddlewareInstance } from "@reduxjs/toolkit";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+import { loadTasksFromStorage, Task, TodoState } from "@/features/todo/todoSlice";
+import { loadSettings, SettingsState } from "@/features/settings/settingsSlice";
+import {
+    loadSessionsFromStorage,
+    SessionsState,
+    StoredTimer
+} from "@/features/focus/sessionsSlice";
+import { loadSync, SyncState } from "@/features/sync/syncSlice";
+import {
+    loadServerSync,
+    ServerSyncState,
+    storedServerSync
+} from "@/features/sync/serverSyncSlice";
+import type { StorageWriter } from "./storageWriter";
+
+/** Slice of root state the listener persists */
+type PersistedState = {
+    todo: TodoState;
+    settings: SettingsState;
+    sessions: SessionsState;
+    sync: SyncState;
+    serverSync: ServerSyncState;
+};
+
+/** Hydration puts stored data into the store; writing it back is pointless */
+const isHydration = isAnyOf(
+    loadTasksFromStorage.fulfilled,
+    loadSettings,
+    loadSessionsFromStorage.fulfilled,
+    loadSync,
+    loadServerSync
+);
+
+/**
+ * Registers the persistence listener on a listener middleware.
+ * Only the parts that changed are queued, and only the task list is stored
+ * for `todo` — the undo history stays in memory.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param writer - Writer the changed settings, focus and sync data are queued on
+ * @param taskWriter - Writer the task list is queued on
+ * @returns Function that removes the listener
+ */
+export function startPersistenceListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    writer: StorageWriter,
+    taskWriter: StorageWriter<Task[]>
+) {
+    return startListening({
+        predicate: action => !isHydration(action),
+        effect: (_action, listenerApi) => {
+            const before = listenerApi.getOriginalState() as PersistedState;
+            const after = listenerApi.getState() as PersistedState;
+
+            if (after.todo.tasks !== before.todo.tasks) {
+                taskWriter.write(STORAGE_KEYS.TASKS, after.todo.tasks);
+            }
+
+            if (after.settings !== before.settings) {
+                writer.write(STORAGE_KEYS.SETTINGS, JSON.stringify(after.settings));
+            }
+
+            if (after.sessions.sessions !== before.sessions.sessions) {
+                writer.write(
+                    STORAGE_KEYS.SESSIONS,
+                    JSON.stringify(after.sessions.sessions)
+                );
+            }
+
+            if (after.sync !== before.sync) {
+                writer.write(STORAGE_KEYS.SYNC, JSON.stringify(after.sync));
+            }
+
+            if (after.serverSync !== before.serverSync) {
+                // Status changes during a sync aren't stored
+                const stored = storedServerSync(after.serverSync);
+                const fields = Object.keys(stored) as (keyof typeof stored)[];
+                if (fields.some(field => stored[field] !== before.serverSync[field])) {
+                    writer.write(STORAGE_KEYS.SERVER_SYNC, JSON.stringify(stored));
+                }
+            }
+
+            const { timer, lastPhase, completedWorkPhases } = after.sessions;
+            if (
+                timer !== before.sessions.timer ||
+                lastPhase !== before.sessions.lastPhase ||
+                completedWorkPhases !== before.sessions.completedWorkPhases
+            ) {
+                const stored: StoredTimer = { timer, lastPhase, completedWorkPhases };
+                writer.write(STORAGE_KEYS.FOCUS_TIMER, JSON.stringify(stored));
+            }
+        }
+    });
+}
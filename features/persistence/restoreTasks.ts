@@ -0,0 +1,45 @@
+/**
+ * File: restoreTasks.ts
+ * Description: Startup step that moves tasks left in AsyncStorage by earlier
+ * versions to SQLite, loads them into the store and seeds the task writer.
+ * Tasks are loaded from storage here and nowhere else: a later load from the
+ * wrong store would empty the list, and the next write would then delete
+ * every task from SQLite.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { loadTasksFromStorage, TodoState } from "@/features/todo/todoSlice";
+import { moveTasks, TaskListStorage, TaskStore } from "./taskStore";
+
+/** The parts of the Redux store the step uses */
+type TaskStateStore = {
+    dispatch: (action: ReturnType<typeof loadTasksFromStorage>) => Promise<unknown>;
+    getState: () => { todo: TodoState };
+};
+
+/**
+ * Loads the stored tasks into the store.
+ *
+ * @param store - Redux store
+ * @param legacy - Store earlier versions kept tasks in (AsyncStorage)
+ * @param taskStore - Store tasks live in now (SQLite)
+ * @param storage - Writer backend for `taskStore`, seeded with the loaded list
+ */
+export async function restoreTasks(
+    store: TaskStateStore,
+    legacy: TaskStore,
+    taskStore: TaskStore,
+    storage: TaskListStorage
+): Promise<void> {
+    try {
+        await moveTasks(legacy, taskStore);
+    } catch (error) {
+        // Left in AsyncStorage; the move is retried on the next launch
+        console.error("Moving tasks to SQLite failed", error);
+    }
+
+    await store.dispatch(loadTasksFromStorage(taskStore));
+    // Later writes then only touch tasks that change
+    storage.seed(store.getState().todo.tasks);
+}
@@ -0,0 +1,122 @@
+/**
+ * File: sqliteTaskStore.ts
+ * Description: `TaskStore` keeping one SQLite row per task, so a change only
+ * writes the tasks it touched. The due day has its own indexed column for
+ * date range queries; the task itself is stored as JSON.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "@/features/todo/todoSlice";
+import type { TaskStore } from "./taskStore";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+export type SqlValue = string | number | null;
+
+/**
+ * The part of expo-sqlite's `SQLiteDatabase` the store needs. Tests pass an
+ * in-memory database with the same methods.
+ */
+export interface SqlDatabase {
+    execAsync(source: string): Promise<void>;
+    runAsync(source: string, params: SqlValue[]): Promise<unknown>;
+    getAllAsync<T>(source: string, params: SqlValue[]): Promise<T[]>;
+    withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+type TaskRow = {
+    data: string;
+};
+
+//
+// ─── SQL ───────────────────────────────────────────────────────────────────────
+//
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY NOT NULL,
+    due_date TEXT,
+    data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS tasks_due_date ON tasks (due_date);
+`;
+
+// Updating in place keeps the rowid, and with it the task's position
+const UPSERT = `
+INSERT INTO tasks (id, due_date, data) VALUES (?, ?, ?)
+ON CONFLICT (id) DO UPDATE SET due_date = excluded.due_date, data = excluded.data
+`;
+
+/** IDs per DELETE, well below SQLite's limit on bound parameters */
+const DELETE_CHUNK = 500;
+
+//
+// ─── FACTORY ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Creates a task store on an SQLite database. The table is created on first use.
+ *
+ * @param db - Open database, e.g. from `openDatabaseSync`
+ */
+export function createSqliteTaskStore(db: SqlDatabase): TaskStore {
+    let ready: Promise<void> | null = null;
+
+    // Retried on the next call if creating the table failed
+    const open = () =>
+        (ready ??= db.execAsync(SCHEMA).catch(error => {
+            ready = null;
+            throw error;
+        }));
+
+    const select = async (where: string, params: SqlValue[]) => {
+        await open();
+        const rows = await db.getAllAsync<TaskRow>(
+            `SELECT data FROM tasks ${where} ORDER BY rowid`,
+            params
+        );
+        return rows.map(row => JSON.parse(row.data));
+    };
+
+    return {
+        load: () => select("", []),
+
+        async upsert(tasks) {
+            if (tasks.length === 0) return;
+
+            await open();
+            await db.withTransactionAsync(async () => {
+                for (const task of tasks) {
+                    await db.runAsync(UPSERT, [
+                        task.id,
+                        task.dueDate ?? null,
+                        JSON.stringify(task)
+                    ]);
+                }
+            });
+        },
+
+        async remove(ids) {
+            if (ids.length === 0) return;
+
+            await open();
+            await db.withTransactionAsync(async () => {
+                for (let i = 0; i < ids.length; i += DELETE_CHUNK) {
+                    const chunk = ids.slice(i, i + DELETE_CHUNK);
+                    await db.runAsync(
+                        `DELETE FROM tasks WHERE id IN (${chunk.map(() => "?").join(", ")})`,
+                        chunk
+                    );
+                }
+            });
+        },
+
+        queryByDueDate(from, to): Promise<Task[]> {
+            return select("WHERE due_date BETWEEN ? AND ?", [from, to]);
+        }
+    };
+}
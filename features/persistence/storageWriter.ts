@@ -0,0 +1,147 @@
+/**
+ * File: storageWriter.ts
+ * Description: Ordered, debounced writer in front of AsyncStorage. Bursts of
+ * changes collapse into one write per key, writes never overlap or overtake
+ * each other, failed writes are retried and then reported, and `flush`
+ * writes everything pending at once (e.g. when the app goes to background).
+ * Values are strings for AsyncStorage, but any storage with the same two
+ * methods can sit behind a writer (see `taskListStorage`).
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** The part of AsyncStorage the writer needs */
+export interface KeyValueStorage<V = string> {
+    setItem(key: string, value: V): Promise<void>;
+    removeItem(key: string): Promise<void>;
+}
+
+export type StorageWriterOptions = {
+    /** Quiet time after the last change before writing */
+    debounceMs?: number;
+    /** Longest a change may wait while changes keep coming */
+    maxWaitMs?: number;
+    /** Extra attempts after a failed write */
+    retries?: number;
+    /** Wait before the first retry; doubles for each further one */
+    retryDelayMs?: number;
+    /** Called once a write has failed every attempt */
+    onError?: (key: string, error: unknown) => void;
+};
+
+export interface StorageWriter<V = string> {
+    /** Queues a value for a key; null removes the key. */
+    write(key: string, value: V | null): void;
+    /** Writes everything pending now; resolves once storage has caught up. */
+    flush(): Promise<void>;
+    /** Keys with a value that hasn't been written yet */
+    pending(): string[];
+}
+
+export const DEFAULT_DEBOUNCE_MS = 300;
+export const DEFAULT_MAX_WAIT_MS = 2000;
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+//
+// ─── FACTORY ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Creates a writer for a key-value storage.
+ *
+ * @param storage - Usually AsyncStorage; tests pass its mock or a fake
+ * @param options - Timing and error reporting
+ */
+export function createStorageWriter<V = string>(
+    storage: KeyValueStorage<V>,
+    {
+        debounceMs = DEFAULT_DEBOUNCE_MS,
+        maxWaitMs = DEFAULT_MAX_WAIT_MS,
+        retries = DEFAULT_RETRIES,
+        retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+        onError = (key, error) => console.error(`Failed to save ${key}:`, error)
+    }: StorageWriterOptions = {}
+): StorageWriter<V> {
+    // Latest unwritten value per key
+    const queued = new Map<string, V | null>();
+    // Batches being written per key
+    const inFlight = new Map<string, number>();
+    // Writes run one after another on this chain
+    let chain: Promise<void> = Promise.resolve();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let firstQueuedAt: number | null = null;
+
+    const writeWithRetry = async (key: string, value: V | null) => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                if (value === null) {
+                    await storage.removeItem(key);
+                } else {
+                    await storage.setItem(key, value);
+                }
+                return;
+            } catch (error) {
+                if (attempt >= retries) {
+                    // Keep the value so the next write or flush tries again
+                    if (!queued.has(key)) queued.set(key, value);
+                    onError(key, error);
+                    return;
+                }
+                await sleep(retryDelayMs * 2 ** attempt);
+            }
+        }
+    };
+
+    // Moves everything queued onto the chain
+    const drain = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        firstQueuedAt = null;
+        if (queued.size === 0) return chain;
+
+        const batch = [...queued];
+        queued.clear();
+        batch.forEach(([key]) => inFlight.set(key, (inFlight.get(key) ?? 0) + 1));
+
+        chain = chain.then(async () => {
+            for (const [key, value] of batch) {
+                await writeWithRetry(key, value);
+                const left = inFlight.get(key)! - 1;
+                if (left > 0) inFlight.set(key, left);
+                else inFlight.delete(key);
+            }
+        });
+        return chain;
+    };
+
+    return {
+        write(key, value) {
+            queued.set(key, value);
+
+            const now = Date.now();
+            firstQueuedAt = firstQueuedAt ?? now;
+            const wait = Math.min(
+                debounceMs,
+                Math.max(0, firstQueuedAt + maxWaitMs - now)
+            );
+
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(drain, wait);
+        },
+
+        flush() {
+            return drain();
+        },
+
+        pending() {
+            return [...new Set([...inFlight.keys(), ...queued.keys()])];
+        }
+    };
+}
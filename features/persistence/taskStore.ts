@@ -0,0 +1,112 @@
+/**
+ * File: taskStore.ts
+ * Description: Storage backend interface for tasks, plus the pieces shared by
+ * all backends: the one-time move between backends and the adapter that lets
+ * the storage writer hand a backend only the tasks that changed.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "@/features/todo/todoSlice";
+import type { KeyValueStorage } from "./storageWriter";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Where tasks are kept between launches. Implementations:
+ * `createAsyncStorageTaskStore` (one JSON string) and `createSqliteTaskStore`
+ * (one row per task). Both pass the contract suite in `__tests__/taskStore.test.ts`.
+ */
+export interface TaskStore {
+    /**
+     * Every stored task in insertion order, exactly as stored — data from an
+     * older schema still needs `migrateDocument` and `validateTasks`.
+     */
+    load(): Promise<unknown[]>;
+    /** Adds new tasks and replaces stored ones with the same ID in place */
+    upsert(tasks: Task[]): Promise<void>;
+    /** Deletes tasks by ID; unknown IDs are ignored */
+    remove(ids: string[]): Promise<void>;
+    /**
+     * Tasks whose `dueDate` lies between two days, inclusive ("YYYY-MM-DD").
+     * A recurring series matches by the day it starts.
+     */
+    queryByDueDate(from: string, to: string): Promise<Task[]>;
+}
+
+/** Writer backend for the whole task list; see `taskListStorage` */
+export interface TaskListStorage extends KeyValueStorage<Task[]> {
+    /** Records the list the store holds right now, e.g. right after loading it */
+    seed(tasks: Task[]): void;
+}
+
+//
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
+//
+
+/** ID of a stored task, or null when the entry has none */
+export function storedTaskId(entry: unknown): string | null {
+    const id = (entry as { id?: unknown } | null)?.id;
+    return typeof id === "string" ? id : null;
+}
+
+/**
+ * Moves every task from one store into another and empties the source.
+ * Safe to run on each launch: once the source is empty it does nothing, and
+ * a move cut short is simply repeated, since `upsert` is idempotent.
+ *
+ * @param from - Store the tasks used to live in
+ * @param to - Store they live in from now on
+ * @returns Number of tasks moved
+ */
+export async function moveTasks(from: TaskStore, to: TaskStore): Promise<number> {
+    if (from === to) return 0;
+
+    const tasks = (await from.load()).filter(entry => storedTaskId(entry) !== null);
+    if (tasks.length === 0) return 0;
+
+    // Moved as stored; loading migrates them like any other stored task
+    await to.upsert(tasks as Task[]);
+    await from.remove(tasks.map(entry => storedTaskId(entry)!));
+    return tasks.length;
+}
+
+/**
+ * Adapts a task store to the storage writer. The writer is handed the whole
+ * task list, and only tasks that changed since the last write reach the store:
+ * reducers keep unchanged tasks by reference, so comparing references is enough.
+ * Until `seed` is called, the first write compares against the stored IDs.
+ *
+ * @param store - Backend the changes are written to
+ */
+export function taskListStorage(store: TaskStore): TaskListStorage {
+    // Tasks the store is known to hold; null for a stored task of unknown content
+    let written: Map<string, Task | null> | null = null;
+
+    const sync = async (tasks: Task[]) => {
+        const known =
+            written ??
+            new Map(
+                (await store.load())
+                    .map(storedTaskId)
+                    .filter((id): id is string => id !== null)
+                    .map(id => [id, null])
+            );
+
+        const ids = new Set(tasks.map(task => task.id));
+        await store.upsert(tasks.filter(task => known.get(task.id) !== task));
+        await store.remove([...known.keys()].filter(id => !ids.has(id)));
+
+        written = new Map(tasks.map(task => [task.id, task]));
+    };
+
+    return {
+        setItem: (_key, tasks) => sync(tasks),
+        removeItem: () => sync([]),
+        seed(tasks) {
+            written = new Map(tasks.map(task => [task.id, task]));
+        }
+    };
+}
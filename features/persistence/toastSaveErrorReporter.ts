@@ -0,0 +1,31 @@
+/**
+ * File: toastSaveErrorReporter.ts
+ * Description: Reports writes that failed every retry with an error toast,
+ * so the user knows their latest changes are not on disk yet.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import Toast from "react-native-toast-message";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+
+/** What each key holds, in user-facing words */
+const KEY_LABELS: Record<string, string> = {
+    [STORAGE_KEYS.TASKS]: "tasks",
+    [STORAGE_KEYS.SETTINGS]: "settings",
+    [STORAGE_KEYS.SESSIONS]: "focus sessions",
+    [STORAGE_KEYS.FOCUS_TIMER]: "focus timer",
+    [STORAGE_KEYS.SYNC]: "sync history",
+    [STORAGE_KEYS.SERVER_SYNC]: "sync server setup and unsent changes"
+};
+
+/** `onError` for the storage writer */
+export function reportSaveError(key: string, error: unknown) {
+    console.error(`Failed to save ${key}:`, error);
+    Toast.show({
+        type: "error",
+        text1: `Could not save your ${KEY_LABELS[key] ?? "data"}`,
+        text2: "Your changes will be saved again with the next change.",
+        position: "bottom"
+    });
+}
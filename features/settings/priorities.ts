@@ -0,0 +1,158 @@
+/**
+ * File: priorities.ts
+ * Description: Priority levels kept in settings and the helpers around them.
+ * Tasks store the ID of a level; the built-in levels use their original names
+ * ("High", "Medium", "Low") as IDs, so tasks saved before levels were
+ * configurable need no migration.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** A priority a task can have */
+export type PriorityLevel = {
+    id: string;
+    name: string;
+    /** Urgency, ascending: the lowest rank is the most urgent */
+    rank: number;
+    /** Hex color ("#RRGGBB") */
+    color: string;
+};
+
+//
+// ─── CONSTANTS ─────────────────────────────────────────────────────────────────
+//
+
+/** Colors offered in the priority manager; new levels cycle through them */
+export const PRIORITY_COLORS = [
+    "#EF4444",
+    "#F97316",
+    "#F59E0B",
+    "#10B981",
+    "#3B82F6",
+    "#8B5CF6",
+    "#6B7280"
+];
+
+/** Levels a fresh install starts with */
+export const DEFAULT_PRIORITIES: PriorityLevel[] = [
+    { id: "High", name: "High", rank: 0, color: "#EF4444" },
+    { id: "Medium", name: "Medium", rank: 1, color: "#F59E0B" },
+    { id: "Low", name: "Low", rank: 2, color: "#10B981" }
+];
+
+//
+// ─── CREATION ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * ID for a level named `name`: the name itself, like the built-in levels,
+ * with a suffix when a renamed level already holds it.
+ *
+ * @param name - Level name
+ * @param existing - Levels already present
+ */
+export function priorityIdFromName(name: string, existing: PriorityLevel[]): string {
+    const base = name.trim();
+    let id = base;
+    for (let n = 2; existing.some(p => p.id === id); n++) {
+        id = `${base}#${n}`;
+    }
+    return id;
+}
+
+/**
+ * New level ranked below the existing ones.
+ *
+ * @param name - Level name
+ * @param existing - Levels already present
+ */
+export function createPriority(name: string, existing: PriorityLevel[]): PriorityLevel {
+    return {
+        id: priorityIdFromName(name, existing),
+        name: name.trim(),
+        rank: existing.reduce((max, p) => Math.max(max, p.rank + 1), 0),
+        color: PRIORITY_COLORS[existing.length % PRIORITY_COLORS.length]
+    };
+}
+
+//
+// ─── LOOKUP ────────────────────────────────────────────────────────────────────
+//
+
+/** Levels from most to least urgent */
+export const sortPriorities = (levels: PriorityLevel[]): PriorityLevel[] =>
+    [...levels].sort((a, b) => a.rank - b.rank);
+
+/**
+ * Level new tasks start with and unknown priorities fall back to: the
+ * middle one ("Medium" with the built-in levels).
+ *
+ * @param levels - Configured levels
+ */
+export function defaultPriority(levels: PriorityLevel[]): PriorityLevel {
+    const sorted = sortPriorities(levels.length ? levels : DEFAULT_PRIORITIES);
+    return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+/**
+ * Level with a name, ignoring case and surrounding spaces.
+ *
+ * @param levels - Levels to search
+ * @param name - Name to look for
+ */
+export function findPriorityByName(
+    levels: PriorityLevel[],
+    name: string
+): PriorityLevel | undefined {
+    const wanted = name.trim().toLowerCase();
+    return levels.find(p => p.name.toLowerCase() === wanted);
+}
+
+/**
+ * Level for a task's priority: by ID, then by name (imported or hand-edited
+ * data may say "high" or use a level's new name), else the default level.
+ *
+ * @param levels - Configured levels
+ * @param priority - Priority stored on a task or read from a file
+ */
+export function resolvePriority(
+    levels: PriorityLevel[],
+    priority: string
+): PriorityLevel {
+    return (
+        levels.find(p => p.id === priority) ??
+        findPriorityByName(levels, priority) ??
+        defaultPriority(levels)
+    );
+}
+
+/**
+ * Whether a level can be deleted with its tasks moving to `reassignTo`:
+ * both levels must exist and differ.
+ *
+ * @param levels - Configured levels
+ * @param id - Level to delete
+ * @param reassignTo - Level its tasks move to
+ */
+export const canDeletePriority = (
+    levels: PriorityLevel[],
+    id: string,
+    reassignTo: string
+): boolean =>
+    id !== reassignTo &&
+    levels.some(p => p.id === id) &&
+    levels.some(p => p.id === reassignTo);
+
+/**
+ * Compares tasks' priorities by rank, most urgent first.
+ *
+ * @param levels - Configured levels
+ */
+export const comparePriorities =
+    (levels: PriorityLevel[]) =>
+    (a: string, b: string): number =>
+        resolvePriority(levels, a).rank - resolvePriority(levels, b).rank;
@@ -1,29 +1,99 @@
 /**
  * File: settingsSlice.ts
- * Description: Redux slice for user settings (theme, subjects, notifications) + AsyncStorage sync.
+ * Description: Redux slice for user settings (theme, subjects, priorities, notifications) + loading from AsyncStorage.
+ * Changes are written back by the store's persistence listener (see `features/persistence`).
  * Author: BrainDesk Team
  * Last Updated: 2025-07-11
  */
 
-import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { createSlice, Dispatch, PayloadAction } from "@reduxjs/toolkit";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { STORAGE_KEYS } from "@/constants/storageKeys";
+import {
+    isRetention,
+    sanitizeDailyGoal,
+    sanitizeFocusDurations,
+    validateSettings
+} from "@/features/backup/schema";
+import {
+    loadStorageVersion,
+    migrateDocument,
+    SCHEMA_VERSION
+} from "@/features/backup/migrations";
+import { applyServerChanges } from "@/features/sync/serverSyncSlice";
+import type { TodoState } from "@/features/todo/todoSlice";
+import {
+    canDeleteSubject,
+    createSubject,
+    findSubjectByName,
+    sortSubjects,
+    Subject,
+    subjectsFromNames
+} from "./subjects";
+import {
+    canDeletePriority,
+    createPriority,
+    DEFAULT_PRIORITIES,
+    findPriorityByName,
+    PriorityLevel,
+    sortPriorities
+} from "./priorities";
 
 /** Theme selection options */
 export type ThemeMode = "light" | "dark" | "system";
 
+/** What the daily goal counts: completed tasks or focused minutes */
+export type DailyGoalType = "tasks" | "minutes";
+
+/** Daily target used for streaks */
+export type DailyGoal = {
+    type: DailyGoalType;
+    /** Tasks or minutes needed for a day to count, at least 1 */
+    target: number;
+};
+
+/** Focus timer phase lengths in minutes */
+export type FocusDurations = {
+    work: number;
+    shortBreak: number;
+    longBreak: number;
+    /** A long break replaces the short one after this many work phases */
+    longBreakEvery: number;
+};
+
 /** Redux state structure for settings */
-type SettingsState = {
+export type SettingsState = {
     themeMode: ThemeMode;
-    subjects: string[];
+    subjects: Subject[];
+    /** Priority levels tasks can have, at least one */
+    priorities: PriorityLevel[];
     notificationTime: string | null;
+    /** Complete a task automatically once all its subtasks are checked */
+    autoCompleteTasks: boolean;
+    /** Days a trashed task is kept before it is purged; 0 keeps it forever */
+    trashRetentionDays: number;
+    /** Target a day has to reach to extend the streak */
+    dailyGoal: DailyGoal;
+    /** Pomodoro work/break lengths */
+    focusDurations: FocusDurations;
+    /** Automatic backup snapshots kept on the device; 0 turns them off */
+    snapshotsToKeep: number;
 };
 
+/** Subjects a fresh install starts with */
+const DEFAULT_SUBJECTS = subjectsFromNames(["Physics", "Chemistry", "Math"]);
+
 /** Default state values */
 const defaultState: SettingsState = {
     themeMode: "system",
-    subjects: ["Physics", "Chemistry", "Math"],
-    notificationTime: null
+    subjects: DEFAULT_SUBJECTS,
+    priorities: DEFAULT_PRIORITIES,
+    notificationTime: null,
+    autoCompleteTasks: false,
+    trashRetentionDays: 30,
+    dailyGoal: { type: "tasks", target: 3 },
+    focusDurations: { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 },
+    snapshotsToKeep: 7
 };
 
 //
@@ -34,37 +104,181 @@ const settingsSlice = createSlice({
     name: "settings",
     initialState: defaultState,
     reducers: {
-        /** Update theme mode and persist */
+        /** Update theme mode */
         setThemeMode(state, action: PayloadAction<ThemeMode>) {
             state.themeMode = action.payload;
-            saveSettingsToStorage({ themeMode: action.payload });
         },
 
-        /** Add a subject if not already in the list */
+        /** Add a subject unless one with that name exists (case-insensitive) */
         addSubject(state, action: PayloadAction<string>) {
-            if (!state.subjects.includes(action.payload)) {
-                state.subjects.push(action.payload);
-                saveSettingsToStorage({ subjects: [...state.subjects] });
+            const name = action.payload.trim();
+            if (name && !findSubjectByName(state.subjects, name)) {
+                state.subjects.push(createSubject(name, state.subjects));
             }
         },
 
-        /** Remove subject by name */
-        deleteSubject(state, action: PayloadAction<string>) {
-            state.subjects = state.subjects.filter(
-                subject => subject !== action.payload
-            );
-            saveSettingsToStorage({ subjects: [...state.subjects] });
+        /**
+         * Rename a subject. Tasks reference the ID, so they follow along.
+         * Empty names and names another subject already has are ignored.
+         */
+        renameSubject(state, action: PayloadAction<{ id: string; name: string }>) {
+            const name = action.payload.name.trim();
+            const subject = state.subjects.find(s => s.id === action.payload.id);
+            const taken = findSubjectByName(state.subjects, name);
+            if (subject && name && (!taken || taken.id === subject.id)) {
+                subject.name = name;
+            }
+        },
+
+        /** Change a subject's color and/or icon */
+        styleSubject(
+            state,
+            action: PayloadAction<{ id: string; color?: string; icon?: string }>
+        ) {
+            const { id, color, icon } = action.payload;
+            const subject = state.subjects.find(s => s.id === id);
+            if (!subject) return;
+            if (color) subject.color = color;
+            if (icon) subject.icon = icon;
+        },
+
+        /** Archive or unarchive a subject; its tasks keep it */
+        setSubjectArchived(
+            state,
+            action: PayloadAction<{ id: string; archived: boolean }>
+        ) {
+            const subject = state.subjects.find(s => s.id === action.payload.id);
+            if (subject) subject.archived = action.payload.archived;
+        },
+
+        /** Move a subject one place up (-1) or down (1) in display order */
+        moveSubject(state, action: PayloadAction<{ id: string; offset: -1 | 1 }>) {
+            const sorted = sortSubjects(state.subjects);
+            const from = sorted.findIndex(s => s.id === action.payload.id);
+            const to = from + action.payload.offset;
+            if (from === -1 || to < 0 || to >= sorted.length) return;
+
+            [sorted[from], sorted[to]] = [sorted[to], sorted[from]];
+            sorted.forEach((subject, order) => {
+                state.subjects.find(s => s.id === subject.id)!.order = order;
+            });
+        },
+
+        /**
+         * Remove a subject. Its tasks move to `reassignTo` (handled by the
+         * todo slice); without a target only a subject without tasks may go,
+         * otherwise archive it instead. Dispatched through `removeSubject`,
+         * which also checks the tasks.
+         */
+        deleteSubject(
+            state,
+            action: PayloadAction<{ id: string; reassignTo: string | null }>
+        ) {
+            const { id, reassignTo } = action.payload;
+            // Tasks are checked by `removeSubject`; this slice can't see them
+            if (!canDeleteSubject(state.subjects, id, reassignTo, false)) return;
+            state.subjects = state.subjects.filter(s => s.id !== id);
+        },
+
+        /** Add a priority level, least urgent, unless one with that name exists */
+        addPriority(state, action: PayloadAction<string>) {
+            const name = action.payload.trim();
+            if (name && !findPriorityByName(state.priorities, name)) {
+                state.priorities.push(createPriority(name, state.priorities));
+            }
+        },
+
+        /** Rename a priority level; empty and taken names are ignored */
+        renamePriority(state, action: PayloadAction<{ id: string; name: string }>) {
+            const name = action.payload.name.trim();
+            const level = state.priorities.find(p => p.id === action.payload.id);
+            const taken = findPriorityByName(state.priorities, name);
+            if (level && name && (!taken || taken.id === level.id)) {
+                level.name = name;
+            }
+        },
+
+        /** Change a priority level's color */
+        setPriorityColor(state, action: PayloadAction<{ id: string; color: string }>) {
+            const level = state.priorities.find(p => p.id === action.payload.id);
+            if (level) level.color = action.payload.color;
+        },
+
+        /** Move a priority level one place more (-1) or less (1) urgent */
+        movePriority(state, action: PayloadAction<{ id: string; offset: -1 | 1 }>) {
+            const sorted = sortPriorities(state.priorities);
+            const from = sorted.findIndex(p => p.id === action.payload.id);
+            const to = from + action.payload.offset;
+            if (from === -1 || to < 0 || to >= sorted.length) return;
+
+            [sorted[from], sorted[to]] = [sorted[to], sorted[from]];
+            sorted.forEach((level, rank) => {
+                state.priorities.find(p => p.id === level.id)!.rank = rank;
+            });
+        },
+
+        /**
+         * Remove a priority level; its tasks move to `reassignTo` (handled by
+         * the todo slice). The last level can't be removed. Dispatched through
+         * `removePriority`, which checks the target for both slices.
+         */
+        deletePriority(state, action: PayloadAction<{ id: string; reassignTo: string }>) {
+            const { id, reassignTo } = action.payload;
+            if (!canDeletePriority(state.priorities, id, reassignTo)) return;
+            state.priorities = state.priorities.filter(p => p.id !== id);
         },
 
         /** Set notification time (or null to disable) */
         setNotificationTime(state, action: PayloadAction<string | null>) {
             state.notificationTime = action.payload;
-            saveSettingsToStorage({ notificationTime: action.payload });
+        },
+
+        /** Toggle auto-completion of tasks whose subtasks are all done */
+        setAutoCompleteTasks(state, action: PayloadAction<boolean>) {
+            state.autoCompleteTasks = action.payload;
+        },
+
+        /** Set how long trashed tasks are kept (0 = forever) */
+        setTrashRetentionDays(state, action: PayloadAction<number>) {
+            state.trashRetentionDays = action.payload;
+        },
+
+        /** Set the daily goal used for streaks */
+        setDailyGoal(state, action: PayloadAction<DailyGoal>) {
+            const goal = sanitizeDailyGoal(action.payload);
+            if (goal) {
+                state.dailyGoal = goal;
+            }
+        },
+
+        /** Set focus timer phase lengths */
+        setFocusDurations(state, action: PayloadAction<FocusDurations>) {
+            const durations = sanitizeFocusDurations(action.payload);
+            if (durations) {
+                state.focusDurations = durations;
+            }
+        },
+
+        /** Set how many automatic snapshots are kept (0 = off) */
+        setSnapshotsToKeep(state, action: PayloadAction<number>) {
+            if (isRetention(action.payload)) {
+                state.snapshotsToKeep = action.payload;
+            }
         },
 
         /** Load full or partial state from storage (bootstrapping) */
         loadSettings(state, action: PayloadAction<Partial<SettingsState>>) {
-            const { themeMode, subjects, notificationTime } = action.payload;
+            const {
+                themeMode,
+                subjects,
+                priorities,
+                notificationTime,
+                autoCompleteTasks,
+                trashRetentionDays,
+                dailyGoal,
+                focusDurations,
+                snapshotsToKeep
+            } = action.payload;
 
             if (themeMode !== undefined) {
                 state.themeMode = themeMode;
@@ -74,15 +288,44 @@ const settingsSlice = createSlice({
                 state.subjects = subjects;
             }
 
+            if (Array.isArray(priorities) && priorities.length > 0) {
+                state.priorities = priorities;
+            }
+
             if (
                 typeof notificationTime === "string" ||
                 notificationTime === null
             ) {
                 state.notificationTime = notificationTime;
             }
+
+            if (typeof autoCompleteTasks === "boolean") {
+                state.autoCompleteTasks = autoCompleteTasks;
+            }
+
+            if (isRetention(trashRetentionDays)) {
+                state.trashRetentionDays = trashRetentionDays;
+            }
+
+            const goal = sanitizeDailyGoal(dailyGoal);
+            if (goal) {
+                state.dailyGoal = goal;
+            }
+
+            const durations = sanitizeFocusDurations(focusDurations);
+            if (durations) {
+                state.focusDurations = durations;
+            }
+
+            if (isRetention(snapshotsToKeep)) {
+                state.snapshotsToKeep = snapshotsToKeep;
+            }
         },
 
-        /** Merge incoming state with current, deduplicating subjects */
+        /**
+         * Merge incoming state with current; subjects are added by ID, skipping
+         * known names, while priority levels replace the current ones
+         */
         mergeSettings(state, action: PayloadAction<Partial<SettingsState>>) {
             const incoming = action.payload;
 
@@ -91,11 +334,24 @@ const settingsSlice = createSlice({
             }
 
             if (Array.isArray(incoming.subjects)) {
-                const uniqueSubjects = new Set([
-                    ...state.subjects,
-                    ...incoming.subjects
-                ]);
-                state.subjects = Array.from(uniqueSubjects);
+                for (const subject of sortSubjects(incoming.subjects)) {
+                    const known =
+                        state.subjects.some(s => s.id === subject.id) ||
+                        findSubjectByName(state.subjects, subject.name);
+                    if (!known) {
+                        state.subjects.push({
+                            ...subject,
+                            order: state.subjects.reduce(
+                                (max, s) => Math.max(max, s.order + 1),
+                                0
+                            )
+                        });
+                    }
+                }
+            }
+
+            if (Array.isArray(incoming.priorities) && incoming.priorities.length > 0) {
+                state.priorities = incoming.priorities;
             }
 
             if (
@@ -105,20 +361,56 @@ const settingsSlice = createSlice({
                 state.notificationTime = incoming.notificationTime;
             }
 
-            saveSettingsToStorage({
-                themeMode: state.themeMode,
-                subjects: state.subjects,
-                notificationTime: state.notificationTime
-            });
+            if (typeof incoming.autoCompleteTasks === "boolean") {
+                state.autoCompleteTasks = incoming.autoCompleteTasks;
+            }
+
+            if (isRetention(incoming.trashRetentionDays)) {
+                state.trashRetentionDays = incoming.trashRetentionDays;
+            }
+
+            const goal = sanitizeDailyGoal(incoming.dailyGoal);
+            if (goal) {
+                state.dailyGoal = goal;
+            }
+
+            const durations = sanitizeFocusDurations(incoming.focusDurations);
+            if (durations) {
+                state.focusDurations = durations;
+            }
+
+            if (isRetention(incoming.snapshotsToKeep)) {
+                state.snapshotsToKeep = incoming.snapshotsToKeep;
+            }
+        },
+
+        /** Replace all settings with imported ones; missing fields use defaults */
+        replaceSettings(_state, action: PayloadAction<Partial<SettingsState>>) {
+            return { ...defaultState, ...action.payload };
         },
 
         /** Reset all settings to default */
         clearSettings(state) {
             state.themeMode = "system";
-            state.subjects = ["Physics", "Chemistry", "Math"];
+            state.subjects = DEFAULT_SUBJECTS;
+            state.priorities = DEFAULT_PRIORITIES;
             state.notificationTime = null;
-            AsyncStorage.removeItem(STORAGE_KEYS.SETTINGS);
+            state.autoCompleteTasks = false;
+            state.trashRetentionDays = 30;
+            state.dailyGoal = { type: "tasks", target: 3 };
+            state.focusDurations = {
+                work: 25,
+                shortBreak: 5,
+                longBreak: 15,
+                longBreakEvery: 4
+            };
+            state.snapshotsToKeep = 7;
         }
+    },
+    extraReducers: builder => {
+        builder.addCase(applyServerChanges, (state, action) => {
+            Object.assign(state, action.payload.settings);
+        });
     }
 });
 
@@ -129,54 +421,100 @@ const settingsSlice = createSlice({
 export const {
     setThemeMode,
     addSubject,
+    renameSubject,
+    styleSubject,
+    setSubjectArchived,
+    moveSubject,
     deleteSubject,
+    addPriority,
+    renamePriority,
+    setPriorityColor,
+    movePriority,
+    deletePriority,
     setNotificationTime,
+    setAutoCompleteTasks,
+    setTrashRetentionDays,
+    setDailyGoal,
+    setFocusDurations,
+    setSnapshotsToKeep,
     loadSettings,
     mergeSettings,
+    replaceSettings,
     clearSettings
 } = settingsSlice.actions;
 
 export default settingsSlice.reducer;
 
 //
-// ─── ASYNCSTORAGE HELPERS ───────────────────────────────────────────────────────
+// ─── THUNKS ────────────────────────────────────────────────────────────────────
 //
 
 /**
- * Save partial settings to AsyncStorage (merging with existing).
+ * Delete a subject, moving its tasks to `reassignTo` (see `canDeleteSubject`).
+ * A delete that would leave tasks with an unknown subject is dropped before
+ * either slice sees it; dispatch this rather than `deleteSubject`.
  */
-async function saveSettingsToStorage(partial: Partial<SettingsState>) {
-    try {
-        const existing = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
-        const current = existing ? JSON.parse(existing) : {};
-        const merged = { ...current, ...partial };
+export const removeSubject =
+    (id: string, reassignTo: string | null) =>
+    (
+        dispatch: Dispatch,
+        getState: () => { settings: SettingsState; todo: TodoState }
+    ) => {
+        const { settings, todo } = getState();
+        const inUse = todo.tasks.some(t => t.subjectId === id);
+        if (canDeleteSubject(settings.subjects, id, reassignTo, inUse)) {
+            dispatch(deleteSubject({ id, reassignTo }));
+        }
+    };
 
-        await AsyncStorage.setItem(
-            STORAGE_KEYS.SETTINGS,
-            JSON.stringify(merged)
-        );
-    } catch (err) {
-        console.error("Error saving settings:", err);
-    }
-}
+/**
+ * Delete a priority level, moving its tasks to `reassignTo` (see
+ * `canDeletePriority`). The todo slice can't see the levels, so invalid
+ * deletes are dropped here, before either slice sees them; dispatch this
+ * rather than `deletePriority`.
+ */
+export const removePriority =
+    (id: string, reassignTo: string) =>
+    (dispatch: Dispatch, getState: () => { settings: SettingsState }) => {
+        if (canDeletePriority(getState().settings.priorities, id, reassignTo)) {
+            dispatch(deletePriority({ id, reassignTo }));
+        }
+    };
+
+//
+// ─── ASYNCSTORAGE HELPERS ───────────────────────────────────────────────────────
+//
 
 /**
  * Load settings from AsyncStorage (with fallback to defaults).
+ * Settings saved by an older schema are migrated and written back; invalid
+ * fields fall back to their defaults.
  */
 export async function loadSettingsFromStorage(): Promise<SettingsState> {
     try {
-        const json = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
-        const parsed = json ? JSON.parse(json) : {};
-        return {
-            themeMode: parsed.themeMode ?? defaultState.themeMode,
-            subjects: Array.isArray(parsed.subjects)
-                ? parsed.subjects
-                : defaultState.subjects,
-            notificationTime:
-                typeof parsed.notificationTime === "string"
-                    ? parsed.notificationTime
-                    : defaultState.notificationTime
-        };
+        const [json, version] = await Promise.all([
+            AsyncStorage.getItem(STORAGE_KEYS.SETTINGS),
+            loadStorageVersion()
+        ]);
+        if (!json) return defaultState;
+
+        const { settings } = migrateDocument(
+            { settings: JSON.parse(json) },
+            version
+        );
+        const { value, issues } = validateSettings(settings);
+        if (issues.length > 0) {
+            console.warn("Ignored invalid stored settings:", issues);
+        }
+
+        const loaded = { ...defaultState, ...value };
+        if (version < SCHEMA_VERSION) {
+            await AsyncStorage.setItem(
+                STORAGE_KEYS.SETTINGS,
+                JSON.stringify(loaded)
+            );
+        }
+        return loaded;
     } catch (err) {
         console.error("Error loading settings:", err);
         return defaultState;
@@ -0,0 +1,217 @@
+/**
+ * File: subjects.ts
+ * Description: Subject records kept in settings and the helpers around them.
+ * Tasks and focus sessions reference subjects by ID, so renaming a subject
+ * never touches them; archived subjects stay resolvable but are no longer
+ * offered for new tasks.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** A subject tasks can belong to */
+export type Subject = {
+    id: string;
+    name: string;
+    /** Hex color ("#RRGGBB") */
+    color: string;
+    /** Ionicons glyph name */
+    icon: string;
+    /** Hidden from pickers and filters; existing tasks keep it */
+    archived: boolean;
+    /** Position in lists, ascending */
+    order: number;
+};
+
+//
+// ─── CONSTANTS ─────────────────────────────────────────────────────────────────
+//
+
+/** Colors offered in the subject manager; new subjects cycle through them */
+export const SUBJECT_COLORS = [
+    "#6366F1",
+    "#10B981",
+    "#F59E0B",
+    "#EF4444",
+    "#3B82F6",
+    "#8B5CF6",
+    "#EC4899",
+    "#14B8A6"
+];
+
+/** Icons offered in the subject manager */
+export const SUBJECT_ICONS = [
+    "book-outline",
+    "flask-outline",
+    "calculator-outline",
+    "planet-outline",
+    "globe-outline",
+    "language-outline",
+    "code-slash-outline",
+    "color-palette-outline",
+    "musical-notes-outline",
+    "fitness-outline"
+];
+
+/** Prefix of IDs derived from a name */
+const ID_PREFIX = "subject:";
+
+//
+// ─── CREATION ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * ID for a subject named `name`. IDs are derived from the name rather than
+ * random, so data migrated piece by piece (tasks, settings and sessions load
+ * separately) and subjects added on two devices before they sync agree.
+ * A suffix keeps it unique when a renamed subject already holds the ID.
+ *
+ * @param name - Subject name
+ * @param existing - Subjects already present
+ */
+export function subjectIdFromName(name: string, existing: Subject[] = []): string {
+    const base = ID_PREFIX + name.trim();
+    let id = base;
+    for (let n = 2; existing.some(s => s.id === id); n++) {
+        id = `${base}#${n}`;
+    }
+    return id;
+}
+
+/**
+ * New subject placed after the existing ones.
+ *
+ * @param name - Subject name
+ * @param existing - Subjects already present
+ */
+export function createSubject(name: string, existing: Subject[]): Subject {
+    return {
+        id: subjectIdFromName(name, existing),
+        name: name.trim(),
+        color: SUBJECT_COLORS[existing.length % SUBJECT_COLORS.length],
+        icon: SUBJECT_ICONS[0],
+        archived: false,
+        order: existing.reduce((max, s) => Math.max(max, s.order + 1), 0)
+    };
+}
+
+/**
+ * Subjects for a list of names, in order, skipping repeated names.
+ *
+ * @param names - Subject names, e.g. from data saved before subjects were records
+ */
+export function subjectsFromNames(names: string[]): Subject[] {
+    return names.reduce<Subject[]>(
+        (subjects, name) =>
+            findSubjectByName(subjects, name)
+                ? subjects
+                : [...subjects, createSubject(name, subjects)],
+        []
+    );
+}
+
+//
+// ─── LOOKUP ────────────────────────────────────────────────────────────────────
+//
+
+/** Subjects in display order */
+export const sortSubjects = (subjects: Subject[]): Subject[] =>
+    [...subjects].sort((a, b) => a.order - b.order);
+
+/** Subjects offered for new tasks and filters, in display order */
+export const activeSubjects = (subjects: Subject[]): Subject[] =>
+    sortSubjects(subjects).filter(s => !s.archived);
+
+/**
+ * Subject with a name, ignoring case and surrounding spaces.
+ *
+ * @param subjects - Subjects to search
+ * @param name - Name to look for
+ */
+export function findSubjectByName(
+    subjects: Subject[],
+    name: string
+): Subject | undefined {
+    const wanted = name.trim().toLowerCase();
+    return subjects.find(s => s.name.toLowerCase() === wanted);
+}
+
+/**
+ * Subject for an ID. A task can reference a subject this device doesn't
+ * know yet (e.g. synced before the subject list), so unknown IDs resolve to
+ * a stand-in named after the ID where the ID was derived from a name.
+ *
+ * @param subjects - Known subjects
+ * @param id - Subject ID from a task or session
+ */
+export function resolveSubject(subjects: Subject[], id: string): Subject {
+    const known = subjects.find(s => s.id === id);
+    if (known) return known;
+
+    return {
+        id,
+        name: id.startsWith(ID_PREFIX)
+            ? id.slice(ID_PREFIX.length).replace(/#\d+$/, "")
+            : "Unknown subject",
+        color: "#9CA3AF",
+        icon: SUBJECT_ICONS[0],
+        archived: false,
+        order: Number.MAX_SAFE_INTEGER
+    };
+}
+
+/**
+ * Whether a subject can be deleted. Its tasks move to `reassignTo`, which
+ * must be another known subject; without a target it must be unused, or its
+ * tasks would point at a subject that no longer exists.
+ *
+ * @param subjects - Known subjects
+ * @param id - Subject to delete
+ * @param reassignTo - Subject its tasks move to, or null
+ * @param inUse - Whether any task (trash included) has the subject
+ */
+export function canDeleteSubject(
+    subjects: Subject[],
+    id: string,
+    reassignTo: string | null,
+    inUse: boolean
+): boolean {
+    if (!subjects.some(s => s.id === id)) return false;
+    if (reassignTo === null) return !inUse;
+    return reassignTo !== id && subjects.some(s => s.id === reassignTo);
+}
+
+/** Display name of a subject ID; see `resolveSubject` */
+export const subjectName = (subjects: Subject[], id: string): string =>
+    resolveSubject(subjects, id).name;
+
+/**
+ * IDs for subject names, adding subjects for names not known yet.
+ * Used when tasks come in by name, e.g. from a CSV or calendar file.
+ *
+ * @param subjects - Known subjects
+ * @param names - Names to resolve
+ * @returns ID per name and the subjects created
+ */
+export function resolveSubjectNames(
+    subjects: Subject[],
+    names: string[]
+): { ids: Map<string, string>; created: Subject[] } {
+    const ids = new Map<string, string>();
+    const created: Subject[] = [];
+
+    for (const name of names) {
+        if (ids.has(name)) continue;
+        const all = [...subjects, ...created];
+        let subject = findSubjectByName(all, name);
+        if (!subject) {
+            subject = createSubject(name, all);
+            created.push(subject);
+        }
+        ids.set(name, subject.id);
+    }
+    return { ids, created };
+}
@@ -0,0 +1,272 @@
+/**
+ * File: statsSelectors.ts
+ * Description: Pure aggregation functions behind the Statistics tab —
+ * completion rates per period, subject/priority breakdowns and on-time vs late.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import isoWeek from "dayjs/plugin/isoWeek";
+import { Task } from "@/features/todo/todoSlice";
+import { getOccurrenceDates } from "@/features/todo/recurrence";
+import {
+    comparePriorities,
+    PriorityLevel,
+    resolvePriority
+} from "@/features/settings/priorities";
+
+dayjs.extend(isoWeek);
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Granularity of the completion chart */
+export type StatPeriod = "day" | "week" | "month";
+
+/** One countable unit: a one-off task or a single occurrence of a series */
+export type StatItem = {
+    subjectId: string;
+    priority: string;
+    dueDate: string;
+    dueTime: string | null;
+    completed: boolean;
+    completedAt: string | null;
+};
+
+/** Completed vs total for one group (period, subject or priority) */
+export type CompletionGroup = {
+    key: string;
+    total: number;
+    completed: number;
+    /** completed / total, 0 when the group is empty */
+    rate: number;
+};
+
+/** Completion for one chart period */
+export type CompletionBucket = CompletionGroup & {
+    label: string;
+};
+
+/** Completed items split by whether they beat their deadline */
+export type Punctuality = {
+    onTime: number;
+    late: number;
+};
+
+/** Inclusive day range ("YYYY-MM-DD") */
+export type DateRange = {
+    from: string;
+    to: string;
+};
+
+/** dayjs unit for the start of each period (weeks start on Monday) */
+const PERIOD_UNIT = { day: "day", week: "isoWeek", month: "month" } as const;
+
+const LABEL_FORMAT: Record<StatPeriod, string> = {
+    day: "ddd",
+    week: "MMM D",
+    month: "MMM"
+};
+
+//
+// ─── ITEMS ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Flattens tasks into countable items due within a range.
+ * Trashed tasks are ignored; a series contributes one item per occurrence.
+ *
+ * @param tasks - All tasks (`todo.tasks`)
+ * @param range - Inclusive day range
+ * @returns Items due in the range
+ */
+export function collectStatItems(tasks: Task[], range: DateRange): StatItem[] {
+    const items: StatItem[] = [];
+
+    for (const task of tasks) {
+        if (task.deletedAt) continue;
+
+        const base = {
+            subjectId: task.subjectId,
+            priority: task.priority,
+            dueTime: task.dueTime ?? null
+        };
+
+        if (!task.recurrence) {
+            if (task.dueDate >= range.from && task.dueDate <= range.to) {
+                items.push({
+                    ...base,
+                    dueDate: task.dueDate,
+                    completed: task.completed,
+                    completedAt: task.completedAt ?? null
+                });
+            }
+            continue;
+        }
+
+        const from = task.dueDate > range.from ? task.dueDate : range.from;
+        for (const date of getOccurrenceDates(task, from, range.to)) {
+            const completedAt = task.occurrenceCompletions?.[date] ?? null;
+            items.push({
+                ...base,
+                dueDate: date,
+                completed: completedAt !== null,
+                completedAt
+            });
+        }
+    }
+
+    return items;
+}
+
+/**
+ * Counts completed items.
+ */
+function toGroup(key: string, items: StatItem[]): CompletionGroup {
+    const completed = items.filter(i => i.completed).length;
+    return {
+        key,
+        total: items.length,
+        completed,
+        rate: items.length ? completed / items.length : 0
+    };
+}
+
+/**
+ * Groups items by a key, keeping first-seen order.
+ */
+function groupBy(items: StatItem[], getKey: (item: StatItem) => string) {
+    const groups = new Map<string, StatItem[]>();
+    for (const item of items) {
+        const key = getKey(item);
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+    return groups;
+}
+
+//
+// ─── SELECTORS ─────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Range covering the last `count` periods up to and including `today`.
+ * The current period is cut at `today` so future deadlines don't count yet.
+ *
+ * @param period - Chart granularity
+ * @param today - Current day ("YYYY-MM-DD")
+ * @param count - Number of periods
+ * @returns Inclusive day range
+ */
+export function getPeriodRange(
+    period: StatPeriod,
+    today: string,
+    count: number
+): DateRange {
+    const from = dayjs(today)
+        .startOf(PERIOD_UNIT[period])
+        .subtract(count - 1, period);
+    return { from: from.format("YYYY-MM-DD"), to: today };
+}
+
+/**
+ * Completion rate for each of the last `count` periods, oldest first.
+ *
+ * @param tasks - All tasks
+ * @param period - Chart granularity
+ * @param today - Current day ("YYYY-MM-DD")
+ * @param count - Number of periods
+ * @returns One bucket per period
+ */
+export function selectCompletionByPeriod(
+    tasks: Task[],
+    period: StatPeriod,
+    today: string,
+    count: number
+): CompletionBucket[] {
+    const range = getPeriodRange(period, today, count);
+    const items = collectStatItems(tasks, range);
+    const first = dayjs(range.from);
+
+    return Array.from({ length: count }, (_, i) => {
+        const start = first.add(i, period);
+        const end = start.endOf(PERIOD_UNIT[period]).format("YYYY-MM-DD");
+        const from = start.format("YYYY-MM-DD");
+
+        return {
+            ...toGroup(
+                from,
+                items.filter(item => item.dueDate >= from && item.dueDate <= end)
+            ),
+            label: start.format(LABEL_FORMAT[period])
+        };
+    });
+}
+
+/**
+ * Completion per subject ID, largest subject first.
+ *
+ * @param tasks - All tasks
+ * @param range - Inclusive day range
+ */
+export function selectSubjectBreakdown(
+    tasks: Task[],
+    range: DateRange
+): CompletionGroup[] {
+    const groups = groupBy(collectStatItems(tasks, range), i => i.subjectId);
+    return [...groups]
+        .map(([key, items]) => toGroup(key, items))
+        .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Completion per priority level, most urgent first. Keys are level IDs;
+ * unknown priorities count towards the default level.
+ *
+ * @param tasks - All tasks
+ * @param range - Inclusive day range
+ * @param levels - Configured priority levels
+ */
+export function selectPriorityBreakdown(
+    tasks: Task[],
+    range: DateRange,
+    levels: PriorityLevel[]
+): CompletionGroup[] {
+    const groups = groupBy(
+        collectStatItems(tasks, range),
+        i => resolvePriority(levels, i.priority).id
+    );
+    return [...groups]
+        .map(([key, items]) => toGroup(key, items))
+        .sort((a, b) => comparePriorities(levels)(a.key, b.key));
+}
+
+/**
+ * Whether an item was completed by its deadline: the due time when set,
+ * otherwise the end of the due day (local time).
+ *
+ * @param item - Completed item
+ */
+export function isCompletedOnTime(item: StatItem): boolean {
+    if (!item.completedAt) return false;
+
+    const deadline = item.dueTime
+        ? dayjs(`${item.dueDate}T${item.dueTime}`).endOf("minute")
+        : dayjs(item.dueDate).endOf("day");
+    return !dayjs(item.completedAt).isAfter(deadline);
+}
+
+/**
+ * Splits completed items in the range into on-time and late.
+ *
+ * @param tasks - All tasks
+ * @param range - Inclusive day range
+ */
+export function selectPunctuality(tasks: Task[], range: DateRange): Punctuality {
+    const done = collectStatItems(tasks, range).filter(
+        i => i.completed && i.completedAt
+    );
+    const onTime = done.filter(isCompletedOnTime).length;
+    return { onTime, late: done.length - onTime };
+}
@@ -0,0 +1,183 @@
+/**
+ * File: streaks.ts
+ * Description: Daily goal progress and current/longest streaks derived from
+ * task completion history. Days are bucketed in the device's local time zone.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import { Task } from "@/features/todo/todoSlice";
+import { getOccurrenceDates } from "@/features/todo/recurrence";
+import { DailyGoal } from "@/features/settings/settingsSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** What happened on one local day */
+export type DayActivity = {
+    /** Tasks and occurrences due that day */
+    due: number;
+    /** Tasks and occurrences completed that day (whenever they were due) */
+    completed: number;
+    /** Focused minutes logged that day */
+    minutes: number;
+};
+
+/** Activity keyed by local day ("YYYY-MM-DD") */
+export type ActivityByDay = Record<string, DayActivity>;
+
+/** Streak summary shown in the banner */
+export type StreakSummary = {
+    /** Goal-met days in a row, ending today or yesterday */
+    current: number;
+    longest: number;
+    /** Whether today's goal is already met */
+    todayMet: boolean;
+};
+
+/** Converts a timestamp into the local day it falls on */
+export type DayResolver = (timestamp: string) => string;
+
+/**
+ * Local day of a timestamp. `completedAt` is stored as UTC, so a task done at
+ * 00:30 in UTC+2 belongs to that local day, not the previous UTC one.
+ */
+export const toLocalDay: DayResolver = timestamp =>
+    dayjs(timestamp).format("YYYY-MM-DD");
+
+//
+// ─── ACTIVITY ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Aggregates due and completed counts per local day.
+ * Completions count on the day they happened; legacy completions without a
+ * timestamp count on their due day. Trashed tasks are ignored.
+ *
+ * @param tasks - All tasks (`todo.tasks`)
+ * @param today - Current local day; series are expanded up to it
+ * @param minutesByDay - Focused minutes per local day, if tracked
+ * @param toDay - Timestamp → local day conversion
+ * @returns Activity for every day with something due, done or logged
+ */
+export function buildDailyActivity(
+    tasks: Task[],
+    today: string,
+    minutesByDay: Record<string, number> = {},
+    toDay: DayResolver = toLocalDay
+): ActivityByDay {
+    const activity: ActivityByDay = {};
+    const entry = (day: string) =>
+        (activity[day] ??= { due: 0, completed: 0, minutes: 0 });
+
+    for (const task of tasks) {
+        if (task.deletedAt) continue;
+
+        if (task.recurrence) {
+            for (const date of getOccurrenceDates(task, task.dueDate, today)) {
+                entry(date).due++;
+            }
+            for (const completedAt of Object.values(
+                task.occurrenceCompletions ?? {}
+            )) {
+                entry(toDay(completedAt)).completed++;
+            }
+            continue;
+        }
+
+        entry(task.dueDate).due++;
+        if (task.completed) {
+            entry(task.completedAt ? toDay(task.completedAt) : task.dueDate)
+                .completed++;
+        }
+    }
+
+    for (const [day, minutes] of Object.entries(minutesByDay)) {
+        entry(day).minutes += minutes;
+    }
+
+    return activity;
+}
+
+/**
+ * Whether a day reached the goal.
+ *
+ * @param day - Activity of the day (undefined = nothing happened)
+ * @param goal - Daily goal from settings
+ */
+export function isGoalMet(day: DayActivity | undefined, goal: DailyGoal): boolean {
+    if (!day) return false;
+    const progress = goal.type === "tasks" ? day.completed : day.minutes;
+    return progress >= goal.target;
+}
+
+/**
+ * Progress towards today's goal.
+ *
+ * @returns Value counted by the goal and the target
+ */
+export function getGoalProgress(
+    day: DayActivity | undefined,
+    goal: DailyGoal
+): { value: number; target: number } {
+    const value = !day ? 0 : goal.type === "tasks" ? day.completed : day.minutes;
+    return { value, target: goal.target };
+}
+
+/**
+ * A day with nothing due and nothing done. Such rest days (weekends,
+ * holidays) neither extend nor break a streak.
+ */
+function isRestDay(day: DayActivity | undefined): boolean {
+    return !day || (day.due === 0 && day.completed === 0 && day.minutes === 0);
+}
+
+//
+// ─── STREAKS ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Computes the current and longest goal streaks up to `today`.
+ * A day that had work but missed the goal breaks the streak. Today never
+ * breaks it: it is still in progress until midnight.
+ *
+ * @param activity - Output of `buildDailyActivity`
+ * @param goal - Daily goal from settings
+ * @param today - Current local day ("YYYY-MM-DD")
+ * @returns Streak summary
+ */
+export function computeStreaks(
+    activity: ActivityByDay,
+    goal: DailyGoal,
+    today: string
+): StreakSummary {
+    const days = Object.keys(activity)
+        .filter(day => day <= today)
+        .sort();
+    const todayMet = isGoalMet(activity[today], goal);
+    if (days.length === 0) return { current: 0, longest: 0, todayMet };
+
+    let current = 0;
+    let longest = 0;
+
+    // Walk calendar days (not just active ones) so DST shifts can't skip a day
+    for (
+        let cursor = dayjs(days[0]);
+        !cursor.isAfter(today, "day");
+        cursor = cursor.add(1, "day")
+    ) {
+        const key = cursor.format("YYYY-MM-DD");
+        const day = activity[key];
+
+        if (isGoalMet(day, goal)) {
+            current++;
+            longest = Math.max(longest, current);
+        } else if (key !== today && !isRestDay(day)) {
+            current = 0;
+        }
+    }
+
+    return { current, longest, todayMet };
+}
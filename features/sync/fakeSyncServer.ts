@@ -0,0 +1,64 @@
+/**
+ * File: fakeSyncServer.ts
+ * Description: In-memory stand-in for the sync server. It runs the same
+ * `SyncService` as the Node reference server behind a fake `fetch`, so the
+ * whole round trip, including the HTTP transport, works without a network.
+ * Can be switched offline to exercise the client's queue.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { createSyncService, SyncService, SyncServiceOptions } from "./syncService";
+import type { FetchLike } from "./syncTransport";
+
+export type FakeSyncServer = {
+    /** The service behind the fake, for inspecting stored records */
+    service: SyncService;
+    /** Pass to `createHttpTransport` */
+    fetch: FetchLike;
+    /** While offline every request fails like a dropped connection */
+    setOnline(online: boolean): void;
+    /** Requests received while online */
+    requests: { method: string; url: string }[];
+};
+
+/**
+ * Creates a fake server accepting the given tokens.
+ *
+ * @param options - Same as for `createSyncService`
+ */
+export function createFakeSyncServer(options: SyncServiceOptions): FakeSyncServer {
+    const service = createSyncService(options);
+    const requests: FakeSyncServer["requests"] = [];
+    let online = true;
+
+    const fakeFetch: FetchLike = async (url, init) => {
+        if (!online) throw new TypeError("Network request failed");
+
+        const { pathname, search } = new URL(url);
+        requests.push({ method: init.method, url: pathname + search });
+        const { status, body } = service.handle({
+            method: init.method,
+            url: pathname + search,
+            authorization: init.headers.Authorization,
+            body: init.body
+        });
+
+        // Through JSON, as over the wire
+        const sent = JSON.stringify(body);
+        return {
+            ok: status >= 200 && status < 300,
+            status,
+            json: async () => JSON.parse(sent)
+        };
+    };
+
+    return {
+        service,
+        fetch: fakeFetch,
+        setOnline: value => {
+            online = value;
+        },
+        requests
+    };
+}
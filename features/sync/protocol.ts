@@ -0,0 +1,105 @@
+/**
+ * File: protocol.ts
+ * Description: Wire format of the self-hosted sync server. Clients push
+ * batches of field-level mutations and pull every record that changed since
+ * a cursor. Shared by the client, the in-memory fake and the Node reference
+ * server, so it only holds types and constants.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ *
+ * Routes (JSON bodies, `Authorization: Bearer <token>` on every request):
+ *
+ *   GET  /v1/changes?since=<cursor>  →  PullResponse
+ *   POST /v1/mutations  PushRequest  →  PushResponse
+ *
+ * Errors answer with a status code and `{ "error": "<message>" }`:
+ * 400 malformed request, 401 unknown token, 404 unknown route, 413 batch too
+ * large. Each token owns its own data, so one server can host a whole class.
+ */
+
+//
+// ─── CONSTANTS ─────────────────────────────────────────────────────────────────
+//
+
+/** Prefix of every route; bumped when the format changes incompatibly */
+export const PROTOCOL_PATH = "/v1";
+
+export const CHANGES_PATH = `${PROTOCOL_PATH}/changes`;
+export const MUTATIONS_PATH = `${PROTOCOL_PATH}/mutations`;
+
+/** Most mutations accepted in one push */
+export const MAX_BATCH = 200;
+
+/** Key of the settings record; tasks use `taskKey` */
+export const SETTINGS_KEY = "settings";
+
+/** Key of a task's record */
+export const taskKey = (id: string) => `task:${id}`;
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Field values of a record; JSON only */
+export type RecordValue = Record<string, unknown>;
+
+/** A record as the server holds it */
+export type ServerRecord = {
+    /** `taskKey(id)` or `SETTINGS_KEY` */
+    key: string;
+    /** Current fields; null once deleted */
+    value: RecordValue | null;
+    /** Cursor position of the record's last change */
+    revision: number;
+};
+
+/** One local change, queued until the server has acknowledged it */
+export type Mutation = {
+    /** Generated by the client; a retried mutation is applied only once */
+    id: string;
+    key: string;
+    /** Changed fields, or every field of a new record; null deletes it */
+    fields: RecordValue | null;
+    /**
+     * Fields in `fields` written without a conflict check, like a
+     * modification time that every edit touches
+     */
+    looseFields?: string[];
+    /** Revision of the record the change was made on; 0 if never seen */
+    baseRevision: number;
+};
+
+export type PushRequest = {
+    /** Identifies the client; its own earlier writes never conflict */
+    clientId: string;
+    mutations: Mutation[];
+};
+
+/**
+ * Outcome of one mutation. A conflict means another client changed one of
+ * the same fields after `baseRevision`; nothing was applied and `current`
+ * is the record as the server holds it.
+ */
+export type MutationResult =
+    | { id: string; status: "applied"; revision: number }
+    | { id: string; status: "conflict"; current: ServerRecord }
+    | { id: string; status: "rejected"; reason: string };
+
+export type PushResponse = {
+    /** In the order of the request */
+    results: MutationResult[];
+};
+
+export type PullResponse = {
+    /** Records changed after the requested cursor, oldest change first */
+    changes: ServerRecord[];
+    /** Pass as `since` on the next pull */
+    cursor: number;
+    /** More changes are waiting; pull again right away */
+    hasMore: boolean;
+};
+
+/** Body of every error response */
+export type ErrorResponse = {
+    error: string;
+};
@@ -0,0 +1,158 @@
+/**
+ * File: serverSyncListener.ts
+ * Description: Store listeners for the sync server. One turns task and
+ * settings changes into queued mutations; the other runs a sync a moment
+ * after the queue grows, or right away when asked to.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import {
+    createAction,
+    isAnyOf,
+    ListenerMiddlewareInstance,
+    ThunkDispatch,
+    UnknownAction
+} from "@reduxjs/toolkit";
+import { loadTasksFromStorage, Task, TodoState } from "@/features/todo/todoSlice";
+import { loadSettings, SettingsState } from "@/features/settings/settingsSlice";
+import { ALL_FIELDS } from "./syncSlice";
+import { diffTasks } from "./syncListener";
+import { SETTINGS_KEY, taskKey } from "./protocol";
+import {
+    applyServerChanges,
+    connectServer,
+    enqueueMutations,
+    loadServerSync,
+    RecordChange,
+    ServerSyncState,
+    SYNCED_SETTINGS,
+    syncWithServer
+} from "./serverSyncSlice";
+import type { ServerConfig, SyncTransport } from "./syncTransport";
+
+/** Slice of root state the listeners read */
+type ServerSyncedState = {
+    todo: TodoState;
+    settings: SettingsState;
+    serverSync: ServerSyncState;
+};
+
+/** Sync with the server now, e.g. when the app comes to the foreground */
+export const requestServerSync = createAction("serverSync/request");
+
+/** Changes that must not be sent back to the server */
+const isNotAnEdit = isAnyOf(
+    loadTasksFromStorage.fulfilled,
+    loadSettings,
+    loadServerSync,
+    applyServerChanges
+);
+
+/** Every synced setting, or those that differ from `before` */
+function settingsChange(after: SettingsState, before?: SettingsState): RecordChange[] {
+    const fields = SYNCED_SETTINGS.filter(field => after[field] !== before?.[field]);
+    if (fields.length === 0) return [];
+    return [
+        {
+            key: SETTINGS_KEY,
+            fields: Object.fromEntries(fields.map(field => [field, after[field]]))
+        }
+    ];
+}
+
+/** Set by every task edit, so it would make any two edits conflict */
+const LOOSE_TASK_FIELDS = ["updatedAt"];
+
+/** Mutations for what changed between two task lists */
+function taskChanges(before: Task[], after: Task[]): RecordChange[] {
+    const { changed, purged } = diffTasks(before, after);
+    const byId = new Map(after.map(task => [task.id, task]));
+
+    return [
+        ...Object.entries(changed).map(([id, fields]) => {
+            const task = byId.get(id)!;
+            return {
+                key: taskKey(id),
+                fields: fields.includes(ALL_FIELDS)
+                    ? { ...task }
+                    : Object.fromEntries(
+                          fields.map(field => [field, task[field as keyof Task] ?? null])
+                      ),
+                looseFields: LOOSE_TASK_FIELDS
+            };
+        }),
+        ...purged.map(id => ({ key: taskKey(id), fields: null }))
+    ];
+}
+
+/**
+ * Registers the listener that queues local changes while a server is set up.
+ * Connecting queues everything, so the server learns about existing data.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @returns Function that removes the listener
+ */
+export function startServerSyncListener(
+    startListening: ListenerMiddlewareInstance["startListening"]
+) {
+    return startListening({
+        predicate: (action, currentState, originalState) => {
+            const after = currentState as ServerSyncedState;
+            const before = originalState as ServerSyncedState;
+            if (!after.serverSync.token) return false;
+            if (connectServer.match(action)) return true;
+
+            return (
+                !isNotAnEdit(action) &&
+                (after.todo.tasks !== before.todo.tasks ||
+                    after.settings !== before.settings)
+            );
+        },
+        effect: (action, listenerApi) => {
+            const after = listenerApi.getState() as ServerSyncedState;
+            const before = listenerApi.getOriginalState() as ServerSyncedState;
+
+            const changes = connectServer.match(action)
+                ? [...taskChanges([], after.todo.tasks), ...settingsChange(after.settings)]
+                : [
+                      ...taskChanges(before.todo.tasks, after.todo.tasks),
+                      ...settingsChange(after.settings, before.settings)
+                  ];
+            if (changes.length > 0) listenerApi.dispatch(enqueueMutations(changes));
+        }
+    });
+}
+
+/**
+ * Registers the listener that syncs a short while after the last queued
+ * change, so a burst of edits goes out in one push. `requestServerSync`
+ * syncs without waiting. Failed syncs are retried on the next trigger.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param connect - Creates the transport for the configured server
+ * @param delayMs - Quiet time after the last queued change
+ * @returns Function that removes the listener
+ */
+export function startServerAutoSync(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    connect: (config: ServerConfig) => SyncTransport,
+    delayMs = 2000
+) {
+    return startListening({
+        matcher: isAnyOf(enqueueMutations, requestServerSync),
+        effect: async (action, listenerApi) => {
+            listenerApi.cancelActiveListeners();
+            if (enqueueMutations.match(action)) await listenerApi.delay(delayMs);
+
+            const { serverSync } = listenerApi.getState() as ServerSyncedState;
+            if (!serverSync.token) return;
+            const dispatch = listenerApi.dispatch as ThunkDispatch<
+                ServerSyncedState,
+                unknown,
+                UnknownAction
+            >;
+            dispatch(syncWithServer(connect(serverSync)));
+        }
+    });
+}
@@ -0,0 +1,462 @@
+/**
+ * File: serverSyncSlice.ts
+ * Description: Redux slice for syncing through a self-hosted server: its
+ * address and token, the cursor of the last pull and the queue of local
+ * changes the server hasn't acknowledged yet, which survives going offline
+ * and restarts + the sync thunk and loading from AsyncStorage.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { createAction, createAsyncThunk, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { v4 as uuid } from "uuid";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+import {
+    isMutation,
+    isObject,
+    isRevision,
+    validateSettings,
+    validateTask
+} from "@/features/backup/schema";
+import { migrateDocument } from "@/features/backup/migrations";
+import type { Task } from "@/features/todo/todoSlice";
+import type { SettingsState } from "@/features/settings/settingsSlice";
+import {
+    MAX_BATCH,
+    Mutation,
+    MutationResult,
+    PullResponse,
+    RecordValue,
+    ServerRecord,
+    SETTINGS_KEY
+} from "./protocol";
+import { ServerConfig, SyncTransport, SyncTransportError } from "./syncTransport";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+export type ServerSyncStatus = "idle" | "syncing" | "offline" | "error";
+
+/** Server sync slice state */
+export type ServerSyncState = ServerConfig & {
+    /** Generated on first launch; sent with every push */
+    clientId: string;
+    /** Position of the last pull */
+    cursor: number;
+    /** Server revision of every record this device has seen */
+    revisions: Record<string, number>;
+    /** Local changes not yet acknowledged, oldest first */
+    queue: Mutation[];
+    /** IDs of queued mutations sent in the running push */
+    inFlight: string[];
+    status: ServerSyncStatus;
+    lastError: string | null;
+    /** ISO timestamp of the last complete sync */
+    lastSyncedAt: string | null;
+    /** Local changes the server turned down in the last sync */
+    conflicts: number;
+};
+
+/** Part of the state that is stored; the rest only describes this session */
+export type StoredServerSync = Pick<
+    ServerSyncState,
+    "serverUrl" | "token" | "clientId" | "cursor" | "revisions" | "queue" | "lastSyncedAt"
+>;
+
+/** One changed record, before it gets a mutation ID */
+export type RecordChange = Pick<Mutation, "key" | "fields" | "looseFields">;
+
+/** Server data to put into the task list and settings */
+export type ServerChanges = {
+    /** Tasks to add or replace */
+    tasks: Task[];
+    /** IDs of tasks deleted on the server */
+    removed: string[];
+    /** Synced settings that changed; null if none */
+    settings: Partial<SettingsState> | null;
+};
+
+/** Slice of root state the sync thunk reads */
+type ServerSyncRoot = {
+    serverSync: ServerSyncState;
+};
+
+//
+// ─── INITIAL STATE ─────────────────────────────────────────────────────────────
+//
+
+/**
+ * Settings shared through the server. Theme, reminder time and snapshots are
+ * left to each device.
+ */
+export const SYNCED_SETTINGS = [
+    "subjects",
+    "priorities",
+    "autoCompleteTasks",
+    "trashRetentionDays",
+    "dailyGoal",
+    "focusDurations"
+] as const satisfies readonly (keyof SettingsState)[];
+
+const initialState: ServerSyncState = {
+    serverUrl: "",
+    token: "",
+    clientId: "",
+    cursor: 0,
+    revisions: {},
+    queue: [],
+    inFlight: [],
+    status: "idle",
+    lastError: null,
+    lastSyncedAt: null,
+    conflicts: 0
+};
+
+/** Puts server data into the task list and settings without queueing it again */
+export const applyServerChanges = createAction<ServerChanges>("serverSync/applyChanges");
+
+//
+// ─── RECORDS ───────────────────────────────────────────────────────────────────
+//
+
+const TASK_PREFIX = "task:";
+
+/** Fields of all queued changes to a record, or null if the last one deletes it */
+function pendingFields(queue: Mutation[], key: string): RecordValue | null | undefined {
+    return queue
+        .filter(mutation => mutation.key === key)
+        .reduce<RecordValue | null | undefined>(
+            (fields, mutation) =>
+                fields && mutation.fields ? { ...fields, ...mutation.fields } : mutation.fields,
+            undefined
+        );
+}
+
+/**
+ * Turns server records into changes for the store. Local changes still in
+ * the queue are laid over them, so a pull never undoes an unsent edit.
+ * Records that don't validate are skipped.
+ *
+ * @param records - Records pulled from the server or returned with a conflict
+ * @param queue - Mutations not yet acknowledged
+ */
+export function recordsToChanges(records: ServerRecord[], queue: Mutation[]): ServerChanges {
+    const changes: ServerChanges = { tasks: [], removed: [], settings: null };
+
+    for (const record of records) {
+        const pending = pendingFields(queue, record.key);
+        if (pending === null) continue; // Deleted here; the deletion wins once sent
+        const value = record.value && { ...record.value, ...pending };
+
+        if (record.key === SETTINGS_KEY) {
+            if (!value) continue;
+            // Clients on an older schema may still write the old shape
+            const { settings: migrated } = migrateDocument({ settings: value }, 0);
+            const { value: settings } = validateSettings(migrated, record.key);
+            changes.settings = Object.fromEntries(
+                SYNCED_SETTINGS.filter(field => settings[field] !== undefined).map(
+                    field => [field, settings[field]]
+                )
+            );
+        } else if (record.key.startsWith(TASK_PREFIX)) {
+            const id = record.key.slice(TASK_PREFIX.length);
+            if (!value) {
+                changes.removed.push(id);
+                continue;
+            }
+            const { tasks: [migrated] } = migrateDocument({ tasks: [{ ...value, id }] }, 0) as {
+                tasks: unknown[];
+            };
+            const { value: task, issues } = validateTask(migrated, record.key);
+            if (task) changes.tasks.push(task);
+            if (issues.length > 0) console.warn("Dropped invalid server data:", issues);
+        }
+    }
+
+    return changes;
+}
+
+const hasChanges = ({ tasks, removed, settings }: ServerChanges) =>
+    tasks.length > 0 || removed.length > 0 || settings !== null;
+
+//
+// ─── THUNK ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Pushes the queue in batches, then pulls everything changed since the last
+ * cursor. Conflicting local changes are dropped in favour of the server's
+ * copy. Skipped while not connected or while a sync is running; on failure
+ * the queue is kept for the next attempt.
+ */
+export const syncWithServer = createAsyncThunk<
+    string,
+    SyncTransport,
+    { state: ServerSyncRoot; rejectValue: { reason: SyncTransportError["reason"]; message: string } }
+>(
+    "serverSync/sync",
+    async (transport, { getState, dispatch, rejectWithValue }) => {
+        const current = () => getState().serverSync;
+
+        try {
+            // ⬆️ Push, including anything queued while earlier batches were sent
+            for (;;) {
+                const { queue, clientId } = current();
+                const batch = queue.slice(0, MAX_BATCH);
+                if (batch.length === 0) break;
+
+                dispatch(pushStarted(batch.map(mutation => mutation.id)));
+                const { results } = await transport.push({ clientId, mutations: batch });
+
+                const theirs = results.flatMap(result =>
+                    result.status === "conflict" ? [result.current] : []
+                );
+                dispatch(pushAcknowledged(results));
+                if (current().queue.some(mutation => mutation.id === batch[0].id)) {
+                    // Sending it again would loop forever
+                    throw new SyncTransportError("server", "The sync server skipped changes.");
+                }
+                if (theirs.length > 0) {
+                    dispatch(applyServerChanges(recordsToChanges(theirs, current().queue)));
+                }
+            }
+
+            // ⬇️ Pull until caught up
+            let page: PullResponse;
+            do {
+                page = await transport.pull(current().cursor);
+                const changes = recordsToChanges(page.changes, current().queue);
+                if (hasChanges(changes)) dispatch(applyServerChanges(changes));
+                dispatch(pulled(page));
+            } while (page.hasMore);
+
+            return new Date().toISOString();
+        } catch (err: any) {
+            return rejectWithValue({
+                reason: err instanceof SyncTransportError ? err.reason : "server",
+                message: err?.message || "Sync failed."
+            });
+        }
+    },
+    {
+        condition: (_transport, { getState }) => {
+            const { token, status } = getState().serverSync;
+            return token !== "" && status !== "syncing";
+        }
+    }
+);
+
+//
+// ─── REDUX SLICE ───────────────────────────────────────────────────────────────
+//
+
+const serverSyncSlice = createSlice({
+    name: "serverSync",
+    initialState,
+    reducers: {
+        /** Restore the state read from storage */
+        loadServerSync(_state, action: PayloadAction<StoredServerSync>) {
+            return { ...initialState, ...action.payload };
+        },
+
+        /**
+         * Use a server from now on. Starts from scratch; the listener then
+         * queues every task and the synced settings.
+         */
+        connectServer(state, action: PayloadAction<ServerConfig>) {
+            return {
+                ...initialState,
+                clientId: state.clientId,
+                serverUrl: action.payload.serverUrl.trim(),
+                token: action.payload.token.trim()
+            };
+        },
+
+        /** Stop syncing and forget unsent changes */
+        disconnectServer(state) {
+            return { ...initialState, clientId: state.clientId };
+        },
+
+        /**
+         * Queue local changes. A change to a record with a queued mutation
+         * that isn't being sent is folded into it under a new ID, so a
+         * retried push can't be mistaken for the smaller earlier one.
+         */
+        enqueueMutations: {
+            reducer(state, action: PayloadAction<Mutation[]>) {
+                for (const change of action.payload) {
+                    const queued = state.queue.find(
+                        mutation =>
+                            mutation.key === change.key &&
+                            !state.inFlight.includes(mutation.id)
+                    );
+                    if (!queued) {
+                        state.queue.push({
+                            ...change,
+                            baseRevision: state.revisions[change.key] ?? 0
+                        });
+                        continue;
+                    }
+
+                    queued.id = change.id;
+                    queued.fields =
+                        queued.fields && change.fields
+                            ? { ...queued.fields, ...change.fields }
+                            : change.fields;
+                    const loose = [
+                        ...new Set([...(queued.looseFields ?? []), ...(change.looseFields ?? [])])
+                    ];
+                    if (loose.length > 0) queued.looseFields = loose;
+                }
+            },
+            prepare(changes: RecordChange[]) {
+                return {
+                    payload: changes.map(change => ({
+                        ...change,
+                        id: uuid(),
+                        baseRevision: 0
+                    }))
+                };
+            }
+        },
+
+        /** Mark the mutations of a push as sent */
+        pushStarted(state, action: PayloadAction<string[]>) {
+            state.inFlight = action.payload;
+        },
+
+        /** Drop acknowledged mutations and note the revisions they produced */
+        pushAcknowledged(state, action: PayloadAction<MutationResult[]>) {
+            for (const result of action.payload) {
+                const mutation = state.queue.find(m => m.id === result.id);
+                if (!mutation) continue;
+                state.queue = state.queue.filter(m => m !== mutation);
+
+                if (result.status === "applied") {
+                    state.revisions[mutation.key] = Math.max(
+                        state.revisions[mutation.key] ?? 0,
+                        result.revision
+                    );
+                } else if (result.status === "conflict") {
+                    state.revisions[mutation.key] = result.current.revision;
+                    state.conflicts += 1;
+                } else {
+                    console.warn("Sync server rejected a change:", result.reason);
+                }
+            }
+            state.inFlight = [];
+        },
+
+        /**
+         * Move the cursor past a pulled page. Queued changes to the pulled
+         * records now build on what was pulled.
+         */
+        pulled(state, action: PayloadAction<PullResponse>) {
+            for (const record of action.payload.changes) {
+                state.revisions[record.key] = record.revision;
+                state.queue
+                    .filter(mutation => mutation.key === record.key)
+                    .forEach(mutation => (mutation.baseRevision = record.revision));
+            }
+            state.cursor = action.payload.cursor;
+        }
+    },
+    extraReducers: builder => {
+        builder
+            .addCase(syncWithServer.pending, state => {
+                state.status = "syncing";
+                state.lastError = null;
+                state.conflicts = 0;
+            })
+            .addCase(syncWithServer.fulfilled, (state, action) => {
+                state.status = "idle";
+                state.lastSyncedAt = action.payload;
+            })
+            .addCase(syncWithServer.rejected, (state, action) => {
+                state.status = action.payload?.reason === "offline" ? "offline" : "error";
+                state.lastError = action.payload?.message ?? "Sync failed.";
+                state.inFlight = [];
+            });
+    }
+});
+
+//
+// ─── EXPORTS ───────────────────────────────────────────────────────────────────
+//
+
+export const {
+    loadServerSync,
+    connectServer,
+    disconnectServer,
+    enqueueMutations,
+    pushStarted,
+    pushAcknowledged,
+    pulled
+} = serverSyncSlice.actions;
+
+export default serverSyncSlice.reducer;
+
+//
+// ─── ASYNCSTORAGE HELPERS ──────────────────────────────────────────────────────
+//
+
+/** The part of the state to store */
+export const storedServerSync = ({
+    serverUrl,
+    token,
+    clientId,
+    cursor,
+    revisions,
+    queue,
+    lastSyncedAt
+}: ServerSyncState): StoredServerSync => ({
+    serverUrl,
+    token,
+    clientId,
+    cursor,
+    revisions,
+    queue,
+    lastSyncedAt
+});
+
+/**
+ * Load the server sync state from AsyncStorage. The first launch gets a new
+ * client ID; unreadable state keeps no server, so the user connects again.
+ * Malformed revisions and queued mutations are dropped; the next pull brings
+ * back what they described.
+ */
+export async function loadServerSyncFromStorage(): Promise<StoredServerSync> {
+    const fresh = (): StoredServerSync => ({
+        ...storedServerSync(initialState),
+        clientId: uuid()
+    });
+    try {
+        const json = await AsyncStorage.getItem(STORAGE_KEYS.SERVER_SYNC);
+        const stored: unknown = json ? JSON.parse(json) : null;
+        if (!isObject(stored) || typeof stored.clientId !== "string" || !stored.clientId) {
+            return fresh();
+        }
+
+        const revisions: Record<string, number> = {};
+        if (isObject(stored.revisions)) {
+            for (const [key, revision] of Object.entries(stored.revisions)) {
+                if (isRevision(revision)) revisions[key] = revision;
+            }
+        }
+
+        return {
+            serverUrl: typeof stored.serverUrl === "string" ? stored.serverUrl : "",
+            token: typeof stored.token === "string" ? stored.token : "",
+            clientId: stored.clientId,
+            cursor: isRevision(stored.cursor) ? stored.cursor : 0,
+            revisions,
+            queue: Array.isArray(stored.queue) ? stored.queue.filter(isMutation) : [],
+            lastSyncedAt: typeof stored.lastSyncedAt === "string" ? stored.lastSyncedAt : null
+        };
+    } catch (err) {
+        console.error("Error loading server sync state:", err);
+        return fresh();
+    }
+}
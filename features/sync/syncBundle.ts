@@ -0,0 +1,453 @@
+/**
+ * File: syncBundle.ts
+ * Description: Sync bundles for keeping two devices in step without a server.
+ * A bundle carries the tasks changed since the peers last synced, with the
+ * stamp of every field and tombstones of purged tasks. Merging keeps the
+ * latest stamp per field, so both devices converge whatever order bundles
+ * are exchanged in.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Subtask, Task } from "@/features/todo/todoSlice";
+import { BackupError } from "@/features/backup/backup";
+import { isObject, validateTask, ValidationIssue } from "@/features/backup/schema";
+import { migrateDocument } from "@/features/backup/migrations";
+import {
+    ENTRY_FIELDS,
+    EntryField,
+    entryKey,
+    fieldEntries,
+    FieldStamps,
+    isClock,
+    isEntryField,
+    isStamp,
+    Stamp,
+    stampOf,
+    SyncClock,
+    SyncMerge,
+    SyncPeer,
+    SyncState,
+    SUBTASK_ORDER
+} from "./syncSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Identifies sync bundle files */
+export const SYNC_FORMAT = "braindesk-sync";
+
+/** Current bundle layout; 2 references subjects by ID */
+export const SYNC_VERSION = 2;
+
+/** One task in a bundle */
+export type SyncEntry = {
+    id: string;
+    /** Current task; null once purged */
+    task: Task | null;
+    /** Stamps of every field, including ones the peer may already have */
+    stamps: FieldStamps;
+    /** Set when the task was purged */
+    purged?: Stamp;
+};
+
+export type SyncBundle = {
+    format: typeof SYNC_FORMAT;
+    version: number;
+    /** Device that exported the bundle */
+    device: string;
+    /** ISO timestamp of the export */
+    createdAt: string;
+    /** What the exporting device has seen, including the bundle itself */
+    clock: SyncClock;
+    entries: SyncEntry[];
+};
+
+/** Result of reading a bundle file */
+export type ParsedSyncBundle = {
+    bundle: SyncBundle;
+    /** Entries that were dropped as invalid */
+    issues: ValidationIssue[];
+};
+
+/** Merged data plus what changed, for the summary */
+export type SyncResult = SyncMerge & {
+    added: number;
+    updated: number;
+    removed: number;
+};
+
+/** Thrown when a file isn't a sync bundle this device can merge */
+export class SyncBundleError extends BackupError {
+    constructor(message: string, issues: ValidationIssue[] = []) {
+        super(message, issues);
+        this.name = "SyncBundleError";
+    }
+}
+
+//
+// ─── STAMPS ────────────────────────────────────────────────────────────────────
+//
+
+/** Stamp of data that predates sync; older than every real change */
+const NO_STAMP: Stamp = { at: "", device: "", seq: 0 };
+
+/**
+ * Orders stamps by time, then device ID, then sequence number.
+ *
+ * @returns Negative when `a` is older, positive when newer, 0 when equal
+ */
+export function compareStamps(a: Stamp = NO_STAMP, b: Stamp = NO_STAMP): number {
+    if (a.at !== b.at) return a.at < b.at ? -1 : 1;
+    if (a.device !== b.device) return a.device < b.device ? -1 : 1;
+    return a.seq - b.seq;
+}
+
+const latest = (a?: Stamp, b?: Stamp) => (compareStamps(a, b) >= 0 ? a : b);
+
+/** Breaks ties between unstamped values the same way on every device */
+function compareValues(a: unknown, b: unknown): number {
+    const x = JSON.stringify(a ?? null);
+    const y = JSON.stringify(b ?? null);
+    return x === y ? 0 : x < y ? -1 : 1;
+}
+
+/** Whether a peer with this clock has already seen a change */
+const isSeen = (stamp: Stamp, clock: SyncClock) =>
+    stamp.seq <= (clock[stamp.device] ?? 0);
+
+/**
+ * What every known peer has seen: the lowest count per device.
+ * Null when no peer is known yet, which makes the next bundle a full one.
+ */
+function peersClock(peers: Record<string, SyncPeer>): SyncClock | null {
+    const clocks = Object.values(peers).map(peer => peer.clock);
+    if (clocks.length === 0) return null;
+
+    const devices = new Set(clocks.flatMap(clock => Object.keys(clock)));
+    return Object.fromEntries(
+        [...devices].map(device => [
+            device,
+            Math.min(...clocks.map(clock => clock[device] ?? 0))
+        ])
+    );
+}
+
+//
+// ─── EXPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Collects the changes the known peers haven't seen; everything on the
+ * first sync.
+ *
+ * @param tasks - Current task list, trash included
+ * @param sync - Current sync state
+ * @param now - Export time (ISO)
+ */
+export function createSyncBundle(
+    tasks: Task[],
+    sync: SyncState,
+    now = new Date().toISOString()
+): SyncBundle {
+    const since = peersClock(sync.peers);
+    const unseen = (stamp: Stamp) => since === null || !isSeen(stamp, since);
+
+    const entries: SyncEntry[] = [];
+    for (const task of tasks) {
+        const stamps = sync.stamps[task.id] ?? {};
+        const changed = Object.values(stamps).some(stamp => stamp && unseen(stamp));
+        if (since === null || changed) {
+            entries.push({ id: task.id, task, stamps });
+        }
+    }
+    for (const [id, purged] of Object.entries(sync.tombstones)) {
+        if (unseen(purged)) {
+            entries.push({ id, task: null, stamps: {}, purged });
+        }
+    }
+
+    return {
+        format: SYNC_FORMAT,
+        version: SYNC_VERSION,
+        device: sync.deviceId,
+        createdAt: now,
+        clock: sync.clock,
+        entries
+    };
+}
+
+//
+// ─── IMPORT ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Reads sync bundle file contents and validates every entry.
+ *
+ * @param contents - File contents
+ * @param deviceId - This device, whose own bundles are refused
+ * @returns The bundle without invalid entries, and what was dropped
+ * @throws SyncBundleError when the file isn't a usable bundle
+ */
+export function parseSyncBundle(contents: string, deviceId: string): ParsedSyncBundle {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(contents);
+    } catch {
+        throw new SyncBundleError("The file is not valid JSON.");
+    }
+
+    if (!isObject(raw) || raw.format !== SYNC_FORMAT) {
+        throw new SyncBundleError("This file is not a BrainDesk sync bundle.");
+    }
+    const version = raw.version;
+    if (typeof version !== "number" || !Number.isInteger(version) || version > SYNC_VERSION) {
+        throw new SyncBundleError(
+            "This bundle was made by a newer version of BrainDesk. Update the app to sync."
+        );
+    }
+    if (typeof raw.device !== "string" || raw.device === "" || !isClock(raw.clock)) {
+        throw new SyncBundleError("The bundle does not say which device made it.");
+    }
+    if (raw.device === deviceId) {
+        throw new SyncBundleError(
+            "This bundle was exported on this device. Import it on the other one."
+        );
+    }
+    if (!Array.isArray(raw.entries)) {
+        throw new SyncBundleError("Invalid format: 'entries' array missing.", [
+            { path: "entries", message: "expected a list" }
+        ]);
+    }
+
+    const issues: ValidationIssue[] = [];
+    const entries: SyncEntry[] = [];
+    raw.entries.forEach((entry: unknown, i: number) => {
+        const path = `entries[${i}]`;
+        if (!isObject(entry) || typeof entry.id !== "string" || entry.id === "") {
+            issues.push({ path, message: "expected an entry with an ID" });
+            return;
+        }
+
+        // Version 1 bundles name the subject instead of referencing it
+        const legacy = version < 2;
+        const stamps: FieldStamps = {};
+        if (isObject(entry.stamps)) {
+            for (const [field, stamp] of Object.entries(entry.stamps)) {
+                if (isStamp(stamp)) stamps[legacy && field === "subject" ? "subjectId" : field] = stamp;
+                else issues.push({ path: `${path}.stamps.${field}`, message: "expected a stamp" });
+            }
+        }
+        const purged = isStamp(entry.purged) ? entry.purged : undefined;
+
+        const sent = legacy && isObject(entry.task)
+            ? (migrateDocument({ tasks: [entry.task] }, 2).tasks as unknown[])[0]
+            : entry.task;
+        const validated = sent === null ? null : validateTask(sent, `${path}.task`);
+        issues.push(...(validated?.issues ?? []));
+        // A valid task is kept exactly as sent, so both devices hold identical copies
+        const task =
+            validated?.value && validated.issues.length === 0
+                ? (sent as Task)
+                : validated?.value ?? null;
+
+        if (task && task.id !== entry.id) {
+            issues.push({ path: `${path}.task.id`, message: "does not match the entry" });
+        } else if (task || purged) {
+            entries.push({ id: entry.id, task, stamps, purged });
+        } else {
+            issues.push({ path, message: "expected a task or a tombstone" });
+        }
+    });
+
+    return {
+        bundle: {
+            format: SYNC_FORMAT,
+            version,
+            device: raw.device,
+            createdAt: typeof raw.createdAt === "string" ? raw.createdAt : "",
+            clock: raw.clock,
+            entries
+        },
+        issues
+    };
+}
+
+//
+// ─── MERGE ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Merges a field entry by entry (see `ENTRY_FIELDS`): each occurrence day
+ * or subtask goes to the later stamp, falling back to the field's stamp for
+ * entries without their own. Subtasks follow the order stamped last; steps
+ * missing from it keep their place from the other side, at the end.
+ *
+ * @param stamps - Merged stamps, updated with the winning entry stamps
+ * @returns The merged value, or undefined when neither side has the field
+ */
+function mergeEntries(
+    field: EntryField,
+    mine: Task,
+    theirs: Task,
+    myStamps: FieldStamps,
+    theirStamps: FieldStamps,
+    stamps: FieldStamps
+): Task[EntryField] {
+    const a = fieldEntries(mine, field);
+    const b = fieldEntries(theirs, field);
+    const merged = new Map<string, unknown>();
+
+    for (const key of new Set([...a.keys(), ...b.keys()])) {
+        const stampKey = entryKey(field, key);
+        const myStamp = myStamps[stampKey] ?? stampOf(myStamps, field);
+        const theirStamp = theirStamps[stampKey] ?? stampOf(theirStamps, field);
+        const order =
+            compareStamps(theirStamp, myStamp) || compareValues(b.get(key), a.get(key));
+
+        if (compareStamps(theirStamp, myStamp) > 0) stamps[stampKey] = theirStamp;
+        const value = order > 0 ? b.get(key) : a.get(key);
+        if (value !== undefined) merged.set(key, value);
+    }
+
+    if (field === "occurrenceCompletions") {
+        if (mine.occurrenceCompletions === undefined && theirs.occurrenceCompletions === undefined) {
+            return undefined;
+        }
+        return Object.fromEntries(merged) as Record<string, string>;
+    }
+
+    if (mine.subtasks === undefined && theirs.subtasks === undefined) return undefined;
+    const orderOf = (s: FieldStamps) => s[SUBTASK_ORDER] ?? stampOf(s, field);
+    const order =
+        compareStamps(orderOf(theirStamps), orderOf(myStamps)) ||
+        compareValues([...b.keys()], [...a.keys()]);
+    if (compareStamps(orderOf(theirStamps), orderOf(myStamps)) > 0) {
+        stamps[SUBTASK_ORDER] = orderOf(theirStamps);
+    }
+    const [first, second] = order > 0 ? [b, a] : [a, b];
+    const ids = [...new Set([...first.keys(), ...second.keys()])];
+    return ids.filter(id => merged.has(id)).map(id => merged.get(id) as Subtask);
+}
+
+/**
+ * Merges two copies of a task field by field: the later stamp wins, and
+ * unstamped values are settled by content so both sides agree. Completions
+ * and subtasks are merged entry by entry (see `mergeEntries`).
+ */
+function mergeTask(
+    mine: Task,
+    theirs: Task,
+    myStamps: FieldStamps,
+    theirStamps: FieldStamps
+): { task: Task; stamps: FieldStamps } {
+    const fields = new Set([...Object.keys(mine), ...Object.keys(theirs)]);
+    fields.delete("id");
+
+    let task = mine;
+    const stamps: FieldStamps = { ...myStamps };
+    for (const field of ENTRY_FIELDS) {
+        const value = mergeEntries(field, mine, theirs, myStamps, theirStamps, stamps);
+        if (compareValues(value, mine[field]) === 0) continue;
+        if (task === mine) task = { ...mine };
+        (task as Record<string, unknown>)[field] = value;
+    }
+    for (const field of fields) {
+        if (isEntryField(field)) continue;
+        const key = field as keyof Task;
+        const myStamp = stampOf(myStamps, field);
+        const theirStamp = stampOf(theirStamps, field);
+        const order =
+            compareStamps(theirStamp, myStamp) || compareValues(theirs[key], mine[key]);
+        if (order <= 0) continue;
+
+        if (compareStamps(theirStamp, myStamp) > 0) stamps[field] = theirStamp;
+        if (compareValues(theirs[key], mine[key]) === 0) continue;
+
+        if (task === mine) task = { ...mine };
+        if (key in theirs) (task as Record<string, unknown>)[key] = theirs[key];
+        else delete (task as Record<string, unknown>)[key];
+    }
+    return { task, stamps };
+}
+
+/** Latest stamp of any field */
+const lastChange = (stamps: FieldStamps) =>
+    Object.values(stamps).reduce<Stamp | undefined>((a, b) => latest(a, b), undefined);
+
+/**
+ * Merges another device's bundle into the local data. Deterministic: two
+ * devices that have merged each other's changes hold the same tasks.
+ * A purge beats every change stamped before it; a later edit brings the
+ * task back.
+ *
+ * @param local - Current tasks and sync state
+ * @param bundle - Parsed bundle from the other device
+ * @param now - Import time (ISO), recorded for the peer
+ */
+export function mergeSyncBundle(
+    local: SyncMerge,
+    bundle: SyncBundle,
+    now = new Date().toISOString()
+): SyncResult {
+    const tasks = new Map(local.tasks.map(task => [task.id, task]));
+    const stamps = { ...local.sync.stamps };
+    const tombstones = { ...local.sync.tombstones };
+    let added = 0;
+    let updated = 0;
+    let removed = 0;
+
+    for (const entry of bundle.entries) {
+        const mine = tasks.get(entry.id);
+        const tombstone = latest(tombstones[entry.id], entry.purged);
+
+        let merged: { task: Task; stamps: FieldStamps } | null = null;
+        if (mine && entry.task) {
+            merged = mergeTask(mine, entry.task, stamps[entry.id] ?? {}, entry.stamps);
+        } else if (mine) {
+            merged = { task: mine, stamps: stamps[entry.id] ?? {} };
+        } else if (entry.task) {
+            merged = { task: entry.task, stamps: entry.stamps };
+        }
+
+        const alive =
+            merged !== null &&
+            (!tombstone || compareStamps(lastChange(merged.stamps), tombstone) > 0);
+
+        if (alive) {
+            if (!mine) added++;
+            else if (merged!.task !== mine) updated++;
+            tasks.set(entry.id, merged!.task);
+            stamps[entry.id] = merged!.stamps;
+            delete tombstones[entry.id];
+        } else {
+            if (mine) removed++;
+            tasks.delete(entry.id);
+            delete stamps[entry.id];
+            tombstones[entry.id] = tombstone!;
+        }
+    }
+
+    const clock = { ...local.sync.clock };
+    for (const [device, count] of Object.entries(bundle.clock)) {
+        clock[device] = Math.max(clock[device] ?? 0, count);
+    }
+
+    return {
+        tasks: [...tasks.values()],
+        sync: {
+            ...local.sync,
+            stamps,
+            tombstones,
+            clock,
+            peers: {
+                ...local.sync.peers,
+                [bundle.device]: { clock: bundle.clock, syncedAt: now }
+            }
+        },
+        added,
+        updated,
+        removed
+    };
+}
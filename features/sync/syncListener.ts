@@ -0,0 +1,130 @@
+/**
+ * File: syncListener.ts
+ * Description: Store listener that keeps the sync change log: after every
+ * action that changes the task list it records which fields of which tasks
+ * changed, and which tasks were purged. Reducers stay unaware of sync.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isAnyOf, ListenerMiddlewareInstance } from "@reduxjs/toolkit";
+import { loadTasksFromStorage, Task, TodoState } from "@/features/todo/todoSlice";
+import {
+    ALL_FIELDS,
+    applySyncMerge,
+    EntryField,
+    entryKey,
+    fieldEntries,
+    isEntryField,
+    recordTaskChanges,
+    SUBTASK_ORDER,
+    TaskChanges
+} from "./syncSlice";
+import { applyServerChanges } from "./serverSyncSlice";
+
+/** Slice of root state the listener reads */
+type SyncedState = {
+    todo: TodoState;
+};
+
+/**
+ * Task list changes that are not edits made on this device. Server data
+ * carries no stamps; stamping it here would let it beat newer edits from
+ * other devices in the next bundle merge.
+ */
+const isNotAnEdit = isAnyOf(loadTasksFromStorage.fulfilled, applySyncMerge, applyServerChanges);
+
+/**
+ * Fields and tasks that differ between two task lists. Reducers replace only
+ * what they change, so comparing references is enough.
+ *
+ * @param before - List before the action
+ * @param after - List after the action
+ */
+export function diffTasks(
+    before: Task[],
+    after: Task[]
+): Omit<TaskChanges, "at"> {
+    const previous = new Map(before.map(task => [task.id, task]));
+    const changed: Record<string, string[]> = {};
+
+    for (const task of after) {
+        const old = previous.get(task.id);
+        previous.delete(task.id);
+        if (old === task) continue;
+        if (!old) {
+            changed[task.id] = [ALL_FIELDS];
+            continue;
+        }
+
+        const fields = new Set([...Object.keys(old), ...Object.keys(task)]);
+        const differing = [...fields].filter(
+            field => old[field as keyof Task] !== task[field as keyof Task]
+        );
+        if (differing.length > 0) changed[task.id] = differing;
+    }
+
+    return { changed, purged: [...previous.keys()] };
+}
+
+/**
+ * Stamp keys for a change to a field merged entry by entry: one per
+ * occurrence day or subtask that differs, plus the subtask order when the
+ * steps both lists share were moved.
+ */
+function entryStampKeys(field: EntryField, before: Task, after: Task): string[] {
+    const old = fieldEntries(before, field);
+    const now = fieldEntries(after, field);
+    const keys = [...new Set([...old.keys(), ...now.keys()])].filter(
+        key => JSON.stringify(old.get(key)) !== JSON.stringify(now.get(key))
+    );
+    const stampKeys = keys.map(key => entryKey(field, key));
+
+    if (field === "subtasks") {
+        const shared = (ids: string[], other: Map<string, unknown>) =>
+            ids.filter(id => other.has(id)).join();
+        if (shared([...old.keys()], now) !== shared([...now.keys()], old)) {
+            stampKeys.push(SUBTASK_ORDER);
+        }
+    }
+    return stampKeys;
+}
+
+/**
+ * Registers the sync listener on a listener middleware.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param now - Clock used for stamps (ISO), replaceable in tests
+ * @returns Function that removes the listener
+ */
+export function startSyncListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    now = () => new Date().toISOString()
+) {
+    return startListening({
+        predicate: (action, currentState, originalState) =>
+            !isNotAnEdit(action) &&
+            (currentState as SyncedState).todo.tasks !==
+                (originalState as SyncedState).todo.tasks,
+        effect: (_action, listenerApi) => {
+            const before = (listenerApi.getOriginalState() as SyncedState).todo.tasks;
+            const after = (listenerApi.getState() as SyncedState).todo.tasks;
+
+            const { changed, purged } = diffTasks(before, after);
+            if (Object.keys(changed).length === 0 && purged.length === 0) return;
+
+            const previous = new Map(before.map(task => [task.id, task]));
+            const current = new Map(after.map(task => [task.id, task]));
+            for (const [id, fields] of Object.entries(changed)) {
+                if (fields.includes(ALL_FIELDS)) continue;
+                changed[id] = fields.flatMap(field =>
+                    isEntryField(field)
+                        ? entryStampKeys(field, previous.get(id)!, current.get(id)!)
+                        : [field]
+                );
+            }
+
+            listenerApi.dispatch(recordTaskChanges({ at: now(), changed, purged }));
+        }
+    });
+}
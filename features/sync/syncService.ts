@@ -0,0 +1,275 @@
+/**
+ * File: syncService.ts
+ * Description: Request handling of the sync server, free of any HTTP or
+ * platform code: the Node reference server (`server/`) and the in-memory
+ * fake both pass requests straight to it. Every token owns a separate data
+ * space with its own cursor.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isMutation, isObject } from "@/features/backup/schema";
+import {
+    CHANGES_PATH,
+    ErrorResponse,
+    MAX_BATCH,
+    Mutation,
+    MutationResult,
+    MUTATIONS_PATH,
+    PullResponse,
+    PushResponse,
+    RecordValue,
+    ServerRecord
+} from "./protocol";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** A request as received, body still unparsed */
+export type SyncServiceRequest = {
+    method: string;
+    /** Path plus query, e.g. "/v1/changes?since=4" */
+    url: string;
+    /** Value of the Authorization header */
+    authorization?: string | null;
+    body?: string;
+};
+
+export type SyncServiceResponse = {
+    status: number;
+    body: PullResponse | PushResponse | ErrorResponse;
+};
+
+/** Last write of a field (or a deletion), for conflict checks */
+type Write = {
+    revision: number;
+    clientId: string;
+};
+
+/** Server copy of a record plus who wrote what */
+export type StoredRecord = ServerRecord & {
+    writes: Record<string, Write>;
+    /** Set while the record is deleted */
+    deleted?: Write;
+};
+
+/** Data of one token */
+type Space = {
+    cursor: number;
+    records: Map<string, StoredRecord>;
+    /** Results of applied mutations by ID, answered again on a retry */
+    applied: Map<string, MutationResult>;
+};
+
+/** Everything the service holds, per token; see `snapshot` and `restore` */
+export type SyncServiceData = Record<
+    string,
+    { cursor: number; records: StoredRecord[] }
+>;
+
+export type SyncServiceOptions = {
+    /** Accepted bearer tokens */
+    tokens: string[];
+    /** Most records returned by one pull */
+    pageSize?: number;
+    /** Called after a push changed data, e.g. to save it */
+    onChange?: () => void;
+};
+
+export type SyncService = {
+    handle(request: SyncServiceRequest): SyncServiceResponse;
+    snapshot(): SyncServiceData;
+    restore(data: SyncServiceData): void;
+};
+
+//
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
+//
+
+const error = (status: number, message: string): SyncServiceResponse => ({
+    status,
+    body: { error: message }
+});
+
+const toServerRecord = ({ key, value, revision }: StoredRecord): ServerRecord => ({
+    key,
+    value,
+    revision
+});
+
+/**
+ * Whether another client wrote after the mutation's base revision: to one
+ * of its fields (loose ones aside), or anywhere when it deletes or recreates.
+ */
+function conflicts(record: StoredRecord, mutation: Mutation, clientId: string) {
+    const isNewer = (write?: Write) =>
+        write !== undefined &&
+        write.clientId !== clientId &&
+        write.revision > mutation.baseRevision;
+
+    if (record.deleted) return isNewer(record.deleted);
+    if (mutation.fields === null) return Object.values(record.writes).some(isNewer);
+    return Object.keys(mutation.fields)
+        .filter(field => !mutation.looseFields?.includes(field))
+        .some(field => isNewer(record.writes[field]));
+}
+
+/** Applies a mutation that doesn't conflict and returns the new revision */
+function apply(space: Space, mutation: Mutation, clientId: string): number {
+    const revision = ++space.cursor;
+    const write = { revision, clientId };
+    const record = space.records.get(mutation.key);
+
+    if (mutation.fields === null) {
+        space.records.set(mutation.key, {
+            key: mutation.key,
+            value: null,
+            revision,
+            writes: {},
+            deleted: write
+        });
+        return revision;
+    }
+
+    // A deleted record comes back with only the fields sent
+    const live = record && !record.deleted ? record : undefined;
+    const value: RecordValue = { ...(live?.value ?? {}), ...mutation.fields };
+    const writes = { ...(live?.writes ?? {}) };
+    Object.keys(mutation.fields).forEach(field => (writes[field] = write));
+
+    space.records.set(mutation.key, { key: mutation.key, value, revision, writes });
+    return revision;
+}
+
+//
+// ─── SERVICE ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Creates the sync service.
+ *
+ * @param options - Accepted tokens, page size and change callback
+ */
+export function createSyncService({
+    tokens,
+    pageSize = 500,
+    onChange
+}: SyncServiceOptions): SyncService {
+    const emptySpace = (): Space => ({
+        cursor: 0,
+        records: new Map(),
+        applied: new Map()
+    });
+    const spaces = new Map(tokens.map(token => [token, emptySpace()]));
+
+    function pull(space: Space, since: number): SyncServiceResponse {
+        const changed = [...space.records.values()]
+            .filter(record => record.revision > since)
+            .sort((a, b) => a.revision - b.revision);
+        const page = changed.slice(0, pageSize);
+        const hasMore = changed.length > page.length;
+
+        return {
+            status: 200,
+            body: {
+                changes: page.map(toServerRecord),
+                cursor: hasMore ? page[page.length - 1].revision : Math.max(since, space.cursor),
+                hasMore
+            }
+        };
+    }
+
+    function push(space: Space, body: unknown): SyncServiceResponse {
+        if (
+            !isObject(body) ||
+            typeof body.clientId !== "string" ||
+            body.clientId === "" ||
+            !Array.isArray(body.mutations)
+        ) {
+            return error(400, "Expected a clientId and a list of mutations.");
+        }
+        if (body.mutations.length > MAX_BATCH) {
+            return error(413, `At most ${MAX_BATCH} mutations per push.`);
+        }
+
+        const clientId: string = body.clientId;
+        const cursor = space.cursor;
+        const results = (body.mutations as unknown[]).map((mutation, index): MutationResult => {
+            if (!isMutation(mutation)) {
+                const id = isObject(mutation) && typeof mutation.id === "string" ? mutation.id : `#${index}`;
+                return { id, status: "rejected", reason: "Malformed mutation." };
+            }
+
+            const done = space.applied.get(mutation.id);
+            if (done) return done;
+
+            const record = space.records.get(mutation.key);
+            if (record && conflicts(record, mutation, clientId)) {
+                return { id: mutation.id, status: "conflict", current: toServerRecord(record) };
+            }
+
+            const result: MutationResult = {
+                id: mutation.id,
+                status: "applied",
+                revision: apply(space, mutation, clientId)
+            };
+            space.applied.set(mutation.id, result);
+            return result;
+        });
+
+        if (space.cursor !== cursor) onChange?.();
+        return { status: 200, body: { results } };
+    }
+
+    return {
+        handle(request) {
+            const token = request.authorization?.match(/^Bearer (.+)$/)?.[1];
+            const space = token !== undefined ? spaces.get(token) : undefined;
+            if (!space) return error(401, "Unknown token.");
+
+            const url = new URL(request.url, "http://localhost");
+
+            if (request.method === "GET" && url.pathname === CHANGES_PATH) {
+                const since = Number(url.searchParams.get("since") ?? 0);
+                if (!Number.isInteger(since) || since < 0) {
+                    return error(400, "Expected a cursor.");
+                }
+                return pull(space, since);
+            }
+
+            if (request.method === "POST" && url.pathname === MUTATIONS_PATH) {
+                let body: unknown;
+                try {
+                    body = JSON.parse(request.body ?? "");
+                } catch {
+                    return error(400, "Expected a JSON body.");
+                }
+                return push(space, body);
+            }
+
+            return error(404, "Unknown route.");
+        },
+
+        snapshot() {
+            return Object.fromEntries(
+                [...spaces].map(([token, space]) => [
+                    token,
+                    { cursor: space.cursor, records: [...space.records.values()] }
+                ])
+            );
+        },
+
+        /** Data of tokens that are no longer accepted is dropped */
+        restore(data) {
+            for (const [token, saved] of Object.entries(data)) {
+                if (!spaces.has(token)) continue;
+                spaces.set(token, {
+                    cursor: saved.cursor,
+                    records: new Map(saved.records.map(record => [record.key, record])),
+                    applied: new Map()
+                });
+            }
+        }
+    };
+}
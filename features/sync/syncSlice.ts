@@ -0,0 +1,247 @@
+/**
+ * File: syncSlice.ts
+ * Description: Redux slice for device-to-device sync bookkeeping: this device's
+ * ID, when each task field last changed, tombstones of purged tasks and what
+ * each peer has already seen + loading from AsyncStorage.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { createAction, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { v4 as uuid } from "uuid";
+import { STORAGE_KEYS } from "@/constants/storageKeys";
+import { isObject } from "@/features/backup/schema";
+import type { Task } from "@/features/todo/todoSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * When and where a change was made. Stamps are ordered by time, then device
+ * ID, so every device picks the same winner; `seq` counts the changes made
+ * on `device` and tells which ones a peer has already seen.
+ */
+export type Stamp = {
+    /** ISO timestamp of the change */
+    at: string;
+    device: string;
+    seq: number;
+};
+
+/** Latest stamp per task field; `ALL_FIELDS` covers fields without their own */
+export type FieldStamps = Partial<Record<string, Stamp>>;
+
+/** Highest `seq` merged per device (a version vector) */
+export type SyncClock = Record<string, number>;
+
+/** What we know about another device */
+export type SyncPeer = {
+    /** The peer's clock from its last bundle we imported */
+    clock: SyncClock;
+    /** ISO timestamp of that import */
+    syncedAt: string;
+};
+
+/** Sync slice state */
+export type SyncState = {
+    /** Generated on first launch; "" until loaded */
+    deviceId: string;
+    /** Changes made on this device so far */
+    seq: number;
+    /** Field stamps per task ID */
+    stamps: Record<string, FieldStamps>;
+    /** Purged tasks by ID; a trashed task is just a `deletedAt` change */
+    tombstones: Record<string, Stamp>;
+    clock: SyncClock;
+    peers: Record<string, SyncPeer>;
+};
+
+/** Task changes made by one action */
+export type TaskChanges = {
+    /** ISO timestamp of the action */
+    at: string;
+    /** Changed fields per task ID; `[ALL_FIELDS]` for a new task */
+    changed: Record<string, string[]>;
+    /** IDs of tasks that left the list */
+    purged: string[];
+};
+
+/** Outcome of merging a bundle, applied to tasks and sync state at once */
+export type SyncMerge = {
+    tasks: Task[];
+    sync: SyncState;
+};
+
+//
+// ─── INITIAL STATE ─────────────────────────────────────────────────────────────
+//
+
+/** Stamp key standing for every field, so a new task needs a single stamp */
+export const ALL_FIELDS = "*";
+
+/** Stamp of one field of a task */
+export const stampOf = (stamps: FieldStamps, field: string) =>
+    stamps[field] ?? stamps[ALL_FIELDS];
+
+/**
+ * Fields stamped and merged entry by entry, so changes to different
+ * occurrences or checklist steps on two devices both survive a merge.
+ */
+export const ENTRY_FIELDS = ["occurrenceCompletions", "subtasks"] as const;
+
+export type EntryField = (typeof ENTRY_FIELDS)[number];
+
+export const isEntryField = (field: string): field is EntryField =>
+    (ENTRY_FIELDS as readonly string[]).includes(field);
+
+/** Stamp key of one entry: an occurrence day or a subtask ID */
+export const entryKey = (field: EntryField, key: string) => `${field}:${key}`;
+
+/** Stamp key of the subtask order, which is merged apart from the subtasks */
+export const SUBTASK_ORDER = "subtasks:order";
+
+/** Entries of a field by key: completions by day, subtasks by ID */
+export function fieldEntries(task: Task, field: EntryField): Map<string, unknown> {
+    return field === "subtasks"
+        ? new Map((task.subtasks ?? []).map(subtask => [subtask.id, subtask]))
+        : new Map(Object.entries(task.occurrenceCompletions ?? {}));
+}
+
+const initialState: SyncState = {
+    deviceId: "",
+    seq: 0,
+    stamps: {},
+    tombstones: {},
+    clock: {},
+    peers: {}
+};
+
+/** Replaces the task list and sync state with a merge result (see `mergeSyncBundle`) */
+export const applySyncMerge = createAction<SyncMerge>("sync/applyMerge");
+
+//
+// ─── REDUX SLICE ───────────────────────────────────────────────────────────────
+//
+
+const syncSlice = createSlice({
+    name: "sync",
+    initialState,
+    reducers: {
+        /** Restore the sync state read from storage */
+        loadSync(_state, action: PayloadAction<SyncState>) {
+            return action.payload;
+        },
+
+        /**
+         * Stamp the fields an action changed and keep tombstones for purged
+         * tasks. Ignored until the device ID is loaded.
+         */
+        recordTaskChanges(state, action: PayloadAction<TaskChanges>) {
+            const { at, changed, purged } = action.payload;
+            if (!state.deviceId) return;
+
+            state.seq += 1;
+            state.clock[state.deviceId] = state.seq;
+            const stamp: Stamp = { at, device: state.deviceId, seq: state.seq };
+
+            for (const [id, fields] of Object.entries(changed)) {
+                if (fields.includes(ALL_FIELDS)) state.stamps[id] = {};
+                const stamps = (state.stamps[id] = state.stamps[id] ?? {});
+                fields.forEach(field => (stamps[field] = stamp));
+                // Back in the list, e.g. after undoing a purge
+                delete state.tombstones[id];
+            }
+            for (const id of purged) {
+                delete state.stamps[id];
+                state.tombstones[id] = stamp;
+            }
+        }
+    },
+    extraReducers: builder => {
+        builder.addCase(applySyncMerge, (_state, action) => action.payload.sync);
+    }
+});
+
+//
+// ─── EXPORTS ───────────────────────────────────────────────────────────────────
+//
+
+export const { loadSync, recordTaskChanges } = syncSlice.actions;
+
+export default syncSlice.reducer;
+
+//
+// ─── ASYNCSTORAGE HELPERS ──────────────────────────────────────────────────────
+//
+
+/** A stamp as stored or received in a bundle */
+export const isStamp = (value: unknown): value is Stamp =>
+    isObject(value) &&
+    typeof value.at === "string" &&
+    !Number.isNaN(Date.parse(value.at)) &&
+    typeof value.device === "string" &&
+    value.device !== "" &&
+    typeof value.seq === "number" &&
+    Number.isInteger(value.seq) &&
+    value.seq > 0;
+
+/** A version vector as stored or received in a bundle */
+export const isClock = (value: unknown): value is SyncClock =>
+    isObject(value) &&
+    Object.values(value).every(
+        count => typeof count === "number" && Number.isInteger(count) && count >= 0
+    );
+
+const isPeer = (value: unknown): value is SyncPeer =>
+    isObject(value) && isClock(value.clock) && typeof value.syncedAt === "string";
+
+/** Entries of a stored map that pass `isValid`; anything else gives an empty map */
+function validEntries<T>(value: unknown, isValid: (entry: unknown) => entry is T): Record<string, T> {
+    const valid: Record<string, T> = {};
+    if (isObject(value)) {
+        for (const [key, entry] of Object.entries(value)) {
+            if (isValid(entry)) valid[key] = entry;
+        }
+    }
+    return valid;
+}
+
+/**
+ * Load the sync state from AsyncStorage. The first launch gets a new device
+ * ID; unreadable state starts over with a new one, which makes the next
+ * bundle a full one. Malformed stamps, tombstones and peers are dropped.
+ */
+export async function loadSyncFromStorage(): Promise<SyncState> {
+    const fresh = (): SyncState => ({ ...initialState, deviceId: uuid() });
+    try {
+        const json = await AsyncStorage.getItem(STORAGE_KEYS.SYNC);
+        const stored: unknown = json ? JSON.parse(json) : null;
+        if (!isObject(stored) || typeof stored.deviceId !== "string" || !stored.deviceId) {
+            return fresh();
+        }
+
+        const stamps: Record<string, FieldStamps> = {};
+        if (isObject(stored.stamps)) {
+            for (const [id, fields] of Object.entries(stored.stamps)) {
+                stamps[id] = validEntries(fields, isStamp);
+            }
+        }
+
+        return {
+            deviceId: stored.deviceId,
+            seq:
+                typeof stored.seq === "number" && Number.isInteger(stored.seq) && stored.seq >= 0
+                    ? stored.seq
+                    : 0,
+            stamps,
+            tombstones: validEntries(stored.tombstones, isStamp),
+            clock: isClock(stored.clock) ? stored.clock : {},
+            peers: validEntries(stored.peers, isPeer)
+        };
+    } catch (err) {
+        console.error("Error loading sync state:", err);
+        return fresh();
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * File: syncTransport.ts
+ * Description: Client side of the sync protocol's HTTP binding. The fetch
+ * function is injectable, so tests can route requests to the in-memory fake
+ * instead of the network.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { isObject, isPullResponse, isPushResponse } from "@/features/backup/schema";
+import {
+    CHANGES_PATH,
+    MUTATIONS_PATH,
+    PullResponse,
+    PushRequest,
+    PushResponse
+} from "./protocol";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** The part of `fetch` the transport uses */
+export type FetchLike = (
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+/** Talks to one sync server with one token */
+export type SyncTransport = {
+    pull(since: number): Promise<PullResponse>;
+    push(request: PushRequest): Promise<PushResponse>;
+};
+
+/** Where the user can reach the server, and as whom */
+export type ServerConfig = {
+    serverUrl: string;
+    token: string;
+};
+
+/**
+ * A request that didn't go through. `reason` tells the client whether to
+ * keep the queue for later ("offline") or to ask the user to fix the setup.
+ */
+export class SyncTransportError extends Error {
+    reason: "offline" | "unauthorized" | "server";
+
+    constructor(reason: "offline" | "unauthorized" | "server", message: string) {
+        super(message);
+        this.name = "SyncTransportError";
+        this.reason = reason;
+    }
+}
+
+//
+// ─── HTTP ──────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Creates a transport that sends requests over HTTP(S).
+ *
+ * @param config - Server URL (without the `/v1` path) and token
+ * @param fetchFn - Replaceable in tests
+ */
+export function createHttpTransport(
+    { serverUrl, token }: ServerConfig,
+    fetchFn: FetchLike = fetch
+): SyncTransport {
+    const base = serverUrl.replace(/\/+$/, "");
+
+    /**
+     * Sends one request and checks the shape of the answer, so nothing the
+     * server sends reaches the store unchecked.
+     */
+    async function request<T>(
+        method: string,
+        path: string,
+        isAnswer: (value: unknown) => value is T,
+        body?: unknown
+    ): Promise<T> {
+        let response: Awaited<ReturnType<FetchLike>>;
+        try {
+            response = await fetchFn(base + path, {
+                method,
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    "Content-Type": "application/json"
+                },
+                body: body === undefined ? undefined : JSON.stringify(body)
+            });
+        } catch {
+            throw new SyncTransportError("offline", "The sync server can't be reached.");
+        }
+
+        if (response.status === 401) {
+            throw new SyncTransportError("unauthorized", "The sync server didn't accept the token.");
+        }
+        const json: unknown = await response.json().catch(() => null);
+        if (!response.ok) {
+            throw new SyncTransportError(
+                "server",
+                isObject(json) && typeof json.error === "string"
+                    ? json.error
+                    : `The sync server answered with status ${response.status}.`
+            );
+        }
+        if (!isAnswer(json)) {
+            throw new SyncTransportError("server", "The sync server sent an answer BrainDesk can't read.");
+        }
+        return json;
+    }
+
+    return {
+        pull: since => request("GET", `${CHANGES_PATH}?since=${since}`, isPullResponse),
+        push: body => request("POST", MUTATIONS_PATH, isPushResponse, body)
+    };
+}
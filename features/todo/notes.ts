@@ -0,0 +1,362 @@
+/**
+ * File: notes.ts
+ * Description: Parser for the Markdown subset task notes support: headings,
+ * bullet, numbered and checkbox lists, bold, italic, inline code and links.
+ * Notes are parsed into plain data and laid out as styled runs of text that
+ * `NotesView` maps onto Text components, so no HTML is ever produced and only
+ * web and mail links become tappable.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Formatted run of text inside a block */
+export type InlineNode =
+    | { type: "text"; text: string }
+    | { type: "bold"; children: InlineNode[] }
+    | { type: "italic"; children: InlineNode[] }
+    | { type: "code"; text: string }
+    | { type: "link"; href: string; children: InlineNode[] };
+
+/** One entry of a list */
+export type ListItem = {
+    content: InlineNode[];
+    /** Checkbox state; null for a plain item */
+    checked: boolean | null;
+    /** Number shown for a numbered item; null for a bullet */
+    number: number | null;
+    /** Nesting level from the indentation, 0 for top-level items */
+    depth: number;
+};
+
+/** Top-level piece of a note */
+export type NoteBlock =
+    | { type: "heading"; level: 1 | 2 | 3; content: InlineNode[] }
+    | { type: "paragraph"; content: InlineNode[] }
+    | { type: "list"; ordered: boolean; items: ListItem[] };
+
+/** Text with the formatting of every node around it */
+export type TextRun = {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    /** Target opened on tap; null outside links */
+    href: string | null;
+};
+
+/** What a list item shows before its text */
+export type ListMarker =
+    | { type: "checkbox"; checked: boolean }
+    | { type: "text"; text: string };
+
+/** Block of notes as shown: headings, paragraphs and list items as runs */
+export type NoteView =
+    | { type: "heading"; level: 1 | 2 | 3; runs: TextRun[] }
+    | { type: "paragraph"; runs: TextRun[] }
+    | {
+          type: "list";
+          items: { marker: ListMarker; depth: number; done: boolean; runs: TextRun[] }[];
+      };
+
+//
+// ─── CONSTANTS ─────────────────────────────────────────────────────────────────
+//
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^(\s*)[-*+]\s+(.*)$/;
+const NUMBERED = /^(\s*)(\d{1,9})[.)]\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+
+/** Characters a backslash makes literal */
+const ESCAPABLE = "\\`*_[]()#+-.!";
+
+/** Link targets that may be opened; anything else stays plain text */
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+//
+// ─── INLINE ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Link target if it's safe to open: http(s) and mailto only, so notes can't
+ * launch app schemes or `javascript:` URLs.
+ *
+ * @param href - Target as written in the note
+ * @returns Target, or null when it must not be opened
+ */
+export function safeHref(href: string): string | null {
+    const trimmed = href.trim();
+    return SAFE_LINK.test(trimmed) ? trimmed : null;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /\w/.test(char);
+
+/**
+ * Parses inline formatting. Markers without a matching closer are kept as
+ * text, so half-typed notes still read naturally.
+ *
+ * @param source - Text of one block
+ */
+export function parseInline(source: string): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    let text = "";
+    let i = 0;
+
+    const push = (node: InlineNode) => {
+        if (text) nodes.push({ type: "text", text });
+        text = "";
+        nodes.push(node);
+    };
+
+    while (i < source.length) {
+        const char = source[i];
+        const rest = source.slice(i);
+        let match: RegExpExecArray | null;
+
+        if (char === "\\" && ESCAPABLE.includes(source[i + 1] ?? "")) {
+            text += source[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === "`" && (match = /^`([^`]+)`/.exec(rest))) {
+            push({ type: "code", text: match[1] });
+        } else if ((match = /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/.exec(rest))) {
+            push({ type: "bold", children: parseInline(match[2]) });
+        } else if (
+            (match =
+                /^\*(?=\S)([^*]*?\S)\*/.exec(rest) ??
+                (isWordChar(source[i - 1]) ? null : /^_(?=\S)([^_]*?\S)_(?!\w)/.exec(rest)))
+        ) {
+            push({ type: "italic", children: parseInline(match[1]) });
+        } else if ((match = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest))) {
+            const href = safeHref(match[2]);
+            const children = parseInline(match[1]);
+            if (href) {
+                push({ type: "link", href, children });
+            } else {
+                // Unsafe target: keep the label, drop the link
+                children.forEach(push);
+            }
+        } else if (
+            !isWordChar(source[i - 1]) &&
+            (match = /^https?:\/\/[^\s<>()]+/.exec(rest))
+        ) {
+            // Bare URL; punctuation ending a sentence isn't part of it
+            const href = match[0].replace(/[.,;:!?'"]+$/, "");
+            push({ type: "link", href, children: [{ type: "text", text: href }] });
+            i += href.length;
+            continue;
+        } else {
+            text += char;
+            i++;
+            continue;
+        }
+        i += match[0].length;
+    }
+
+    if (text) nodes.push({ type: "text", text });
+    return mergeText(nodes);
+}
+
+/** Joins neighbouring text nodes left by escapes and dropped links */
+function mergeText(nodes: InlineNode[]): InlineNode[] {
+    const merged: InlineNode[] = [];
+    for (const node of nodes) {
+        const last = merged[merged.length - 1];
+        if (node.type === "text" && last?.type === "text") {
+            merged[merged.length - 1] = { type: "text", text: last.text + node.text };
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+}
+
+//
+// ─── BLOCKS ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Parses notes into blocks. Blank lines separate blocks; lines of a paragraph
+ * keep their line breaks. Indentation nests list items (two spaces or a tab
+ * per level). Anything the subset doesn't cover, such as HTML or tables, is
+ * shown as text.
+ *
+ * @param notes - Notes as typed
+ */
+export function parseNotes(notes: string): NoteBlock[] {
+    const blocks: NoteBlock[] = [];
+    let paragraph: string[] = [];
+    let list: Extract<NoteBlock, { type: "list" }> | null = null;
+    let counters: number[] = []; // Last number per nesting level
+
+    const endParagraph = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ type: "paragraph", content: parseInline(paragraph.join("\n")) });
+        }
+        paragraph = [];
+    };
+
+    for (const line of notes.replace(/\t/g, "  ").split(/\r?\n/)) {
+        if (!line.trim()) {
+            endParagraph();
+            list = null;
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            endParagraph();
+            list = null;
+            blocks.push({
+                type: "heading",
+                level: Math.min(heading[1].length, 3) as 1 | 2 | 3,
+                content: parseInline(heading[2])
+            });
+            continue;
+        }
+
+        const numbered = NUMBERED.exec(line);
+        const bullet = numbered ? null : BULLET.exec(line);
+        if (numbered || bullet) {
+            endParagraph();
+            const ordered = !!numbered;
+            const [indent, body] = numbered
+                ? [numbered[1], numbered[3]]
+                : [bullet![1], bullet![2]];
+
+            // A nested item may switch between bullets and numbers
+            if (!list || (list.ordered !== ordered && indent.length === 0)) {
+                list = { type: "list", ordered, items: [] };
+                blocks.push(list);
+                counters = [];
+            }
+
+            // Numbering continues from the previous item on the same level
+            const depth = Math.floor(indent.length / 2);
+            counters = counters.slice(0, depth + 1);
+            const number = numbered
+                ? counters[depth] !== undefined
+                    ? counters[depth] + 1
+                    : Number(numbered[2])
+                : null;
+            if (number !== null) counters[depth] = number;
+            else delete counters[depth];
+
+            const checkbox = CHECKBOX.exec(body);
+            list.items.push({
+                content: parseInline(checkbox ? checkbox[2] : body),
+                checked: checkbox ? checkbox[1] !== " " : null,
+                number,
+                depth
+            });
+            continue;
+        }
+
+        list = null;
+        paragraph.push(line.trim());
+    }
+
+    endParagraph();
+    return blocks;
+}
+
+//
+// ─── PLAIN TEXT ────────────────────────────────────────────────────────────────
+//
+
+/** Text of inline nodes without formatting */
+export const inlineToText = (nodes: InlineNode[]): string =>
+    nodes
+        .map(node =>
+            node.type === "text" || node.type === "code"
+                ? node.text
+                : inlineToText(node.children)
+        )
+        .join("");
+
+/**
+ * Notes as plain text without Markdown markers, one line per block or item,
+ * e.g. for a one-line preview or screen readers.
+ *
+ * @param blocks - Parsed notes
+ */
+export function notesToPlainText(blocks: NoteBlock[]): string {
+    return blocks
+        .flatMap(block => {
+            if (block.type !== "list") return [inlineToText(block.content)];
+            return block.items.map(item => {
+                const marker = listMarker(item);
+                const text =
+                    marker.type === "text" ? marker.text : marker.checked ? "☑" : "☐";
+                return `${"  ".repeat(item.depth)}${text} ${inlineToText(item.content)}`;
+            });
+        })
+        .join("\n");
+}
+
+//
+// ─── VIEW ──────────────────────────────────────────────────────────────────────
+//
+
+/** Checkbox, number or bullet shown before a list item */
+export const listMarker = (item: ListItem): ListMarker =>
+    item.checked !== null
+        ? { type: "checkbox", checked: item.checked }
+        : { type: "text", text: item.number !== null ? `${item.number}.` : "•" };
+
+/**
+ * Flattens inline nodes into runs of text, each carrying the formatting and
+ * link of the nodes around it, so a bold word inside a link stays tappable.
+ *
+ * @param nodes - Parsed inline nodes
+ * @param style - Formatting of the nodes around them
+ */
+export function textRuns(
+    nodes: InlineNode[],
+    style: Omit<TextRun, "text"> = { bold: false, italic: false, code: false, href: null }
+): TextRun[] {
+    return nodes.flatMap(node => {
+        switch (node.type) {
+            case "text":
+                return [{ ...style, text: node.text }];
+            case "code":
+                return [{ ...style, code: true, text: node.text }];
+            case "bold":
+                return textRuns(node.children, { ...style, bold: true });
+            case "italic":
+                return textRuns(node.children, { ...style, italic: true });
+            case "link":
+                return textRuns(node.children, { ...style, href: node.href });
+        }
+    });
+}
+
+/**
+ * Lays notes out for display: headings keep their level, list items get
+ * their marker and indentation, and checked items are marked done.
+ *
+ * @param notes - Notes as typed
+ */
+export function layoutNotes(notes: string): NoteView[] {
+    return parseNotes(notes).map(block =>
+        block.type === "list"
+            ? {
+                  type: "list",
+                  items: block.items.map(item => ({
+                      marker: listMarker(item),
+                      depth: item.depth,
+                      done: item.checked === true,
+                      runs: textRuns(item.content)
+                  }))
+              }
+            : block.type === "heading"
+              ? { type: "heading", level: block.level, runs: textRuns(block.content) }
+              : { type: "paragraph", runs: textRuns(block.content) }
+    );
+}
@@ -0,0 +1,310 @@
+/**
+ * File: recurrence.ts
+ * Description: Recurrence rules for repeating tasks and expansion of a series
+ * into per-day occurrences.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import type { Task } from "./todoSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** How often a series repeats */
+export type RecurrenceFrequency =
+    | "daily"
+    | "weekdays"
+    | "weekly"
+    | "interval"
+    | "monthly";
+
+/**
+ * Repeat rule stored on a task. The series starts on the task's `dueDate`.
+ */
+export type RecurrenceRule = {
+    frequency: RecurrenceFrequency;
+    /** "interval" only: repeat every N days */
+    interval?: number;
+    /** "weekly" only: days of week, 0 = Sunday … 6 = Saturday */
+    weekdays?: number[];
+    /** "monthly" only: day of month, clamped to the month's last day */
+    dayOfMonth?: number;
+    /** Last day the series may occur on ("YYYY-MM-DD"), inclusive */
+    endDate?: string | null;
+    /** Maximum number of occurrences, including skipped ones */
+    count?: number | null;
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+    "daily",
+    "weekdays",
+    "weekly",
+    "interval",
+    "monthly"
+];
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Safety limit when walking a series day by day */
+const MAX_SCAN_DAYS = 366 * 10;
+
+//
+// ─── VALIDATION ────────────────────────────────────────────────────────────────
+//
+
+const isPositiveInt = (v: unknown): v is number =>
+    typeof v === "number" && Number.isInteger(v) && v > 0;
+
+/**
+ * Validates a recurrence rule read from storage or a backup file.
+ *
+ * @param raw - Untrusted value
+ * @returns A well-formed rule, or null if the value is not a usable rule
+ */
+export function sanitizeRecurrence(raw: unknown): RecurrenceRule | null {
+    if (!raw || typeof raw !== "object") return null;
+
+    const r = raw as Record<string, unknown>;
+    if (!FREQUENCIES.includes(r.frequency as RecurrenceFrequency)) return null;
+
+    const rule: RecurrenceRule = {
+        frequency: r.frequency as RecurrenceFrequency
+    };
+
+    if (rule.frequency === "interval") {
+        if (!isPositiveInt(r.interval)) return null;
+        rule.interval = r.interval;
+    }
+
+    if (rule.frequency === "weekly") {
+        const days = Array.isArray(r.weekdays)
+            ? r.weekdays.filter(
+                  (d): d is number => Number.isInteger(d) && d >= 0 && d <= 6
+              )
+            : [];
+        if (days.length === 0) return null;
+        rule.weekdays = Array.from(new Set(days)).sort();
+    }
+
+    if (rule.frequency === "monthly") {
+        if (!isPositiveInt(r.dayOfMonth) || r.dayOfMonth > 31) return null;
+        rule.dayOfMonth = r.dayOfMonth;
+    }
+
+    if (typeof r.endDate === "string" && dayjs(r.endDate).isValid()) {
+        rule.endDate = r.endDate;
+    }
+
+    if (isPositiveInt(r.count)) {
+        rule.count = r.count;
+    }
+
+    return rule;
+}
+
+//
+// ─── MATCHING ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Checks whether a day matches the rule pattern, ignoring end date and count.
+ */
+function matchesPattern(
+    rule: RecurrenceRule,
+    start: dayjs.Dayjs,
+    day: dayjs.Dayjs
+): boolean {
+    switch (rule.frequency) {
+        case "daily":
+            return true;
+        case "weekdays":
+            return day.day() >= 1 && day.day() <= 5;
+        case "weekly":
+            return (rule.weekdays ?? [start.day()]).includes(day.day());
+        case "interval":
+            return day.diff(start, "day") % (rule.interval ?? 1) === 0;
+        case "monthly": {
+            const target = Math.min(
+                rule.dayOfMonth ?? start.date(),
+                day.daysInMonth()
+            );
+            return day.date() === target;
+        }
+    }
+}
+
+/**
+ * Position of a pattern day in the series, counted from 1 at the first
+ * occurrence on or after the start. Computed from the calendar, so a
+ * count-limited series doesn't walk every day since its start on each check.
+ */
+function occurrenceNumber(
+    rule: RecurrenceRule,
+    start: dayjs.Dayjs,
+    day: dayjs.Dayjs
+): number {
+    const days = day.diff(start, "day") + 1;
+
+    switch (rule.frequency) {
+        case "daily":
+            return days;
+        case "interval":
+            return Math.floor((days - 1) / (rule.interval ?? 1)) + 1;
+        case "weekdays":
+        case "weekly": {
+            // Whole weeks hold each pattern weekday once; the rest is under a week
+            const perWeek =
+                rule.frequency === "weekdays" ? 5 : (rule.weekdays ?? [start.day()]).length;
+            let number = Math.floor(days / 7) * perWeek;
+            for (let i = 0; i < days % 7; i++) {
+                if (matchesPattern(rule, start, start.add(i, "day"))) number++;
+            }
+            return number;
+        }
+        case "monthly": {
+            const months = day.diff(start.startOf("month"), "month") + 1;
+            const first = Math.min(rule.dayOfMonth ?? start.date(), start.daysInMonth());
+            // The start month only counts if its occurrence isn't before the start
+            return first >= start.date() ? months : months - 1;
+        }
+    }
+}
+
+/**
+ * Returns true if the series produces an occurrence on the given day,
+ * before excluded dates are taken into account.
+ */
+function isSeriesDay(rule: RecurrenceRule, startDate: string, date: string) {
+    const start = dayjs(startDate);
+    const day = dayjs(date);
+
+    if (day.isBefore(start, "day")) return false;
+    if (rule.endDate && day.isAfter(rule.endDate, "day")) return false;
+    if (!matchesPattern(rule, start, day)) return false;
+
+    if (rule.count && occurrenceNumber(rule, start, day) > rule.count) return false;
+
+    return true;
+}
+
+/**
+ * Checks whether a task is planned for a given day.
+ * One-off tasks match on their due date; series match their rule.
+ *
+ * @param task - Task or series
+ * @param date - Day to check ("YYYY-MM-DD")
+ * @returns True if the task has an occurrence on that day
+ */
+export function occursOn(task: Task, date: string): boolean {
+    if (!task.recurrence) return task.dueDate === date;
+    if (task.excludedDates?.includes(date)) return false;
+    return isSeriesDay(task.recurrence, task.dueDate, date);
+}
+
+//
+// ─── EXPANSION ─────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Builds the view of one occurrence of a series: the due date becomes the
+ * occurrence day and completion is read from `occurrenceCompletions`.
+ *
+ * @param task - Recurring task
+ * @param date - Occurrence day ("YYYY-MM-DD")
+ * @returns Task-shaped occurrence
+ */
+export function toOccurrence(task: Task, date: string): Task {
+    const completedAt = task.occurrenceCompletions?.[date] ?? null;
+    return {
+        ...task,
+        dueDate: date,
+        completed: completedAt !== null,
+        completedAt
+    };
+}
+
+/**
+ * Expands all tasks into the occurrences planned for one day.
+ * Deleted tasks are skipped.
+ *
+ * @param tasks - All tasks from the store
+ * @param date - Day to expand ("YYYY-MM-DD")
+ * @returns One-off tasks due that day plus one occurrence per matching series
+ */
+export function expandTasksForDay(tasks: Task[], date: string): Task[] {
+    return tasks
+        .filter(task => !task.deletedAt && occursOn(task, date))
+        .map(task => (task.recurrence ? toOccurrence(task, date) : task));
+}
+
+/**
+ * Lists the days a task occurs on within an inclusive date range.
+ *
+ * @param task - Task or series
+ * @param from - First day of the range ("YYYY-MM-DD")
+ * @param to - Last day of the range ("YYYY-MM-DD")
+ * @returns Occurrence days in ascending order
+ */
+export function getOccurrenceDates(
+    task: Task,
+    from: string,
+    to: string
+): string[] {
+    const dates: string[] = [];
+    let cursor = dayjs(from);
+    const end = dayjs(to);
+
+    for (let i = 0; i <= MAX_SCAN_DAYS && !cursor.isAfter(end, "day"); i++) {
+        const date = cursor.format("YYYY-MM-DD");
+        if (occursOn(task, date)) dates.push(date);
+        cursor = cursor.add(1, "day");
+    }
+
+    return dates;
+}
+
+//
+// ─── DISPLAY ───────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Describes a rule in a short human-readable form, e.g. "Every Mon, Wed, Fri".
+ *
+ * @param rule - Recurrence rule
+ * @returns Label for task rows and the editor
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+    let label: string;
+
+    switch (rule.frequency) {
+        case "daily":
+            label = "Daily";
+            break;
+        case "weekdays":
+            label = "Weekdays";
+            break;
+        case "weekly":
+            label = `Every ${(rule.weekdays ?? [])
+                .map(d => WEEKDAY_LABELS[d])
+                .join(", ")}`;
+            break;
+        case "interval":
+            label =
+                rule.interval === 1 ? "Daily" : `Every ${rule.interval} days`;
+            break;
+        case "monthly":
+            label = `Monthly on day ${rule.dayOfMonth}`;
+            break;
+    }
+
+    if (rule.endDate) {
+        label += ` until ${dayjs(rule.endDate).format("MMM D")}`;
+    } else if (rule.count) {
+        label += `, ${rule.count} times`;
+    }
+
+    return label;
+}
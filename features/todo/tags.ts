@@ -0,0 +1,98 @@
+/**
+ * File: tags.ts
+ * Description: Free-form tags a task can carry next to its subject
+ * ("exam", "homework", "group-project"). Tags aren't registered anywhere:
+ * the known tags are the ones tasks use, so renaming or deleting one means
+ * changing every task that has it (see `renameTag`/`deleteTag`).
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import type { Task } from "./todoSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** How a multi-tag filter matches: at least one tag, or every tag */
+export type TagMatch = "any" | "all";
+
+/** A tag and how many tasks carry it */
+export type TagUsage = {
+    tag: string;
+    count: number;
+};
+
+//
+// ─── NORMALIZING ───────────────────────────────────────────────────────────────
+//
+
+/**
+ * Canonical form of a tag: lower case, no leading `#`/`+`, spaces as
+ * hyphens, so "Group Project" and "group-project" are the same tag.
+ *
+ * @param raw - Tag as typed or read from a file
+ * @returns Tag, or "" if nothing is left
+ */
+export const normalizeTag = (raw: string): string =>
+    raw
+        .trim()
+        .replace(/^[#+]+/, "")
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, "-");
+
+/**
+ * Normalized tags without empties and repeats, in their original order.
+ *
+ * @param raw - Tags as typed or read from a file
+ */
+export function sanitizeTags(raw: string[]): string[] {
+    const tags: string[] = [];
+    for (const value of raw) {
+        const tag = normalizeTag(value);
+        if (tag && !tags.includes(tag)) tags.push(tag);
+    }
+    return tags;
+}
+
+//
+// ─── LOOKUP ────────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Tags in use, alphabetically. Trashed tasks count too, since renaming or
+ * deleting a tag changes them as well.
+ *
+ * @param tasks - All tasks (`todo.tasks`)
+ */
+export function collectTags(tasks: Task[]): TagUsage[] {
+    const counts = new Map<string, number>();
+    for (const task of tasks) {
+        for (const tag of task.tags ?? []) {
+            counts.set(tag, (counts.get(tag) ?? 0) + 1);
+        }
+    }
+    return [...counts]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Whether a task passes a tag filter. No selected tags lets every task pass.
+ *
+ * @param task - Task or occurrence
+ * @param selected - Tags picked in the filter
+ * @param match - "any": one selected tag is enough; "all": every one is needed
+ */
+export function matchesTags(
+    task: Task,
+    selected: string[],
+    match: TagMatch
+): boolean {
+    if (selected.length === 0) return true;
+    const tags = task.tags ?? [];
+    return match === "all"
+        ? selected.every(tag => tags.includes(tag))
+        : selected.some(tag => tags.includes(tag));
+}
@@ -0,0 +1,194 @@
+/**
+ * File: timeTracking.ts
+ * Description: Estimates vs actual time per task, planned load per day and
+ * per-subject time aggregates. Actual time is manual entries plus focus
+ * sessions linked to the task.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import dayjs from "dayjs";
+import { Task } from "./todoSlice";
+import { getOccurrenceDates } from "./recurrence";
+import type { FocusSession } from "@/features/focus/focusTimer";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Planned vs tracked time for one day */
+export type DayLoad = {
+    /** Sum of estimates of everything due that day */
+    planned: number;
+    /** Estimated tasks due that day that aren't done yet */
+    remaining: number;
+    /** Minutes tracked against tasks due that day */
+    tracked: number;
+    /** Tasks due that day without an estimate */
+    unestimated: number;
+};
+
+/** Estimated vs tracked minutes for one subject */
+export type SubjectTime = {
+    subjectId: string;
+    estimated: number;
+    actual: number;
+};
+
+/** Converts a timestamp into the local day it falls on */
+type DayResolver = (timestamp: string) => string;
+
+/** Planned minutes a day can hold before it counts as over-scheduled */
+export const DAILY_CAPACITY_MINUTES = 6 * 60;
+
+const toLocalDay: DayResolver = timestamp => dayjs(timestamp).format("YYYY-MM-DD");
+
+//
+// ─── PER TASK ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Minutes tracked against a task: manual entries plus linked focus sessions.
+ * For a series pass the occurrence day so only time logged on that day counts.
+ *
+ * @param task - Task, or the series behind an occurrence
+ * @param sessions - Logged focus sessions
+ * @param day - Occurrence day ("YYYY-MM-DD"), series only
+ * @param toDay - Timestamp → local day conversion
+ */
+export function getActualMinutes(
+    task: Task,
+    sessions: FocusSession[],
+    day?: string,
+    toDay: DayResolver = toLocalDay
+): number {
+    const counts = (timestamp: string) =>
+        !task.recurrence || !day || toDay(timestamp) === day;
+
+    let minutes = 0;
+    for (const entry of task.timeEntries ?? []) {
+        if (counts(entry.loggedAt)) minutes += entry.minutes;
+    }
+    for (const session of sessions) {
+        if (session.taskId === task.id && counts(session.startedAt)) {
+            minutes += session.duration / 60;
+        }
+    }
+    return minutes;
+}
+
+/**
+ * Planned and tracked time for the tasks due on one day.
+ *
+ * @param dayTasks - Tasks and occurrences due that day (`expandTasksForDay`)
+ * @param sessions - Logged focus sessions
+ * @param toDay - Timestamp → local day conversion
+ */
+export function getDayLoad(
+    dayTasks: Task[],
+    sessions: FocusSession[],
+    toDay: DayResolver = toLocalDay
+): DayLoad {
+    const load: DayLoad = { planned: 0, remaining: 0, tracked: 0, unestimated: 0 };
+
+    for (const task of dayTasks) {
+        const estimate = task.estimateMinutes ?? 0;
+        if (estimate > 0) {
+            load.planned += estimate;
+            if (!task.completed) load.remaining += estimate;
+        } else {
+            load.unestimated++;
+        }
+        load.tracked += getActualMinutes(task, sessions, task.dueDate, toDay);
+    }
+
+    return load;
+}
+
+/**
+ * Whether a day holds more planned work than fits.
+ */
+export function isOverScheduled(
+    load: DayLoad,
+    capacity = DAILY_CAPACITY_MINUTES
+): boolean {
+    return load.planned > capacity;
+}
+
+/**
+ * Formats minutes as "45m", "2h" or "1h 30m".
+ */
+export function formatMinutes(minutes: number): string {
+    const total = Math.round(minutes);
+    const hours = Math.floor(total / 60);
+    const rest = total % 60;
+    if (hours === 0) return `${rest}m`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+//
+// ─── PER SUBJECT ───────────────────────────────────────────────────────────────
+//
+
+/**
+ * Estimated vs tracked minutes per subject within a range, for weekly review.
+ * Estimates count on the days tasks are due; tracked time counts on the day it
+ * was logged. Sessions without a task use their own subject. Trashed tasks
+ * are ignored.
+ *
+ * @param tasks - All tasks (`todo.tasks`)
+ * @param sessions - Logged focus sessions
+ * @param range - Inclusive day range ("YYYY-MM-DD")
+ * @param toDay - Timestamp → local day conversion
+ * @returns Subjects with any time, most tracked first
+ */
+export function selectSubjectTime(
+    tasks: Task[],
+    sessions: FocusSession[],
+    range: { from: string; to: string },
+    toDay: DayResolver = toLocalDay
+): SubjectTime[] {
+    const subjects = new Map<string, SubjectTime>();
+    const entry = (subjectId: string) => {
+        if (!subjects.has(subjectId)) {
+            subjects.set(subjectId, { subjectId, estimated: 0, actual: 0 });
+        }
+        return subjects.get(subjectId)!;
+    };
+    const inRange = (timestamp: string) => {
+        const day = toDay(timestamp);
+        return day >= range.from && day <= range.to;
+    };
+
+    const liveTasks = new Map<string, Task>();
+    for (const task of tasks) {
+        if (task.deletedAt) continue;
+        liveTasks.set(task.id, task);
+
+        const estimate = task.estimateMinutes ?? 0;
+        if (estimate > 0) {
+            const dueDays = task.recurrence
+                ? getOccurrenceDates(
+                      task,
+                      task.dueDate > range.from ? task.dueDate : range.from,
+                      range.to
+                  ).length
+                : Number(task.dueDate >= range.from && task.dueDate <= range.to);
+            if (dueDays > 0) entry(task.subjectId).estimated += estimate * dueDays;
+        }
+
+        for (const time of task.timeEntries ?? []) {
+            if (inRange(time.loggedAt)) entry(task.subjectId).actual += time.minutes;
+        }
+    }
+
+    for (const session of sessions) {
+        if (!inRange(session.startedAt)) continue;
+        const task = session.taskId ? liveTasks.get(session.taskId) : undefined;
+        if (session.taskId && !task) continue; // Task was trashed or purged
+        const subjectId = task?.subjectId ?? session.subjectId;
+        if (subjectId) entry(subjectId).actual += session.duration / 60;
+    }
+
+    return [...subjects.values()].sort((a, b) => b.actual - a.actual);
+}
@@ -0,0 +1,27 @@
+/**
+ * File: toastUndoNotifier.ts
+ * Description: `UndoNotifier` implementation backed by react-native-toast-message.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import Toast from "react-native-toast-message";
+import type { UndoNotifier } from "./undoToastListener";
+
+/** Custom toast type rendered by `UndoToast` (see `toastConfig`) */
+export const UNDO_TOAST_TYPE = "undo";
+
+/** How long the undo offer stays on screen */
+const UNDO_TOAST_MS = 4000;
+
+export const toastUndoNotifier: UndoNotifier = {
+    show(message, onUndo) {
+        Toast.show({
+            type: UNDO_TOAST_TYPE,
+            text1: message,
+            position: "bottom",
+            visibilityTime: UNDO_TOAST_MS,
+            props: { onUndo }
+        });
+    }
+};
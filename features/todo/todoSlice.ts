@@ -1,33 +1,101 @@
 /**
  * File: todoSlice.ts
- * Description: Redux slice for managing tasks — add/edit/delete/toggle + storage sync.
+ * Description: Redux slice for managing tasks — add/edit/delete/toggle, time logging + loading from storage.
+ * Changes are written back by the store's persistence listener (see `features/persistence`).
  * Author: BrainDesk Team
  * Last Updated: 2025-07-11
  */
 
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { v4 as uuid } from "uuid";
-import { STORAGE_KEYS } from "@/constants/storageKeys";
+import { RecurrenceRule } from "./recurrence";
+import { normalizeTag, sanitizeTags } from "./tags";
+import type { Attachment } from "@/features/attachments/attachments";
+import { isSameData, sanitizeEstimate, validateTasks } from "@/features/backup/schema";
+import {
+    loadStorageVersion,
+    migrateDocument,
+    SCHEMA_VERSION
+} from "@/features/backup/migrations";
+import type { TaskStore } from "@/features/persistence/taskStore";
+import { applySyncMerge } from "@/features/sync/syncSlice";
+import { applyServerChanges } from "@/features/sync/serverSyncSlice";
+import { deletePriority, deleteSubject } from "@/features/settings/settingsSlice";
 
 //
 // ─── TYPES ─────────────────────────────────────────────────────────────────────
 //
 
+/** One step of a task's checklist */
+export type Subtask = {
+    id: string;
+    text: string;
+    completed: boolean;
+};
+
+/** Time logged by hand against a task */
+export type TimeEntry = {
+    id: string;
+    minutes: number;
+    /** ISO timestamp the time was logged at */
+    loggedAt: string;
+};
+
 /** A single to-do task object */
 export type Task = {
     id: string;
     text: string;
     completed: boolean;
-    subject: string;
+    /** ID of a subject in `settings.subjects` */
+    subjectId: string;
+    /** ID of a level in `settings.priorities`; see `resolvePriority` */
     priority: string;
+    /** Day the task is planned for ("YYYY-MM-DD") */
+    dueDate: string;
+    /** Optional time of day the task is due ("HH:MM") */
+    dueTime?: string | null;
+    /** ISO timestamp of creation; never changes after `addTask` */
     createdAt: string;
+    /** ISO timestamp of the last change, used to resolve import conflicts */
+    updatedAt?: string;
     completedAt?: string | null;
     deletedAt?: string | null;
+    /** Repeat rule; the series starts on `dueDate` */
+    recurrence?: RecurrenceRule | null;
+    /** Series only: days removed from the series ("YYYY-MM-DD") */
+    excludedDates?: string[];
+    /** Series only: completion timestamp per occurrence day */
+    occurrenceCompletions?: Record<string, string>;
+    /** Ordered checklist of steps */
+    subtasks?: Subtask[];
+    /** Labels across subjects, normalized (see `normalizeTag`) */
+    tags?: string[];
+    /** Free-form Markdown notes, "" when empty (see `parseNotes`) */
+    notes?: string;
+    /** Files copied into the app; see `features/attachments` */
+    attachments?: Attachment[];
+    /** Expected effort in minutes (per occurrence for a series) */
+    estimateMinutes?: number | null;
+    /** Manual time entries; focus sessions are linked via their `taskId` */
+    timeEntries?: TimeEntry[];
+};
+
+/** Fields that can be changed from the task editor */
+type TaskChanges = {
+    text: string;
+    priority: string;
+    subjectId: string;
+    dueDate?: string;
+    dueTime?: string | null;
+    subtasks?: Subtask[];
+    tags?: string[];
+    notes?: string;
+    attachments?: Attachment[];
+    estimateMinutes?: number | null;
 };
 
 /** Task slice state */
-type TodoState = {
+export type TodoState = {
     tasks: Task[];
 };
 
@@ -44,26 +112,72 @@ const initialState: TodoState = {
 //
 
 /**
- * Loads tasks from AsyncStorage into Redux.
+ * Loads tasks from a task store into Redux, replacing the whole list.
+ * There is no default store: the app loads once at startup, from SQLite
+ * (see `restoreTasks`). Tasks saved by an older schema are migrated and
+ * written back; invalid tasks are dropped by the shared validator.
  */
 export const loadTasksFromStorage = createAsyncThunk(
     "todo/loadTasks",
-    async () => {
-        const json = await AsyncStorage.getItem(STORAGE_KEYS.TASKS);
-        return json ? (JSON.parse(json) as Task[]) : [];
+    async (source: TaskStore) => {
+        const [stored, version] = await Promise.all([
+            source.load(),
+            loadStorageVersion()
+        ]);
+        if (stored.length === 0) return [];
+
+        const { tasks } = migrateDocument({ tasks: stored }, version);
+        const { value, issues } = validateTasks(tasks);
+        if (issues.length > 0) {
+            console.warn("Dropped invalid stored task data:", issues);
+        }
+        if (version < SCHEMA_VERSION) {
+            await source.upsert(value);
+        }
+        return value;
     }
 );
 
 //
-// ─── STORAGE HELPERS ───────────────────────────────────────────────────────────
+// ─── HELPERS ───────────────────────────────────────────────────────────────────
 //
 
 /**
- * Save all current tasks to AsyncStorage.
+ * Records that a task changed now.
  */
-const saveTasks = async (tasks: Task[]) => {
-    await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(tasks));
-};
+function touch(task: Task) {
+    task.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Sets completion of a task, or of one occurrence when the task is a series.
+ */
+function setCompletion(task: Task, completed: boolean, date?: string) {
+    touch(task);
+    if (task.recurrence) {
+        const day = date ?? task.dueDate;
+        const completions = { ...task.occurrenceCompletions };
+        if (completed) {
+            completions[day] = completions[day] ?? new Date().toISOString();
+        } else {
+            delete completions[day];
+        }
+        task.occurrenceCompletions = completions;
+        return;
+    }
+
+    if (task.completed !== completed) {
+        task.completed = completed;
+        task.completedAt = completed ? new Date().toISOString() : null;
+    }
+}
+
+/** Finds a task and one of its subtasks by ID */
+function findSubtask(state: TodoState, taskId: string, subtaskId: string) {
+    const task = state.tasks.find(t => t.id === taskId);
+    const subtask = task?.subtasks?.find(s => s.id === subtaskId);
+    return { task, subtask };
+}
 
 //
 // ─── REDUX SLICE ───────────────────────────────────────────────────────────────
@@ -80,95 +194,471 @@ const todoSlice = createSlice({
             state,
             action: PayloadAction<{
                 text: string;
-                subject: string;
+                subjectId: string;
                 priority: string;
-                createdAt?: string;
+                dueDate: string;
+                dueTime?: string | null;
+                recurrence?: RecurrenceRule | null;
+                subtasks?: Subtask[];
+                tags?: string[];
+                notes?: string;
+                attachments?: Attachment[];
+                estimateMinutes?: number | null;
             }>
         ) => {
+            const now = new Date().toISOString();
             const newTask: Task = {
                 id: uuid(),
                 text: action.payload.text,
-                subject: action.payload.subject,
+                subjectId: action.payload.subjectId,
                 priority: action.payload.priority,
                 completed: false,
-                createdAt: action.payload.createdAt ?? new Date().toISOString(),
+                dueDate: action.payload.dueDate,
+                dueTime: action.payload.dueTime ?? null,
+                createdAt: now,
+                updatedAt: now,
                 completedAt: null,
-                deletedAt: null
+                deletedAt: null,
+                recurrence: action.payload.recurrence ?? null,
+                subtasks: action.payload.subtasks ?? [],
+                tags: sanitizeTags(action.payload.tags ?? []),
+                notes: action.payload.notes?.trim() ?? "",
+                attachments: action.payload.attachments ?? [],
+                estimateMinutes: sanitizeEstimate(action.payload.estimateMinutes),
+                timeEntries: []
             };
             state.tasks.push(newTask);
-            saveTasks(state.tasks);
         },
 
         /**
-         * Edit text, priority, and subject of an existing task.
+         * Edit text, priority, subject, tags, notes, attachments, due date/time, estimate and recurrence
+         * of an existing task. For a series this applies to every occurrence.
+         * `createdAt` is left untouched.
          */
         editTask: (
             state,
-            action: PayloadAction<{
-                id: string;
-                text: string;
-                priority: string;
-                subject: string;
-            }>
+            action: PayloadAction<
+                TaskChanges & {
+                    id: string;
+                    recurrence?: RecurrenceRule | null;
+                }
+            >
         ) => {
             const task = state.tasks.find(t => t.id === action.payload.id);
             if (task) {
                 task.text = action.payload.text;
                 task.priority = action.payload.priority;
-                task.subject = action.payload.subject;
-                saveTasks(state.tasks);
+                task.subjectId = action.payload.subjectId;
+                if (action.payload.dueDate !== undefined) {
+                    task.dueDate = action.payload.dueDate;
+                }
+                if (action.payload.dueTime !== undefined) {
+                    task.dueTime = action.payload.dueTime;
+                }
+                if (action.payload.recurrence !== undefined) {
+                    task.recurrence = action.payload.recurrence;
+                }
+                if (action.payload.subtasks !== undefined) {
+                    task.subtasks = action.payload.subtasks;
+                }
+                if (action.payload.tags !== undefined) {
+                    task.tags = sanitizeTags(action.payload.tags);
+                }
+                if (action.payload.notes !== undefined) {
+                    task.notes = action.payload.notes.trim();
+                }
+                if (action.payload.attachments !== undefined) {
+                    task.attachments = action.payload.attachments;
+                }
+                if (action.payload.estimateMinutes !== undefined) {
+                    task.estimateMinutes = sanitizeEstimate(
+                        action.payload.estimateMinutes
+                    );
+                }
+                touch(task);
+            }
+        },
+
+        /**
+         * Edit a single occurrence of a series.
+         * The day is removed from the series and becomes a standalone task
+         * carrying the edits and the occurrence's completion state.
+         */
+        editOccurrence: (
+            state,
+            action: PayloadAction<{
+                id: string;
+                date: string;
+                changes: TaskChanges;
+            }>
+        ) => {
+            const { id, date, changes } = action.payload;
+            const series = state.tasks.find(t => t.id === id);
+            if (!series || !series.recurrence) return;
+
+            const completedAt = series.occurrenceCompletions?.[date] ?? null;
+            series.excludedDates = [...(series.excludedDates ?? []), date];
+            if (series.occurrenceCompletions) {
+                delete series.occurrenceCompletions[date];
+            }
+            touch(series);
+
+            const now = new Date().toISOString();
+            state.tasks.push({
+                id: uuid(),
+                text: changes.text,
+                subjectId: changes.subjectId,
+                priority: changes.priority,
+                completed: completedAt !== null,
+                dueDate: changes.dueDate ?? date,
+                dueTime:
+                    changes.dueTime !== undefined
+                        ? changes.dueTime
+                        : series.dueTime ?? null,
+                createdAt: now,
+                updatedAt: now,
+                completedAt,
+                deletedAt: null,
+                recurrence: null,
+                subtasks: changes.subtasks ?? series.subtasks ?? [],
+                tags: sanitizeTags(changes.tags ?? series.tags ?? []),
+                notes: (changes.notes ?? series.notes ?? "").trim(),
+                attachments: changes.attachments ?? series.attachments ?? [],
+                estimateMinutes:
+                    changes.estimateMinutes !== undefined
+                        ? sanitizeEstimate(changes.estimateMinutes)
+                        : series.estimateMinutes ?? null,
+                timeEntries: []
+            });
+        },
+
+        /**
+         * Remove a single day from a series without touching other occurrences.
+         */
+        skipOccurrence: (
+            state,
+            action: PayloadAction<{ id: string; date: string }>
+        ) => {
+            const { id, date } = action.payload;
+            const series = state.tasks.find(t => t.id === id);
+            if (!series || !series.recurrence) return;
+
+            series.excludedDates = [...(series.excludedDates ?? []), date];
+            if (series.occurrenceCompletions) {
+                delete series.occurrenceCompletions[date];
             }
+            touch(series);
         },
 
         /**
          * Toggle task completion and update `completedAt` timestamp.
+         * For a series, pass the occurrence day: only that occurrence is
+         * toggled and the series itself stays open.
          */
-        toggleTask: (state, action: PayloadAction<string>) => {
-            const task = state.tasks.find(t => t.id === action.payload);
+        toggleTask: (
+            state,
+            action: PayloadAction<string | { id: string; date: string }>
+        ) => {
+            const { id, date } =
+                typeof action.payload === "string"
+                    ? { id: action.payload, date: undefined }
+                    : action.payload;
+            const task = state.tasks.find(t => t.id === id);
+
+            if (task?.recurrence) {
+                const day = date ?? task.dueDate;
+                setCompletion(task, !task.occurrenceCompletions?.[day], day);
+            } else if (task) {
+                setCompletion(task, !task.completed);
+            }
+        },
+
+        //
+        // ─── SUBTASKS ────────────────────────────────────────────────────────
+        //
+
+        /**
+         * Append a step to a task's checklist.
+         */
+        addSubtask: (
+            state,
+            action: PayloadAction<{ taskId: string; text: string }>
+        ) => {
+            const task = state.tasks.find(t => t.id === action.payload.taskId);
             if (task) {
-                task.completed = !task.completed;
-                task.completedAt = task.completed
-                    ? new Date().toISOString()
-                    : null;
-                saveTasks(state.tasks);
+                task.subtasks = [
+                    ...(task.subtasks ?? []),
+                    { id: uuid(), text: action.payload.text, completed: false }
+                ];
+                touch(task);
+            }
+        },
+
+        /**
+         * Rename a checklist step.
+         */
+        editSubtask: (
+            state,
+            action: PayloadAction<{
+                taskId: string;
+                subtaskId: string;
+                text: string;
+            }>
+        ) => {
+            const { taskId, subtaskId, text } = action.payload;
+            const { task, subtask } = findSubtask(state, taskId, subtaskId);
+            if (task && subtask) {
+                subtask.text = text;
+                touch(task);
+            }
+        },
+
+        /**
+         * Toggle a checklist step.
+         * With `autoComplete`, the parent (or the given occurrence of a series)
+         * is completed once every step is done and reopened otherwise.
+         */
+        toggleSubtask: (
+            state,
+            action: PayloadAction<{
+                taskId: string;
+                subtaskId: string;
+                autoComplete?: boolean;
+                date?: string;
+            }>
+        ) => {
+            const { taskId, subtaskId, autoComplete, date } = action.payload;
+            const { task, subtask } = findSubtask(state, taskId, subtaskId);
+            if (!task || !subtask) return;
+
+            subtask.completed = !subtask.completed;
+            touch(task);
+
+            if (autoComplete) {
+                const allDone = (task.subtasks ?? []).every(s => s.completed);
+                setCompletion(task, allDone, date);
             }
         },
 
         /**
-         * Permanently delete a task by ID.
+         * Move a checklist step from one position to another.
+         */
+        reorderSubtasks: (
+            state,
+            action: PayloadAction<{ taskId: string; from: number; to: number }>
+        ) => {
+            const { taskId, from, to } = action.payload;
+            const task = state.tasks.find(t => t.id === taskId);
+            const subtasks = task?.subtasks;
+            if (!subtasks) return;
+            if (from < 0 || from >= subtasks.length) return;
+            if (to < 0 || to >= subtasks.length || from === to) return;
+
+            const [moved] = subtasks.splice(from, 1);
+            subtasks.splice(to, 0, moved);
+            touch(task!);
+        },
+
+        /**
+         * Remove a checklist step.
+         */
+        deleteSubtask: (
+            state,
+            action: PayloadAction<{ taskId: string; subtaskId: string }>
+        ) => {
+            const task = state.tasks.find(t => t.id === action.payload.taskId);
+            if (task?.subtasks) {
+                task.subtasks = task.subtasks.filter(
+                    s => s.id !== action.payload.subtaskId
+                );
+                touch(task);
+            }
+        },
+
+        //
+        // ─── TIME TRACKING ───────────────────────────────────────────────────
+        //
+
+        /**
+         * Log time spent on a task by hand.
+         * For a series, `loggedAt` decides which occurrence it counts towards.
+         */
+        logTime: {
+            reducer(
+                state,
+                action: PayloadAction<{
+                    taskId: string;
+                    minutes: number;
+                    loggedAt: string;
+                }>
+            ) {
+                const { taskId, minutes, loggedAt } = action.payload;
+                const task = state.tasks.find(t => t.id === taskId);
+                const valid = sanitizeEstimate(minutes);
+                if (!task || valid === null) return;
+
+                task.timeEntries = [
+                    ...(task.timeEntries ?? []),
+                    { id: uuid(), minutes: valid, loggedAt }
+                ];
+                touch(task);
+            },
+            prepare(payload: {
+                taskId: string;
+                minutes: number;
+                loggedAt?: string;
+            }) {
+                return {
+                    payload: {
+                        ...payload,
+                        loggedAt: payload.loggedAt ?? new Date().toISOString()
+                    }
+                };
+            }
+        },
+
+        /**
+         * Remove a manual time entry.
+         */
+        deleteTimeEntry: (
+            state,
+            action: PayloadAction<{ taskId: string; entryId: string }>
+        ) => {
+            const task = state.tasks.find(t => t.id === action.payload.taskId);
+            if (task?.timeEntries) {
+                task.timeEntries = task.timeEntries.filter(
+                    e => e.id !== action.payload.entryId
+                );
+                touch(task);
+            }
+        },
+
+        /**
+         * Rename a tag on every task, trash included. Renaming to a tag that
+         * already exists merges the two.
+         */
+        renameTag: (state, action: PayloadAction<{ from: string; to: string }>) => {
+            const to = normalizeTag(action.payload.to);
+            const { from } = action.payload;
+            if (!to || to === from) return;
+
+            for (const task of state.tasks) {
+                if (task.tags?.includes(from)) {
+                    task.tags = sanitizeTags(task.tags.map(t => (t === from ? to : t)));
+                    touch(task);
+                }
+            }
+        },
+
+        /**
+         * Remove a tag from every task, trash included.
+         */
+        deleteTag: (state, action: PayloadAction<string>) => {
+            for (const task of state.tasks) {
+                if (task.tags?.includes(action.payload)) {
+                    task.tags = task.tags.filter(t => t !== action.payload);
+                    touch(task);
+                }
+            }
+        },
+
+        /**
+         * Move a task to the trash by setting `deletedAt`.
+         * Trashed tasks stay in state until purged so they can be restored.
          */
         deleteTask: (state, action: PayloadAction<string>) => {
-            state.tasks = state.tasks.filter(t => t.id !== action.payload);
-            saveTasks(state.tasks);
+            const task = state.tasks.find(t => t.id === action.payload);
+            if (task && !task.deletedAt) {
+                task.deletedAt = new Date().toISOString();
+                task.updatedAt = task.deletedAt;
+            }
         },
 
         /**
-         * Merge external task list into state, avoiding duplicates by ID.
+         * Bring a trashed task back.
          */
-        mergeTasks: (state, action: PayloadAction<Task[]>) => {
-            const incomingTasks = action.payload.filter(
-                t =>
-                    t &&
-                    typeof t.id === "string" &&
-                    typeof t.text === "string" &&
-                    typeof t.subject === "string" &&
-                    typeof t.priority === "string" &&
-                    typeof t.createdAt === "string"
+        restoreTask: (state, action: PayloadAction<string>) => {
+            const task = state.tasks.find(t => t.id === action.payload);
+            if (task) {
+                task.deletedAt = null;
+                touch(task);
+            }
+        },
+
+        /**
+         * Permanently delete a trashed task by ID.
+         */
+        purgeTask: (state, action: PayloadAction<string>) => {
+            state.tasks = state.tasks.filter(
+                t => !(t.id === action.payload && t.deletedAt)
             );
+        },
 
+        /**
+         * Permanently delete every trashed task.
+         */
+        emptyTrash(state) {
+            state.tasks = state.tasks.filter(t => !t.deletedAt);
+        },
+
+        /**
+         * Permanently delete tasks trashed before the given ISO timestamp.
+         */
+        purgeExpiredTrash: (state, action: PayloadAction<string>) => {
+            const cutoff = Date.parse(action.payload);
+            const kept = state.tasks.filter(
+                t => !t.deletedAt || Date.parse(t.deletedAt) >= cutoff
+            );
+            if (kept.length !== state.tasks.length) {
+                state.tasks = kept;
+            }
+        },
+
+        /**
+         * Merge external task list into state, avoiding duplicates by ID.
+         * Incoming tasks of any schema version are migrated, then checked by
+         * the shared validator; invalid tasks and fields are dropped.
+         */
+        mergeTasks: (state, action: PayloadAction<unknown[]>) => {
+            const { tasks } = migrateDocument({ tasks: action.payload }, 0);
+            const incomingTasks = validateTasks(tasks).value;
             const existingIds = new Set(state.tasks.map(t => t.id));
             const newTasks = incomingTasks.filter(t => !existingIds.has(t.id));
 
             state.tasks = [...state.tasks, ...newTasks];
-            saveTasks(state.tasks);
         },
 
         /**
-         * Clear all tasks from memory and disk.
+         * Insert tasks, replacing existing ones with the same ID.
+         * Used by import once conflicts have been resolved.
+         */
+        upsertTasks: (state, action: PayloadAction<unknown[]>) => {
+            const { tasks } = migrateDocument({ tasks: action.payload }, 0);
+            const incoming = new Map(
+                validateTasks(tasks).value.map(t => [t.id, t])
+            );
+
+            state.tasks = state.tasks.map(t => {
+                const replacement = incoming.get(t.id);
+                incoming.delete(t.id);
+                return replacement ?? t;
+            });
+            state.tasks.push(...incoming.values());
+        },
+
+        /**
+         * Replace the whole task list, e.g. when restoring a backup as-is.
+         */
+        replaceTasks: (state, action: PayloadAction<unknown[]>) => {
+            const { tasks } = migrateDocument({ tasks: action.payload }, 0);
+            state.tasks = validateTasks(tasks).value;
+        },
+
+        /**
+         * Clear all tasks.
          */
         clearTasks(state) {
             state.tasks = [];
-            AsyncStorage.removeItem(STORAGE_KEYS.TASKS);
         }
     },
 
@@ -180,6 +670,55 @@ const todoSlice = createSlice({
         builder.addCase(loadTasksFromStorage.fulfilled, (state, action) => {
             state.tasks = action.payload;
         });
+        builder.addCase(applySyncMerge, (state, action) => {
+            state.tasks = action.payload.tasks;
+        });
+        // Tasks of a deleted subject move to the chosen one, trash included;
+        // `removeSubject` only deletes without a target when no task has it
+        builder.addCase(deleteSubject, (state, action) => {
+            const { id, reassignTo } = action.payload;
+            if (!reassignTo || reassignTo === id) return;
+            for (const task of state.tasks) {
+                if (task.subjectId === id) {
+                    task.subjectId = reassignTo;
+                    touch(task);
+                }
+            }
+        });
+        // Target already checked against the levels by `removePriority`
+        builder.addCase(deletePriority, (state, action) => {
+            const { id, reassignTo } = action.payload;
+            if (reassignTo === id) return;
+            for (const task of state.tasks) {
+                if (task.priority === id) {
+                    task.priority = reassignTo;
+                    touch(task);
+                }
+            }
+        });
+        // A pull also returns this device's own pushed changes; echoes that
+        // match the local copy leave the list untouched, so the undo history
+        // (reset by any outside change to `tasks`) survives a sync
+        builder.addCase(applyServerChanges, (state, action) => {
+            const { tasks, removed } = action.payload;
+            const current = new Map(state.tasks.map(t => [t.id, t]));
+            const gone = new Set(removed.filter(id => current.has(id)));
+            const changed = new Map(
+                tasks
+                    .filter(t => !isSameData(t, current.get(t.id)))
+                    .map(t => [t.id, t])
+            );
+            if (gone.size === 0 && changed.size === 0) return;
+
+            state.tasks = state.tasks
+                .filter(t => !gone.has(t.id))
+                .map(t => {
+                    const replacement = changed.get(t.id);
+                    changed.delete(t.id);
+                    return replacement ?? t;
+                });
+            state.tasks.push(...changed.values());
+        });
     }
 });
 
@@ -190,9 +729,26 @@ const todoSlice = createSlice({
 export const {
     addTask,
     editTask,
+    editOccurrence,
+    skipOccurrence,
     toggleTask,
+    addSubtask,
+    editSubtask,
+    toggleSubtask,
+    reorderSubtasks,
+    deleteSubtask,
+    logTime,
+    deleteTimeEntry,
+    renameTag,
+    deleteTag,
     deleteTask,
+    restoreTask,
+    purgeTask,
+    emptyTrash,
+    purgeExpiredTrash,
     mergeTasks,
+    upsertTasks,
+    replaceTasks,
     clearTasks
 } = todoSlice.actions;
 
@@ -0,0 +1,157 @@
+/**
+ * File: undoHistory.ts
+ * Description: Reducer enhancer that keeps a bounded undo/redo history of the
+ * task list. Only `tasks` is snapshotted; the history itself is never persisted.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { createAction, isAnyOf, Reducer, UnknownAction } from "@reduxjs/toolkit";
+import {
+    addTask,
+    editTask,
+    editOccurrence,
+    skipOccurrence,
+    toggleTask,
+    addSubtask,
+    editSubtask,
+    toggleSubtask,
+    reorderSubtasks,
+    deleteSubtask,
+    logTime,
+    deleteTimeEntry,
+    renameTag,
+    deleteTag,
+    deleteTask,
+    restoreTask,
+    purgeTask,
+    emptyTrash,
+    mergeTasks,
+    upsertTasks,
+    replaceTasks,
+    clearTasks,
+    Task,
+    TodoState
+} from "./todoSlice";
+
+//
+// ─── TYPES ─────────────────────────────────────────────────────────────────────
+//
+
+/** Task snapshots before (`past`) and after (`future`) the current list */
+export type TaskHistory = {
+    past: Task[][];
+    future: Task[][];
+};
+
+/** Todo state with its undo history attached */
+export type UndoableTodoState = TodoState & {
+    history: TaskHistory;
+};
+
+//
+// ─── ACTIONS ───────────────────────────────────────────────────────────────────
+//
+
+/** Maximum number of snapshots kept in each direction */
+export const UNDO_LIMIT = 50;
+
+export const undo = createAction("todo/undo");
+export const redo = createAction("todo/redo");
+
+/** User-driven task mutations that can be stepped back */
+const isUndoable = isAnyOf(
+    addTask,
+    editTask,
+    editOccurrence,
+    skipOccurrence,
+    toggleTask,
+    addSubtask,
+    editSubtask,
+    toggleSubtask,
+    reorderSubtasks,
+    deleteSubtask,
+    logTime,
+    deleteTimeEntry,
+    renameTag,
+    deleteTag,
+    deleteTask,
+    restoreTask,
+    purgeTask,
+    emptyTrash,
+    mergeTasks,
+    upsertTasks,
+    replaceTasks,
+    clearTasks
+);
+
+const emptyHistory: TaskHistory = { past: [], future: [] };
+
+//
+// ─── ENHANCER ──────────────────────────────────────────────────────────────────
+//
+
+/**
+ * Wraps the todo reducer with undo/redo support.
+ * Undoable actions push the previous task list onto `past` and clear `future`.
+ * Any other change to `tasks` (hydration, retention purge) resets the history,
+ * so undo never resurrects tasks the app removed on its own.
+ *
+ * @param reducer - The plain todo slice reducer
+ * @param limit - Maximum number of snapshots kept
+ * @returns Reducer whose state carries a `history` field
+ */
+export function undoable(
+    reducer: Reducer<TodoState>,
+    limit = UNDO_LIMIT
+): Reducer<UndoableTodoState> {
+    return (state: UndoableTodoState | undefined, action: UnknownAction) => {
+        if (state && undo.match(action)) {
+            const { past, future } = state.history;
+            const previous = past[past.length - 1];
+            if (!previous) return state;
+
+            return {
+                ...state,
+                tasks: previous,
+                history: {
+                    past: past.slice(0, -1),
+                    future: [state.tasks, ...future].slice(0, limit)
+                }
+            };
+        }
+
+        if (state && redo.match(action)) {
+            const { past, future } = state.history;
+            const [next, ...rest] = future;
+            if (!next) return state;
+
+            return {
+                ...state,
+                tasks: next,
+                history: {
+                    past: [...past, state.tasks].slice(-limit),
+                    future: rest
+                }
+            };
+        }
+
+        const history = state?.history ?? emptyHistory;
+        const next = reducer(state, action);
+
+        if (next === state) return state;
+        if (!state || next.tasks === state.tasks) return { ...next, history };
+
+        if (isUndoable(action)) {
+            return {
+                ...next,
+                history: {
+                    past: [...history.past, state.tasks].slice(-limit),
+                    future: []
+                }
+            };
+        }
+
+        return { ...next, history: emptyHistory };
+    };
+}
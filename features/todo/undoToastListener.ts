@@ -0,0 +1,88 @@
+/**
+ * File: undoToastListener.ts
+ * Description: Store listener that offers an "Undo" toast after destructive
+ * task operations. The toast itself is platform code behind `UndoNotifier`.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import {
+    isAnyOf,
+    ListenerMiddlewareInstance,
+    UnknownAction
+} from "@reduxjs/toolkit";
+import {
+    deleteTask,
+    deleteTag,
+    skipOccurrence,
+    purgeTask,
+    emptyTrash,
+    clearTasks
+} from "./todoSlice";
+import { undo, UndoableTodoState } from "./undoHistory";
+
+/** Shows a short message with an "Undo" action */
+export interface UndoNotifier {
+    show(message: string, onUndo: () => void): void;
+}
+
+/** Slice of root state the listener reads */
+type UndoState = {
+    todo: UndoableTodoState;
+};
+
+/**
+ * Message shown in the toast for a destructive action.
+ *
+ * @param action - Matched destructive action
+ * @returns Short, user-facing description
+ */
+export function describeUndoable(action: UnknownAction): string {
+    if (deleteTask.match(action)) return "Task moved to trash";
+    if (deleteTag.match(action)) return `Tag "${action.payload}" removed`;
+    if (skipOccurrence.match(action)) return "Occurrence skipped";
+    if (purgeTask.match(action)) return "Task deleted forever";
+    if (emptyTrash.match(action)) return "Trash emptied";
+    return "All tasks deleted";
+}
+
+/**
+ * Registers the undo toast listener on a listener middleware.
+ * The toast only undoes its own action: if something else was done in the
+ * meantime, pressing "Undo" is a no-op.
+ *
+ * @param startListening - `startListening` of the store's listener middleware
+ * @param notifier - Platform toast used to offer the undo
+ * @returns Function that removes the listener
+ */
+export function startUndoToastListener(
+    startListening: ListenerMiddlewareInstance["startListening"],
+    notifier: UndoNotifier
+) {
+    return startListening({
+        matcher: isAnyOf(
+            deleteTask,
+            deleteTag,
+            skipOccurrence,
+            purgeTask,
+            emptyTrash,
+            clearTasks
+        ),
+        effect: (action, listenerApi) => {
+            const before = listenerApi.getOriginalState() as UndoState;
+            const after = listenerApi.getState() as UndoState;
+            if (before.todo.tasks === after.todo.tasks) return; // Nothing to undo
+
+            // Snapshot pushed by this action; undo only while it is still on top
+            const { past } = after.todo.history;
+            const snapshot = past[past.length - 1];
+
+            notifier.show(describeUndoable(action), () => {
+                const current = (listenerApi.getState() as UndoState).todo.history.past;
+                if (current[current.length - 1] === snapshot) {
+                    listenerApi.dispatch(undo());
+                }
+            });
+        }
+    });
+}
@@ -0,0 +1,39 @@
+/**
+ * File: hooks/useDailyActivity.ts
+ * Description: Hook exposing per-day activity and the streak summary for the
+ * user's daily goal.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { useMemo } from "react";
+import dayjs from "dayjs";
+import { useAppSelector } from "@/store/hooks";
+import { buildDailyActivity, computeStreaks } from "@/features/stats/streaks";
+import { getFocusMinutesByDay } from "@/features/focus/focusTimer";
+
+/**
+ * useDailyActivity
+ *
+ * Memoizes `buildDailyActivity` and `computeStreaks` over the task list and the
+ * focus session log so the calendar and the streak banner share one computation
+ * per render.
+ */
+export const useDailyActivity = () => {
+  const tasks = useAppSelector(state => state.todo.tasks);
+  const goal = useAppSelector(state => state.settings.dailyGoal);
+  const sessions = useAppSelector(state => state.sessions.sessions);
+  const today = dayjs().format("YYYY-MM-DD");
+
+  const minutesByDay = useMemo(() => getFocusMinutesByDay(sessions), [sessions]);
+  const activity = useMemo(
+    () => buildDailyActivity(tasks, today, minutesByDay),
+    [tasks, today, minutesByDay]
+  );
+  const streaks = useMemo(
+    () => computeStreaks(activity, goal, today),
+    [activity, goal, today]
+  );
+
+  return { activity, streaks, goal, today };
+};
@@ -0,0 +1,52 @@
+/**
+ * File: hooks/useFocusTimer.ts
+ * Description: Hook that exposes the running focus phase and its remaining time.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { useEffect, useState } from "react";
+import { AppState } from "react-native";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { finishPhase } from "@/features/focus/sessionsSlice";
+import { getRemainingMs } from "@/features/focus/focusTimer";
+
+/** How often the countdown re-renders */
+const TICK_MS = 1000;
+
+/**
+ * useFocusTimer
+ *
+ * Re-renders every second while a phase runs. The remaining time is always
+ * recomputed from the wall clock, so missed ticks (e.g. while the app was in
+ * the background) don't drift; the phase is finished as soon as it is over.
+ */
+export const useFocusTimer = () => {
+  const dispatch = useAppDispatch();
+  const timer = useAppSelector(state => state.sessions.timer);
+  const [now, setNow] = useState(() => new Date().toISOString());
+
+  useEffect(() => {
+    if (!timer) return;
+
+    const tick = () => setNow(new Date().toISOString());
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    const subscription = AppState.addEventListener("change", status => {
+      if (status === "active") tick();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [timer]);
+
+  const remainingMs = timer ? getRemainingMs(timer, now) : 0;
+
+  useEffect(() => {
+    if (timer && remainingMs === 0) dispatch(finishPhase());
+  }, [timer, remainingMs]);
+
+  return { timer, remainingMs };
+};
@@ -0,0 +1,79 @@
+/**
+ * File: httpServer.ts
+ * Description: Node HTTP binding of the sync service. Reads the request
+ * body, hands the request to the service and writes its JSON answer back.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { createServer, IncomingMessage, Server } from "node:http";
+import type { SyncService } from "../features/sync/syncService";
+
+/** Largest request body accepted (a full batch of large tasks fits easily) */
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+/** How long the rest of an oversized body is drained before the connection is cut */
+const DRAIN_TIMEOUT_MS = 5000;
+
+/**
+ * Reads the whole body as UTF-8, or null when it's too large. The rest of an
+ * oversized body is read and dropped, so the 413 answer reaches the client
+ * instead of a reset connection.
+ */
+function readBody(request: IncomingMessage): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        request.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                chunks.length = 0;
+                resolve(null);
+                return;
+            }
+            chunks.push(chunk);
+        });
+        request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        request.on("error", reject);
+    });
+}
+
+/**
+ * Creates an HTTP server for the sync service; call `listen` to start it.
+ *
+ * @param service - Service that answers the requests
+ */
+export function createSyncHttpServer(service: SyncService): Server {
+    return createServer(async (request, response) => {
+        const send = (status: number, body: unknown) => {
+            response.writeHead(status, { "Content-Type": "application/json" });
+            response.end(JSON.stringify(body));
+        };
+
+        try {
+            const body = await readBody(request);
+            if (body === null) {
+                // Closing while the client still sends would reset the connection
+                // before it reads the answer, so drain for a while, then close
+                response.setHeader("Connection", "close");
+                const cut = setTimeout(() => request.destroy(), DRAIN_TIMEOUT_MS);
+                cut.unref();
+                request.on("close", () => clearTimeout(cut));
+                send(413, { error: "Request body too large." });
+                return;
+            }
+
+            const { status, body: answer } = service.handle({
+                method: request.method ?? "GET",
+                url: request.url ?? "/",
+                authorization: request.headers.authorization,
+                body
+            });
+            send(status, answer);
+        } catch (error) {
+            console.error("Sync request failed:", error);
+            send(500, { error: "Internal server error." });
+        }
+    });
+}
@@ -0,0 +1,47 @@
+/**
+ * File: index.ts
+ * Description: Reference sync server for self-hosting, e.g. one per class.
+ * Start it with `npm run sync-server`; configuration comes from the
+ * environment:
+ *
+ *   BRAINDESK_SYNC_TOKENS  Comma-separated tokens; each one gets its own data
+ *   PORT                   Port to listen on (default 8787)
+ *   BRAINDESK_SYNC_DATA    JSON file the data is kept in (default: memory only)
+ *
+ * It speaks plain HTTP; put it behind a TLS proxy before using it outside a
+ * trusted network.
+ * Author: BrainDesk Team
+ * Created: 2026-10-19
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { createSyncService } from "../features/sync/syncService";
+import { createSyncHttpServer } from "./httpServer";
+
+const tokens = (process.env.BRAINDESK_SYNC_TOKENS ?? "")
+    .split(",")
+    .map((token: string) => token.trim())
+    .filter(Boolean);
+const port = Number(process.env.PORT ?? 8787);
+const dataFile = process.env.BRAINDESK_SYNC_DATA;
+
+if (tokens.length === 0) {
+    console.error("Set BRAINDESK_SYNC_TOKENS to at least one token.");
+    process.exit(1);
+}
+
+// Written to a temporary file first, so a crash never leaves half a file
+const save = () => {
+    if (!dataFile) return;
+    writeFileSync(`${dataFile}.tmp`, JSON.stringify(service.snapshot()));
+    renameSync(`${dataFile}.tmp`, dataFile);
+};
+
+const service = createSyncService({ tokens, onChange: save });
+if (dataFile && existsSync(dataFile)) {
+    service.restore(JSON.parse(readFileSync(dataFile, "utf8")));
+}
+
+createSyncHttpServer(service).listen(port, () => {
+    console.log(`BrainDesk sync server listening on port ${port} for ${tokens.length} token(s)`);
+});
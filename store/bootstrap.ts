@@ -1,23 +1,46 @@
 /**
  * File: store/bootstrap.ts
- * Description: Initializes the app state by loading settings and tasks from AsyncStorage.
+ * Description: Initializes the app state by loading settings and focus sessions from
+ * AsyncStorage and tasks from SQLite (migrating older schemas and moving tasks out of
+ * AsyncStorage on the first launch after the switch), purging expired trash, taking the daily
+ * backup snapshot, syncing with the sync server if one is set up, and scheduling the daily
+ * reminder.
  * Author: BrainDesk Team
  * Last Updated: 2025-07-11
  */
 
-import { store } from "@/store";
+import dayjs from "dayjs";
+import * as Application from "expo-application";
+import { store, taskStorage, taskStore } from "@/store";
 import {
   loadSettings,
   loadSettingsFromStorage
 } from "@/features/settings/settingsSlice";
+import { purgeExpiredTrash } from "@/features/todo/todoSlice";
 import {
-  loadTasksFromStorage
-} from "@/features/todo/todoSlice"; // ✅ Async thunk
+  finishPhase,
+  loadSessionsFromStorage
+} from "@/features/focus/sessionsSlice";
+import { loadSync, loadSyncFromStorage } from "@/features/sync/syncSlice";
+import {
+  loadServerSync,
+  loadServerSyncFromStorage
+} from "@/features/sync/serverSyncSlice";
+import { requestServerSync } from "@/features/sync/serverSyncListener";
+import { saveStorageVersion } from "@/features/backup/migrations";
+import { restoreTasks } from "@/features/persistence/restoreTasks";
+import { asyncStorageTaskStore } from "@/features/persistence/asyncStorageTaskStore";
+import { isDailySnapshotDue, takeSnapshot } from "@/features/backup/snapshots";
+import { expoSnapshotStore } from "@/features/backup/expoSnapshotStore";
+import { syncDailyReminder } from "@/features/notifications/notificationService";
+import { expoNotificationScheduler } from "@/features/notifications/expoNotificationScheduler";
 
 /**
  * bootstrapApp
  *
- * Loads persisted settings and tasks from AsyncStorage into Redux store.
+ * Loads persisted settings, tasks and focus sessions from AsyncStorage into Redux store,
+ * purges trash older than the retention period, takes the first snapshot of the
+ * day, then (re)schedules the daily reminder from the loaded settings.
  * Called during app startup (e.g. in root layout).
  */
 export async function bootstrapApp() {
@@ -26,8 +49,57 @@ export async function bootstrapApp() {
     const savedSettings = await loadSettingsFromStorage();
     store.dispatch(loadSettings(savedSettings));
 
-    // ✅ Load tasks using async thunk (ensures fulfillment in extraReducers)
-    await store.dispatch(loadTasksFromStorage());
+    // 🔄 Sync bookkeeping before tasks, so the trash purge below is stamped
+    store.dispatch(loadSync(await loadSyncFromStorage()));
+    // Unsent changes for the sync server, so later ones are queued after them
+    store.dispatch(loadServerSync(await loadServerSyncFromStorage()));
+
+    // 🗄 Tasks kept in AsyncStorage by earlier versions move to SQLite once, then load
+    await restoreTasks(store, asyncStorageTaskStore, taskStore, taskStorage);
+
+    // ⏱ Restore focus sessions; a phase that ended while the app was closed is logged now
+    await store.dispatch(loadSessionsFromStorage());
+    store.dispatch(finishPhase());
+
+    // 🧬 Loaders have written migrated data back; record the current schema
+    await saveStorageVersion();
+
+    // 🗑 Permanently remove tasks that outlived the trash retention period
+    const retentionDays = store.getState().settings.trashRetentionDays;
+    if (retentionDays > 0) {
+      const cutoff = dayjs().subtract(retentionDays, "day").toISOString();
+      store.dispatch(purgeExpiredTrash(cutoff));
+    }
+
+    const { settings, todo, sessions } = store.getState();
+
+    // 📸 First launch of the day keeps a snapshot to fall back on
+    try {
+      if (
+        settings.snapshotsToKeep > 0 &&
+        (await isDailySnapshotDue(expoSnapshotStore))
+      ) {
+        await takeSnapshot(
+          expoSnapshotStore,
+          { tasks: todo.tasks, settings, sessions: sessions.sessions },
+          "daily",
+          settings.snapshotsToKeep,
+          Application.nativeApplicationVersion || "1.0.0"
+        );
+      }
+    } catch (error) {
+      console.error("Daily snapshot failed", error);
+    }
+
+    // 🔄 Send what was queued offline and fetch what changed meanwhile
+    store.dispatch(requestServerSync());
+
+    // 🔔 Reschedule so the next reminder lists the tasks of the day it fires
+    await syncDailyReminder(
+      expoNotificationScheduler,
+      settings.notificationTime,
+      todo.tasks
+    );
   } catch (error) {
     console.error("App bootstrap failed", error);
   }
@@ -6,9 +6,99 @@
  * Last Updated: 2025-07-11
  */
 
-import { configureStore } from "@reduxjs/toolkit";
+import { configureStore, createListenerMiddleware } from "@reduxjs/toolkit";
+import * as Application from "expo-application";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import todoReducer from "@/features/todo/todoSlice";
+import { undoable } from "@/features/todo/undoHistory";
+import { startUndoToastListener } from "@/features/todo/undoToastListener";
+import { toastUndoNotifier } from "@/features/todo/toastUndoNotifier";
 import settingsReducer from "@/features/settings/settingsSlice";
+import sessionsReducer from "@/features/focus/sessionsSlice";
+import syncReducer from "@/features/sync/syncSlice";
+import { startSyncListener } from "@/features/sync/syncListener";
+import serverSyncReducer from "@/features/sync/serverSyncSlice";
+import {
+    startServerAutoSync,
+    startServerSyncListener
+} from "@/features/sync/serverSyncListener";
+import { createHttpTransport } from "@/features/sync/syncTransport";
+import { startReminderListener } from "@/features/notifications/reminderListener";
+import { expoNotificationScheduler } from "@/features/notifications/expoNotificationScheduler";
+import { startFocusListener } from "@/features/focus/focusListener";
+import { startSnapshotListener } from "@/features/backup/snapshotListener";
+import { expoSnapshotStore } from "@/features/backup/expoSnapshotStore";
+import { startAttachmentCleanupListener } from "@/features/attachments/attachmentCleanupListener";
+import { expoAttachmentStore } from "@/features/attachments/expoAttachmentStore";
+import { createStorageWriter } from "@/features/persistence/storageWriter";
+import { startPersistenceListener } from "@/features/persistence/persistenceListener";
+import { reportSaveError } from "@/features/persistence/toastSaveErrorReporter";
+import { taskListStorage } from "@/features/persistence/taskStore";
+import { expoSqliteTaskStore } from "@/features/persistence/expoSqliteTaskStore";
+
+// ==========================
+// Side-effect Listeners
+// ==========================
+
+const listenerMiddleware = createListenerMiddleware();
+
+// Debounced, ordered writes to AsyncStorage; flushed when the app is backgrounded
+export const storageWriter = createStorageWriter(AsyncStorage, {
+    onError: reportSaveError
+});
+
+// Tasks live in SQLite, one row each, so a change only writes what it touched
+export const taskStore = expoSqliteTaskStore;
+export const taskStorage = taskListStorage(taskStore);
+export const taskWriter = createStorageWriter(taskStorage, {
+    onError: reportSaveError
+});
+
+/** Writes everything still pending in either writer */
+export const flushStorage = () =>
+    Promise.all([storageWriter.flush(), taskWriter.flush()]);
+
+// Stamps task changes so sync bundles can be merged field by field
+startSyncListener(listenerMiddleware.startListening);
+
+// Queues task and settings changes for the sync server and sends them shortly after
+startServerSyncListener(listenerMiddleware.startListening);
+startServerAutoSync(listenerMiddleware.startListening, config =>
+    createHttpTransport(config)
+);
+
+// Writes tasks, settings, focus and sync data back whenever they change
+startPersistenceListener(
+    listenerMiddleware.startListening,
+    storageWriter,
+    taskWriter
+);
+
+// Keeps the daily reminder in sync with settings and today's tasks
+startReminderListener(
+    listenerMiddleware.startListening,
+    expoNotificationScheduler
+);
+
+// Offers an "Undo" toast after destructive task operations
+startUndoToastListener(listenerMiddleware.startListening, toastUndoNotifier);
+
+// Notifies when a focus phase ends, even if the app is in the background
+startFocusListener(listenerMiddleware.startListening, expoNotificationScheduler);
+
+// Keeps a snapshot of the data from right before a reset or import
+startSnapshotListener(
+    listenerMiddleware.startListening,
+    expoSnapshotStore,
+    Application.nativeApplicationVersion || "1.0.0"
+);
+
+// Deletes attachment files once no task, undo step or snapshot refers to them
+startAttachmentCleanupListener(
+    listenerMiddleware.startListening,
+    expoAttachmentStore,
+    expoSnapshotStore
+);
 
 // ==========================
 // Configure Store
@@ -16,9 +106,14 @@ import settingsReducer from "@/features/settings/settingsSlice";
 
 export const store = configureStore({
     reducer: {
-        todo: todoReducer,        // Task-related state
-        settings: settingsReducer // App settings (theme, subjects, notifications)
-    }
+        todo: undoable(todoReducer), // Tasks plus in-memory undo history
+        settings: settingsReducer, // App settings (theme, subjects, notifications)
+        sessions: sessionsReducer, // Focus timer and logged focus sessions
+        sync: syncReducer, // Device ID and change log for device-to-device sync
+        serverSync: serverSyncReducer // Sync server setup and queue of unsent changes
+    },
+    middleware: getDefaultMiddleware =>
+        getDefaultMiddleware().prepend(listenerMiddleware.middleware)
 });
 
 // ==========================
@@ -26,4 +121,4 @@ export const store = configureStore({
 // ==========================
 
 export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
+export type AppDispatch = typeof store.dispatch;